@@ -4,6 +4,7 @@ import { DirectorAgent } from './src/agents/director-agent.js';
 import { EditorAgent } from './src/agents/editor-agent.js';
 import { CriticAgent } from './src/agents/critic-agent.js';
 import { DualBudgetManager } from './src/lib/dual-budget-manager.js';
+import { SceneGraphBuilder } from './src/lib/scene-graph-builder.js';
 import chalk from 'chalk';
 import * as fs from 'fs/promises';
 import * as path from 'path';
@@ -268,6 +269,17 @@ function resolveDependencies(agents: any[]): any[] {
   return result;
 }
 
+// 並列実行された Asset Synthesizer の出力からアセットを集める
+function collectAssets(inputData: any): any[] {
+  const allAssets = [];
+  for (const key of Object.keys(inputData)) {
+    if (key.includes('assetManifest')) {
+      allAssets.push(...inputData[key].assets);
+    }
+  }
+  return allAssets;
+}
+
 async function executeAgent(agent: any, config: any, inputData: any): Promise<{ output: any; summary: any }> {
   switch (config.type) {
     case 'concept-planner':
@@ -297,12 +309,7 @@ async function executeAgent(agent: any, config: any, inputData: any): Promise<{
       
     case 'director':
       // 並列実行されたアセットを統合
-      const allAssets = [];
-      for (const key of Object.keys(inputData)) {
-        if (key.includes('assetManifest')) {
-          allAssets.push(...inputData[key].assets);
-        }
-      }
+      const allAssets = collectAssets(inputData);
       
       const directorInput = {
         sceneId: inputData.shotPlan.sceneId,
@@ -325,38 +332,16 @@ async function executeAgent(agent: any, config: any, inputData: any): Promise<{
       };
       
     case 'editor':
-      const mockSceneGraph = {
-        "@context": "https://schema.motiva.dev/scene-graph/v2",
-        "@id": "test-scene",
-        "type": "Comp" as const,
-        "fps": 30,
-        "duration": 900,
-        "size": { "w": 1920, "h": 1080 },
-        "layers": [
-          { "ref": "footage_1", "start": 0 },
-          { "ref": "footage_2", "start": 120 }
-        ]
-      };
-      const editorPatch = await agent.run(mockSceneGraph);
+      const { sceneGraph } = await new SceneGraphBuilder().build(inputData.directorOutput, collectAssets(inputData));
+      const editorPatch = await agent.run(sceneGraph);
       return {
         output: { editorPatch },
         summary: { patchCount: editorPatch.length }
       };
       
     case 'critic':
-      const mockSceneGraphForCritic = {
-        "@context": "https://schema.motiva.dev/scene-graph/v2",
-        "@id": "test-scene",
-        "type": "Comp" as const,
-        "fps": 30,
-        "duration": 900,
-        "size": { "w": 1920, "h": 1080 },
-        "layers": [
-          { "ref": "footage_1", "start": 0 },
-          { "ref": "footage_2", "start": 120 }
-        ]
-      };
-      const criticReport = await agent.run(mockSceneGraphForCritic);
+      const { sceneGraph: sceneGraphForCritic } = await new SceneGraphBuilder().build(inputData.directorOutput, collectAssets(inputData));
+      const criticReport = await agent.run(sceneGraphForCritic);
       return {
         output: { criticReport },
         summary: { score: criticReport.overallScore }
@@ -5,6 +5,7 @@ import { EditorAgent } from './src/agents/editor-agent.js';
 import { CriticAgent } from './src/agents/critic-agent.js';
 import { DualBudgetManager } from './src/lib/dual-budget-manager.js';
 import { EventDrivenOrchestrator } from './src/lib/event-driven-orchestrator.js';
+import { SceneGraphBuilder } from './src/lib/scene-graph-builder.js';
 import chalk from 'chalk';
 import * as fs from 'fs/promises';
 import * as path from 'path';
@@ -248,38 +249,16 @@ async function executeAgent(agent: any, config: any, inputData: any): Promise<{
       };
       
     case 'editor':
-      const mockSceneGraph = {
-        "@context": "https://schema.motiva.dev/scene-graph/v2",
-        "@id": "test-scene",
-        "type": "Comp" as const,
-        "fps": 30,
-        "duration": 900,
-        "size": { "w": 1920, "h": 1080 },
-        "layers": [
-          { "ref": "footage_1", "start": 0 },
-          { "ref": "footage_2", "start": 120 }
-        ]
-      };
-      const editorPatch = await agent.run(mockSceneGraph);
+      const { sceneGraph } = await new SceneGraphBuilder().build(inputData.directorOutput, inputData.assetManifest?.assets);
+      const editorPatch = await agent.run(sceneGraph);
       return {
         output: { editorPatch },
         summary: { patchCount: editorPatch.length }
       };
       
     case 'critic':
-      const mockSceneGraphForCritic = {
-        "@context": "https://schema.motiva.dev/scene-graph/v2",
-        "@id": "test-scene",
-        "type": "Comp" as const,
-        "fps": 30,
-        "duration": 900,
-        "size": { "w": 1920, "h": 1080 },
-        "layers": [
-          { "ref": "footage_1", "start": 0 },
-          { "ref": "footage_2", "start": 120 }
-        ]
-      };
-      const criticReport = await agent.run(mockSceneGraphForCritic);
+      const { sceneGraph: sceneGraphForCritic } = await new SceneGraphBuilder().build(inputData.directorOutput, inputData.assetManifest?.assets);
+      const criticReport = await agent.run(sceneGraphForCritic);
       return {
         output: { criticReport },
         summary: { score: criticReport.overallScore }
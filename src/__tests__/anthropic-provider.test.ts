@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { z } from 'zod';
+import { AnthropicProvider } from '../lib/llm-provider.js';
+
+interface RecordedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+const ShotSchema = z.object({
+  id: z.string(),
+  len: z.number().int().positive()
+});
+
+describe('AnthropicProvider', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  const requests: RecordedRequest[] = [];
+  let nextResponse: { status: number; body: any; delayMs?: number } = { status: 200, body: {} };
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let raw = '';
+      req.on('data', chunk => { raw += chunk; });
+      req.on('end', () => {
+        requests.push({ headers: req.headers, body: JSON.parse(raw) });
+        const { status, body, delayMs = 0 } = nextResponse;
+        setTimeout(() => {
+          res.writeHead(status, { 'content-type': 'application/json' });
+          res.end(JSON.stringify(body));
+        }, delayMs);
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  function createProvider(): AnthropicProvider {
+    return new AnthropicProvider({ apiKey: 'test-key', baseUrl });
+  }
+
+  it('ツール使用でスキーマ準拠のJSONを生成し、使用量とコストを報告する', async () => {
+    nextResponse = {
+      status: 200,
+      body: {
+        model: 'claude-3-5-sonnet-latest',
+        content: [{ type: 'tool_use', id: 'toolu_1', name: 'shot_schema', input: { id: 's1', len: 90 } }],
+        usage: { input_tokens: 1000, output_tokens: 200 }
+      }
+    };
+
+    const response = await createProvider().generateJSON({
+      model: 'claude-3-5-sonnet',
+      systemPrompt: 'system',
+      userInput: 'input',
+      maxTokens: 512,
+      schemaName: 'shot_schema'
+    }, ShotSchema);
+
+    expect(response.data).toEqual({ id: 's1', len: 90 });
+    expect(response.provider).toBe('anthropic');
+    expect(response.tokensUsed).toBe(1200);
+    expect(response.costUSD).toBeCloseTo((1000 * 3 + 200 * 15) / 1_000_000);
+    expect(response.duration).toBeGreaterThanOrEqual(0);
+
+    const recorded = requests.at(-1)!;
+    expect(recorded.headers['x-api-key']).toBe('test-key');
+    expect(recorded.headers['anthropic-version']).toBe('2023-06-01');
+    expect(recorded.body.model).toBe('claude-3-5-sonnet-latest');
+    expect(recorded.body.system).toBe('system');
+    expect(recorded.body.max_tokens).toBe(512);
+    expect(recorded.body.tool_choice).toEqual({ type: 'tool', name: 'shot_schema' });
+    expect(recorded.body.tools[0].input_schema.required).toEqual(['id', 'len']);
+  });
+
+  it('配列スキーマはラップしたツール入力から取り出す', async () => {
+    nextResponse = {
+      status: 200,
+      body: {
+        content: [{ type: 'tool_use', id: 'toolu_2', name: 'response_schema', input: { result: [{ id: 'a', len: 1 }] } }],
+        usage: { input_tokens: 10, output_tokens: 5 }
+      }
+    };
+
+    const response = await createProvider().generateJSON(
+      { model: 'claude-3-5-haiku', systemPrompt: 's', userInput: 'u' },
+      z.array(ShotSchema)
+    );
+
+    expect(response.data).toEqual([{ id: 'a', len: 1 }]);
+    expect(requests.at(-1)!.body.tools[0].input_schema.properties.result.type).toBe('array');
+  });
+
+  it('スキーマに合わない出力は検証エラーにする', async () => {
+    nextResponse = {
+      status: 200,
+      body: {
+        content: [{ type: 'tool_use', id: 'toolu_3', name: 'response_schema', input: { id: 's1', len: -5 } }],
+        usage: { input_tokens: 10, output_tokens: 5 }
+      }
+    };
+
+    await expect(createProvider().generateJSON(
+      { model: 'claude-3-5-haiku', systemPrompt: 's', userInput: 'u' },
+      ShotSchema
+    )).rejects.toThrow(/スキーマ検証エラー: len/);
+  });
+
+  it('テキスト生成とAPIエラーのステータスを扱う', async () => {
+    nextResponse = {
+      status: 200,
+      body: {
+        content: [{ type: 'text', text: 'こんにちは' }, { type: 'text', text: '世界' }],
+        usage: { input_tokens: 3, output_tokens: 2 }
+      }
+    };
+    const text = await createProvider().generateText({ model: 'claude-3-haiku', systemPrompt: 's', userInput: 'u' });
+    expect(text.data).toBe('こんにちは世界');
+
+    nextResponse = { status: 400, body: { type: 'error', error: { type: 'invalid_request_error', message: 'bad input' } } };
+    await expect(createProvider().generateText({ model: 'claude-3-haiku', systemPrompt: 's', userInput: 'u' }))
+      .rejects.toMatchObject({ status: 400, message: expect.stringContaining('bad input') });
+  });
+
+  it('応答が遅いリクエストはタイムアウトで取り消してリトライし、呼び出し元の中断は再試行しない', async () => {
+    const text = { content: [{ type: 'text', text: 'ok' }], usage: { input_tokens: 1, output_tokens: 1 } };
+    const provider = new AnthropicProvider({ apiKey: 'test-key', baseUrl, timeoutMs: 30 });
+
+    nextResponse = { status: 200, body: text, delayMs: 200 };
+    const before = requests.length;
+    await expect(provider.generateText({ model: 'claude-3-haiku', systemPrompt: 's', userInput: 'u' }))
+      .rejects.toThrow('30ms でタイムアウトしました');
+    expect(requests.length - before).toBe(3);
+
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 20);
+    const started = requests.length;
+    await expect(createProvider().generateText({ model: 'claude-3-haiku', systemPrompt: 's', userInput: 'u', signal: controller.signal }))
+      .rejects.toMatchObject({ name: 'AbortError' });
+    expect(requests.length - started).toBe(1);
+  }, 10000);
+
+  it('APIキーが無い場合は利用不可と判定する', () => {
+    const previous = process.env.ANTHROPIC_API_KEY;
+    delete process.env.ANTHROPIC_API_KEY;
+    expect(new AnthropicProvider({ baseUrl }).isAvailable()).toBe(false);
+    expect(createProvider().isAvailable()).toBe(true);
+    if (previous !== undefined) process.env.ANTHROPIC_API_KEY = previous;
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import * as os from 'os';
+import { beatSyncPlan } from '../lib/beat-sync.js';
+import { detectTimelineIssues } from '../lib/timeline-repair.js';
+import { buildPipelineConfig } from '../lib/pipeline-definition.js';
+import { estimatePipeline } from '../lib/pipeline-estimator.js';
+import { DualBudgetManager } from '../lib/dual-budget-manager.js';
+import { EventDrivenOrchestrator } from '../lib/event-driven-orchestrator.js';
+import { PipelineConfigSchema, ShotPlan, ShotPlanSchema } from '../schemas/index.js';
+
+// 30fps・120bpm で1拍15フレーム、1小節60フレーム
+const plan: ShotPlan = {
+  sceneId: 'scene-1',
+  duration: 200,
+  theme: 'テスト',
+  shots: [
+    { id: 's1', start: 0, len: 47, desc: 'a' },
+    { id: 's2', start: 47, len: 54, desc: 'b' },
+    { id: 's3', start: 101, len: 99, desc: 'c' }
+  ],
+  bgm: { style: 'pop', bpm: 120 }
+};
+
+describe('beatSyncPlan', () => {
+  it('ショットの境界を許容範囲内の拍に合わせ、移動したショットを報告する', () => {
+    const result = beatSyncPlan(plan, { fps: 30 });
+
+    expect(result.interval).toBe(15);
+    expect(result.plan.shots.map(shot => [shot.start, shot.len])).toEqual([[0, 45], [45, 60], [105, 90]]);
+    expect(result.moved).toEqual([
+      { shotId: 's1', from: { start: 0, len: 47 }, to: { start: 0, len: 45 } },
+      { shotId: 's2', from: { start: 47, len: 54 }, to: { start: 45, len: 60 } },
+      { shotId: 's3', from: { start: 101, len: 99 }, to: { start: 105, len: 90 } }
+    ]);
+    expect(result.unsynced).toEqual([]);
+    expect(result.plan.duration).toBe(195);
+    expect(result.warnings).toEqual(['総尺を 200 から 195 フレームに変更しました']);
+  });
+
+  it('許容範囲外の境界は移動せず、拍から外れたショットとして報告する', () => {
+    const result = beatSyncPlan(plan, { fps: 30, unit: 'bar' });
+
+    expect(result.interval).toBe(60);
+    expect(result.moved).toEqual([]);
+    expect(result.unsynced).toEqual(['s1', 's2', 's3']);
+    expect(result.plan).toEqual(plan);
+
+    const wide = beatSyncPlan(plan, { fps: 30, unit: 'bar', tolerance: 20 });
+    expect(wide.plan.shots.map(shot => [shot.start, shot.len])).toEqual([[0, 60], [60, 60], [120, 60]]);
+  });
+
+  it('長さが0になるショットは前後の境界ごと移動せず、隙間・重なりを作らない', () => {
+    const short: ShotPlan = {
+      ...plan,
+      duration: 150,
+      shots: [
+        { id: 's1', start: 0, len: 100, desc: 'a' },
+        { id: 's2', start: 100, len: 4, desc: 'b' },
+        { id: 's3', start: 104, len: 46, desc: 'c' }
+      ]
+    };
+    const result = beatSyncPlan(short, { fps: 30 });
+
+    expect(result.plan.shots).toEqual(short.shots);
+    expect(result.moved).toEqual([]);
+    expect(result.unsynced).toEqual(['s1', 's3']);
+    expect(result.warnings).toEqual(['ショット "s2" は拍に合わせると長さが0になるため、前後の境界とともに移動しませんでした']);
+    expect(detectTimelineIssues(result.plan)).toEqual([]);
+  });
+
+  it('bgm.bpm が無い場合はエラー', () => {
+    const { bgm: _bgm, ...withoutBgm } = plan;
+    expect(() => beatSyncPlan(withoutBgm, { fps: 30 })).toThrow('bgm.bpm が無い');
+  });
+});
+
+describe('beat-sync パイプラインステップ', () => {
+  const definition = PipelineConfigSchema.parse({
+    name: 'beat-synced',
+    agents: [
+      { name: 'planner', type: 'concept-planner', config: { model: 'gpt-4o-mini' } },
+      { name: 'beat-sync', type: 'beat-sync', config: { beatSync: { unit: 'bar', tolerance: 10 } }, dependencies: ['planner'] }
+    ]
+  });
+
+  it('LLMを呼ばないローカル処理として組み立てられ、コストを見込まない', async () => {
+    const config = await buildPipelineConfig(definition);
+    const step = config.agents[1]!;
+
+    expect(step.run).toBeTypeOf('function');
+    expect(step.systemPrompt).toBe('');
+    expect(step.model).toBe('beat-sync');
+
+    const estimate = await estimatePipeline(definition, { budgetManager: new DualBudgetManager(os.tmpdir()) });
+    expect(estimate.agents[1]).toMatchObject({ name: 'beat-sync', provider: 'local', tokens: 0, costUSD: 0, wallTimeSec: 0 });
+  });
+
+  it('Orchestrator はローカル処理の出力をスキーマで検証して結果に記録する', async () => {
+    const orchestrator = new EventDrivenOrchestrator(new DualBudgetManager(os.tmpdir()));
+    const result = await orchestrator.executePipeline({
+      agents: [{
+        name: 'beat-sync',
+        model: 'beat-sync',
+        systemPrompt: '',
+        inputSchema: ShotPlanSchema,
+        outputSchema: ShotPlanSchema,
+        run: async (input: ShotPlan) => beatSyncPlan(input, { fps: 30 }).plan
+      }]
+    }, plan);
+
+    expect(result.success).toBe(true);
+    expect(result.data.duration).toBe(195);
+    expect(result.results[0]).toMatchObject({ status: 'success', provider: 'local', tokensUsed: 0, costUSD: 0 });
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { gzipSync, gunzipSync } from 'zlib';
+import { CacheManager } from '../lib/cache-manager.js';
+import { exportCacheArchive, importCacheArchive } from '../lib/cache-archive.js';
+
+describe('キャッシュのエクスポート/インポート', () => {
+  let workDir: string;
+  let source: (namespace: string) => CacheManager;
+  let target: (namespace: string) => CacheManager;
+  let archivePath: string;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'motiva-cache-archive-'));
+    source = namespace => new CacheManager(path.join(workDir, 'source'), 100, { namespace });
+    target = namespace => new CacheManager(path.join(workDir, 'target'), 100, { namespace });
+    archivePath = path.join(workDir, 'cache.motiva-cache');
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('名前空間・タグで絞り込んで書き出し、別のキャッシュに取り込める', async () => {
+    await source('llm').set('plan-1', { shots: 3 }, 60_000, { tags: ['shot_plan_schema'] });
+    await source('llm').set('critic-1', { score: 80 }, 60_000, { tags: ['critic_report_schema'] });
+    await source('assets').set('plan-1', 'asset');
+
+    const exported = await exportCacheArchive(source('llm'), archivePath, { namespace: 'llm', tag: 'shot_plan_schema' });
+    expect(exported.entries).toBe(1);
+
+    const report = await importCacheArchive(target('llm'), archivePath);
+    expect(report).toEqual({ imported: 1, unchanged: 0, skippedExpired: 0, conflicts: [] });
+    expect(await target('llm').get('plan-1')).toEqual({ shots: 3 });
+    expect(await target('llm').get('critic-1')).toBeNull();
+    expect(await target('assets').get('plan-1')).toBeNull();
+  });
+
+  it('作成からの経過時間で絞り込み、取り込み時に期限切れのエントリを省略する', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(0);
+    await source('llm').set('old', 'old', 10 * 60_000);
+    vi.setSystemTime(5 * 60_000);
+    await source('llm').set('short', 'short', 60_000);
+    await source('llm').set('long', 'long', 60 * 60_000);
+
+    const exported = await exportCacheArchive(source('llm'), archivePath, { maxAgeMs: 60_000 });
+    expect(exported.entries).toBe(2);
+
+    // 取り込みまでに short の有効期限が切れる
+    vi.setSystemTime(7 * 60_000);
+    const report = await importCacheArchive(target('llm'), archivePath);
+    expect(report).toMatchObject({ imported: 1, skippedExpired: 1 });
+    expect(await target('llm').get('long')).toBe('long');
+  });
+
+  it('内容の異なる既存エントリは競合として報告し、overwrite 指定時のみ上書きする', async () => {
+    await source('llm').set('same', 1);
+    await source('llm').set('differs', 'from archive');
+    await exportCacheArchive(source('llm'), archivePath);
+
+    await target('llm').set('same', 1);
+    await target('llm').set('differs', 'local');
+
+    const kept = await importCacheArchive(target('llm'), archivePath);
+    expect(kept).toEqual({
+      imported: 0,
+      unchanged: 1,
+      skippedExpired: 0,
+      conflicts: [{ namespace: 'llm', key: 'differs', resolution: 'kept' }]
+    });
+    expect(await target('llm').get('differs')).toBe('local');
+
+    const overwritten = await importCacheArchive(target('llm'), archivePath, { overwrite: true });
+    expect(overwritten.conflicts).toEqual([{ namespace: 'llm', key: 'differs', resolution: 'overwritten' }]);
+    expect(await target('llm').get('differs')).toBe('from archive');
+  });
+
+  it('改ざんされたアーカイブは何も取り込まずに拒否する', async () => {
+    await source('llm').set('a', 'original');
+    await source('llm').set('b', 'original');
+    await exportCacheArchive(source('llm'), archivePath);
+
+    const archive = JSON.parse(gunzipSync(await fs.readFile(archivePath)).toString('utf8'));
+    archive.entries[1].payload = archive.entries[1].payload.replace('original', 'tampered');
+    await fs.writeFile(archivePath, gzipSync(JSON.stringify(archive)));
+
+    await expect(importCacheArchive(target('llm'), archivePath)).rejects.toThrow('ハッシュが一致しません');
+    expect(await target('llm').listEntries()).toEqual([]);
+  });
+});
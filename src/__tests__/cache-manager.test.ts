@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { gunzipSync } from 'zlib';
+import { CacheManager } from '../lib/cache-manager.js';
+import { CacheConfigSchema } from '../lib/define-config.js';
+
+describe('CacheManager', () => {
+  let cacheDir: string;
+
+  beforeEach(async () => {
+    cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'motiva-cache-'));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+    await fs.rm(cacheDir, { recursive: true, force: true });
+  });
+
+  it('名前空間のディレクトリに圧縮して保存し、設定変更後も読み込める', async () => {
+    const gzipCache = new CacheManager(cacheDir, 100, { namespace: 'llm' });
+    await gzipCache.set('key', { text: 'こんにちは' });
+
+    const stored = await fs.readFile(path.join(cacheDir, 'llm', 'key.json.gz'));
+    expect(JSON.parse(gunzipSync(stored).toString('utf8')).data).toEqual({ text: 'こんにちは' });
+
+    const brotliCache = new CacheManager(cacheDir, 100, { namespace: 'llm', compression: 'brotli' });
+    expect(await brotliCache.get('key')).toEqual({ text: 'こんにちは' });
+
+    // 別の名前空間の同じキーとは衝突しない
+    expect(await new CacheManager(cacheDir, 100, { namespace: 'plans' }).get('key')).toBeNull();
+  });
+
+  it('上限を超えると最後のアクセスが最も古いエントリから削除する', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    // 約0.65KBのエントリを上限1.6KB（2件分）に3件保存する
+    const cache = new CacheManager(cacheDir, 1.6 / 1024, { namespace: 'assets', compression: 'none' });
+    const payload = (seed: number) => Array.from({ length: 150 }, (_, i) => ((seed + i) * 7919).toString(36)).join('');
+
+    vi.setSystemTime(1_000);
+    await cache.set('a', payload(1));
+    vi.setSystemTime(2_000);
+    await cache.set('b', payload(2));
+    vi.setSystemTime(3_000);
+    // 古い方の a を参照すると、作成順ではなくアクセス順で b が退避対象になる
+    expect(await cache.get('a')).toBe(payload(1));
+    vi.setSystemTime(4_000);
+    await cache.set('c', payload(3));
+
+    expect(await cache.get('a')).toBe(payload(1));
+    expect(await cache.get('b')).toBeNull();
+    expect(await cache.get('c')).toBe(payload(3));
+  });
+
+  it('名前空間を指定したクリアは他の名前空間を残す', async () => {
+    const llm = new CacheManager(cacheDir, 100, { namespace: 'llm' });
+    const plans = new CacheManager(cacheDir, 100, { namespace: 'plans' });
+    await llm.set('x', 1);
+    await llm.set('y', 2);
+    await plans.set('x', 3);
+
+    expect((await llm.getStats()).namespaces).toMatchObject({ llm: { files: 2 }, plans: { files: 1 } });
+
+    await llm.clear('llm');
+    expect(await llm.get('x')).toBeNull();
+    expect(await plans.get('x')).toBe(3);
+    expect(await llm.getStats('llm')).toMatchObject({ totalFiles: 0 });
+    expect(await llm.getStats()).toMatchObject({ totalFiles: 1 });
+  });
+
+  it('期限切れのエントリとインデックスに無い旧形式のファイルをクリーンアップで削除する', async () => {
+    const cache = new CacheManager(cacheDir, 100, { namespace: 'llm' });
+    await cache.set('fresh', 'ok');
+    await cache.set('stale', 'old', -1);
+    await fs.writeFile(path.join(cacheDir, 'legacy.json'), '{}');
+
+    await cache.cleanup();
+
+    const remaining = await fs.readdir(cacheDir, { recursive: true });
+    expect(remaining.sort()).toEqual(['index.json', 'llm', path.join('llm', 'fresh.json.gz')]);
+    expect(await cache.get('fresh')).toBe('ok');
+  });
+
+  it('不正な名前空間は拒否する', () => {
+    expect(() => new CacheManager(cacheDir, 100, { namespace: '../escape' })).toThrow('不正なキャッシュ名前空間');
+  });
+
+  it('旧形式の compression: true / false はそれぞれ gzip / none として読み込む', () => {
+    expect(CacheConfigSchema.parse({ compression: true }).compression).toBe('gzip');
+    expect(CacheConfigSchema.parse({ compression: false }).compression).toBe('none');
+    expect(CacheConfigSchema.parse({}).compression).toBe('gzip');
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { z } from 'zod';
+import { CacheManager } from '../lib/cache-manager.js';
+import { CachingLLMProvider, LLMCacheSettings } from '../lib/caching-provider.js';
+import { EventDrivenOrchestrator } from '../lib/event-driven-orchestrator.js';
+import { DualBudgetManager } from '../lib/dual-budget-manager.js';
+import { llmProviderManager, LLMProvider, LLMRequest, LLMResponse } from '../lib/llm-provider.js';
+
+const ShotSchema = z.object({ id: z.string() });
+
+/**
+ * 呼び出し回数を数えるテスト用プロバイダー
+ */
+class CountingProvider implements LLMProvider {
+  name = 'cache-test';
+  calls = 0;
+
+  async generateJSON<T>(request: LLMRequest, schema: z.ZodSchema<T>): Promise<LLMResponse<T>> {
+    this.calls++;
+    return {
+      data: schema.parse({ id: `shot-${this.calls}` }),
+      tokensUsed: 120,
+      promptTokens: 100,
+      completionTokens: 20,
+      costUSD: 0.01,
+      provider: this.name,
+      model: request.model,
+      duration: 5
+    };
+  }
+
+  async generateText(request: LLMRequest): Promise<LLMResponse<string>> {
+    throw new Error('not used');
+  }
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  getSupportedModels(): string[] {
+    return ['cache-test-model'];
+  }
+}
+
+const request: LLMRequest = {
+  model: 'cache-test-model',
+  systemPrompt: 'system',
+  userInput: 'input',
+  temperature: 0.2,
+  schemaName: 'shot_schema'
+};
+
+describe('CachingLLMProvider', () => {
+  let cacheDir: string;
+  let inner: CountingProvider;
+  let settings: LLMCacheSettings;
+
+  beforeEach(async () => {
+    cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'motiva-llm-cache-'));
+    inner = new CountingProvider();
+    settings = { cacheManager: new CacheManager(cacheDir), ttlMs: 60_000, maxTemperature: 0.7 };
+  });
+
+  afterEach(async () => {
+    await fs.rm(cacheDir, { recursive: true, force: true });
+  });
+
+  it('同じリクエストはキャッシュからコスト0で返す', async () => {
+    const provider = new CachingLLMProvider(inner, settings);
+
+    const first = await provider.generateJSON(request, ShotSchema);
+    const second = await provider.generateJSON(request, ShotSchema);
+
+    expect(inner.calls).toBe(1);
+    expect(first).toMatchObject({ costUSD: 0.01, tokensUsed: 120 });
+    expect(first.cached).toBeUndefined();
+    expect(second).toMatchObject({ data: { id: 'shot-1' }, costUSD: 0, tokensUsed: 0, cached: true, provider: 'cache-test' });
+  });
+
+  it('モデル・temperature・maxTokens・システムプロンプト・入力・スキーマ名が異なればキャッシュしない', async () => {
+    const provider = new CachingLLMProvider(inner, settings);
+    await provider.generateJSON(request, ShotSchema);
+
+    for (const changed of [
+      { temperature: 0.3 },
+      { maxTokens: 100 },
+      { systemPrompt: 'other system' },
+      { userInput: 'other input' },
+      { schemaName: 'other_schema' }
+    ]) {
+      await provider.generateJSON({ ...request, ...changed }, ShotSchema);
+    }
+
+    expect(inner.calls).toBe(6);
+  });
+
+  it('temperature がしきい値を超える場合と TTL 切れの場合はプロバイダーを呼び出す', async () => {
+    const creative = new CachingLLMProvider(inner, settings);
+    await creative.generateJSON({ ...request, temperature: 0.9 }, ShotSchema);
+    await creative.generateJSON({ ...request, temperature: 0.9 }, ShotSchema);
+    expect(inner.calls).toBe(2);
+
+    const expired = new CachingLLMProvider(inner, { ...settings, ttlMs: -1 });
+    await expired.generateJSON(request, ShotSchema);
+    await expired.generateJSON(request, ShotSchema);
+    expect(inner.calls).toBe(4);
+  });
+
+  it('フォールバックチェーンの後ろのプロバイダーのキャッシュも見つける', async () => {
+    const fallback = Object.assign(new CountingProvider(), { name: 'cache-test-fallback' });
+    llmProviderManager.registerProvider(inner.name, inner);
+    llmProviderManager.registerProvider(fallback.name, fallback);
+    await new CachingLLMProvider(fallback, settings).generateJSON(request, ShotSchema);
+
+    const cached = await llmProviderManager.findCachedJSON(['cache-test', 'cache-test-fallback'], request, ShotSchema, settings);
+
+    expect(cached).toMatchObject({ data: { id: 'shot-1' }, provider: 'cache-test-fallback', costUSD: 0 });
+    expect(await llmProviderManager.findCachedJSON('cache-test', request, ShotSchema, settings)).toBeUndefined();
+    expect(inner.calls).toBe(0);
+  });
+
+  it('Orchestrator はキャッシュヒットを結果にコスト0として記録する', async () => {
+    llmProviderManager.registerProvider(inner.name, inner);
+    const orchestrator = new EventDrivenOrchestrator();
+    const config = {
+      agents: [{
+        name: 'planner',
+        model: 'cache-test-model',
+        temperature: 0.2,
+        systemPrompt: 'system',
+        inputSchema: z.string(),
+        outputSchema: ShotSchema,
+        schemaName: 'shot_schema'
+      }],
+      useCache: true
+    };
+
+    const first = await orchestrator.executePipeline(config, 'theme', { cache: settings });
+    const second = await orchestrator.executePipeline(config, 'theme', { cache: settings });
+
+    expect(inner.calls).toBe(1);
+    expect(first.results[0]).toMatchObject({ costUSD: 0.01, tokensUsed: 120 });
+    expect(second.results[0]).toMatchObject({ status: 'success', costUSD: 0, tokensUsed: 0, cached: true, output: { id: 'shot-1' } });
+
+    // 予算を使い切っていてもキャッシュヒットは予約せずに返す
+    await fs.mkdir(path.join(cacheDir, '.motiva'));
+    await fs.writeFile(path.join(cacheDir, '.motiva', 'dual-budget.json'), JSON.stringify({
+      tiers: { test: { monthly: 1, tokens: 1000, wallTimeSec: 3600 } },
+      current: 'test',
+      usage: { tokens: 1000, costUSD: 1, wallTimeSec: 0, startTime: 0 },
+      alerts: { warningAt: 0.8, stopAt: 0.95 },
+      limits: { maxConcurrency: 3, maxWallTimePerRequest: 300 }
+    }));
+    const exhausted = new EventDrivenOrchestrator(new DualBudgetManager(cacheDir));
+
+    const third = await exhausted.executePipeline(config, 'theme', { cache: settings });
+    expect(third.results[0]).toMatchObject({ status: 'success', cached: true });
+    const uncached = await exhausted.executePipeline(config, 'other theme', { cache: settings });
+    expect(uncached.success).toBe(false);
+    expect(inner.calls).toBe(1);
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { z } from 'zod';
+import { LLMProviderManager, LLMProvider, LLMRequest, LLMResponse } from '../lib/llm-provider.js';
+
+/**
+ * 呼び出し回数を数えるテスト用プロバイダー
+ */
+class CountingProvider implements LLMProvider {
+  name = 'cassette-live';
+  calls = 0;
+
+  async generateJSON<T>(request: LLMRequest, schema: z.ZodSchema<T>): Promise<LLMResponse<T>> {
+    this.calls++;
+    return {
+      data: schema.parse({ title: `${request.userInput}の映像`, shots: 3 }),
+      tokensUsed: 42,
+      costUSD: 0.01,
+      provider: this.name,
+      model: request.model,
+      duration: 5
+    };
+  }
+
+  async generateText(request: LLMRequest): Promise<LLMResponse<string>> {
+    this.calls++;
+    return { data: 'こんにちは', tokensUsed: 3, costUSD: 0, provider: this.name, model: request.model, duration: 1 };
+  }
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  getSupportedModels(): string[] {
+    return ['cassette-model'];
+  }
+}
+
+const PlanSchema = z.object({ title: z.string(), shots: z.number() });
+const request: LLMRequest = {
+  model: 'cassette-model',
+  systemPrompt: 'system',
+  userInput: '桜',
+  schemaName: 'plan_schema'
+};
+
+describe('LLM呼び出しの記録・再生', () => {
+  let workDir: string;
+  let cassettePath: string;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'motiva-cassette-'));
+    cassettePath = path.join(workDir, 'cassettes', 'pipeline.json');
+    process.env.MOTIVA_LLM_CASSETTE = cassettePath;
+  });
+
+  afterEach(async () => {
+    delete process.env.MOTIVA_LLM_MODE;
+    delete process.env.MOTIVA_LLM_CASSETTE;
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  function createManager(mode: 'record' | 'replay'): { manager: LLMProviderManager; live: CountingProvider } {
+    process.env.MOTIVA_LLM_MODE = mode;
+    const manager = new LLMProviderManager();
+    const live = new CountingProvider();
+    manager.registerProvider(live.name, live);
+    return { manager, live };
+  }
+
+  it('記録したレスポンスをオフラインで再生する', async () => {
+    const recorder = createManager('record');
+    const recorded = await recorder.manager.generateJSONWithFallback('cassette-model', request, PlanSchema);
+    await recorder.manager.getProvider('cassette-live').generateText({ ...request, schemaName: undefined });
+    expect(recorder.live.calls).toBe(2);
+
+    const cassette = JSON.parse(await fs.readFile(cassettePath, 'utf8'));
+    const keys = Object.keys(cassette.entries);
+    expect(keys).toHaveLength(2);
+    expect(keys.some(key => key.startsWith('cassette-model:') && key.endsWith(':plan_schema'))).toBe(true);
+
+    const player = createManager('replay');
+    const replayed = await player.manager.generateJSONWithFallback('cassette-live:cassette-model', request, PlanSchema);
+    const text = await player.manager.getProvider('cassette-live').generateText({ ...request, schemaName: undefined });
+
+    expect(player.live.calls).toBe(0);
+    expect(replayed.data).toEqual(recorded.data);
+    expect(replayed.tokensUsed).toBe(42);
+    expect(replayed.provider).toBe('cassette-live');
+    expect(text.data).toBe('こんにちは');
+  });
+
+  it('記録の無いリクエストは再生時にエラーにする', async () => {
+    const recorder = createManager('record');
+    await recorder.manager.generateJSONWithFallback('cassette-model', request, PlanSchema);
+
+    const player = createManager('replay');
+    await expect(player.manager.generateJSONWithFallback('cassette-model', { ...request, userInput: '海' }, PlanSchema))
+      .rejects.toThrow(/カセットに記録がありません: model=cassette-model, schema=plan_schema/);
+    await expect(player.manager.generateJSONWithFallback('cassette-model', { ...request, schemaName: 'other_schema' }, PlanSchema))
+      .rejects.toThrow('カセットに記録がありません');
+  });
+
+  it('設定が不正な場合は起動時ではなくLLMの呼び出し時にエラーにする', async () => {
+    delete process.env.MOTIVA_LLM_CASSETTE;
+    const missing = createManager('replay');
+    await expect(missing.manager.generateJSONWithFallback('cassette-model', request, PlanSchema)).rejects.toThrow('MOTIVA_LLM_CASSETTE');
+
+    process.env.MOTIVA_LLM_MODE = 'playback';
+    const manager = new LLMProviderManager();
+    const live = new CountingProvider();
+    manager.registerProvider(live.name, live);
+    await expect(manager.getProvider('cassette-live').generateText(request)).rejects.toThrow('MOTIVA_LLM_MODE の値が不正です: playback');
+    expect(live.calls).toBe(0);
+    expect(missing.live.calls).toBe(0);
+  });
+});
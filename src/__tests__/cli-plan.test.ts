@@ -0,0 +1,54 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execFile } from 'child_process';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { promisify } from 'util';
+import { ShotPlanSchema } from '../schemas/index.js';
+
+const ROOT = fileURLToPath(new URL('../..', import.meta.url));
+
+/**
+ * CLI（src/index.ts）を作業ディレクトリで実行し、標準入力にテーマを渡す
+ */
+async function runCli(cwd: string, args: string[], input: string): Promise<{ stdout: string; stderr: string }> {
+  const run = promisify(execFile)(
+    path.join(ROOT, 'node_modules', '.bin', 'vite-node'),
+    ['--root', ROOT, path.join(ROOT, 'src', 'index.ts'), '--', ...args],
+    { cwd, env: { ...process.env, NODE_ENV: 'test' }, timeout: 60_000 }
+  );
+  run.child.stdin?.end(input);
+  return run;
+}
+
+describe('motiva-compose plan', () => {
+  let workDir: string;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'motiva-cli-'));
+    await fs.mkdir(path.join(workDir, '.motiva'));
+    await fs.writeFile(path.join(workDir, '.motiva', 'dual-budget.json'), JSON.stringify({
+      tiers: { test: { monthly: 1, tokens: 100000, wallTimeSec: 3600 } },
+      current: 'test',
+      usage: { tokens: 0, costUSD: 0, wallTimeSec: 0, startTime: 0 },
+      alerts: { warningAt: 0.8, stopAt: 0.95 },
+      limits: { maxConcurrency: 3, maxWallTimePerRequest: 300 }
+    }));
+  });
+
+  afterEach(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('標準入力のテーマからショットプランを生成し、予算の使用量を記録する', async () => {
+    const { stdout } = await runCli(workDir, ['plan', '--model', 'mock', '--output', 'plan.json'], '夕焼けの海');
+
+    expect(stdout).toContain('プランを plan.json に保存しました');
+    const plan = ShotPlanSchema.parse(JSON.parse(await fs.readFile(path.join(workDir, 'plan.json'), 'utf8')));
+    expect(plan.shots.length).toBeGreaterThan(0);
+
+    const budget = JSON.parse(await fs.readFile(path.join(workDir, '.motiva', 'dual-budget.json'), 'utf8'));
+    expect(budget.usage.tokens).toBeGreaterThan(0);
+  }, 60_000);
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { DualBudgetManager, BudgetExceededError, CostEstimate } from '../lib/dual-budget-manager.js';
+import { ErrorClassifier, ErrorType } from '../lib/error-classifier.js';
+
+const estimate: CostEstimate = { tokens: 300, estimatedCost: 0.01, estimatedWallTime: 10 };
+
+describe('DualBudgetManager 予約', () => {
+  let workDir: string;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'motiva-budget-'));
+    await fs.mkdir(path.join(workDir, '.motiva'));
+    await fs.writeFile(path.join(workDir, '.motiva', 'dual-budget.json'), JSON.stringify({
+      tiers: { test: { monthly: 1, tokens: 1000, wallTimeSec: 3600 } },
+      current: 'test',
+      usage: { tokens: 0, costUSD: 0, wallTimeSec: 0, startTime: 0 },
+      alerts: { warningAt: 0.8, stopAt: 0.95 },
+      limits: { maxConcurrency: 3, maxWallTimePerRequest: 300 }
+    }));
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  async function readUsage() {
+    const budget = JSON.parse(await fs.readFile(path.join(workDir, '.motiva', 'dual-budget.json'), 'utf8'));
+    return budget.usage;
+  }
+
+  it('同時に予約しても未確定分を含めて stopAt を超えない', async () => {
+    const managers = [new DualBudgetManager(workDir), new DualBudgetManager(workDir)];
+    const outcomes = await Promise.allSettled(
+      Array.from({ length: 5 }, (_, i) => managers[i % 2]!.reserve(estimate, `agent-${i}`))
+    );
+
+    const granted = outcomes.filter(outcome => outcome.status === 'fulfilled');
+    const denied = outcomes.filter((outcome): outcome is PromiseRejectedResult => outcome.status === 'rejected');
+    expect(granted).toHaveLength(3);
+    expect(denied).toHaveLength(2);
+    expect(denied[0]!.reason).toBeInstanceOf(BudgetExceededError);
+    expect(denied[0]!.reason.check.usageRates.maxRate).toBeGreaterThanOrEqual(0.95);
+  });
+
+  it('確定で実使用量を記録し、解放で予約分を戻す', async () => {
+    const manager = new DualBudgetManager(workDir);
+    const first = await manager.reserve(estimate);
+    const second = await manager.reserve(estimate);
+    const third = await manager.reserve(estimate);
+    await expect(manager.reserve(estimate)).rejects.toThrow(BudgetExceededError);
+
+    await manager.commit(first, { tokens: 120, cost: 0.002, wallTime: 3 });
+    await manager.release(second);
+    await manager.release(third);
+    // 確定済みの予約に対する解放は何もしない
+    await manager.release(first);
+
+    expect(await readUsage()).toMatchObject({ tokens: 120, costUSD: 0.002, wallTimeSec: 3 });
+    await expect(manager.reserve({ ...estimate, tokens: 800 })).resolves.toMatchObject({ tokens: 800 });
+  });
+
+  it('リクエストあたりの壁時計制限を超える見積もりは拒否する', async () => {
+    const manager = new DualBudgetManager(workDir);
+    await expect(manager.reserve({ ...estimate, estimatedWallTime: 600 }, 'director'))
+      .rejects.toThrow('director: リクエストあたりの壁時計制限を超過');
+  });
+
+  it('ErrorClassifier は BudgetExceededError をリトライ対象外の予算エラーに分類する', async () => {
+    const manager = new DualBudgetManager(workDir);
+    const error = await manager.reserve({ ...estimate, tokens: 5000 }).catch(e => e);
+
+    const info = ErrorClassifier.classify(error);
+    expect(info.type).toBe(ErrorType.BUDGET);
+    expect(info.retryable).toBe(false);
+  });
+
+  it('締め日を過ぎると使用量を履歴に移して新しい請求期間を開始する', async () => {
+    const budgetPath = path.join(workDir, '.motiva', 'dual-budget.json');
+    const budget = JSON.parse(await fs.readFile(budgetPath, 'utf8'));
+    budget.usage.tokens = 400;
+    budget.usage.costUSD = 0.5;
+    budget.period = { rolloverDay: 15, start: new Date(2026, 0, 15).toISOString() };
+    await fs.writeFile(budgetPath, JSON.stringify(budget));
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(2026, 1, 14, 23, 59));
+    expect((await new DualBudgetManager(workDir).getPeriodReport()).history).toEqual([]);
+
+    vi.setSystemTime(new Date(2026, 1, 15, 0, 1));
+    const report = await new DualBudgetManager(workDir).getPeriodReport();
+
+    expect(report.period.start).toBe(new Date(2026, 1, 15).toISOString());
+    expect(report.period.end).toBe(new Date(2026, 2, 15).toISOString());
+    expect(report.usage).toEqual({ tokens: 0, costUSD: 0, wallTimeSec: 0 });
+    expect(report.history).toEqual([{
+      start: new Date(2026, 0, 15).toISOString(),
+      end: new Date(2026, 1, 15).toISOString(),
+      tier: 'test',
+      tokens: 400,
+      costUSD: 0.5,
+      wallTimeSec: 0
+    }]);
+  });
+
+  it('確定した使用量を台帳に追記し、現在の期間のエージェント別内訳を集計する', async () => {
+    const manager = new DualBudgetManager(workDir);
+    const context = { pipeline: 'default-pipeline', executionId: 'run-1', provider: 'openai', model: 'gpt-4o-mini' };
+
+    await manager.commit(await manager.reserve(estimate, 'director'), { tokens: 100, cost: 0.01, wallTime: 2, ...context });
+    await manager.commit(await manager.reserve(estimate, 'critic'), { tokens: 50, cost: 0.001, wallTime: 1, ...context });
+    await manager.commit(await manager.reserve(estimate, 'director'), { tokens: 30, cost: 0.003, wallTime: 1, ...context });
+
+    const ledger = (await fs.readFile(path.join(workDir, '.motiva', 'budget-ledger.jsonl'), 'utf8')).trim().split('\n');
+    expect(ledger).toHaveLength(3);
+    expect(JSON.parse(ledger[0]!)).toMatchObject({ agent: 'director', tokens: 100, ...context });
+
+    const report = await manager.getPeriodReport();
+    expect(report.byAgent.map(agent => [agent.agent, agent.calls, agent.tokens])).toEqual([
+      ['director', 2, 130],
+      ['critic', 1, 50]
+    ]);
+  });
+});
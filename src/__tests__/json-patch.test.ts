@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { applyJsonPatch, createJsonPatch, JsonPatchError } from '../lib/json-patch.js';
+import { SceneGraphEditor } from '../lib/scene-graph-editor.js';
+import type { JsonPatch, SceneGraph } from '../schemas/index.js';
+
+const sceneGraph: SceneGraph = {
+  '@context': 'https://motiva.dev/context',
+  '@id': 'scene-1',
+  type: 'Scene',
+  fps: 30,
+  duration: 300,
+  size: { w: 1920, h: 1080 },
+  layers: [
+    { id: 'bg', type: 'image', assetId: 'bg', timing: { start: 0, duration: 300 } },
+    { id: 'title', type: 'text', text: 'Hello', timing: { start: 0, duration: 90 } }
+  ]
+};
+
+describe('applyJsonPatch', () => {
+  it('add/remove/replace/move/copy/test を適用し、逆パッチで元に戻せる', () => {
+    const patch: JsonPatch = [
+      { op: 'test', path: '/layers/1/text', value: 'Hello' },
+      { op: 'replace', path: '/layers/1/text', value: 'こんにちは' },
+      { op: 'add', path: '/layers/-', value: { id: 'logo', type: 'image', name: 'Logo', assetId: 'logo', timing: { start: 240, duration: 60 } } },
+      { op: 'add', path: '/layers/0/transitions', value: { in: { type: 'fade', duration: 15 } } },
+      { op: 'copy', from: '/layers/0/transitions', path: '/layers/2/transitions' },
+      { op: 'move', from: '/layers/0', path: '/layers/1' },
+      { op: 'remove', path: '/layers/2/name' },
+      { op: 'add', path: '/effects', value: [{ type: 'blur', params: { radius: 2 } }] }
+    ];
+
+    const { document, inverse } = applyJsonPatch(sceneGraph, patch);
+
+    expect(document.layers).toEqual([
+      { id: 'title', type: 'text', text: 'こんにちは', timing: { start: 0, duration: 90 } },
+      { id: 'bg', type: 'image', assetId: 'bg', timing: { start: 0, duration: 300 }, transitions: { in: { type: 'fade', duration: 15 } } },
+      { id: 'logo', type: 'image', assetId: 'logo', timing: { start: 240, duration: 60 }, transitions: { in: { type: 'fade', duration: 15 } } }
+    ]);
+    expect(document.effects).toEqual([{ type: 'blur', params: { radius: 2 } }]);
+    // 元の文書は変更しない
+    expect(sceneGraph.layers).toHaveLength(2);
+
+    expect(applyJsonPatch(document, inverse).document).toEqual(sceneGraph);
+  });
+
+  it('"~1" と "~0" をエスケープとして解釈する', () => {
+    const { document, inverse } = applyJsonPatch({ 'a/b': { 'c~d': 1 } }, [
+      { op: 'replace', path: '/a~1b/c~0d', value: 2 }
+    ]);
+    expect(document).toEqual({ 'a/b': { 'c~d': 2 } });
+    expect(inverse).toEqual([{ op: 'replace', path: '/a~1b/c~0d', value: 1 }]);
+  });
+
+  it('失敗した操作の位置を報告し、途中までの変更を残さない', () => {
+    const document = structuredClone(sceneGraph);
+    const patch: JsonPatch = [
+      { op: 'replace', path: '/fps', value: 60 },
+      { op: 'test', path: '/duration', value: 999 }
+    ];
+
+    const error = (() => {
+      try {
+        applyJsonPatch(document, patch);
+      } catch (e) {
+        return e;
+      }
+    })();
+    expect(error).toBeInstanceOf(JsonPatchError);
+    expect((error as JsonPatchError).operationIndex).toBe(1);
+    expect(document.fps).toBe(30);
+
+    expect(() => applyJsonPatch(document, [{ op: 'remove', path: '/layers/5' }])).toThrow('配列インデックスが範囲外です');
+    expect(() => applyJsonPatch(document, [{ op: 'move', from: '/size', path: '/size/inner' }])).toThrow('子孫へ移動');
+  });
+});
+
+describe('createJsonPatch', () => {
+  it('差分をパッチとして生成し、適用すると変更後の文書になる', () => {
+    const before = { a: 1, b: { c: [1, 2, 3] }, d: 'x', 'e/f': true };
+    const after = { a: 2, b: { c: [1, 5] }, 'e/f': true, g: { h: null } };
+    const patch = createJsonPatch(before, after);
+
+    expect(patch).toEqual([
+      { op: 'remove', path: '/d' },
+      { op: 'replace', path: '/a', value: 2 },
+      { op: 'replace', path: '/b/c/1', value: 5 },
+      { op: 'remove', path: '/b/c/2' },
+      { op: 'add', path: '/g', value: { h: null } }
+    ]);
+    expect(applyJsonPatch(before, patch).document).toEqual(after);
+    expect(createJsonPatch(after, structuredClone(after))).toEqual([]);
+  });
+});
+
+describe('SceneGraphEditor', () => {
+  let workDir: string;
+  let graphPath: string;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'motiva-edit-'));
+    graphPath = path.join(workDir, 'scene-graph.json');
+    await fs.writeFile(graphPath, JSON.stringify(sceneGraph, null, 2));
+  });
+
+  afterEach(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  async function readGraph() {
+    return JSON.parse(await fs.readFile(graphPath, 'utf8'));
+  }
+
+  it('パッチ適用後の SceneGraph を書き出し、逆パッチで順に取り消せる', async () => {
+    const editor = new SceneGraphEditor(workDir);
+    await editor.applyToFile([{ op: 'replace', path: '/duration', value: 450 }], graphPath);
+    await editor.applyToFile([{ op: 'remove', path: '/layers/0' }], graphPath);
+
+    expect(await readGraph()).toMatchObject({ duration: 450, layers: [{ id: 'title' }] });
+    expect(await editor.getHistory()).toHaveLength(2);
+
+    await editor.undo();
+    expect((await readGraph()).layers).toHaveLength(2);
+    await editor.undo();
+    expect(await readGraph()).toEqual(sceneGraph);
+    expect(await editor.undo()).toBeNull();
+  });
+
+  it('スキーマに違反する結果になるパッチは書き出さずに拒否する', async () => {
+    const editor = new SceneGraphEditor(workDir);
+    await expect(editor.applyToFile([{ op: 'replace', path: '/fps', value: -1 }], graphPath))
+      .rejects.toThrow('パッチ適用後の SceneGraph が不正です: fps');
+    await expect(editor.applyToFile([{ op: 'remove', path: '/layers' }], graphPath))
+      .rejects.toThrow('layers');
+
+    expect(await readGraph()).toEqual(sceneGraph);
+    expect(await editor.getHistory()).toEqual([]);
+  });
+
+  it('編集後にファイルが変更された場合は取り消さない', async () => {
+    const editor = new SceneGraphEditor(workDir);
+    await editor.applyToFile([{ op: 'replace', path: '/duration', value: 450 }], graphPath);
+    await fs.writeFile(graphPath, JSON.stringify({ ...sceneGraph, duration: 600 }));
+
+    await expect(editor.undo()).rejects.toThrow('取り消せません');
+  });
+});
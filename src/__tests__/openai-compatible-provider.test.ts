@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { z } from 'zod';
+import { OpenAICompatibleProvider, GroqProvider, VLLMProvider } from '../lib/llm-provider.js';
+import { pricingRegistry } from '../lib/pricing.js';
+import { initializeSchemas } from '../lib/schema-initializer.js';
+import { ShotPlanSchema } from '../schemas/index.js';
+
+const ShotSchema = z.object({
+  id: z.string(),
+  len: z.number().int().positive()
+});
+
+function completion(content: string) {
+  return {
+    id: 'chatcmpl-1',
+    object: 'chat.completion',
+    created: 0,
+    model: 'test-model',
+    choices: [{ index: 0, finish_reason: 'stop', message: { role: 'assistant', content } }],
+    usage: { prompt_tokens: 1000, completion_tokens: 500, total_tokens: 1500 }
+  };
+}
+
+describe('OpenAICompatibleProvider', () => {
+  let server: http.Server;
+  let baseURL: string;
+  const requests: any[] = [];
+  // 受信したリクエストボディからレスポンスを決める
+  let respond: (body: any) => { status: number; body: any } = () => ({ status: 200, body: completion('{}') });
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let raw = '';
+      req.on('data', chunk => { raw += chunk; });
+      req.on('end', () => {
+        const body = JSON.parse(raw);
+        requests.push(body);
+        const { status, body: responseBody } = respond(body);
+        res.writeHead(status, { 'content-type': 'application/json' });
+        res.end(JSON.stringify(responseBody));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  afterEach(() => {
+    requests.length = 0;
+    pricingRegistry.setOverrides({});
+  });
+
+  it('Structured Outputs対応のバックエンドではjson_schemaを送信する', async () => {
+    respond = () => ({ status: 200, body: completion(JSON.stringify({ id: 's1', len: 30 })) });
+    pricingRegistry.setOverrides({ local: { 'test-model': { input: 1, output: 2 } } });
+    const provider = new OpenAICompatibleProvider({
+      name: 'local',
+      label: 'Local',
+      baseURL,
+      models: ['test-model'],
+      structuredOutputs: true
+    });
+
+    const response = await provider.generateJSON(
+      { model: 'test-model', systemPrompt: 's', userInput: 'u', schemaName: 'shot_schema' },
+      ShotSchema
+    );
+
+    expect(response.data).toEqual({ id: 's1', len: 30 });
+    expect(response.provider).toBe('local');
+    expect(response.tokensUsed).toBe(1500);
+    expect(response.costUSD).toBeCloseTo((1000 * 1 + 500 * 2) / 1_000_000);
+    expect(requests[0].response_format.type).toBe('json_schema');
+    expect(requests[0].response_format.json_schema.name).toBe('shot_schema');
+  });
+
+  it('json_schemaを拒否された場合はJSON modeにフォールバックし、以降もJSON modeを使う', async () => {
+    respond = (body) => body.response_format?.type === 'json_schema'
+      ? { status: 400, body: { error: { message: "response_format 'json_schema' is not supported", type: 'invalid_request_error' } } }
+      : { status: 200, body: completion(JSON.stringify({ result: [{ id: 'a', len: 1 }] })) };
+    const provider = new OpenAICompatibleProvider({
+      name: 'local', label: 'Local', baseURL, models: ['test-model'], structuredOutputs: true
+    });
+
+    const request = { model: 'test-model', systemPrompt: 'system', userInput: 'u' };
+    const first = await provider.generateJSON(request, z.array(ShotSchema));
+    const second = await provider.generateJSON(request, z.array(ShotSchema));
+
+    expect(first.data).toEqual([{ id: 'a', len: 1 }]);
+    expect(second.costUSD).toBe(0);
+    expect(requests.map(r => r.response_format.type)).toEqual(['json_schema', 'json_object', 'json_object']);
+    expect(requests[1].messages[0].content).toContain('system');
+    expect(requests[1].messages[0].content).toContain('"result"');
+  });
+
+  it('JSON modeの出力もZodで検証する', async () => {
+    respond = () => ({ status: 200, body: completion(JSON.stringify({ id: 's1', len: 0 })) });
+    const provider = new OpenAICompatibleProvider({
+      name: 'local', label: 'Local', baseURL, models: ['test-model']
+    });
+
+    await expect(provider.generateJSON({ model: 'test-model', systemPrompt: 's', userInput: 'u' }, ShotSchema))
+      .rejects.toThrow(/スキーマ検証エラー: len/);
+    expect(requests[0].response_format.type).toBe('json_object');
+  });
+
+  it('strict モードで optional のみの項目に返された null を取り除き（nullable の項目は残す）、登録済みスキーマで検証する', async () => {
+    initializeSchemas();
+    const plan = { sceneId: 's', duration: 90, theme: 't', bgm: null, shots: [{ id: 'a', start: 0, len: 90, desc: 'd', camera: null }] };
+    respond = () => ({ status: 200, body: completion(JSON.stringify(plan)) });
+    const provider = new OpenAICompatibleProvider({
+      name: 'local', label: 'Local', baseURL, models: ['test-model'], structuredOutputs: true
+    });
+
+    const response = await provider.generateJSON(
+      { model: 'test-model', systemPrompt: 's', userInput: 'u', schemaName: 'shot_plan_schema' },
+      ShotPlanSchema
+    );
+
+    expect(requests[0].response_format.json_schema.strict).toBe(true);
+    expect(response.data).toEqual({ sceneId: 's', duration: 90, theme: 't', shots: [{ id: 'a', start: 0, len: 90, desc: 'd', camera: null }] });
+  });
+
+  it('baseURL・APIキー・モデル一覧が揃っている場合のみ利用可能と判定する', () => {
+    const previous = { key: process.env.GROQ_API_KEY, models: process.env.VLLM_MODELS };
+    delete process.env.GROQ_API_KEY;
+    expect(new GroqProvider().isAvailable()).toBe(false);
+    process.env.GROQ_API_KEY = 'gsk-test';
+    expect(new GroqProvider().isAvailable()).toBe(true);
+
+    delete process.env.VLLM_MODELS;
+    expect(new VLLMProvider(undefined).isAvailable()).toBe(false);
+    expect(new VLLMProvider(baseURL).isAvailable()).toBe(false);
+    process.env.VLLM_MODELS = 'meta-llama/Llama-3.1-8B-Instruct, qwen2.5';
+    const vllm = new VLLMProvider(baseURL);
+    expect(vllm.isAvailable()).toBe(true);
+    expect(vllm.getSupportedModels()).toEqual(['meta-llama/Llama-3.1-8B-Instruct', 'qwen2.5']);
+
+    for (const [name, value] of [['GROQ_API_KEY', previous.key], ['VLLM_MODELS', previous.models]] as const) {
+      if (value === undefined) delete process.env[name];
+      else process.env[name] = value;
+    }
+  });
+});
@@ -0,0 +1,301 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { PipelineDag } from '../lib/pipeline-dag.js';
+import { EventDrivenOrchestrator, AgentConfig } from '../lib/event-driven-orchestrator.js';
+import { llmProviderManager, LLMProvider, LLMRequest, LLMResponse } from '../lib/llm-provider.js';
+import { loadPipelineDefinition, buildPipelineConfig, createDefaultPipelineDefinition } from '../lib/pipeline-definition.js';
+
+/**
+ * 呼び出しを記録し、指定時間待ってから入力をそのまま返すテスト用プロバイダー
+ */
+class RecordingProvider implements LLMProvider {
+  name = 'dag-test';
+  running = 0;
+  maxRunning = 0;
+  calls: string[] = [];
+  failures = new Map<string, number>();
+  failureMessage = 'network connection reset';
+  signals = new Map<string, AbortSignal | undefined>();
+  runningAtStart = new Map<string, number>();
+
+  async generateJSON<T>(request: LLMRequest, schema: z.ZodSchema<T>): Promise<LLMResponse<T>> {
+    const agent = request.systemPrompt;
+    this.calls.push(agent);
+    this.signals.set(agent, request.signal);
+    this.running++;
+    this.maxRunning = Math.max(this.maxRunning, this.running);
+    this.runningAtStart.set(agent, this.running);
+
+    try {
+      await new Promise(resolve => setTimeout(resolve, agent.startsWith('slow') ? 200 : 20));
+      const remainingFailures = this.failures.get(agent) ?? 0;
+      if (remainingFailures > 0) {
+        this.failures.set(agent, remainingFailures - 1);
+        throw new Error(this.failureMessage);
+      }
+      return {
+        data: schema.parse({ agent, input: JSON.parse(request.userInput) }),
+        tokensUsed: 10,
+        costUSD: 0,
+        provider: this.name,
+        model: request.model,
+        duration: 0
+      };
+    } finally {
+      this.running--;
+    }
+  }
+
+  async generateText(request: LLMRequest): Promise<LLMResponse<string>> {
+    throw new Error('not used');
+  }
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  getSupportedModels(): string[] {
+    return ['dag-test-model'];
+  }
+}
+
+/**
+ * スキーマ名に応じた最小限の出力を返すテスト用プロバイダー（同梱のパイプライン定義の実行確認用）
+ */
+class PipelineExampleProvider extends RecordingProvider {
+  name = 'pipeline-example';
+  directorInputs: any[] = [];
+  private assetCount = 0;
+
+  async generateJSON<T>(request: LLMRequest, schema: z.ZodSchema<T>): Promise<LLMResponse<T>> {
+    return { data: schema.parse(this.respond(request)), tokensUsed: 10, costUSD: 0, provider: this.name, model: request.model, duration: 0 };
+  }
+
+  private respond(request: LLMRequest): unknown {
+    switch (request.schemaName) {
+      case 'shot_plan_schema':
+        return { sceneId: 'scene-1', duration: 90, theme: request.userInput, shots: [{ id: 'shot_1', start: 0, len: 90, desc: 'd' }] };
+      case 'asset_manifest_schema': {
+        const id = `asset_${++this.assetCount}`;
+        return { sceneId: 'scene-1', version: '1.0', assets: [{ id, type: 'video', generator: 'mock', spec: { description: id }, status: 'pending' }] };
+      }
+      case 'director_output_schema':
+        this.directorInputs.push(JSON.parse(request.userInput));
+        return {
+          sceneId: 'scene-1',
+          version: '1.0',
+          composition: {
+            title: 't',
+            description: 'd',
+            duration: 3,
+            fps: 30,
+            resolution: { width: 1920, height: 1080 },
+            timeline: [{ id: 'shot_1', start: 0, end: 3, assetId: 'asset_1', assetType: 'video', transform: null, effects: null }],
+            audio: null,
+            transitions: null
+          },
+          metadata: { createdAt: '2025-01-01T00:00:00.000Z', totalCost: 0, estimatedRenderTime: 0, quality: 'standard', tags: null }
+        };
+      default:
+        throw new Error(`unexpected schema: ${request.schemaName}`);
+    }
+  }
+}
+
+const provider = new RecordingProvider();
+llmProviderManager.registerProvider(provider.name, provider);
+const exampleProvider = new PipelineExampleProvider();
+llmProviderManager.registerProvider(exampleProvider.name, exampleProvider);
+
+function agent(name: string, extra: Partial<AgentConfig> = {}): AgentConfig {
+  return {
+    name,
+    model: 'dag-test-model',
+    systemPrompt: name,
+    inputSchema: z.any(),
+    outputSchema: z.object({ agent: z.string(), input: z.any() }),
+    ...extra
+  };
+}
+
+describe('PipelineDag', () => {
+  it('依存関係からトポロジカル順序を決定する', () => {
+    const dag = new PipelineDag([
+      { name: 'director', dependencies: ['synth-a', 'synth-b'] },
+      { name: 'synth-a', dependencies: ['planner'] },
+      { name: 'synth-b', dependencies: ['planner'] },
+      { name: 'planner' }
+    ]);
+
+    expect(dag.getTopologicalOrder()).toEqual(['planner', 'synth-a', 'synth-b', 'director']);
+    expect(dag.getRoots()).toEqual(['planner']);
+    expect(dag.getSinks()).toEqual(['director']);
+    expect(dag.getDependents('planner')).toEqual(['synth-a', 'synth-b']);
+  });
+
+  it('未知の依存先でエラーを発生させる', () => {
+    expect(() => new PipelineDag([{ name: 'director', dependencies: ['missing'] }]))
+      .toThrow(/"director" の依存先 "missing" が見つかりません/);
+  });
+
+  it('循環依存を経路付きで検出する', () => {
+    expect(() => new PipelineDag([
+      { name: 'a', dependencies: ['c'] },
+      { name: 'b', dependencies: ['a'] },
+      { name: 'c', dependencies: ['b'] }
+    ])).toThrow(/循環しています \(a -> b -> c -> a\)/);
+  });
+});
+
+describe('EventDrivenOrchestrator DAG実行', () => {
+  it('独立したブランチを並列実行し、合流点に両方の出力を渡す', async () => {
+    provider.calls = [];
+    provider.maxRunning = 0;
+
+    const orchestrator = new EventDrivenOrchestrator();
+    const result = await orchestrator.executePipeline({
+      agents: [
+        agent('root', { dependencies: [] }),
+        agent('slow-left', { dependencies: ['root'] }),
+        agent('slow-right', { dependencies: ['root'] }),
+        agent('join', { dependencies: ['slow-left', 'slow-right'] })
+      ],
+      maxConcurrency: 3
+    }, 'theme');
+
+    expect(result.success).toBe(true);
+    expect(provider.maxRunning).toBe(2);
+    expect(provider.calls[0]).toBe('root');
+    expect(provider.calls[3]).toBe('join');
+    expect(Object.keys(result.data.input)).toEqual(['slow-left', 'slow-right']);
+    expect(result.results.map(r => r.status)).toEqual(['success', 'success', 'success', 'success']);
+  });
+
+  it('並列実行グループの同時実行数とリトライ設定を適用する', async () => {
+    provider.calls = [];
+    provider.maxRunning = 0;
+    provider.failures.set('flaky', 1);
+
+    const orchestrator = new EventDrivenOrchestrator();
+    const result = await orchestrator.executePipeline({
+      agents: [
+        agent('slow-1', { dependencies: [], parallelGroup: 'assets' }),
+        agent('slow-2', { dependencies: [], parallelGroup: 'assets' }),
+        agent('flaky', { dependencies: ['slow-1', 'slow-2'], parallelGroup: 'assets' })
+      ],
+      parallelGroups: [{ name: 'assets', maxConcurrency: 1, timeout: 5000, retryCount: 1, retryDelay: 10 }]
+    }, 'theme');
+
+    expect(result.success).toBe(true);
+    expect(provider.maxRunning).toBe(1);
+    expect(provider.calls.filter(call => call === 'flaky')).toHaveLength(2);
+  });
+
+  it('parallel: false のエージェントは単独で実行し、maxConcurrency の間は同時実行数を制限する', async () => {
+    provider.calls = [];
+    provider.maxRunning = 0;
+
+    const orchestrator = new EventDrivenOrchestrator();
+    const exclusive = await orchestrator.executePipeline({
+      agents: [
+        agent('slow-a', { dependencies: [] }),
+        agent('slow-b', { dependencies: [] }),
+        agent('slow-exclusive', { dependencies: [], parallel: false })
+      ],
+      maxConcurrency: 3
+    }, 'theme');
+
+    expect(exclusive.success).toBe(true);
+    expect(provider.maxRunning).toBe(2);
+    expect(provider.calls[2]).toBe('slow-exclusive');
+    expect(provider.runningAtStart.get('slow-exclusive')).toBe(1);
+
+    provider.maxRunning = 0;
+    const limited = await orchestrator.executePipeline({
+      agents: [
+        agent('slow-1', { dependencies: [] }),
+        agent('slow-2', { dependencies: [], maxConcurrency: 2 }),
+        agent('slow-3', { dependencies: [] })
+      ],
+      maxConcurrency: 3
+    }, 'theme');
+
+    expect(limited.success).toBe(true);
+    expect(provider.maxRunning).toBe(2);
+  });
+
+  it('グループのタイムアウトを超えたエージェントを失敗させ、後続をスキップする', async () => {
+    const orchestrator = new EventDrivenOrchestrator();
+    const result = await orchestrator.executePipeline({
+      agents: [
+        agent('slow-step', { parallelGroup: 'strict' }),
+        agent('after')
+      ],
+      parallelGroups: [{ name: 'strict', maxConcurrency: 1, timeout: 50, retryCount: 0, retryDelay: 0 }]
+    }, 'theme');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/タイムアウト/);
+    expect(result.results.map(r => r.status)).toEqual(['failed', 'skipped']);
+    expect(provider.signals.get('slow-step')?.aborted).toBe(true);
+  });
+
+  it('リトライ対象外のエラーはグループのリトライ回数に関わらず再試行しない', async () => {
+    provider.calls = [];
+    provider.failureMessage = 'invalid response format';
+    provider.failures.set('strict-check', 1);
+
+    try {
+      const orchestrator = new EventDrivenOrchestrator();
+      const result = await orchestrator.executePipeline({
+        agents: [agent('strict-check', { parallelGroup: 'assets' })],
+        parallelGroups: [{ name: 'assets', maxConcurrency: 1, timeout: 5000, retryCount: 2, retryDelay: 10 }]
+      }, 'theme');
+
+      expect(result.success).toBe(false);
+      expect(provider.calls).toEqual(['strict-check']);
+    } finally {
+      provider.failureMessage = 'network connection reset';
+    }
+  });
+
+  it('循環依存のパイプラインは実行前に失敗する', async () => {
+    provider.calls = [];
+    const orchestrator = new EventDrivenOrchestrator();
+    const result = await orchestrator.executePipeline({
+      agents: [
+        agent('a', { dependencies: ['b'] }),
+        agent('b', { dependencies: ['a'] })
+      ]
+    }, 'theme');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/循環/);
+    expect(provider.calls).toHaveLength(0);
+  });
+});
+
+describe('同梱のパイプライン定義', () => {
+  it('parallel-pipeline.json を実行し、並列生成した Asset Manifest を1つにまとめて Director に渡す', async () => {
+    const config = await buildPipelineConfig(await loadPipelineDefinition('parallel-pipeline.json'));
+    expect(config.agents.map(agentConfig => agentConfig.parallel)).toEqual([false, true, true, true, false]);
+    const orchestrator = new EventDrivenOrchestrator();
+    const result = await orchestrator.executePipeline({
+      ...config,
+      agents: config.agents.map(agentConfig => ({ ...agentConfig, provider: exampleProvider.name })),
+      useCache: false
+    }, 'テーマ');
+
+    expect(result.success, result.error).toBe(true);
+    expect(result.results.map(r => r.status)).toEqual(['success', 'success', 'success', 'success', 'success']);
+    expect(exampleProvider.directorInputs).toHaveLength(1);
+    expect(exampleProvider.directorInputs[0].assets.map((asset: any) => asset.id).sort()).toEqual(['asset_1', 'asset_2', 'asset_3']);
+  });
+
+  it('出力をまとめられない種別に複数の依存先がある定義はエラー', async () => {
+    const definition = createDefaultPipelineDefinition();
+    definition.agents.push({ ...definition.agents[1]!, name: 'asset-synthesizer-2', dependencies: ['concept-planner', 'asset-synthesizer'] });
+
+    await expect(buildPipelineConfig(definition)).rejects.toThrow('"asset-synthesizer-2"（asset-synthesizer）は複数の依存先の出力をまとめられません');
+  });
+});
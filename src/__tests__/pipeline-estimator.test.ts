@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { PipelineConfigSchema } from '../schemas/index.js';
+import { DualBudgetManager } from '../lib/dual-budget-manager.js';
+import { estimatePipeline, REPRESENTATIVE_INPUT_CHARS } from '../lib/pipeline-estimator.js';
+
+const definition = PipelineConfigSchema.parse({
+  name: 'estimate-pipeline',
+  agents: [
+    { name: 'planner', type: 'concept-planner', config: { model: 'gpt-4o-mini', maxTokens: 1000 } },
+    { name: 'director', type: 'director', config: { provider: 'openai:gpt-4o', maxTokens: 2000 }, dependencies: ['planner'] }
+  ]
+});
+
+describe('estimatePipeline', () => {
+  let workDir: string;
+  let promptsDir: string;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'motiva-estimate-'));
+    promptsDir = path.join(workDir, 'prompts');
+    for (const type of ['concept-planner', 'director']) {
+      await fs.mkdir(path.join(promptsDir, type), { recursive: true });
+      await fs.writeFile(path.join(promptsDir, type, 'v1_system.txt'), 'p'.repeat(300));
+    }
+  });
+
+  afterEach(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  async function writeBudget(tokens: number) {
+    await fs.mkdir(path.join(workDir, '.motiva'));
+    await fs.writeFile(path.join(workDir, '.motiva', 'dual-budget.json'), JSON.stringify({
+      tiers: { test: { monthly: 1, tokens, wallTimeSec: 3600 } },
+      current: 'test',
+      usage: { tokens: 0, costUSD: 0, wallTimeSec: 0, startTime: 0 },
+      alerts: { warningAt: 0.8, stopAt: 0.95 },
+      limits: { maxConcurrency: 3, maxWallTimePerRequest: 300 }
+    }));
+  }
+
+  it('プロンプトと代表的な入力サイズからエージェント別・合計を見積もる', async () => {
+    const estimate = await estimatePipeline(definition, { promptsDir, budgetManager: new DualBudgetManager(workDir) });
+
+    const [planner, director] = estimate.agents;
+    expect(planner).toMatchObject({
+      name: 'planner',
+      provider: 'gpt-4o-mini',
+      promptTokens: 100 + Math.ceil(REPRESENTATIVE_INPUT_CHARS['concept-planner'] / 3),
+      completionTokens: 1000
+    });
+    expect(director).toMatchObject({ provider: 'openai:gpt-4o', completionTokens: 2000 });
+    expect(director!.costUSD).toBeCloseTo((director!.promptTokens * 2.5 + 2000 * 10) / 1_000_000);
+    expect(estimate.total).toEqual({
+      tokens: planner!.tokens + director!.tokens,
+      costUSD: planner!.costUSD + director!.costUSD,
+      wallTimeSec: 60
+    });
+    // 予算ファイルが無い場合は判定しない
+    expect(estimate.budget).toBeNull();
+  });
+
+  it('並列に実行されるエージェントの所要時間は合算せず、クリティカルパスで見積もる', async () => {
+    const parallel = PipelineConfigSchema.parse({
+      name: 'parallel-estimate',
+      agents: [
+        { name: 'planner', type: 'concept-planner' },
+        { name: 'director-a', type: 'director', dependencies: ['planner'] },
+        { name: 'director-b', type: 'director', dependencies: ['planner'] }
+      ]
+    });
+
+    const estimate = await estimatePipeline(parallel, { promptsDir, budgetManager: new DualBudgetManager(workDir) });
+
+    expect(estimate.agents.map(agent => agent.wallTimeSec)).toEqual([30, 30, 30]);
+    expect(estimate.total.wallTimeSec).toBe(60);
+    expect(estimate.criticalPath).toEqual(['planner', 'director-a']);
+  });
+
+  it('現在の予算層に収まるかを判定し、使用量は記録しない', async () => {
+    await writeBudget(5000);
+    const budgetManager = new DualBudgetManager(workDir);
+
+    const estimate = await estimatePipeline(definition, { promptsDir, budgetManager });
+
+    expect(estimate.budget).toMatchObject({ tier: 'test', allowed: false });
+    expect(estimate.budget!.usageRates.tokens).toBeCloseTo(estimate.total.tokens / 5000);
+    const report = await budgetManager.getPeriodReport();
+    expect(report.usage.tokens).toBe(0);
+  });
+});
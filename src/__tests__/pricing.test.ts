@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { PricingRegistry } from '../lib/pricing.js';
+
+describe('PricingRegistry', () => {
+  it('入力・出力トークンを別単価で計算する', () => {
+    const registry = new PricingRegistry();
+    expect(registry.calculateCost('openai', 'gpt-4o-mini', { promptTokens: 1_000_000, completionTokens: 1_000_000 }))
+      .toBeCloseTo(0.15 + 0.6);
+    expect(registry.calculateCost('anthropic', 'claude-3-5-sonnet', { promptTokens: 1000, completionTokens: 200 }))
+      .toBeCloseTo((1000 * 3 + 200 * 15) / 1_000_000);
+  });
+
+  it('日付付きのモデルIDは最長の前方一致、未登録モデルはプロバイダーの既定価格を使う', () => {
+    const registry = new PricingRegistry();
+    expect(registry.getPrice('openai', 'gpt-4o-mini-2024-07-18')).toEqual({ input: 0.15, output: 0.6 });
+    expect(registry.getPrice('openai', 'gpt-4o-2024-08-06')).toEqual({ input: 2.5, output: 10 });
+    expect(registry.getPrice('openai', 'o1-mini-2024-09-12')).toEqual({ input: 1.1, output: 4.4 });
+    expect(registry.getPrice('openai', 'o1-2024-12-17')).toEqual({ input: 15, output: 60 });
+    expect(registry.getPrice('ollama', 'llama3.1')).toEqual({ input: 0, output: 0 });
+    // プロバイダー未登録の場合は同名モデルの価格を使う
+    expect(registry.getPrice('my-proxy', 'gpt-4o')).toEqual({ input: 2.5, output: 10 });
+  });
+
+  it('設定ファイルの価格で上書きできる', () => {
+    const registry = new PricingRegistry();
+    registry.setOverrides({ openai: { 'gpt-4o': { input: 1, output: 2 } }, ollama: { 'llama3.1': { input: 0.1, output: 0.1 } } });
+
+    expect(registry.getPrice('openai', 'gpt-4o-2024-11-20')).toEqual({ input: 1, output: 2 });
+    expect(registry.getPrice('openai', 'gpt-4o-mini')).toEqual({ input: 0.15, output: 0.6 });
+    expect(registry.getPrice('ollama', 'llama3.1')).toEqual({ input: 0.1, output: 0.1 });
+  });
+
+  it('見積もりはプロンプト長と maxTokens から入力・出力トークンを見込む', () => {
+    const registry = new PricingRegistry();
+    const estimate = registry.estimate('openai', 'gpt-4o', { systemPrompt: 'a'.repeat(300), userInput: 'b'.repeat(300), maxTokens: 500 });
+
+    expect(estimate).toMatchObject({ promptTokens: 200, completionTokens: 500, tokens: 700 });
+    expect(estimate.costUSD).toBeCloseTo((200 * 2.5 + 500 * 10) / 1_000_000);
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { z } from 'zod';
+import { llmProviderManager, LLMProvider, LLMRequest, LLMResponse } from '../lib/llm-provider.js';
+import { EventDrivenOrchestrator } from '../lib/event-driven-orchestrator.js';
+
+/**
+ * 指定したエラーで失敗させられるテスト用プロバイダー
+ */
+class ScriptedProvider implements LLMProvider {
+  calls: string[] = [];
+  failWith: Error | null = null;
+  available = true;
+
+  constructor(public name: string, private models: string[]) {}
+
+  async generateJSON<T>(request: LLMRequest, schema: z.ZodSchema<T>): Promise<LLMResponse<T>> {
+    this.calls.push(request.model);
+    if (this.failWith) {
+      throw this.failWith;
+    }
+    return {
+      data: schema.parse({ servedBy: this.name }),
+      tokensUsed: 1,
+      costUSD: 0,
+      provider: this.name,
+      model: request.model,
+      duration: 0
+    };
+  }
+
+  async generateText(request: LLMRequest): Promise<LLMResponse<string>> {
+    throw new Error('not used');
+  }
+
+  isAvailable(): boolean {
+    return this.available;
+  }
+
+  getSupportedModels(): string[] {
+    return this.models;
+  }
+}
+
+const OutputSchema = z.object({ servedBy: z.string() });
+const request: LLMRequest = { model: 'chain-default-model', systemPrompt: 's', userInput: '{}' };
+
+const primary = new ScriptedProvider('chain-primary', ['chain-model-a']);
+const secondary = new ScriptedProvider('chain-secondary', ['chain-model-b', 'llama3.1:8b']);
+llmProviderManager.registerProvider(primary.name, primary);
+llmProviderManager.registerProvider(secondary.name, secondary);
+
+describe('プロバイダーのフォールバックチェーン', () => {
+  beforeEach(() => {
+    for (const provider of [primary, secondary]) {
+      provider.calls = [];
+      provider.failWith = null;
+      provider.available = true;
+    }
+  });
+
+  it('リトライ可能なエラーでは次のプロバイダーを試行し、応答したプロバイダーを記録する', async () => {
+    primary.failWith = Object.assign(new Error('Rate limit reached'), { status: 429 });
+
+    const response = await llmProviderManager.generateJSONWithFallback(
+      ['chain-primary:chain-model-a', 'chain-secondary'],
+      request,
+      OutputSchema
+    );
+
+    expect(primary.calls).toEqual(['chain-model-a']);
+    expect(secondary.calls).toEqual(['chain-default-model']);
+    expect(response.provider).toBe('chain-secondary');
+    expect(response.model).toBe('chain-default-model');
+  });
+
+  it('リトライ対象外のエラーではフォールバックせずに失敗する', async () => {
+    primary.failWith = new Error('スキーマ検証エラー: servedBy: Required');
+
+    await expect(llmProviderManager.generateJSONWithFallback(
+      ['chain-primary:chain-model-a', 'chain-secondary'],
+      request,
+      OutputSchema
+    )).rejects.toThrow('スキーマ検証エラー');
+    expect(secondary.calls).toEqual([]);
+  });
+
+  it('モデルのみの指定は対応するプロバイダーを選択し、対応が無ければエラーにする', async () => {
+    const response = await llmProviderManager.generateJSONWithFallback('chain-model-b', request, OutputSchema);
+    expect(response.provider).toBe('chain-secondary');
+
+    expect(() => llmProviderManager.getProviderForModel('unknown-model')).toThrow('unknown-model');
+    await expect(llmProviderManager.generateJSONWithFallback('unknown-model', request, OutputSchema))
+      .rejects.toThrow('モデルに対応する利用可能なプロバイダーが見つかりません');
+  });
+
+  it('":" の前が登録済みのプロバイダー名でない指定はモデル名として扱う', async () => {
+    const response = await llmProviderManager.generateJSONWithFallback('llama3.1:8b', request, OutputSchema);
+    expect(response).toMatchObject({ provider: 'chain-secondary', model: 'llama3.1:8b' });
+
+    await llmProviderManager.generateJSONWithFallback('chain-primary:llama3.1:8b', request, OutputSchema);
+    expect(primary.calls).toEqual(['llama3.1:8b']);
+    expect(llmProviderManager.getSpecModel('llama3.1:8b', 'fallback-model')).toBe('llama3.1:8b');
+  });
+
+  it('プロバイダー指定からリクエストに使うモデル名を決定する', () => {
+    expect(llmProviderManager.getSpecModel('chain-primary:chain-model-a', 'fallback-model')).toBe('chain-model-a');
+    expect(llmProviderManager.getSpecModel(['chain-model-b', 'chain-primary:chain-model-a'], 'fallback-model')).toBe('chain-model-b');
+    expect(llmProviderManager.getSpecModel('chain-primary', 'fallback-model')).toBe('fallback-model');
+  });
+
+  it('利用できないプロバイダーはチェーン内でスキップする', async () => {
+    primary.available = false;
+
+    const response = await llmProviderManager.generateJSONWithFallback(
+      ['chain-primary:chain-model-a', 'chain-secondary:chain-model-b'],
+      request,
+      OutputSchema
+    );
+
+    expect(primary.calls).toEqual([]);
+    expect(response.provider).toBe('chain-secondary');
+  });
+
+  it('パイプライン結果にエージェントごとの応答プロバイダーを記録する', async () => {
+    primary.failWith = Object.assign(new Error('socket hang up'), { code: 'ECONNREFUSED' });
+
+    const result = await new EventDrivenOrchestrator().executePipeline({
+      agents: [{
+        name: 'chained-agent',
+        model: 'chain-default-model',
+        provider: ['chain-primary:chain-model-a', 'chain-secondary:chain-model-b'],
+        systemPrompt: 's',
+        inputSchema: z.any(),
+        outputSchema: OutputSchema
+      }]
+    }, {});
+
+    expect(result.success).toBe(true);
+    expect(result.results[0]).toMatchObject({ provider: 'chain-secondary', model: 'chain-model-b' });
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { RefinementLoop, RefinementCritic, RefinementEditor } from '../lib/refinement-loop.js';
+import { SceneGraphEditor } from '../lib/scene-graph-editor.js';
+import { BudgetExceededError } from '../lib/dual-budget-manager.js';
+import type { CriticReport } from '../agents/critic-agent.js';
+import type { SceneGraph } from '../schemas/index.js';
+
+const sceneGraph: SceneGraph = {
+  '@context': 'https://motiva.dev/context',
+  '@id': 'scene-1',
+  type: 'Scene',
+  fps: 30,
+  duration: 300,
+  size: { w: 1920, h: 1080 },
+  layers: [{ id: 'title', type: 'text', text: 'Hello', timing: { start: 0, duration: 90 } }]
+};
+
+function report(overallScore: number): CriticReport {
+  return {
+    overallScore,
+    qualityAssessment: { visualQuality: overallScore, narrativeFlow: overallScore, technicalExecution: overallScore, emotionalImpact: overallScore },
+    issues: [{ severity: 'high', category: 'technical', description: '尺が短い', suggestion: '30フレーム延ばす' }],
+    strengths: [],
+    recommendations: [],
+    metadata: { reviewDate: new Date().toISOString(), reviewer: 'test', version: '1' }
+  };
+}
+
+function scriptedCritic(scores: Array<number | Error>): RefinementCritic & { seen: SceneGraph[] } {
+  const seen: SceneGraph[] = [];
+  return {
+    seen,
+    async run(graph) {
+      seen.push(graph);
+      const next = scores.shift();
+      if (next === undefined) throw new Error('想定外の評価');
+      if (next instanceof Error) throw next;
+      return report(next);
+    }
+  };
+}
+
+// 尺を30フレームずつ延ばすパッチを提案する Editor
+const lengtheningEditor: RefinementEditor & { feedback: Array<CriticReport | undefined> } = {
+  feedback: [],
+  async run(graph, feedback) {
+    this.feedback.push(feedback);
+    return [{ op: 'replace', path: '/duration', value: graph.duration + 30 }];
+  }
+};
+
+describe('RefinementLoop', () => {
+  let workDir: string;
+  let graphPath: string;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'motiva-refine-'));
+    graphPath = path.join(workDir, 'scene-graph.json');
+    await fs.writeFile(graphPath, JSON.stringify(sceneGraph, null, 2));
+    lengtheningEditor.feedback = [];
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  function createLoop(critic: RefinementCritic, editor: RefinementEditor = lengtheningEditor) {
+    return new RefinementLoop({ critic, editor, sceneGraphEditor: new SceneGraphEditor(workDir) });
+  }
+
+  it('指摘を Editor に渡して編集・再評価を繰り返し、閾値に達したら終了する', async () => {
+    const critic = scriptedCritic([60, 75, 85]);
+    const result = await createLoop(critic).run({ sceneGraphPath: graphPath, threshold: 80, maxRounds: 5 });
+
+    expect(result.stopReason).toBe('threshold');
+    expect(result.initialScore).toBe(60);
+    expect(result.finalScore).toBe(85);
+    expect(result.rounds.map(round => [round.scoreBefore, round.scoreAfter])).toEqual([[60, 75], [75, 85]]);
+    expect(result.rounds[1]!.patch).toEqual([{ op: 'replace', path: '/duration', value: 360 }]);
+    expect(result.rounds[1]!.inverse).toEqual([{ op: 'replace', path: '/duration', value: 330 }]);
+
+    expect(lengtheningEditor.feedback.map(feedback => feedback?.overallScore)).toEqual([60, 75]);
+    expect(critic.seen.map(graph => graph.duration)).toEqual([300, 330, 360]);
+    expect(JSON.parse(await fs.readFile(graphPath, 'utf8')).duration).toBe(360);
+  });
+
+  it('最大ラウンド数で終了し、各ラウンドの編集を取り消せる', async () => {
+    const result = await createLoop(scriptedCritic([50, 55, 58])).run({ sceneGraphPath: graphPath, threshold: 80, maxRounds: 2 });
+
+    expect(result.stopReason).toBe('max-rounds');
+    expect(result.rounds).toHaveLength(2);
+
+    const editor = new SceneGraphEditor(workDir);
+    await editor.undo();
+    await editor.undo();
+    expect(JSON.parse(await fs.readFile(graphPath, 'utf8'))).toEqual(sceneGraph);
+  });
+
+  it('予算超過で再評価できない場合は編集を残して終了する', async () => {
+    const exceeded = new BudgetExceededError('予算制限を超過します', {
+      allowed: false,
+      reason: '予算制限を超過します',
+      usageRates: { tokens: 1, cost: 1, wallTime: 0, maxRate: 1 }
+    });
+    const result = await createLoop(scriptedCritic([40, exceeded])).run({ sceneGraphPath: graphPath, threshold: 80, maxRounds: 3 });
+
+    expect(result.stopReason).toBe('budget');
+    expect(result.finalScore).toBe(40);
+    expect(result.rounds).toHaveLength(1);
+    expect(result.rounds[0]!.scoreAfter).toBeUndefined();
+    expect(JSON.parse(await fs.readFile(graphPath, 'utf8')).duration).toBe(330);
+  });
+
+  it('スキーマに違反するパッチは適用せずに終了する', async () => {
+    const breakingEditor: RefinementEditor = { run: async () => [{ op: 'remove', path: '/layers' }] };
+    const result = await createLoop(scriptedCritic([40]), breakingEditor).run({ sceneGraphPath: graphPath, threshold: 80, maxRounds: 3 });
+
+    expect(result.stopReason).toBe('invalid-patch');
+    expect(result.rounds[0]!.error).toContain('パッチ適用後の SceneGraph が不正です');
+    expect(JSON.parse(await fs.readFile(graphPath, 'utf8'))).toEqual(sceneGraph);
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import ts from 'typescript';
+import { exportRemotionProject } from '../lib/remotion-exporter.js';
+import type { SceneGraph } from '../schemas/index.js';
+
+const sceneGraph: SceneGraph = {
+  '@context': 'https://schema.motiva.dev/scene-graph/v2',
+  '@id': 'Scene 1',
+  version: '2.0',
+  type: 'Comp',
+  fps: 24,
+  duration: 240,
+  size: { w: 1280, h: 720 },
+  layers: [
+    { id: 'clip', type: 'footage', assetId: 'video_1', timing: { start: 0, duration: 120 }, transitions: { out: { type: 'crossfade', duration: 12 } } },
+    {
+      id: 'still',
+      type: 'image',
+      assetId: 'image_1',
+      timing: { start: 108, duration: 132 },
+      transform: { position: { x: 640, y: 360 }, scale: { x: 1.2, y: 1.2 } },
+      effects: [{ type: 'blur', params: { radius: 3 } }, { type: 'glow' }],
+      transitions: { in: { type: 'crossfade', duration: 12 } }
+    },
+    { id: 'title', type: 'text', text: 'こんにちは "world"', timing: { start: 24, duration: 48 }, style: { fontSize: 64 } },
+    { id: 'logo', type: 'image', assetId: 'logo', timing: { start: 0, duration: 24 } },
+    { id: 'bgm', type: 'audio', role: 'bgm', assetId: 'bgm_1', volume: 0.5, timing: { start: 0, duration: 240 }, transitions: { in: { type: 'fade', duration: 24 } } }
+  ]
+};
+
+// 生成したプロジェクトの型検査に使う remotion・react の最小限の型定義（使用している API のみ）
+const TYPE_STUBS: Record<string, string> = {
+  'node_modules/react/index.d.ts': `export interface ReactElement { type: unknown; props: unknown; key: string | null }
+export type ReactNode = ReactElement | string | number | boolean | null | undefined | ReactNode[];
+export interface CSSProperties { [property: string]: string | number | undefined }
+`,
+  'node_modules/react/jsx-runtime.d.ts': `import type { CSSProperties, ReactElement, ReactNode } from './index';
+export namespace JSX {
+  type Element = ReactElement;
+  interface ElementChildrenAttribute { children: {} }
+  interface IntrinsicAttributes { key?: string | number }
+  interface IntrinsicElements { div: { style?: CSSProperties; children?: ReactNode } }
+}
+export declare function jsx(type: unknown, props: unknown, key?: string): ReactElement;
+export declare function jsxs(type: unknown, props: unknown, key?: string): ReactElement;
+export declare const Fragment: unique symbol;
+`,
+  'node_modules/remotion/index.d.ts': `import type { CSSProperties, ReactElement, ReactNode } from 'react';
+type Volume = number | ((frame: number) => number);
+export declare const AbsoluteFill: (props: { style?: CSSProperties; children?: ReactNode }) => ReactElement;
+export declare const Sequence: (props: { name?: string; from?: number; durationInFrames?: number; layout?: 'absolute-fill' | 'none'; children?: ReactNode }) => ReactElement;
+export declare const Composition: (props: { id: string; component: () => ReactElement; durationInFrames: number; fps: number; width: number; height: number }) => ReactElement;
+export declare const OffthreadVideo: (props: { src: string; startFrom?: number; playbackRate?: number; volume?: Volume; style?: CSSProperties }) => ReactElement;
+export declare const Audio: (props: { src: string; startFrom?: number; volume?: Volume }) => ReactElement;
+export declare const Img: (props: { src: string; style?: CSSProperties }) => ReactElement;
+export declare function staticFile(path: string): string;
+export declare function registerRoot(component: () => ReactElement): void;
+export declare function useCurrentFrame(): number;
+export declare function useVideoConfig(): { width: number; height: number; fps: number; durationInFrames: number };
+`
+};
+
+describe('exportRemotionProject', () => {
+  let workDir: string;
+  let outDir: string;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'motiva-remotion-'));
+    outDir = path.join(workDir, 'remotion');
+    await fs.mkdir(path.join(workDir, 'assets'));
+    await fs.writeFile(path.join(workDir, 'assets', 'clip.mp4'), 'video');
+    await fs.writeFile(path.join(workDir, 'assets', 'bgm.wav'), 'audio');
+  });
+
+  afterEach(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  async function exportProject() {
+    return exportRemotionProject(sceneGraph, {
+      outDir,
+      baseDir: workDir,
+      assets: [
+        { id: 'video_1', uri: 'assets/clip.mp4' },
+        { id: 'image_1', uri: 'https://example.com/still.png' },
+        { id: 'bgm_1', uri: 'assets/bgm.wav' },
+        { id: 'logo', uri: 'assets/missing.png' }
+      ]
+    });
+  }
+
+  async function read(file: string) {
+    return fs.readFile(path.join(outDir, file), 'utf8');
+  }
+
+  it('Composition とレイヤーごとの Sequence を生成し、ローカル素材を public にコピーする', async () => {
+    const result = await exportProject();
+
+    expect(result.files).toEqual(expect.arrayContaining(['package.json', 'tsconfig.json', 'src/index.ts', 'src/Root.tsx', 'src/Scene.tsx', 'src/assets.ts', 'src/motiva.tsx']));
+    expect(result.copiedAssets.sort()).toEqual([path.join('public', 'assets', 'bgm_1.wav'), path.join('public', 'assets', 'video_1.mp4')]);
+    expect(await fs.readFile(path.join(outDir, 'public', 'assets', 'video_1.mp4'), 'utf8')).toBe('video');
+    expect(result.missingAssetIds).toEqual(['logo']);
+    expect(result.warnings).toEqual([
+      expect.stringContaining('素材 logo: ファイルが見つからない'),
+      expect.stringContaining('エフェクト glow は Remotion 出力では未対応')
+    ]);
+
+    const root = await read('src/Root.tsx');
+    expect(root).toContain('durationInFrames={240}');
+    expect(root).toContain('fps={24}');
+    expect(root).toContain('width={1280}');
+
+    const assets = await read('src/assets.ts');
+    expect(assets).toContain('"video_1": staticFile("assets/video_1.mp4")');
+    expect(assets).toContain('"image_1": "https://example.com/still.png"');
+
+    const scene = await read('src/Scene.tsx');
+    expect(scene).toContain('<Sequence name={"clip"} from={0} durationInFrames={120}>');
+    expect(scene).toContain('<OffthreadVideo src={assets["video_1"]}');
+    expect(scene).toContain('transitions={{"in":{"type":"crossfade","duration":12}}}');
+    expect(scene).toContain('filter={"blur(3px)"}');
+    expect(scene).toContain('{"こんにちは \\"world\\""}');
+    expect(scene).toContain('素材が見つかりません: logo');
+    expect(scene).toContain('<Sequence name={"bgm"} from={0} durationInFrames={240} layout="none">');
+    expect(scene).toContain('<Audio src={assets["bgm_1"]} volume={fadeVolume(0.5, 240, {"in":{"type":"fade","duration":24}})} />');
+
+    expect(JSON.parse(await read('package.json'))).toMatchObject({ name: 'scene-1', scripts: { render: 'remotion render src/index.ts main out/video.mp4' } });
+  });
+
+  it('生成したコードは tsconfig.json の設定で型エラーなくコンパイルできる', async () => {
+    const result = await exportProject();
+    for (const [file, source] of Object.entries(TYPE_STUBS)) {
+      await fs.mkdir(path.dirname(path.join(outDir, file)), { recursive: true });
+      await fs.writeFile(path.join(outDir, file), source);
+    }
+
+    const tsconfig = ts.parseJsonConfigFileContent(JSON.parse(await read('tsconfig.json')), ts.sys, outDir);
+    const rootNames = result.files.filter(file => /\.tsx?$/.test(file)).map(file => path.join(outDir, file));
+    const program = ts.createProgram(rootNames, { ...tsconfig.options, noEmit: true });
+
+    expect(tsconfig.errors).toEqual([]);
+    expect(ts.getPreEmitDiagnostics(program).map(diagnostic => ts.formatDiagnostic(diagnostic, {
+      getCanonicalFileName: fileName => fileName,
+      getCurrentDirectory: () => outDir,
+      getNewLine: () => '\n'
+    }))).toEqual([]);
+  });
+});
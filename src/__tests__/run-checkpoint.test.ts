@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { z } from 'zod';
+import { PipelineRunner } from '../lib/pipeline-runner.js';
+import { RunCheckpoint } from '../lib/run-checkpoint.js';
+import { EventDrivenOrchestrator, ExecutionCheckpoint } from '../lib/event-driven-orchestrator.js';
+import { createDefaultPipelineDefinition } from '../lib/pipeline-definition.js';
+import { llmProviderManager, LLMProvider, LLMRequest, LLMResponse } from '../lib/llm-provider.js';
+import { PipelineConfig, PipelineConfigSchema } from '../schemas/index.js';
+
+/**
+ * スキーマ名に応じた最小限の出力を返し、指定したスキーマで失敗するテスト用プロバイダー
+ */
+class CheckpointTestProvider implements LLMProvider {
+  name = 'checkpoint-test';
+  calls: string[] = [];
+  failingSchema?: string;
+
+  async generateJSON<T>(request: LLMRequest, schema: z.ZodSchema<T>): Promise<LLMResponse<T>> {
+    this.calls.push(request.schemaName ?? '');
+    if (request.schemaName === this.failingSchema) {
+      throw new Error('invalid response format');
+    }
+    return { data: schema.parse(this.respond(request)), tokensUsed: 10, costUSD: 0, provider: this.name, model: request.model, duration: 0 };
+  }
+
+  private respond(request: LLMRequest): unknown {
+    switch (request.schemaName) {
+      case 'shot_plan_schema':
+        return { sceneId: 'scene-1', duration: 90, theme: 't', shots: [{ id: 'shot_1', start: 0, len: 90, desc: 'd' }] };
+      case 'asset_manifest_schema':
+        return { sceneId: 'scene-1', version: '1.0', assets: [{ id: 'asset_1', type: 'video', generator: 'mock', spec: { description: 'd' }, status: 'pending' }] };
+      default:
+        return {
+          sceneId: 'scene-1',
+          version: '1.0',
+          composition: {
+            title: 't',
+            description: 'd',
+            duration: 3,
+            fps: 30,
+            resolution: { width: 1920, height: 1080 },
+            timeline: [{ id: 'shot_1', start: 0, end: 3, assetId: 'asset_1', assetType: 'video', transform: null, effects: null }],
+            audio: null,
+            transitions: null
+          },
+          metadata: { createdAt: '2025-01-01T00:00:00.000Z', totalCost: 0, estimatedRenderTime: 0, quality: 'standard', tags: null }
+        };
+    }
+  }
+
+  async generateText(): Promise<LLMResponse<string>> {
+    throw new Error('not used');
+  }
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  getSupportedModels(): string[] {
+    return ['checkpoint-test-model'];
+  }
+}
+
+const provider = new CheckpointTestProvider();
+llmProviderManager.registerProvider(provider.name, provider);
+
+function testDefinition(): PipelineConfig {
+  const definition = createDefaultPipelineDefinition();
+  for (const agent of definition.agents) {
+    agent.config = { ...agent.config, provider: provider.name };
+  }
+  return { ...definition, options: { ...definition.options, useCache: false } };
+}
+
+describe('PipelineRunner のチェックポイントと再開', () => {
+  let workDir: string;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'motiva-runs-'));
+    provider.calls = [];
+    provider.failingSchema = undefined;
+  });
+
+  afterEach(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('失敗したエージェントから再開し、完了済みの出力を再利用する', async () => {
+    const runner = new PipelineRunner(workDir);
+    provider.failingSchema = 'director_output_schema';
+
+    const failed = await runner.run(testDefinition(), 'テーマ', 'run-1');
+    expect(failed.status).toBe('partial');
+    expect((await RunCheckpoint.load('run-1', workDir)).getResumePoint()).toBe('director');
+
+    provider.calls = [];
+    provider.failingSchema = undefined;
+    const resumed = await runner.resume('run-1');
+
+    expect(resumed.status).toBe('success');
+    expect(provider.calls).toEqual(['director_output_schema']);
+    expect(resumed.results.map(r => r.status)).toEqual(['success', 'success', 'success']);
+  });
+
+  it('読めない出力ファイルのエージェントは再実行し、破損した run.json はエラー', async () => {
+    const runner = new PipelineRunner(workDir);
+    await runner.run(testDefinition(), 'テーマ', 'run-2');
+    const runDir = RunCheckpoint.getRunDir('run-2', workDir);
+
+    await fs.writeFile(path.join(runDir, 'outputs', 'director.json'), '{"truncated', 'utf8');
+    provider.calls = [];
+    expect((await runner.resume('run-2')).status).toBe('success');
+    expect(provider.calls).toEqual(['director_output_schema']);
+
+    await fs.writeFile(path.join(runDir, 'run.json'), '{"executionId": "run-2"', 'utf8');
+    await expect(runner.resume('run-2')).rejects.toThrow('チェックポイントが破損しています');
+  });
+
+  it('実行ディレクトリの外を指す実行IDは拒否する', async () => {
+    const runner = new PipelineRunner(workDir);
+
+    await expect(runner.resume('../../x')).rejects.toThrow('実行IDが不正です: ../../x');
+    await expect(runner.run(testDefinition(), 'テーマ', 'a/b')).rejects.toThrow('実行IDが不正です');
+  });
+
+  it('出力ファイルの外を指すエージェント名は実行前に拒否する', async () => {
+    const runner = new PipelineRunner(workDir);
+    const definition = testDefinition();
+    definition.agents[0]!.name = '../../x';
+
+    await expect(runner.run(definition, 'テーマ', 'run-3')).rejects.toThrow('エージェント名が不正です: ../../x');
+    expect(provider.calls).toEqual([]);
+    expect(PipelineConfigSchema.safeParse({ ...testDefinition(), agents: [{ name: 'a/b', type: 'critic' }] }).success).toBe(false);
+  });
+});
+
+describe('EventDrivenOrchestrator のチェックポイント保存', () => {
+  it('チェックポイントの保存に失敗しても成功したエージェントは失敗扱いにしない', async () => {
+    const checkpoint: ExecutionCheckpoint = {
+      markStarted: async () => { throw new Error('EACCES'); },
+      markSucceeded: async () => { throw new Error('ENOSPC'); },
+      markFailed: async () => undefined
+    };
+
+    const orchestrator = new EventDrivenOrchestrator();
+    const result = await orchestrator.executePipeline({
+      agents: [{
+        name: 'planner',
+        model: 'checkpoint-test-model',
+        provider: provider.name,
+        systemPrompt: 'planner',
+        inputSchema: z.any(),
+        outputSchema: z.any(),
+        schemaName: 'shot_plan_schema'
+      }]
+    }, 'テーマ', { checkpoint });
+
+    expect(result.success).toBe(true);
+    expect(result.results.map(r => r.status)).toEqual(['success']);
+  });
+});
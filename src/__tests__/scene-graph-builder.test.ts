@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { buildSceneGraph } from '../lib/scene-graph-builder.js';
+import { SceneGraphSchema } from '../schemas/index.js';
+import type { DirectorOutput } from '../agents/director-agent.js';
+
+function directorOutput(composition: Partial<DirectorOutput['composition']> = {}): DirectorOutput {
+  return {
+    sceneId: 'scene-1',
+    version: '1.0',
+    composition: {
+      title: 'テスト',
+      description: 'テスト用の構成',
+      duration: 10,
+      fps: 24,
+      resolution: { width: 1280, height: 720 },
+      timeline: [
+        { id: 'shot_001', start: 0, end: 4, assetId: 'video_1', assetType: 'video', transform: null, effects: null },
+        {
+          id: 'shot_002',
+          start: 4,
+          end: 10,
+          assetId: 'image_1',
+          assetType: 'image',
+          transform: { x: 0, y: 0, scale: 1.2, rotation: 0, opacity: 1 },
+          effects: [{ type: 'blur', params: { radius: 3 } }]
+        }
+      ],
+      audio: {
+        bgm: { assetId: 'bgm_1', volume: 0.6, fadeIn: 1, fadeOut: 2 },
+        sfx: [{ assetId: 'sfx_1', start: 4, volume: 0.8 }]
+      },
+      transitions: [{ id: 't1', type: 'dissolve', duration: 0.5, fromShot: 'shot_001', toShot: 'shot_002', params: null }],
+      ...composition
+    },
+    metadata: { createdAt: '2025-01-01T00:00:00.000Z', totalCost: 0, estimatedRenderTime: 0, quality: 'standard', tags: null }
+  };
+}
+
+const options = { fps: 30, size: { w: 1920, h: 1080 } };
+
+describe('buildSceneGraph', () => {
+  it('秒をフレームに換算し、タイムラインと bgm/sfx をレイヤーに変換する', () => {
+    const { sceneGraph, danglingAssetIds, warnings } = buildSceneGraph(directorOutput(), options);
+
+    expect(SceneGraphSchema.safeParse(sceneGraph).success).toBe(true);
+    expect(sceneGraph).toMatchObject({ '@id': 'scene-1', fps: 30, duration: 300, size: { w: 1920, h: 1080 } });
+    expect(sceneGraph.layers).toEqual([
+      {
+        id: 'shot_001',
+        type: 'footage',
+        assetId: 'video_1',
+        timing: { start: 0, duration: 120 },
+        transitions: { out: { type: 'crossfade', duration: 15 } }
+      },
+      {
+        id: 'shot_002',
+        type: 'image',
+        assetId: 'image_1',
+        timing: { start: 120, duration: 180 },
+        transform: { position: { x: 960, y: 540 }, scale: { x: 1.2, y: 1.2 }, rotation: 0, opacity: 1 },
+        effects: [{ type: 'blur', params: { radius: 3 } }],
+        transitions: { in: { type: 'crossfade', duration: 15 } }
+      },
+      {
+        id: 'bgm',
+        type: 'audio',
+        role: 'bgm',
+        assetId: 'bgm_1',
+        volume: 0.6,
+        timing: { start: 0, duration: 300 },
+        transitions: { in: { type: 'fade', duration: 30 }, out: { type: 'fade', duration: 60 } }
+      },
+      { id: 'sfx-1', type: 'audio', role: 'sfx', assetId: 'sfx_1', volume: 0.8, timing: { start: 120, duration: 180 } }
+    ]);
+    expect(danglingAssetIds).toEqual([]);
+    expect(warnings).toEqual([]);
+  });
+
+  it('同じ入力からは同じ SceneGraph を生成する', () => {
+    expect(buildSceneGraph(directorOutput(), options)).toEqual(buildSceneGraph(directorOutput(), options));
+  });
+
+  it('Asset Manifest に存在しない素材IDを報告する', () => {
+    const assets = [{ id: 'video_1' }, { id: 'bgm_1' }];
+    const { danglingAssetIds } = buildSceneGraph(directorOutput(), { ...options, assets });
+
+    expect(danglingAssetIds).toEqual(['image_1', 'sfx_1']);
+  });
+
+  it('シーンの尺を超える区間を切り詰め、対象の無いトランジションを除外する', () => {
+    const { sceneGraph, warnings } = buildSceneGraph(directorOutput({
+      timeline: [
+        { id: 'shot_001', start: 8, end: 12, assetId: 'video_1', assetType: 'video', transform: null, effects: null },
+        { id: 'shot_002', start: 11, end: 13, assetId: 'video_2', assetType: 'video', transform: null, effects: null }
+      ],
+      audio: null,
+      transitions: [{ id: 't1', type: 'spin', duration: 1, fromShot: 'shot_001', toShot: 'shot_009', params: null }]
+    }), options);
+
+    expect(sceneGraph.layers).toEqual([{ id: 'shot_001', type: 'footage', assetId: 'video_1', timing: { start: 240, duration: 60 } }]);
+    expect(warnings).toEqual([
+      expect.stringContaining('timeline shot_001: シーンの尺に収まるよう 60 フレーム'),
+      expect.stringContaining('timeline shot_002: 表示区間がシーンの尺に収まらない'),
+      expect.stringContaining('transition t1: 対象のショット')
+    ]);
+  });
+});
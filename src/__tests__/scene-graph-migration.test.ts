@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { SceneGraphSchema, SCENE_GRAPH_VERSION } from '../schemas/index.js';
+import { migrateSceneGraph } from '../lib/scene-graph-migration.js';
+
+const header = {
+  '@context': 'https://schema.motiva.dev/scene-graph/v2',
+  '@id': 'test-scene',
+  type: 'Comp',
+  fps: 30,
+  duration: 900,
+  size: { w: 1920, h: 1080 }
+};
+
+describe('SceneGraphSchema', () => {
+  it('型付きレイヤーを検証する', () => {
+    const result = SceneGraphSchema.safeParse({
+      ...header,
+      version: SCENE_GRAPH_VERSION,
+      layers: [
+        { id: 'clip', type: 'footage', assetId: 'footage_1', timing: { start: 0, duration: 900 }, transitions: { in: { type: 'fade', duration: 15 } } },
+        { id: 'title', type: 'text', text: 'Hello', timing: { start: 30, duration: 90 }, transform: { opacity: 0.8 } },
+        { id: 'music', type: 'audio', assetId: 'bgm_1', role: 'bgm', timing: { start: 0, duration: 900 } }
+      ],
+      effects: [{ type: 'color-grade', params: { preset: 'warm' } }]
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it('不明な種別・必須項目の欠落・シーンの尺を超えるレイヤーを拒否する', () => {
+    const parse = (layer: unknown) => SceneGraphSchema.safeParse({ ...header, layers: [layer] });
+
+    expect(parse({ id: 'x', type: 'hologram', timing: { start: 0, duration: 10 } }).success).toBe(false);
+    expect(parse({ id: 'x', type: 'image', timing: { start: 0, duration: 10 } }).success).toBe(false);
+    expect(parse({ id: 'x', type: 'solid', color: '#000', timing: { start: 0, duration: 0 } }).success).toBe(false);
+
+    const overrun = parse({ id: 'x', type: 'solid', color: '#000', timing: { start: 850, duration: 100 } });
+    expect(overrun.success).toBe(false);
+    expect(overrun.error?.issues[0]?.path).toEqual(['layers', 0, 'timing']);
+  });
+
+  it('重複するレイヤーIDを拒否する', () => {
+    const layer = { id: 'bg', type: 'solid', color: '#000', timing: { start: 0, duration: 10 } };
+    expect(SceneGraphSchema.safeParse({ ...header, layers: [layer, layer] }).success).toBe(false);
+  });
+});
+
+describe('migrateSceneGraph', () => {
+  it('型付きの SceneGraph はそのまま返す', () => {
+    const graph = { ...header, layers: [{ id: 'bg', type: 'solid', color: '#000', timing: { start: 0, duration: 900 } }] };
+    expect(migrateSceneGraph(graph)).toEqual({ sceneGraph: graph, migrated: false, warnings: [] });
+  });
+
+  it('旧形式のレイヤーを型付きレイヤーに変換する', () => {
+    const { sceneGraph, migrated, warnings } = migrateSceneGraph({
+      ...header,
+      layers: [
+        { ref: 'footage_1', start: 0, len: 120, effect: 'blur', x: 10 },
+        { ref: 'footage_2', start: 120 },
+        { id: 'music', type: 'bgm', src: 'bgm_1', volume: 0.5, x: 3 },
+        { id: 'title', type: 'text', text: 'Hello', start: 30, duration: 2000, transition: 'dissolve', font: 'Noto Sans' }
+      ],
+      effects: ['vignette']
+    });
+
+    expect(migrated).toBe(true);
+    expect(sceneGraph.version).toBe(SCENE_GRAPH_VERSION);
+    expect(sceneGraph.effects).toEqual([{ type: 'vignette' }]);
+    expect(sceneGraph.layers).toEqual([
+      { id: 'layer-1', type: 'footage', assetId: 'footage_1', timing: { start: 0, duration: 120 }, effects: [{ type: 'blur' }], transform: { position: { x: 10, y: 0 } } },
+      { id: 'layer-2', type: 'footage', assetId: 'footage_2', timing: { start: 120, duration: 780 } },
+      { id: 'music', type: 'audio', assetId: 'bgm_1', role: 'bgm', volume: 0.5, timing: { start: 0, duration: 900 }, metadata: { legacy: { x: 3 } } },
+      {
+        id: 'title',
+        type: 'text',
+        text: 'Hello',
+        timing: { start: 30, duration: 870 },
+        transitions: { in: { type: 'fade', duration: 15 } },
+        metadata: { legacy: { font: 'Noto Sans' } }
+      }
+    ]);
+    expect(SceneGraphSchema.safeParse(sceneGraph).success).toBe(true);
+
+    expect(warnings).toEqual(expect.arrayContaining([
+      expect.stringContaining('layers[1] (layer-2): 長さの指定が無い'),
+      expect.stringContaining('layers[3] (title): シーンの尺に収まるよう長さを 870 フレーム'),
+      expect.stringContaining('fade に変換しました')
+    ]));
+  });
+
+  it('判別できない種別は adjustment レイヤーにし、元の種別を metadata に残す', () => {
+    const { sceneGraph, warnings } = migrateSceneGraph({ ...header, layers: [{ id: 'fx', type: 'particles', start: 0, len: 30 }] });
+
+    expect(sceneGraph.layers[0]).toEqual({
+      id: 'fx',
+      type: 'adjustment',
+      timing: { start: 0, duration: 30 },
+      metadata: { legacy: { type: 'particles' } }
+    });
+    expect(warnings[0]).toContain('種別 particles を判別できない');
+  });
+
+  it('旧形式としても不正な場合はエラーにする', () => {
+    expect(() => migrateSceneGraph({ ...header, fps: 0, layers: [] })).toThrow();
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { z } from 'zod';
+import { SchemaRegistry } from '../lib/schema-registry.js';
+import { initializeSchemas } from '../lib/schema-initializer.js';
+import { SceneGraphSchema, SCENE_GRAPH_VERSION } from '../schemas/index.js';
+
+const TEST_SCHEMA = 'migration_test_schema';
+
+// v1.0: { name }、v1.1: { title }、v2.0: { title, tags }
+const NoteSchema = z.object({
+  version: z.string(),
+  title: z.string(),
+  tags: z.array(z.string())
+});
+
+describe('SchemaRegistry のマイグレーション', () => {
+  const registry = SchemaRegistry.getInstance();
+
+  beforeEach(() => {
+    registry.register({ name: TEST_SCHEMA, zodSchema: NoteSchema, jsonSchema: {}, version: '2.0' });
+    registry.registerMigration(TEST_SCHEMA, {
+      from: '1.1',
+      to: '2.0',
+      description: 'tags を追加',
+      up: data => ({ ...data, version: '2.0', tags: [] })
+    });
+    registry.registerMigration(TEST_SCHEMA, {
+      from: '1.0',
+      to: '1.1',
+      description: 'name を title に変更',
+      up: ({ name, ...rest }, warnings) => {
+        warnings.push('name を title に変更しました');
+        return { ...rest, version: '1.1', title: name };
+      }
+    });
+  });
+
+  afterEach(() => {
+    registry.unregister(TEST_SCHEMA);
+  });
+
+  it('ファイルのバージョンから現行バージョンまで順に移行して検証する', () => {
+    const original = { version: '1.0', name: 'メモ', extra: 1 };
+    const result = registry.migrate(TEST_SCHEMA, original);
+
+    expect(result.data).toEqual({ version: '2.0', title: 'メモ', tags: [], extra: 1 });
+    expect(result.fromVersion).toBe('1.0');
+    expect(result.toVersion).toBe('2.0');
+    expect(result.applied.map(step => `${step.from}→${step.to}`)).toEqual(['1.0→1.1', '1.1→2.0']);
+    expect(result.warnings).toEqual(['name を title に変更しました']);
+    expect(original).toEqual({ version: '1.0', name: 'メモ', extra: 1 });
+  });
+
+  it('現行バージョンのデータは変更せず、移行できないバージョンはエラー', () => {
+    const current = { version: '2.0', title: 't', tags: ['a'] };
+    expect(registry.migrate(TEST_SCHEMA, current)).toMatchObject({ data: current, applied: [] });
+
+    expect(registry.hasMigrationPath(TEST_SCHEMA, '0.9')).toBe(false);
+    expect(() => registry.migrate(TEST_SCHEMA, { version: '0.9' })).toThrow('v0.9 から v2.0 への移行がありません');
+    expect(() => registry.migrate(TEST_SCHEMA, { title: 1 })).toThrow('バージョンを判定できません');
+  });
+
+  it('version プロパティが無い場合は現行スキーマで検証できれば現行バージョンと判定する', () => {
+    registry.register({ name: TEST_SCHEMA, zodSchema: NoteSchema.omit({ version: true }), jsonSchema: {}, version: '2.0' });
+
+    expect(registry.detectVersion(TEST_SCHEMA, { title: 't', tags: [] })).toBe('2.0');
+    expect(registry.detectVersion(TEST_SCHEMA, { name: 'n' })).toBeUndefined();
+  });
+});
+
+describe('登録済みスキーマのマイグレーション', () => {
+  const registry = initializeSchemas();
+
+  it('version の無い旧形式の SceneGraph を v2.0 の型付きレイヤーに移行する', () => {
+    const legacy = {
+      '@context': 'https://schema.motiva.dev/scene-graph/v2',
+      '@id': 'legacy-scene',
+      type: 'Comp',
+      fps: 30,
+      duration: 300,
+      size: { w: 1920, h: 1080 },
+      layers: [{ ref: 'footage_1', start: 0, len: 300 }]
+    };
+
+    expect(registry.detectVersion('scene_graph_schema', legacy)).toBe('1.0');
+
+    const result = registry.migrate<typeof legacy>('scene_graph_schema', legacy);
+    expect(result.toVersion).toBe(SCENE_GRAPH_VERSION);
+    expect(SceneGraphSchema.parse(result.data).layers[0]).toMatchObject({ type: 'footage', assetId: 'footage_1' });
+  });
+
+  it('型付きレイヤーで version が "1.0" の SceneGraph はレイヤーを変えずに version を現行バージョンに更新する', () => {
+    const sceneGraph = {
+      '@context': 'https://schema.motiva.dev/scene-graph/v2',
+      '@id': 'typed-scene',
+      version: '1.0',
+      type: 'Comp',
+      fps: 30,
+      duration: 300,
+      size: { w: 1920, h: 1080 },
+      layers: [{ id: 'clip', type: 'footage', assetId: 'footage_1', timing: { start: 30, duration: 120 } }]
+    };
+
+    const result = registry.migrate('scene_graph_schema', sceneGraph);
+    expect(result.data).toEqual({ ...sceneGraph, version: SCENE_GRAPH_VERSION });
+    expect(result).toMatchObject({ fromVersion: '1.0', toVersion: SCENE_GRAPH_VERSION, warnings: [] });
+    expect(registry.migrate('scene_graph_schema', result.data).applied).toEqual([]);
+  });
+
+  it('現行のショットプランと Asset Manifest は移行不要と判定する', () => {
+    const plan = { sceneId: 's', duration: 90, theme: 't', shots: [{ id: 'a', start: 0, len: 90, desc: 'd' }] };
+    const manifest = {
+      sceneId: 's',
+      version: '1.0',
+      assets: [{ id: 'a', type: 'image', generator: 'mock', spec: { description: 'd' }, status: 'pending' }]
+    };
+
+    expect(registry.migrate('shot_plan_schema', plan)).toMatchObject({ fromVersion: '1.1', applied: [] });
+    expect(registry.migrate('asset_manifest_schema', manifest)).toMatchObject({ fromVersion: '1.0', applied: [] });
+  });
+
+  it('Asset Manifest・ショットプランの version プロパティ（内容のバージョン）はスキーマのバージョンとみなさない', () => {
+    const manifest = {
+      sceneId: 's',
+      assets: [{ id: 'a', type: 'image', generator: 'mock', spec: { description: 'd' }, status: 'pending' }]
+    };
+
+    for (const version of ['1', '1.0.0']) {
+      expect(registry.migrate('asset_manifest_schema', { ...manifest, version })).toMatchObject({ fromVersion: '1.0', applied: [] });
+      expect(registry.detectVersion('shot_plan_schema', {
+        version,
+        sceneId: 's',
+        duration: 90,
+        theme: 't',
+        shots: [{ id: 'a', start: 0, len: 90, desc: 'd' }]
+      })).toBe('1.1');
+    }
+    expect(registry.detectVersion('asset_manifest_schema', { version: '1.0' })).toBeUndefined();
+  });
+});
@@ -0,0 +1,206 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { SchemaRegistry } from '../lib/schema-registry.js';
+import { initializeSchemas } from '../lib/schema-initializer.js';
+import { AssetManifestSchema, JsonPatchSchema, SceneGraphSchema, ShotPlanSchema } from '../schemas/index.js';
+import { CriticReportSchema } from '../agents/critic-agent.js';
+import { EditorPatchSchema } from '../agents/editor-agent.js';
+
+// OpenAI Structured Outputs の strict モードで使用できるキーワード
+const STRICT_KEYWORDS = new Set([
+  'type', 'properties', 'required', 'additionalProperties', 'items', 'anyOf', 'enum', 'description',
+  'minimum', 'maximum', 'exclusiveMinimum', 'exclusiveMaximum', 'multipleOf', 'minItems', 'maxItems', 'pattern', 'format'
+]);
+
+/**
+ * strict モードの制約に違反している箇所を列挙
+ */
+function findStrictViolations(schema: any, path = '$'): string[] {
+  const violations = Object.keys(schema)
+    .filter(keyword => !STRICT_KEYWORDS.has(keyword))
+    .map(keyword => `${path}: ${keyword} は使用できません`);
+
+  if (schema.type === undefined && schema.anyOf === undefined) {
+    violations.push(`${path}: type または anyOf が必要です`);
+  }
+  if (schema.type === 'object') {
+    const keys = Object.keys(schema.properties ?? {});
+    if (schema.additionalProperties !== false) violations.push(`${path}: additionalProperties は false が必要です`);
+    if (JSON.stringify(schema.required) !== JSON.stringify(keys)) violations.push(`${path}: 全てのキーが required に必要です`);
+    for (const key of keys) violations.push(...findStrictViolations(schema.properties[key], `${path}.${key}`));
+  }
+  if (schema.items) violations.push(...findStrictViolations(schema.items, `${path}[]`));
+  (schema.anyOf ?? []).forEach((option: any, index: number) => violations.push(...findStrictViolations(option, `${path}|${index}`)));
+
+  return violations;
+}
+
+describe('SchemaRegistry.generateJSONSchema', () => {
+  const registry = SchemaRegistry.getInstance();
+
+  it('登録済みの全スキーマを OpenAI の strict モードで使用できる形式に変換する', () => {
+    initializeSchemas();
+
+    for (const name of registry.list()) {
+      const jsonSchema = registry.get(name).jsonSchema as any;
+      expect(jsonSchema.type, name).toBe('object');
+      expect(findStrictViolations(jsonSchema), name).toEqual([]);
+    }
+  });
+
+  it('Editor のパッチは result キーでラップした object 型とし、value にオブジェクトを指定できる', () => {
+    initializeSchemas();
+
+    expect(registry.has('critic_report_schema')).toBe(true);
+    const jsonSchema = registry.get('json_patch_schema').jsonSchema as any;
+    expect(jsonSchema.type).toBe('object');
+    expect(jsonSchema.required).toEqual(['result']);
+    const value = jsonSchema.properties.result.items.properties.value;
+    expect(value.anyOf.filter((option: any) => option.type === 'object').length).toBeGreaterThan(0);
+
+    // strict モードの応答（省略した項目は null）をオブジェクトの value ごと検証できる
+    const patch = registry.removeOptionalNulls(EditorPatchSchema, [
+      { op: 'add', path: '/layers/0/transitions', value: { in: { type: 'fade', duration: 15, easing: null }, out: null }, from: null },
+      { op: 'add', path: '/layers/0/effects/-', value: { type: 'blur', params: {}, timing: null }, from: null },
+      { op: 'replace', path: '/layers/0/timing/duration', value: 90, from: null }
+    ]);
+    expect(EditorPatchSchema.parse(patch)).toEqual([
+      { op: 'add', path: '/layers/0/transitions', value: { in: { type: 'fade', duration: 15 } } },
+      { op: 'add', path: '/layers/0/effects/-', value: { type: 'blur', params: {} } },
+      { op: 'replace', path: '/layers/0/timing/duration', value: 90 }
+    ]);
+  });
+
+  it('判別共用体・リテラル・制約・既定値・説明を変換する', () => {
+    const schema = z.object({
+      shape: z.discriminatedUnion('kind', [
+        z.object({ kind: z.literal('circle'), radius: z.number().positive() }),
+        z.object({ kind: z.literal('square'), size: z.number().int().min(1).max(100) })
+      ]),
+      tags: z.array(z.string().min(1)).min(1).max(3).describe('タグ'),
+      label: z.union([z.string(), z.number()]).nullable().optional(),
+      count: z.number().int().default(1),
+      color: z.string().regex(/^#[0-9A-F]{6}$/i)
+    }).superRefine(() => undefined);
+
+    const jsonSchema = registry.generateJSONSchema(schema) as any;
+
+    expect(jsonSchema.required).toEqual(['shape', 'tags', 'label', 'count', 'color']);
+    expect(jsonSchema.properties.shape.anyOf).toEqual([
+      {
+        type: 'object',
+        properties: { kind: { type: 'string', enum: ['circle'] }, radius: { type: 'number', exclusiveMinimum: 0 } },
+        required: ['kind', 'radius'],
+        additionalProperties: false
+      },
+      {
+        type: 'object',
+        properties: { kind: { type: 'string', enum: ['square'] }, size: { type: 'integer', minimum: 1, maximum: 100 } },
+        required: ['kind', 'size'],
+        additionalProperties: false
+      }
+    ]);
+    expect(jsonSchema.properties.tags).toEqual({ type: 'array', items: { type: 'string' }, minItems: 1, maxItems: 3, description: 'タグ' });
+    expect(jsonSchema.properties.label).toEqual({ anyOf: [{ type: 'string' }, { type: 'number' }, { type: 'null' }] });
+    expect(jsonSchema.properties.count).toEqual({ type: 'integer', description: '既定値: 1' });
+    expect(jsonSchema.properties.color).toEqual({ type: 'string', pattern: '^#[0-9A-F]{6}$' });
+    expect(findStrictViolations(jsonSchema)).toEqual([]);
+  });
+
+  it('strict でない場合は省略可能な項目を required から外し、レコード・既定値・文字数を出力する', () => {
+    const schema = z.object({
+      name: z.string().min(2),
+      note: z.string().optional(),
+      retries: z.number().int().default(3),
+      params: z.record(z.string(), z.number())
+    });
+
+    const jsonSchema = registry.generateJSONSchema(schema, { strict: false }) as any;
+
+    expect(jsonSchema.required).toEqual(['name', 'params']);
+    expect(jsonSchema.properties).toEqual({
+      name: { type: 'string', minLength: 2 },
+      note: { type: 'string' },
+      retries: { type: 'integer', default: 3 },
+      params: { type: 'object', additionalProperties: { type: 'number' } }
+    });
+
+    // strict モードでは任意のキーを表現できないため空のオブジェクトになる
+    expect((registry.generateJSONSchema(schema) as any).properties.params).toEqual({
+      type: 'object', properties: {}, required: [], additionalProperties: false
+    });
+  });
+
+  it('変換できない型はフィールドの位置を含めてエラー', () => {
+    expect(() => registry.generateJSONSchema(z.object({ pair: z.tuple([z.string(), z.number()]) }), { name: 'Pair' }))
+      .toThrow('JSON Schema に変換できない Zod の型です: ZodTuple (Pair.pair)');
+  });
+});
+
+describe('SchemaRegistry.removeOptionalNulls', () => {
+  const registry = SchemaRegistry.getInstance();
+
+  it('strict モードの応答で optional のみの項目に返された null を取り除き、null を許容する項目は残す', () => {
+    const plan = registry.removeOptionalNulls(ShotPlanSchema, {
+      sceneId: 's', duration: 90, theme: 't', bgm: null, shots: [{ id: 'a', start: 0, len: 90, desc: 'd' }]
+    });
+    expect(ShotPlanSchema.parse(plan)).not.toHaveProperty('bgm');
+
+    const manifest = registry.removeOptionalNulls(AssetManifestSchema, {
+      sceneId: 's', version: '1', assets: [{ id: 'a', type: 'image', generator: 'mock', spec: { description: 'd' }, status: 'pending', metadata: null }]
+    });
+    expect(AssetManifestSchema.parse(manifest).assets[0]).not.toHaveProperty('metadata');
+
+    const patch = registry.removeOptionalNulls(JsonPatchSchema, [{ op: 'replace', path: '/fps', value: null, from: null }]);
+    expect(JsonPatchSchema.parse(patch)).toEqual([{ op: 'replace', path: '/fps', value: null }]);
+
+    const report = registry.removeOptionalNulls(CriticReportSchema, {
+      overallScore: 70,
+      qualityAssessment: { visualQuality: 70, narrativeFlow: 70, technicalExecution: 70, emotionalImpact: 70 },
+      issues: [{ severity: 'low', category: 'visual', description: 'd', suggestion: null }],
+      strengths: [],
+      recommendations: [],
+      metadata: { reviewDate: '2025-01-01T00:00:00.000Z', reviewer: 'critic', version: '1.0' }
+    });
+    expect(CriticReportSchema.parse(report).issues[0]).not.toHaveProperty('suggestion');
+
+    const sceneGraph = registry.removeOptionalNulls(SceneGraphSchema, {
+      '@context': 'https://schema.motiva.dev/scene-graph/v2',
+      '@id': 'scene',
+      version: null,
+      type: 'Comp',
+      fps: 30,
+      duration: 90,
+      size: { w: 1920, h: 1080 },
+      layers: [{
+        id: 'title',
+        type: 'text',
+        text: 'hello',
+        name: null,
+        timing: { start: 0, duration: 90 },
+        transform: { position: { x: 0, y: 0 }, anchor: null, scale: null, rotation: null, opacity: null },
+        effects: null,
+        transitions: { in: { type: 'fade', duration: 10, easing: null }, out: null },
+        metadata: null,
+        style: null
+      }],
+      effects: null
+    });
+    expect(SceneGraphSchema.parse(sceneGraph)).toEqual({
+      '@context': 'https://schema.motiva.dev/scene-graph/v2',
+      '@id': 'scene',
+      type: 'Comp',
+      fps: 30,
+      duration: 90,
+      size: { w: 1920, h: 1080 },
+      layers: [{
+        id: 'title',
+        type: 'text',
+        text: 'hello',
+        timing: { start: 0, duration: 90 },
+        transform: { position: { x: 0, y: 0 } },
+        transitions: { in: { type: 'fade', duration: 10 } }
+      }]
+    });
+  });
+});
@@ -1,5 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { ShotPlanSchema, BudgetSchema } from '../schemas/index.js';
+import { ConceptPlanner } from '../agents/concept-planner.js';
+import { SchemaRegistry } from '../lib/schema-registry.js';
 
 describe('Schema Validation', () => {
   describe('ShotPlanSchema', () => {
@@ -89,6 +91,78 @@ describe('Schema Validation', () => {
       const parsed = ShotPlanSchema.parse(planWithoutBgm);
       expect(parsed.bgm).toBeUndefined();
     });
+
+    it('撮影・演出の指定（camera・mood・transitions・characters・audioCues）を検証する', () => {
+      const richPlan = {
+        sceneId: 'test-scene',
+        duration: 300,
+        theme: 'テストテーマ',
+        shots: [
+          {
+            id: 's1',
+            start: 0,
+            len: 150,
+            desc: '海辺を歩く二人',
+            camera: { movement: 'dolly', shotSize: 'wide', lens: { focalLength: 24, type: 'wide' } },
+            mood: '穏やか',
+            colorPalette: ['#F2C14E', '#1B4965'],
+            transitions: { in: { type: 'fade', duration: 15 }, out: { type: 'crossfade', duration: 10 } },
+            characters: ['アオイ', 'ハル'],
+            audioCues: [{ type: 'ambience', description: '波の音', start: 0 }]
+          },
+          {
+            id: 's2',
+            start: 150,
+            len: 150,
+            desc: '笑顔のアップ',
+            camera: { movement: null, shotSize: 'close-up', lens: null },
+            mood: null,
+            colorPalette: null,
+            transitions: { in: { type: 'crossfade', duration: 10 }, out: null },
+            characters: ['アオイ'],
+            audioCues: null
+          }
+        ]
+      };
+
+      const parsed = ShotPlanSchema.parse(richPlan);
+      expect(parsed.shots[0]!.camera?.lens?.focalLength).toBe(24);
+      expect(parsed.shots[1]!.transitions?.in?.type).toBe('crossfade');
+
+      const invalidShot = { ...richPlan.shots[0]!, camera: { shotSize: 'very-close' }, colorPalette: ['orange'] };
+      const result = ShotPlanSchema.safeParse({ ...richPlan, shots: [invalidShot] });
+      expect(result.success).toBe(false);
+      expect(result.error?.issues.map(issue => issue.path.join('.'))).toEqual(['shots.0.camera.shotSize', 'shots.0.colorPalette.0']);
+    });
+
+    it('validatePlan はトランジション・音のきっかけの不整合を警告する', async () => {
+      const planner = new ConceptPlanner();
+      const validation = await planner.validatePlan(ShotPlanSchema.parse({
+        sceneId: 'test-scene',
+        duration: 120,
+        theme: 'テストテーマ',
+        shots: [
+          { id: 's1', start: 0, len: 60, desc: 'a', transitions: { in: { type: 'crossfade', duration: 90 }, out: { type: 'wipe', duration: 10 } } },
+          { id: 's2', start: 60, len: 60, desc: 'b', transitions: { in: { type: 'crossfade', duration: 10 } }, audioCues: [{ type: 'sfx', description: 'ドアの音', start: 50, len: 20 }] }
+        ]
+      }));
+
+      expect(validation.isValid).toBe(true);
+      expect(validation.warnings).toEqual([
+        expect.stringContaining('ショット "s1" の transitions.in（90フレーム）がショットの長さを超えています'),
+        expect.stringContaining('最初のショット "s1" には切り替え元が無い'),
+        expect.stringContaining('"s1" の transitions.out（wipe）と "s2" の transitions.in（crossfade）が一致しません'),
+        expect.stringContaining('音のきっかけ「ドアの音」がショットの範囲を超えています')
+      ]);
+    });
+
+    it('登録する JSON Schema に撮影・演出の指定が含まれる', () => {
+      const jsonSchema = SchemaRegistry.getInstance().generateJSONSchema(ShotPlanSchema) as any;
+      const shot = jsonSchema.properties.shots.items;
+
+      expect(shot.required).toEqual(expect.arrayContaining(['camera', 'mood', 'colorPalette', 'transitions', 'characters', 'audioCues']));
+      expect(JSON.stringify(shot.properties.camera)).toContain('"close-up"');
+    });
   });
 
   describe('BudgetSchema', () => {
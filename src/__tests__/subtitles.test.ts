@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import { ShotPlanSchema, ShotPlan } from '../schemas/index.js';
+import { applyCaptionDraft, checkCaptions, collectSubtitleCues, exportSrt, exportVtt, formatSubtitleTime } from '../lib/subtitles.js';
+
+const plan: ShotPlan = {
+  sceneId: 'scene-1',
+  duration: 180,
+  theme: '朝の港町',
+  shots: [
+    {
+      id: 'shot-1',
+      start: 0,
+      len: 90,
+      desc: '港の全景',
+      captions: [{ text: '夜明けの港に、\n最初の船が帰ってくる。', speaker: 'ナレーター', start: 15, len: 60 }]
+    },
+    {
+      id: 'shot-2',
+      start: 90,
+      len: 90,
+      desc: '市場の賑わい',
+      captions: [
+        { text: 'いらっしゃい！', speaker: '魚屋 <店主>', start: 0, len: 30 },
+        { text: 'MORNING MARKET', start: 45, len: 45 }
+      ]
+    }
+  ]
+};
+
+describe('ShotPlan の字幕', () => {
+  it('captions の無い既存のショットプランもそのまま検証できる', () => {
+    const legacy = { sceneId: 's', duration: 90, theme: 't', shots: [{ id: 'a', start: 0, len: 90, desc: 'd' }] };
+
+    expect(ShotPlanSchema.parse(legacy)).toEqual(legacy);
+    expect(collectSubtitleCues(legacy)).toEqual([]);
+    expect(checkCaptions(legacy)).toEqual([]);
+  });
+
+  it('ショットの開始フレームを足してタイムライン順に並べる', () => {
+    expect(collectSubtitleCues(plan).map(cue => [cue.shotId, cue.start, cue.end, cue.speaker])).toEqual([
+      ['shot-1', 15, 75, 'ナレーター'],
+      ['shot-2', 90, 120, '魚屋 <店主>'],
+      ['shot-2', 135, 180, undefined]
+    ]);
+  });
+
+  it('SRT はショットのフレームに合わせたタイミングで出力する', () => {
+    expect(exportSrt(plan, 30)).toBe([
+      '1',
+      '00:00:00,500 --> 00:00:02,500',
+      '夜明けの港に、',
+      '最初の船が帰ってくる。',
+      '',
+      '2',
+      '00:00:03,000 --> 00:00:04,000',
+      'いらっしゃい！',
+      '',
+      '3',
+      '00:00:04,500 --> 00:00:06,000',
+      'MORNING MARKET',
+      ''
+    ].join('\n'));
+  });
+
+  it('WebVTT は話者を <v> タグで出力し、特殊文字をエスケープする', () => {
+    expect(exportVtt(plan, 24)).toBe([
+      'WEBVTT',
+      '',
+      'shot-1-1',
+      '00:00:00.625 --> 00:00:03.125',
+      '<v ナレーター>夜明けの港に、',
+      '最初の船が帰ってくる。',
+      '',
+      'shot-2-1',
+      '00:00:03.750 --> 00:00:05.000',
+      '<v 魚屋 &lt;店主&gt;>いらっしゃい！',
+      '',
+      'shot-2-2',
+      '00:00:05.625 --> 00:00:07.500',
+      'MORNING MARKET',
+      ''
+    ].join('\n'));
+  });
+
+  it('フレームをミリ秒単位の時刻に変換する', () => {
+    expect(formatSubtitleTime(0, 30, ',')).toBe('00:00:00,000');
+    expect(formatSubtitleTime(3723 * 30 + 1, 30, '.')).toBe('01:02:03.033');
+  });
+
+  it('字幕の重なり・1行42文字超過・ショットからのはみ出しを検出する', () => {
+    const flawed: ShotPlan = {
+      ...plan,
+      shots: [
+        { ...plan.shots[0]!, captions: [{ text: 'A'.repeat(43), start: 60, len: 45 }] },
+        { ...plan.shots[1]!, captions: [{ text: '二行目は短い\n' + 'あ'.repeat(42), start: 0, len: 30 }] }
+      ]
+    };
+
+    expect(checkCaptions(flawed).map(issue => [issue.type, issue.shotId])).toEqual([
+      ['out-of-shot', 'shot-1'],
+      ['line-length', 'shot-1'],
+      ['overlap', 'shot-2']
+    ]);
+    expect(checkCaptions(flawed)[1]!.message).toContain('1行42文字を超えています（43文字）');
+  });
+
+  it('下書きの字幕を該当ショットに反映し、存在しないショットは警告する', () => {
+    const result = applyCaptionDraft(plan, {
+      shots: [
+        { shotId: 'shot-2', captions: [] },
+        { shotId: 'shot-9', captions: [{ text: '?', start: 0, len: 10 }] }
+      ]
+    });
+
+    expect(result.plan.shots[0]!.captions).toEqual(plan.shots[0]!.captions);
+    expect(result.plan.shots[1]!.captions).toEqual([]);
+    expect(result.warnings).toEqual(['存在しないショット "shot-9" の字幕を無視しました']);
+  });
+});
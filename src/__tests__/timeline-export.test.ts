@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { toEditTimeline, framesToTimecode, timecodeToFrames, EditTimeline } from '../lib/edit-timeline.js';
+import { exportOtio, parseOtio } from '../lib/otio-format.js';
+import { exportFcpxml, parseFcpxml } from '../lib/fcpxml-format.js';
+import { exportEdl, parseEdl } from '../lib/edl-format.js';
+import type { SceneGraph } from '../schemas/index.js';
+
+const FIXTURE_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'timeline');
+
+function fixture(file: string): string {
+  return fs.readFileSync(path.join(FIXTURE_DIR, file), 'utf8');
+}
+
+const sceneGraph: SceneGraph = {
+  '@context': 'https://schema.motiva.dev/scene-graph/v2',
+  '@id': 'scene-1',
+  version: '2.0',
+  type: 'Comp',
+  fps: 30,
+  duration: 300,
+  size: { w: 1920, h: 1080 },
+  layers: [
+    { id: 'shot-1', type: 'footage', assetId: 'video_1', sourceStart: 30, timing: { start: 0, duration: 120 }, transitions: { out: { type: 'crossfade', duration: 15 } } },
+    { id: 'shot-2', type: 'footage', assetId: 'video_2', timing: { start: 120, duration: 120 }, transitions: { in: { type: 'crossfade', duration: 15 } } },
+    { id: 'shot-3', type: 'image', assetId: 'image_1', timing: { start: 240, duration: 60 }, transitions: { in: { type: 'wipe', duration: 10 } } },
+    { id: 'logo', type: 'image', assetId: 'logo', timing: { start: 0, duration: 60 } },
+    { id: 'title', type: 'text', text: 'タイトル', timing: { start: 0, duration: 60 } },
+    { id: 'bgm', type: 'audio', role: 'bgm', assetId: 'bgm_1', timing: { start: 0, duration: 300 } },
+    { id: 'sfx-1', type: 'audio', role: 'sfx', assetId: 'sfx_1', timing: { start: 60, duration: 30 } }
+  ]
+};
+
+const assets = [
+  { id: 'video_1', uri: 'footage/shot1.mp4' },
+  { id: 'video_2', uri: 'https://cdn.example.com/shot2.mp4' },
+  { id: 'image_1', uri: 'footage/still.png' },
+  { id: 'bgm_1', uri: 'audio/bgm.wav' },
+  { id: 'sfx_1', uri: 'audio/whoosh.wav' }
+];
+
+function buildTimeline(): EditTimeline {
+  return toEditTimeline(sceneGraph, { assets, baseDir: '/media' }).timeline;
+}
+
+describe('toEditTimeline', () => {
+  it('映像・画像と音声を重ならないトラックに振り分け、未対応のレイヤーは警告する', () => {
+    const { timeline, warnings } = toEditTimeline(sceneGraph, { assets, baseDir: '/media' });
+
+    expect(timeline.tracks.map(track => [track.kind, track.clips.map(clip => clip.name)])).toEqual([
+      ['video', ['shot-1', 'shot-2', 'shot-3']],
+      ['video', ['logo']],
+      ['audio', ['bgm']],
+      ['audio', ['sfx-1']]
+    ]);
+    expect(timeline.tracks[0]!.clips[0]).toEqual({
+      name: 'shot-1', assetId: 'video_1', mediaUrl: 'file:///media/footage/shot1.mp4', recordStart: 0, duration: 120, sourceStart: 30
+    });
+    expect(timeline.tracks[0]!.clips[1]!.transitionIn).toEqual({ type: 'crossfade', duration: 15 });
+    expect(timeline.tracks[1]!.clips[0]!.mediaUrl).toBeUndefined();
+    expect(warnings).toEqual([expect.stringContaining('layer title: text レイヤー')]);
+  });
+
+  it('fps が異なる場合はフレームを換算する', () => {
+    const { timeline, warnings } = toEditTimeline(sceneGraph, { fps: 24 });
+
+    expect(timeline.fps).toBe(24);
+    expect(timeline.duration).toBe(240);
+    expect(timeline.tracks[0]!.clips[1]).toMatchObject({ recordStart: 96, duration: 96, transitionIn: { duration: 12 } });
+    expect(warnings).toContain('SceneGraph の 30fps を 24fps に換算しました');
+  });
+});
+
+describe('タイムコード', () => {
+  it('フレーム数と HH:MM:SS:FF を相互に変換する', () => {
+    expect(framesToTimecode(0, 30)).toBe('00:00:00:00');
+    expect(framesToTimecode(3723 * 30 + 29, 30)).toBe('01:02:03:29');
+    expect(timecodeToFrames('01:02:03:29', 30)).toBe(3723 * 30 + 29);
+    expect(() => timecodeToFrames('1:02:03', 30)).toThrow('タイムコードの形式が不正です');
+  });
+});
+
+describe('OpenTimelineIO', () => {
+  it('フィクスチャと一致する OTIO を出力する', () => {
+    expect(exportOtio(buildTimeline()).content).toBe(fixture('scene.otio'));
+  });
+
+  it('フィクスチャを読み込むと元のタイムラインに戻る', () => {
+    expect(parseOtio(fixture('scene.otio'))).toEqual(buildTimeline());
+  });
+});
+
+describe('FCPXML', () => {
+  it('フィクスチャと一致する FCPXML を出力し、未対応のトランジションと参照先の無い素材を警告する', () => {
+    const result = exportFcpxml(buildTimeline());
+
+    expect(result.content).toBe(fixture('scene.fcpxml'));
+    expect(result.warnings).toEqual([
+      expect.stringContaining('shot-3: FCPXML では wipe トランジションを Cross Dissolve として出力しました'),
+      expect.stringContaining('素材 logo: 参照先が無いため')
+    ]);
+  });
+
+  it('フィクスチャを読み込むと元のタイムラインに戻る（トランジションは crossfade）', () => {
+    const expected = buildTimeline();
+    expected.tracks[0]!.clips[2]!.transitionIn = { type: 'crossfade', duration: 10 };
+
+    expect(parseFcpxml(fixture('scene.fcpxml'))).toEqual(expected);
+  });
+});
+
+describe('CMX 3600 EDL', () => {
+  it('フィクスチャと一致する EDL を出力し、V2 以降の映像トラックは警告して省略する', () => {
+    const result = exportEdl(buildTimeline());
+
+    expect(result.content).toBe(fixture('scene.edl'));
+    expect(result.warnings).toEqual([expect.stringContaining('EDL は映像1トラックまでのため、logo を省略しました')]);
+  });
+
+  it('フィクスチャを読み込むと元のタイムラインに戻る（V1, A, A2）', () => {
+    const { size: _size, ...expected } = buildTimeline();
+    expected.tracks = expected.tracks.filter((_, index) => index !== 1);
+
+    expect(parseEdl(fixture('scene.edl'), 30)).toEqual(expected);
+  });
+});
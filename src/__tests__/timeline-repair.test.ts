@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { ShotPlan, ShotPlanSchema } from '../schemas/index.js';
+import { detectTimelineIssues, repairTimeline, formatTimelineRepairReport } from '../lib/timeline-repair.js';
+
+// s2 の前に10フレームの隙間、s3 が s2 と20フレーム重なり、総尺を10フレーム超過
+const plan: ShotPlan = {
+  sceneId: 'scene-1',
+  duration: 300,
+  theme: 'テスト',
+  shots: [
+    { id: 's1', start: 0, len: 100, desc: 'a' },
+    { id: 's3', start: 190, len: 120, desc: 'c' },
+    { id: 's2', start: 110, len: 100, desc: 'b' }
+  ]
+};
+
+const spans = (result: { plan: ShotPlan }) => result.plan.shots.map(shot => [shot.id, shot.start, shot.len]);
+
+describe('detectTimelineIssues', () => {
+  it('隙間・重なり・総尺の超過を検出する', () => {
+    expect(detectTimelineIssues(plan).map(issue => [issue.type, issue.shotId, issue.frames])).toEqual([
+      ['gap', 's2', 10],
+      ['overlap', 's3', 20],
+      ['overrun', undefined, 10]
+    ]);
+  });
+});
+
+describe('repairTimeline', () => {
+  it('proportional は開始位置の順に詰めて総尺に比例して伸縮する', () => {
+    const result = repairTimeline(plan, 'proportional');
+
+    expect(spans(result)).toEqual([['s1', 0, 94], ['s2', 94, 94], ['s3', 188, 112]]);
+    expect(result.changes.map(change => change.shotId)).toEqual(['s1', 's2', 's3']);
+    expect(ShotPlanSchema.parse(result.plan)).toEqual(result.plan);
+  });
+
+  it('trim-last は長さを保って詰め、総尺を超えた分を末尾で削る', () => {
+    const result = repairTimeline(plan, 'trim-last');
+
+    expect(spans(result)).toEqual([['s1', 0, 100], ['s2', 100, 100], ['s3', 200, 100]]);
+    expect(result.removed).toEqual([]);
+
+    const short = repairTimeline({ ...plan, duration: 180 }, 'trim-last');
+    expect(spans(short)).toEqual([['s1', 0, 100], ['s2', 100, 80]]);
+    expect(short.removed).toEqual(['s3']);
+  });
+
+  it('ripple は重なった分だけ前のショットを削り、隙間は後続を前に詰める', () => {
+    const result = repairTimeline(plan, 'ripple');
+
+    expect(spans(result)).toEqual([['s1', 0, 100], ['s2', 100, 80], ['s3', 180, 120]]);
+    expect(result.changes).toEqual([
+      { shotId: 's2', from: { start: 110, len: 100 }, to: { start: 100, len: 80 } },
+      { shotId: 's3', from: { start: 190, len: 120 }, to: { start: 180, len: 120 } }
+    ]);
+  });
+
+  it('総尺に足りない場合は末尾のショットを伸ばし、問題が無ければ変更しない', () => {
+    const underrun = { ...plan, duration: 400 };
+    expect(spans(repairTimeline(underrun, 'trim-last'))).toEqual([['s1', 0, 100], ['s2', 100, 100], ['s3', 200, 200]]);
+
+    const clean = repairTimeline(repairTimeline(plan, 'ripple').plan, 'ripple');
+    expect(clean.issues).toEqual([]);
+    expect(clean.changes).toEqual([]);
+  });
+
+  it('変更内容を表示用の行に整形し、収まらない総尺はエラー', () => {
+    const lines = formatTimelineRepairReport(repairTimeline(plan, 'ripple'));
+
+    expect(lines[0]).toBe('🔧 修復方法: ripple / 検出した問題: 3件 / 変更したショット: 2件');
+    expect(lines).toContain('  - s2: 110+100 → 100+80');
+    expect(() => repairTimeline({ ...plan, duration: 2 })).toThrow('3 個のショットを収められません');
+  });
+});
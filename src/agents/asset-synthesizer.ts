@@ -1,12 +1,15 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import chalk from 'chalk';
-import { llmProviderManager, LLMRequest, LLMResponse } from '../lib/llm-provider.js';
+import { llmProviderManager, LLMRequest, LLMResponse, ProviderSpec } from '../lib/llm-provider.js';
 import { DualBudgetManager, CostEstimate } from '../lib/dual-budget-manager.js';
+import { ConfigurationManager } from '../lib/config-manager.js';
+import { resolveLLMCacheSettings } from '../lib/caching-provider.js';
 import { ShotPlan, AssetManifest, AssetManifestSchema, AssetItem } from '../schemas/index.js';
 
 export interface AssetSynthesizerConfig {
   model?: string;
+  provider?: ProviderSpec; // 未指定の場合は model、どちらも無い場合は設定の models.assetSynthesizer.provider
   temperature?: number;
   maxTokens?: number;
   quality?: 'draft' | 'standard' | 'high';
@@ -106,40 +109,41 @@ ${JSON.stringify(shotPlan, null, 2)}
 現在はプロトタイプ段階のため、実際の生成は行わず、仕様の定義のみを行ってください。
 generatorは "mock" を使用し、実用的な見積もりコストを含めてください。`;
 
+    const provider = config.provider ?? config.model ?? (await ConfigurationManager.getInstance().getAgentConfig('assetSynthesizer')).provider;
+
     const request: LLMRequest = {
       model,
       systemPrompt,
       userInput,
       temperature,
-      maxTokens
+      maxTokens,
+      schemaName: 'asset_manifest_schema'
     };
 
-    // 予算チェック（概算）
-    const estimatedTokens = Math.ceil(
-      (systemPrompt.length + userInput.length + JSON.stringify(shotPlan).length) / 3
-    );
-    const estimatedCost = estimatedTokens * 0.00015 / 1000; // gpt-4o-mini基準
-
+    // 予算チェック（価格レジストリによる見積もり）
+    const estimate = await llmProviderManager.estimateCost(provider, request);
     const costEstimate: CostEstimate = {
-      tokens: estimatedTokens,
-      estimatedCost: estimatedCost,
+      tokens: estimate.tokens,
+      estimatedCost: estimate.costUSD,
       estimatedWallTime: 30 // 推定30秒
     };
     
-    const canProceed = await this.budgetManager.checkBudgetLimit(costEstimate);
-    if (!canProceed) {
-      throw new Error('予算制限により処理を中断しました');
-    }
+    // 見積もり分を予約（予算超過時は BudgetExceededError）
+    const reservation = await this.budgetManager.reserve(costEstimate, 'asset-synthesizer');
 
     try {
-      const provider = llmProviderManager.getProviderForModel(request.model);
-      const response = await provider.generateJSON(request, AssetManifestSchema);
+      const response = await llmProviderManager.generateJSONWithFallback(provider, request, AssetManifestSchema, { cache: await resolveLLMCacheSettings() });
 
       // 実際の使用量を記録
-      await this.budgetManager.addUsage({
+      await this.budgetManager.commit(reservation, {
         tokens: response.tokensUsed,
+        promptTokens: response.promptTokens,
+        completionTokens: response.completionTokens,
         cost: response.costUSD,
-        wallTime: response.duration / 1000
+        wallTime: response.duration / 1000,
+        model: response.model,
+        provider: response.provider,
+        cached: response.cached
       });
 
       console.log(chalk.green('✅ Asset Manifest 生成完了'));
@@ -148,6 +152,7 @@ generatorは "mock" を使用し、実用的な見積もりコストを含めて
 
       return response.data;
     } catch (error) {
+      await this.budgetManager.release(reservation);
       console.error(chalk.red('❌ Asset Manifest 生成に失敗:'), error);
       throw error;
     }
@@ -1,12 +1,16 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import chalk from 'chalk';
-import { llmProviderManager, LLMRequest, LLMResponse } from '../lib/llm-provider.js';
+import { llmProviderManager, LLMRequest, LLMResponse, ProviderSpec } from '../lib/llm-provider.js';
 import { DualBudgetManager, CostEstimate } from '../lib/dual-budget-manager.js';
+import { ConfigurationManager } from '../lib/config-manager.js';
+import { resolveLLMCacheSettings } from '../lib/caching-provider.js';
+import { checkCaptions } from '../lib/subtitles.js';
 import { ShotPlan, ShotPlanSchema } from '../schemas/index.js';
 
 export interface ConceptPlannerConfig {
   model?: string;
+  provider?: ProviderSpec; // 未指定の場合は model、どちらも無い場合は設定の models.conceptPlanner.provider
   temperature?: number;
   maxTokens?: number;
 }
@@ -40,9 +44,17 @@ export class ConceptPlanner {
   "sceneId": "string",
   "duration": number,
   "theme": "string", 
-  "shots": [{"id": "string", "start": number, "len": number, "desc": "string"}],
+  "shots": [{
+    "id": "string", "start": number, "len": number, "desc": "string",
+    "camera": {"movement": "string", "shotSize": "string", "lens": {"focalLength": number, "type": "string"}},
+    "mood": "string", "colorPalette": ["#RRGGBB"],
+    "transitions": {"in": {"type": "string", "duration": number}, "out": {"type": "string", "duration": number}},
+    "characters": ["string"],
+    "audioCues": [{"type": "sfx | music | ambience | voice", "description": "string", "start": number, "len": number}]
+  }],
   "bgm": {"style": "string", "bpm": number}
 }
+撮影・演出の指定（camera 以降）は任意で、決まっていない項目は null にしてください。
       `.trim();
       return this.systemPrompt;
     }
@@ -66,40 +78,41 @@ export class ConceptPlanner {
 このテーマに基づいて、魅力的な映像作品のショットプランを作成してください。
 30秒程度（約900フレーム）の作品を想定しています。`;
 
+    const provider = config.provider ?? config.model ?? (await ConfigurationManager.getInstance().getAgentConfig('conceptPlanner')).provider;
+
     const request: LLMRequest = {
       model,
       systemPrompt,
       userInput,
       temperature,
-      maxTokens
+      maxTokens,
+      schemaName: 'shot_plan_schema'
     };
 
-    // 予算チェック（概算）
-    const estimatedTokens = Math.ceil(
-      (systemPrompt.length + userInput.length) / 3 // 大まかな見積もり
-    );
-    const estimatedCost = estimatedTokens * 0.00015 / 1000; // gpt-4o-mini基準
-
+    // 予算チェック（価格レジストリによる見積もり）
+    const estimate = await llmProviderManager.estimateCost(provider, request);
     const costEstimate: CostEstimate = {
-      tokens: estimatedTokens,
-      estimatedCost: estimatedCost,
+      tokens: estimate.tokens,
+      estimatedCost: estimate.costUSD,
       estimatedWallTime: 30 // 推定30秒
     };
     
-    const canProceed = await this.budgetManager.checkBudgetLimit(costEstimate);
-    if (!canProceed) {
-      throw new Error('予算制限により処理を中断しました');
-    }
+    // 見積もり分を予約（予算超過時は BudgetExceededError）
+    const reservation = await this.budgetManager.reserve(costEstimate, 'concept-planner');
 
     try {
-      const provider = llmProviderManager.getProviderForModel(request.model);
-      const response = await provider.generateJSON(request, ShotPlanSchema);
+      const response = await llmProviderManager.generateJSONWithFallback(provider, request, ShotPlanSchema, { cache: await resolveLLMCacheSettings() });
       
       // 実際の使用量を記録
-      await this.budgetManager.addUsage({
+      await this.budgetManager.commit(reservation, {
         tokens: response.tokensUsed,
+        promptTokens: response.promptTokens,
+        completionTokens: response.completionTokens,
         cost: response.costUSD,
-        wallTime: response.duration / 1000
+        wallTime: response.duration / 1000,
+        model: response.model,
+        provider: response.provider,
+        cached: response.cached
       });
 
       console.log(chalk.green('✅ ショットプラン生成完了'));
@@ -107,6 +120,7 @@ export class ConceptPlanner {
 
       return response.data;
     } catch (error) {
+      await this.budgetManager.release(reservation);
       console.error(chalk.red('❌ ショットプラン生成に失敗:'), error);
       throw error;
     }
@@ -167,10 +181,51 @@ export class ConceptPlanner {
       }
     }
 
+    // 撮影・演出の指定（警告レベル）
+    warnings.push(...this.validateShotDirection(plan));
+
+    // 字幕の重なり・1行の文字数・ショットからのはみ出し（警告レベル）
+    warnings.push(...checkCaptions(plan).map(issue => issue.message));
+
     return {
       isValid: errors.length === 0,
       errors,
       warnings
     };
   }
+
+  /**
+   * トランジションの長さ・前後のショットとの対応、音のきっかけの範囲を検証
+   */
+  private validateShotDirection(plan: ShotPlan): string[] {
+    const warnings: string[] = [];
+    const shots = [...plan.shots].sort((a, b) => a.start - b.start);
+
+    shots.forEach((shot, index) => {
+      for (const edge of ['in', 'out'] as const) {
+        const transition = shot.transitions?.[edge];
+        if (transition && transition.duration > shot.len) {
+          warnings.push(`ショット "${shot.id}" の transitions.${edge}（${transition.duration}フレーム）がショットの長さを超えています`);
+        }
+      }
+
+      const previous = shots[index - 1];
+      const transitionIn = shot.transitions?.in;
+      if (!previous && transitionIn?.type === 'crossfade') {
+        warnings.push(`最初のショット "${shot.id}" には切り替え元が無いため、transitions.in の crossfade は黒からの切り替えになります`);
+      }
+      const previousOut = previous?.transitions?.out;
+      if (previous && previousOut && transitionIn && previousOut.type !== transitionIn.type) {
+        warnings.push(`ショット "${previous.id}" の transitions.out（${previousOut.type}）と "${shot.id}" の transitions.in（${transitionIn.type}）が一致しません`);
+      }
+
+      for (const cue of shot.audioCues ?? []) {
+        if (cue.start >= shot.len || cue.start + (cue.len ?? 0) > shot.len) {
+          warnings.push(`ショット "${shot.id}" の音のきっかけ「${cue.description}」がショットの範囲を超えています`);
+        }
+      }
+    });
+
+    return warnings;
+  }
 } 
\ No newline at end of file
@@ -5,10 +5,11 @@ import { SceneGraph, SceneGraphSchema } from '../schemas/index.js';
 import { ConfigurationManager } from '../lib/config-manager.js';
 import { llmProviderManager, LLMRequest, LLMResponse } from '../lib/llm-provider.js';
 import { DualBudgetManager, CostEstimate } from '../lib/dual-budget-manager.js';
+import { resolveLLMCacheSettings } from '../lib/caching-provider.js';
 import chalk from 'chalk';
 
 // Critic Report Schema
-const CriticReportSchema = z.object({
+export const CriticReportSchema = z.object({
   overallScore: z.number().min(0).max(100),
   qualityAssessment: z.object({
     visualQuality: z.number().min(0).max(100),
@@ -31,6 +32,8 @@ const CriticReportSchema = z.object({
   })
 });
 
+export type CriticReport = z.infer<typeof CriticReportSchema>;
+
 /**
  * Critic/QA Agent: 品質評価・フィードバックを担当
  */
@@ -76,7 +79,7 @@ SceneGraphを詳細に分析し、包括的な品質評価レポートを生成
     }
   }
 
-  async run(sceneGraph: SceneGraph): Promise<z.infer<typeof CriticReportSchema>> {
+  async run(sceneGraph: SceneGraph): Promise<CriticReport> {
     console.log(chalk.blue('🎬 Critic Agent: 品質評価・フィードバック生成中...'));
 
     const config = await this.configManager.getAgentConfig('critic');
@@ -97,36 +100,37 @@ ${JSON.stringify(sceneGraph, null, 2)}
 **重要**: reviewDateは必ずISO 8601の完全な日時形式（例: "2023-10-01T12:34:56.789Z"）で出力してください。`;
 
     const request: LLMRequest = {
-      model: config.provider?.replace('openai:', '') || 'gpt-4o-mini',
+      model: 'gpt-4o-mini', // モデルを含まないプロバイダー指定（"mock"等）で使用
       systemPrompt,
       userInput,
       temperature: config.temperature || 0.2,
-      maxTokens: config.maxTokens || 6144
+      maxTokens: config.maxTokens || 6144,
+      schemaName: 'critic_report_schema'
     };
 
-    // 予算チェック
-    const estimatedTokens = Math.ceil((systemPrompt.length + userInput.length) / 3);
-    const estimatedCost = estimatedTokens * 0.00015 / 1000;
-    
+    // 予算チェック（価格レジストリによる見積もり）
+    const estimate = await llmProviderManager.estimateCost(config.provider, request);
     const costEstimate: CostEstimate = {
-      tokens: estimatedTokens,
-      estimatedCost: estimatedCost,
+      tokens: estimate.tokens,
+      estimatedCost: estimate.costUSD,
       estimatedWallTime: 30 // 推定30秒
     };
     
-    const canProceed = await this.budgetManager.checkBudgetLimit(costEstimate);
-    if (!canProceed) {
-      throw new Error('予算制限により品質評価を中断しました');
-    }
+    // 見積もり分を予約（予算超過時は BudgetExceededError）
+    const reservation = await this.budgetManager.reserve(costEstimate, 'critic');
 
     try {
-      const provider = llmProviderManager.getProviderForModel(request.model);
-      const response = await provider.generateJSON(request, CriticReportSchema);
+      const response = await llmProviderManager.generateJSONWithFallback(config.provider, request, CriticReportSchema, { cache: await resolveLLMCacheSettings() });
 
-      await this.budgetManager.addUsage({
+      await this.budgetManager.commit(reservation, {
         tokens: response.tokensUsed,
+        promptTokens: response.promptTokens,
+        completionTokens: response.completionTokens,
         cost: response.costUSD,
-        wallTime: response.duration / 1000
+        wallTime: response.duration / 1000,
+        model: response.model,
+        provider: response.provider,
+        cached: response.cached
       });
 
       console.log(chalk.green('✅ 品質評価レポート生成完了'));
@@ -135,6 +139,7 @@ ${JSON.stringify(sceneGraph, null, 2)}
 
       return response.data;
     } catch (error) {
+      await this.budgetManager.release(reservation);
       console.error(chalk.red('❌ 品質評価レポート生成に失敗:'), error);
       throw error;
     }
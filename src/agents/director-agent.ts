@@ -4,6 +4,7 @@ import * as path from 'path';
 import { ConfigurationManager } from '../lib/config-manager.js';
 import { llmProviderManager, LLMRequest, LLMResponse } from '../lib/llm-provider.js';
 import { DualBudgetManager, CostEstimate } from '../lib/dual-budget-manager.js';
+import { resolveLLMCacheSettings } from '../lib/caching-provider.js';
 import chalk from 'chalk';
 
 // Director Agentの入力スキーマ
@@ -115,10 +116,12 @@ export class DirectorAgent {
   inputSchema = DirectorInputSchema;
   outputSchema = DirectorOutputSchema;
   
+  private budgetManager: DualBudgetManager;
   private configManager: ConfigurationManager;
   private systemPrompt: string | null = null;
 
-  constructor() {
+  constructor(budgetManager?: DualBudgetManager) {
+    this.budgetManager = budgetManager || new DualBudgetManager();
     this.configManager = ConfigurationManager.getInstance();
   }
 
@@ -177,17 +180,45 @@ ${JSON.stringify(input, null, 2)}
 
 上記の情報を基に、最終的な動画構成を決定してください。`;
 
-    const provider = llmProviderManager.getProviderForModel(config.provider || 'gpt-4o-mini');
-    const response = await provider.generateJSON(
-      {
-        model: config.provider || 'gpt-4o-mini',
-        systemPrompt,
-        userInput,
-        temperature: config.temperature || 0.7,
-        maxTokens: config.maxTokens || 4096
-      },
-      this.outputSchema
-    );
+    const request: LLMRequest = {
+      model: llmProviderManager.getSpecModel(config.provider, 'gpt-4o-mini'),
+      systemPrompt,
+      userInput,
+      temperature: config.temperature || 0.7,
+      maxTokens: config.maxTokens || 4096,
+      schemaName: 'director_output_schema'
+    };
+
+    // 予算チェック（価格レジストリによる見積もり）
+    const estimate = await llmProviderManager.estimateCost(config.provider, request);
+    const costEstimate: CostEstimate = {
+      tokens: estimate.tokens,
+      estimatedCost: estimate.costUSD,
+      estimatedWallTime: 30 // 推定30秒
+    };
+
+    // 見積もり分を予約（予算超過時は BudgetExceededError）
+    const reservation = await this.budgetManager.reserve(costEstimate, 'director');
+
+    let response: LLMResponse<DirectorOutput>;
+    try {
+      response = await llmProviderManager.generateJSONWithFallback(config.provider, request, this.outputSchema, { cache: await resolveLLMCacheSettings() });
+
+      await this.budgetManager.commit(reservation, {
+        tokens: response.tokensUsed,
+        promptTokens: response.promptTokens,
+        completionTokens: response.completionTokens,
+        cost: response.costUSD,
+        wallTime: response.duration / 1000,
+        model: response.model,
+        provider: response.provider,
+        cached: response.cached
+      });
+    } catch (error) {
+      await this.budgetManager.release(reservation);
+      console.error(chalk.red('❌ 動画構成の決定に失敗:'), error);
+      throw error;
+    }
 
     console.log(chalk.green('✅ 動画構成決定完了'));
     console.log(chalk.gray(`📊 タイムライン: ${response.data.composition.timeline.length}ショット`));
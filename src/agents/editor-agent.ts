@@ -1,19 +1,49 @@
 import { z } from 'zod';
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import { SceneGraph, SceneGraphSchema, JsonPatch, JsonPatchSchema } from '../schemas/index.js';
+import {
+  SceneGraph,
+  SceneGraphSchema,
+  JsonPatch,
+  JsonPatchOperationSchema,
+  LayerSchema,
+  LayerTransitionsSchema,
+  TransitionSchema,
+  EffectSchema
+} from '../schemas/index.js';
 import { ConfigurationManager } from '../lib/config-manager.js';
 import { llmProviderManager, LLMRequest, LLMResponse } from '../lib/llm-provider.js';
 import { DualBudgetManager, CostEstimate } from '../lib/dual-budget-manager.js';
+import { resolveLLMCacheSettings } from '../lib/caching-provider.js';
+import { SceneGraphEditor, SceneGraphEdit } from '../lib/scene-graph-editor.js';
+import type { CriticReport } from './critic-agent.js';
 import chalk from 'chalk';
 
+// Editor Patch Schema
+// strict モードでは任意の値を表せないため、value は編集対象になる値の型に限定する
+// （選択肢は先頭から順に検証されるため、項目が少なく他の型にも一致しやすいものほど後ろに置く）
+export const EditorPatchOperationSchema = JsonPatchOperationSchema.extend({
+  value: z.union([
+    z.string(),
+    z.number(),
+    z.boolean(),
+    LayerSchema,
+    TransitionSchema,
+    EffectSchema,
+    z.array(EffectSchema),
+    LayerTransitionsSchema
+  ]).optional()
+});
+
+export const EditorPatchSchema = z.array(EditorPatchOperationSchema);
+
 /**
  * Editor Agent: 映像編集・品質向上を担当
  */
 export class EditorAgent {
   name = 'editor';
   inputSchema = SceneGraphSchema;
-  outputSchema = JsonPatchSchema;
+  outputSchema = EditorPatchSchema;
 
   private budgetManager: DualBudgetManager;
   private configManager: ConfigurationManager;
@@ -47,17 +77,20 @@ SceneGraphを分析し、品質向上のための編集提案をJSON Patch形式
 出力は必ずJSON Patch形式（RFC 6902）の**配列**として返してください。
 **空の場合は必ず空配列（[]）を返してください。**
 
+SceneGraph のレイヤーは型付きです（type: footage / image / text / audio / solid / adjustment）。
+時間はすべてフレーム単位で、各レイヤーの timing（start, duration）はシーンの duration を超えないようにしてください。
+
 【出力例】
 [
   {
-    "op": "replace",
-    "path": "/layers/0/effect",
-    "value": "fade-in"
+    "op": "add",
+    "path": "/layers/0/transitions",
+    "value": { "in": { "type": "fade", "duration": 15 } }
   },
   {
     "op": "add",
-    "path": "/layers/2",
-    "value": { "type": "effect", "name": "blur" }
+    "path": "/layers/-",
+    "value": { "id": "blur-1", "type": "adjustment", "timing": { "start": 0, "duration": 30 }, "effects": [{ "type": "blur", "params": { "radius": 4 } }] }
   }
 ]
       `.trim();
@@ -65,7 +98,11 @@ SceneGraphを分析し、品質向上のための編集提案をJSON Patch形式
     }
   }
 
-  async run(sceneGraph: SceneGraph): Promise<JsonPatch> {
+  /**
+   * 編集提案を生成
+   * Critic の評価（feedback）を渡した場合は、指摘された問題の解消を優先するよう指示します
+   */
+  async run(sceneGraph: SceneGraph, feedback?: CriticReport): Promise<JsonPatch> {
     console.log(chalk.blue('🎬 Editor Agent: 映像編集・品質向上中...'));
 
     const config = await this.configManager.getAgentConfig('editor');
@@ -79,43 +116,45 @@ ${JSON.stringify(sceneGraph, null, 2)}
 - 必ず配列形式で出力してください。
 - 編集提案がない場合は必ず空配列（[]）を返してください。
 - 各編集操作は個別のオブジェクトとして含めてください。
-- 例: [{ "op": "replace", "path": "/layers/0/effect", "value": "fade-in" }]
-`;
+- 例: [{ "op": "replace", "path": "/layers/0/timing/duration", "value": 90 }]
+${feedback ? this.formatFeedback(feedback) : ''}`;
 
     const request: LLMRequest = {
-      model: config.provider?.replace('openai:', '') || 'gpt-4o-mini',
+      model: 'gpt-4o-mini', // モデルを含まないプロバイダー指定（"mock"等）で使用
       systemPrompt,
       userInput,
       temperature: config.temperature || 0.3,
-      maxTokens: config.maxTokens || 4096
+      maxTokens: config.maxTokens || 4096,
+      schemaName: 'json_patch_schema'
     };
 
-    // 予算チェック
-    const estimatedTokens = Math.ceil((systemPrompt.length + userInput.length) / 3);
-    const estimatedCost = estimatedTokens * 0.00015 / 1000;
-    
+    // 予算チェック（価格レジストリによる見積もり）
+    const estimate = await llmProviderManager.estimateCost(config.provider, request);
     const costEstimate: CostEstimate = {
-      tokens: estimatedTokens,
-      estimatedCost: estimatedCost,
+      tokens: estimate.tokens,
+      estimatedCost: estimate.costUSD,
       estimatedWallTime: 30 // 推定30秒
     };
     
-    const canProceed = await this.budgetManager.checkBudgetLimit(costEstimate);
-    if (!canProceed) {
-      throw new Error('予算制限により編集処理を中断しました');
-    }
+    // 見積もり分を予約（予算超過時は BudgetExceededError）
+    const reservation = await this.budgetManager.reserve(costEstimate, 'editor');
 
     try {
-      const provider = llmProviderManager.getProviderForModel(request.model);
-      const response = await provider.generateJSON(request, JsonPatchSchema);
+      const response = await llmProviderManager.generateJSONWithFallback(config.provider, request, EditorPatchSchema, { cache: await resolveLLMCacheSettings() });
 
-      await this.budgetManager.addUsage({
+      await this.budgetManager.commit(reservation, {
         tokens: response.tokensUsed,
+        promptTokens: response.promptTokens,
+        completionTokens: response.completionTokens,
         cost: response.costUSD,
-        wallTime: response.duration / 1000
+        wallTime: response.duration / 1000,
+        model: response.model,
+        provider: response.provider,
+        cached: response.cached
       });
       return response.data;
     } catch (error: any) {
+      await this.budgetManager.release(reservation);
       // Zodバリデーションエラーで空オブジェクトの場合のみ空配列でリトライ
       if (
         error.message?.includes('Expected array, received object') &&
@@ -131,4 +170,28 @@ ${JSON.stringify(sceneGraph, null, 2)}
       throw error;
     }
   }
-} 
\ No newline at end of file
+
+  private formatFeedback(feedback: CriticReport): string {
+    const issues = feedback.issues.map(issue =>
+      `- [${issue.severity}/${issue.category}] ${issue.description}${issue.suggestion ? `（提案: ${issue.suggestion}）` : ''}`
+    );
+    return `
+品質評価（総合スコア: ${feedback.overallScore}/100）で指摘された問題点:
+${issues.length > 0 ? issues.join('\n') : '- なし'}
+重要度の高い問題から優先的に解消する編集を提案してください。
+`;
+  }
+
+  /**
+   * 編集提案を生成して SceneGraph ファイル（省略時は paths.sceneGraph）に適用
+   * 適用した編集は逆パッチとともに記録され、SceneGraphEditor.undo で取り消せます
+   */
+  async runAndApply(sceneGraphPath?: string, editor: SceneGraphEditor = new SceneGraphEditor()): Promise<SceneGraphEdit> {
+    const filePath = sceneGraphPath ?? (await this.configManager.loadConfig()).paths.sceneGraph;
+    const sceneGraph = SceneGraphSchema.parse(JSON.parse(await fs.readFile(filePath, 'utf8')));
+    const patch = await this.run(sceneGraph);
+    const edit = await editor.applyToFile(patch, filePath);
+    console.log(chalk.green(`✅ ${patch.length}件の編集を ${filePath} に適用しました`));
+    return edit;
+  }
+}
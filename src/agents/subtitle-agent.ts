@@ -0,0 +1,136 @@
+import { z } from 'zod';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import chalk from 'chalk';
+import { llmProviderManager, LLMRequest, ProviderSpec } from '../lib/llm-provider.js';
+import { DualBudgetManager, CostEstimate } from '../lib/dual-budget-manager.js';
+import { resolveLLMCacheSettings } from '../lib/caching-provider.js';
+import { applyCaptionDraft, checkCaptions, MAX_CAPTION_LINE_LENGTH } from '../lib/subtitles.js';
+import { CaptionSchema, ShotPlan } from '../schemas/index.js';
+
+// Caption Draft Schema
+export const CaptionDraftSchema = z.object({
+  shots: z.array(z.object({
+    shotId: z.string().min(1),
+    captions: z.array(CaptionSchema)
+  }))
+});
+
+export type CaptionDraft = z.infer<typeof CaptionDraftSchema>;
+
+export interface SubtitleAgentConfig {
+  model?: string;
+  provider?: ProviderSpec; // 未指定の場合はモデル名からプロバイダーを選択
+  temperature?: number;
+  maxTokens?: number;
+}
+
+/**
+ * Subtitle Agent: ShotPlan からナレーション・字幕を下書き
+ */
+export class SubtitleAgent {
+  name = 'subtitle';
+
+  private budgetManager: DualBudgetManager;
+  private systemPrompt: string | null = null;
+
+  constructor(budgetManager?: DualBudgetManager) {
+    this.budgetManager = budgetManager || new DualBudgetManager();
+  }
+
+  private async loadSystemPrompt(): Promise<string> {
+    if (this.systemPrompt) return this.systemPrompt;
+
+    try {
+      const promptPath = path.join(process.cwd(), 'prompts', 'subtitle', 'v1_system.txt');
+      this.systemPrompt = await fs.readFile(promptPath, 'utf8');
+      return this.systemPrompt;
+    } catch (error) {
+      // フォールバック用の最小限のプロンプト
+      this.systemPrompt = `
+あなたは映像作品のナレーション原稿と字幕を作成する構成作家です。
+ショットプランの各ショットに合うナレーション・字幕をJSON形式で作成してください。
+
+- start / len はショット先頭からのフレーム数で、ショットの長さ（len）を超えないこと
+- 字幕同士を時間軸で重ねないこと
+- 1行は${MAX_CAPTION_LINE_LENGTH}文字以内（長い場合は改行）
+- speaker は話者名（画面上のテキストは省略）
+
+出力はこの形式に従ってください：
+{
+  "shots": [{"shotId": "string", "captions": [{"text": "string", "speaker": "string", "start": number, "len": number}]}]
+}
+      `.trim();
+      return this.systemPrompt;
+    }
+  }
+
+  /**
+   * 字幕を下書きし、ShotPlan に反映したものを返す（既存の字幕は下書きで置き換え）
+   */
+  async draftCaptions(plan: ShotPlan, config: SubtitleAgentConfig = {}): Promise<ShotPlan> {
+    const {
+      model = 'gpt-4o-mini',
+      temperature = 0.5,
+      maxTokens = 4096
+    } = config;
+
+    console.log(chalk.blue('🎬 Subtitle Agent: 字幕を下書き中...'));
+
+    const systemPrompt = await this.loadSystemPrompt();
+    const userInput = `以下のショットプランの各ショットに、ナレーション・字幕を作成してください：
+
+${JSON.stringify(plan, null, 2)}
+
+時間はフレーム数です。1行は${MAX_CAPTION_LINE_LENGTH}文字以内、字幕同士を重ねずショットの範囲内に収めてください。`;
+
+    const request: LLMRequest = {
+      model,
+      systemPrompt,
+      userInput,
+      temperature,
+      maxTokens,
+      schemaName: 'caption_draft_schema'
+    };
+
+    // 予算チェック（価格レジストリによる見積もり）
+    const estimate = await llmProviderManager.estimateCost(config.provider ?? model, request);
+    const costEstimate: CostEstimate = {
+      tokens: estimate.tokens,
+      estimatedCost: estimate.costUSD,
+      estimatedWallTime: 30 // 推定30秒
+    };
+
+    // 見積もり分を予約（予算超過時は BudgetExceededError）
+    const reservation = await this.budgetManager.reserve(costEstimate, 'subtitle');
+
+    try {
+      const response = await llmProviderManager.generateJSONWithFallback(config.provider ?? model, request, CaptionDraftSchema, { cache: await resolveLLMCacheSettings() });
+
+      await this.budgetManager.commit(reservation, {
+        tokens: response.tokensUsed,
+        promptTokens: response.promptTokens,
+        completionTokens: response.completionTokens,
+        cost: response.costUSD,
+        wallTime: response.duration / 1000,
+        model: response.model,
+        provider: response.provider,
+        cached: response.cached
+      });
+
+      const result = applyCaptionDraft(plan, response.data);
+      const issues = checkCaptions(result.plan);
+
+      console.log(chalk.green('✅ 字幕の下書き完了'));
+      console.log(chalk.gray(`Token使用量: ${response.tokensUsed}, コスト: $${response.costUSD.toFixed(4)}`));
+      [...result.warnings, ...issues.map(issue => issue.message)]
+        .forEach(warning => console.log(chalk.yellow(`⚠️  ${warning}`)));
+
+      return result.plan;
+    } catch (error) {
+      await this.budgetManager.release(reservation);
+      console.error(chalk.red('❌ 字幕の下書きに失敗:'), error);
+      throw error;
+    }
+  }
+}
@@ -9,20 +9,38 @@ dotenv.config();
 
 // Schema Registryを初期化
 import { initializeSchemas } from './lib/schema-initializer.js';
+import { SchemaRegistry, SchemaMigrationResult } from './lib/schema-registry.js';
+import { createJsonPatch } from './lib/json-patch.js';
 import { ConceptPlanner } from './agents/concept-planner.js';
 import { AssetSynthesizer } from './agents/asset-synthesizer.js';
-import { ShotPlanSchema, AssetManifestSchema } from './schemas/index.js';
-import { DirectorAgent } from './agents/director-agent.js';
+import { ShotPlan, ShotPlanSchema, AssetManifestSchema, JsonPatchSchema, SceneGraphSchema } from './schemas/index.js';
+import { DirectorAgent, DirectorOutputSchema } from './agents/director-agent.js';
 import { ConfigurationManager } from './lib/config-manager.js';
-import { CacheManager } from './lib/cache-manager.js';
+import { CacheManager, CacheEntryFilter, CACHE_NAMESPACES } from './lib/cache-manager.js';
+import { exportCacheArchive, importCacheArchive } from './lib/cache-archive.js';
 import { ProgressManager, withProgress } from './lib/progress-manager.js';
 import { DualBudgetManager } from './lib/dual-budget-manager.js';
 
 // 新しいエージェントと発展例のインポート
 import { EditorAgent } from './agents/editor-agent.js';
+import { SceneGraphEditor } from './lib/scene-graph-editor.js';
+import { SceneGraphBuilder } from './lib/scene-graph-builder.js';
+import { exportRemotionProject } from './lib/remotion-exporter.js';
+import { toEditTimeline, EditTimeline, TimelineExportResult } from './lib/edit-timeline.js';
+import { exportOtio } from './lib/otio-format.js';
+import { exportFcpxml } from './lib/fcpxml-format.js';
+import { exportEdl } from './lib/edl-format.js';
+import { SubtitleAgent } from './agents/subtitle-agent.js';
+import { beatSyncPlan, formatBeatSyncReport } from './lib/beat-sync.js';
+import { TIMELINE_REPAIR_STRATEGIES, repairTimeline, formatTimelineRepairReport } from './lib/timeline-repair.js';
+import { checkCaptions, collectSubtitleCues, exportSrt, exportVtt } from './lib/subtitles.js';
+import { RefinementLoop, RefinementStopReason } from './lib/refinement-loop.js';
 import { CriticAgent } from './agents/critic-agent.js';
 import { NotificationManager } from './lib/notification-manager.js';
 import { ReportGenerator } from './lib/report-generator.js';
+import { loadPipelineDefinition, createDefaultPipelineDefinition } from './lib/pipeline-definition.js';
+import { PipelineRunner } from './lib/pipeline-runner.js';
+import { estimatePipeline, PipelineEstimate } from './lib/pipeline-estimator.js';
 
 // アプリケーション起動時にスキーマを初期化
 initializeSchemas();
@@ -50,13 +68,16 @@ program
   });
 
 // motiva-compose plan コマンド
-program
+const planCommand = program
   .command('plan')
   .description('Concept Plannerを使用してショットプランを生成します')
-  .option('--model <model>', 'LLMモデル名', 'gpt-4o-mini')
+  .option('--model <model>', 'LLMモデル名（省略時は設定の models.conceptPlanner.provider）')
   .option('--temperature <temp>', '生成温度', '0.7')
   .option('--output <file>', '出力ファイル', 'plan.json')
-  .action(async (options: { model: string; temperature: string; output: string }) => {
+  .option('--beat-sync', 'ショットの境界を bgm.bpm の拍（remotion.fps 基準）に合わせる', false)
+  .option('--beat-unit <unit>', '拍合わせの単位（beat, bar）', 'beat')
+  .option('--beat-tolerance <frames>', '拍合わせで移動を許容するフレーム数（省略時は0.25秒分）')
+  .action(async (options: { model?: string; temperature: string; output: string; beatSync: boolean; beatUnit: string; beatTolerance?: string }) => {
     try {
       await generatePlan(options);
     } catch (error) {
@@ -65,34 +86,91 @@ program
     }
   });
 
+// motiva-compose plan fix コマンド
+planCommand
+  .command('fix <shot-plan>')
+  .description('ショットプランの隙間・重なり・総尺との差を修復します')
+  .option('--strategy <strategy>', `修復方法（${TIMELINE_REPAIR_STRATEGIES.join(', ')}）`, 'proportional')
+  .option('--output <file>', '出力ファイル（省略時はショットプランを上書き）')
+  .action(async (shotPlanFile: string, options: { strategy: string; output?: string }) => {
+    try {
+      await fixPlan(shotPlanFile, options);
+    } catch (error) {
+      console.error(chalk.red('❌ プランの修復に失敗:'), error);
+      process.exit(1);
+    }
+  });
+
+// motiva-compose captions コマンド
+program
+  .command('captions')
+  .description('Subtitle Agentを使用してショットプランにナレーション・字幕を下書きします')
+  .argument('<shot-plan>', 'ショットプランJSONファイル')
+  .option('--model <model>', 'LLMモデル名', 'gpt-4o-mini')
+  .option('--temperature <temp>', '生成温度', '0.5')
+  .option('--output <file>', '出力ファイル（省略時はショットプランを上書き）')
+  .action(async (shotPlanFile: string, options: { model: string; temperature: string; output?: string }) => {
+    try {
+      await draftCaptions(shotPlanFile, options);
+    } catch (error) {
+      console.error(chalk.red('❌ 字幕の下書きに失敗:'), error);
+      process.exit(1);
+    }
+  });
+
+// ファイルのスキーマタイプ → Schema Registry のスキーマ名
+const SCHEMA_FILE_TYPES: Record<string, string> = {
+  'shot-plan': 'shot_plan_schema',
+  'asset-manifest': 'asset_manifest_schema',
+  'scene-graph': 'scene_graph_schema'
+};
+
 // motiva-compose validate コマンド
 program
   .command('validate')
   .description('ショットプランまたはその他のJSONファイルを検証します')
   .argument('<file>', '検証するJSONファイル')
-  .option('--schema <schema>', 'スキーマタイプ', 'shot-plan')
-  .action(async (file: string, options: { schema: string }) => {
+  .option('--schema <schema>', `スキーマタイプ（${Object.keys(SCHEMA_FILE_TYPES).join(', ')}）`, 'shot-plan')
+  .option('--migrate', '旧バージョンのファイルを現行バージョンに変換して上書き保存', false)
+  .action(async (file: string, options: { schema: string; migrate: boolean }) => {
     try {
-      await validateFile(file, options.schema);
+      await validateFile(file, options.schema, options.migrate);
     } catch (error) {
       console.error(chalk.red('❌ 検証に失敗:'), error);
       process.exit(1);
     }
   });
 
+// motiva-compose migrate コマンド
+program
+  .command('migrate')
+  .description('旧バージョンのショットプラン・Asset Manifest・SceneGraphを現行バージョンに変換します')
+  .argument('<file>', '変換するJSONファイル')
+  .option('--schema <schema>', `スキーマタイプ（${Object.keys(SCHEMA_FILE_TYPES).join(', ')}。省略時は内容から判定）`)
+  .option('--output <file>', '出力ファイル（省略時は上書き）')
+  .option('--dry-run', '差分を表示するのみで保存しない', false)
+  .action(async (file: string, options: { schema?: string; output?: string; dryRun: boolean }) => {
+    try {
+      await migrateFile(file, options);
+    } catch (error) {
+      console.error(chalk.red('❌ 変換に失敗:'), error);
+      process.exit(1);
+    }
+  });
+
 // motiva-compose synth コマンド
 program
   .command('synth')
   .description('Asset Synthesizerを使用してAsset Manifestを生成し、素材を合成します')
   .argument('<shot-plan>', 'ショットプランJSONファイル')
-  .option('--model <model>', 'LLMモデル名', 'gpt-4o-mini')
+  .option('--model <model>', 'LLMモデル名（省略時は設定の models.assetSynthesizer.provider）')
   .option('--temperature <temp>', '生成温度', '0.5')
   .option('--quality <quality>', '素材品質', 'standard')
   .option('--output <file>', 'Asset Manifest出力ファイル', 'manifest.json')
   .option('--assets-dir <dir>', '素材出力ディレクトリ', './assets')
   .option('--generate', '実際に素材を生成する', false)
   .action(async (shotPlanFile: string, options: { 
-    model: string; 
+    model?: string; 
     temperature: string; 
     quality: string; 
     output: string; 
@@ -107,6 +185,119 @@ program
     }
   });
 
+// motiva-compose build-scene コマンド
+program
+  .command('build-scene')
+  .description('Director Agentの出力（DirectorOutput）からSceneGraphを生成します')
+  .argument('<director-output>', 'DirectorOutput JSONファイル')
+  .option('--assets <file>', '参照切れの素材IDを検出するAsset Manifestファイル')
+  .option('--output <file>', '出力先（省略時は設定の paths.sceneGraph）')
+  .action(async (directorOutputFile: string, options: { assets?: string; output?: string }) => {
+    try {
+      await buildSceneGraphFile(directorOutputFile, options);
+    } catch (error) {
+      console.error(chalk.red('❌ SceneGraphの生成に失敗:'), error);
+      process.exit(1);
+    }
+  });
+
+// motiva-compose export コマンド
+const exportCommand = program
+  .command('export')
+  .description('SceneGraph・ショットプランを外部ツール向けの形式に書き出します');
+
+exportCommand
+  .command('remotion')
+  .description('SceneGraphまたはDirectorOutputからRemotionプロジェクト（型付きのReactコンポーネント）を生成します')
+  .argument('[input]', 'SceneGraphまたはDirectorOutputのJSONファイル（省略時は設定の paths.sceneGraph）')
+  .option('--assets <file>', '素材の参照に使うAsset Manifestファイル')
+  .option('--out-dir <dir>', '出力先ディレクトリ', 'remotion')
+  .action(async (input: string | undefined, options: { assets?: string; outDir: string }) => {
+    try {
+      await exportRemotion(input, options);
+    } catch (error) {
+      console.error(chalk.red('❌ Remotionプロジェクトの生成に失敗:'), error);
+      process.exit(1);
+    }
+  });
+
+const TIMELINE_FORMATS: Record<string, { label: string; extension: string; exporter: (timeline: EditTimeline) => TimelineExportResult }> = {
+  otio: { label: 'OpenTimelineIO', extension: 'otio', exporter: exportOtio },
+  fcpxml: { label: 'FCPXML', extension: 'fcpxml', exporter: exportFcpxml },
+  edl: { label: 'CMX 3600 EDL', extension: 'edl', exporter: exportEdl }
+};
+
+for (const [format, { label, extension }] of Object.entries(TIMELINE_FORMATS)) {
+  exportCommand
+    .command(format)
+    .description(`SceneGraphまたはDirectorOutputを${label}のタイムラインとして書き出します`)
+    .argument('[input]', 'SceneGraphまたはDirectorOutputのJSONファイル（省略時は設定の paths.sceneGraph）')
+    .option('--assets <file>', '素材の参照に使うAsset Manifestファイル')
+    .option('--output <file>', '出力ファイル', `timeline.${extension}`)
+    .action(async (input: string | undefined, options: { assets?: string; output: string }) => {
+      try {
+        await exportTimeline(format, input, options);
+      } catch (error) {
+        console.error(chalk.red(`❌ ${label}の書き出しに失敗:`), error);
+        process.exit(1);
+      }
+    });
+}
+
+const SUBTITLE_FORMATS: Record<string, { label: string; exporter: (plan: ShotPlan, fps: number) => string }> = {
+  srt: { label: 'SRT', exporter: exportSrt },
+  vtt: { label: 'WebVTT', exporter: exportVtt }
+};
+
+for (const [format, { label }] of Object.entries(SUBTITLE_FORMATS)) {
+  exportCommand
+    .command(format)
+    .description(`ショットプランの字幕を${label}形式で書き出します（タイミングは remotion.fps でフレームから換算）`)
+    .argument('<shot-plan>', 'ショットプランJSONファイル')
+    .option('--output <file>', '出力ファイル', `captions.${format}`)
+    .action(async (shotPlanFile: string, options: { output: string }) => {
+      try {
+        await exportSubtitles(format, shotPlanFile, options);
+      } catch (error) {
+        console.error(chalk.red(`❌ ${label}の書き出しに失敗:`), error);
+        process.exit(1);
+      }
+    });
+}
+
+// motiva-compose edit コマンド
+program
+  .command('edit')
+  .description('Editor Agentの編集提案（JSON Patch）をSceneGraphに適用します')
+  .option('--scene-graph <file>', 'SceneGraphファイル（省略時は設定の paths.sceneGraph）')
+  .option('--patch <file>', 'Editor Agentを呼ばずにJSON Patchファイルを適用')
+  .option('--undo', '最後に適用した編集を取り消し', false)
+  .action(async (options: { sceneGraph?: string; patch?: string; undo: boolean }) => {
+    try {
+      await editSceneGraph(options);
+    } catch (error) {
+      console.error(chalk.red('❌ SceneGraphの編集に失敗:'), error);
+      process.exit(1);
+    }
+  });
+
+// motiva-compose refine コマンド
+program
+  .command('refine')
+  .description('Critic の評価と Editor の編集を繰り返して SceneGraph を改善します')
+  .option('--scene-graph <file>', 'SceneGraphファイル（省略時は設定の paths.sceneGraph）')
+  .option('--threshold <score>', '目標とする総合スコア（省略時は設定の refinement.threshold）')
+  .option('--max-rounds <count>', '最大ラウンド数（省略時は設定の refinement.maxRounds）')
+  .option('--output <file>', 'ラウンドごとのスコアと差分の履歴を保存するファイル', 'refinement-history.json')
+  .action(async (options: { sceneGraph?: string; threshold?: string; maxRounds?: string; output: string }) => {
+    try {
+      await refineSceneGraph(options);
+    } catch (error) {
+      console.error(chalk.red('❌ 改善ループに失敗:'), error);
+      process.exit(1);
+    }
+  });
+
 // motiva-compose status コマンド
 program
   .command('status')
@@ -120,6 +311,21 @@ program
     }
   });
 
+// motiva-compose budget コマンド
+program
+  .command('budget')
+  .description('請求期間ごとの予算使用状況・エージェント別内訳・過去の期間を表示します')
+  .option('--history <count>', '表示する過去の期間数', '6')
+  .option('--rollover-day <day>', '毎月の締め日（1-28）を変更')
+  .action(async (options: { history: string; rolloverDay?: string }) => {
+    try {
+      await showBudget(options);
+    } catch (error) {
+      console.error(chalk.red('❌ 予算情報の取得に失敗:'), error);
+      process.exit(1);
+    }
+  });
+
 // motiva-compose orchestrate コマンド
 program
   .command('orchestrate')
@@ -170,13 +376,14 @@ program
   });
 
 // motiva-compose cache コマンド
-program
+const cacheCommand = program
   .command('cache')
   .description('キャッシュを管理します')
   .option('--clear', 'キャッシュをクリア', false)
   .option('--stats', 'キャッシュ統計を表示', false)
   .option('--cleanup', '期限切れキャッシュを削除', false)
-  .action(async (options: { clear: boolean; stats: boolean; cleanup: boolean }) => {
+  .option('--namespace <name>', `対象の名前空間 (${CACHE_NAMESPACES.join(', ')} など)`)
+  .action(async (options: { clear: boolean; stats: boolean; cleanup: boolean; namespace?: string }) => {
     try {
       await manageCache(options);
     } catch (error) {
@@ -185,6 +392,35 @@ program
     }
   });
 
+// motiva-compose cache export コマンド（--namespace は cache コマンドと共通）
+cacheCommand
+  .command('export <file>')
+  .description('キャッシュを整合性マニフェスト付きのアーカイブに書き出します')
+  .option('--max-age <hours>', '作成から指定時間以内のエントリのみ')
+  .option('--tag <tag>', '指定タグ（スキーマ名など）のエントリのみ')
+  .action(async (file: string, _options: unknown, command: Command) => {
+    try {
+      await exportCache(file, command.optsWithGlobals());
+    } catch (error) {
+      console.error(chalk.red('❌ キャッシュのエクスポートに失敗:'), error);
+      process.exit(1);
+    }
+  });
+
+// motiva-compose cache import コマンド
+cacheCommand
+  .command('import <file>')
+  .description('アーカイブを検証してキャッシュに取り込みます')
+  .option('--overwrite', '内容の異なる既存エントリを上書き', false)
+  .action(async (file: string, options: { overwrite: boolean }) => {
+    try {
+      await importCache(file, options);
+    } catch (error) {
+      console.error(chalk.red('❌ キャッシュのインポートに失敗:'), error);
+      process.exit(1);
+    }
+  });
+
 // motiva-compose progress コマンド
 program
   .command('progress')
@@ -206,7 +442,8 @@ program
   .option('--pipeline-file <file>', 'パイプライン定義ファイル', 'motiva-pipeline.json')
   .option('--output <file>', '結果出力ファイル', 'pipeline-result.json')
   .option('--template', 'デフォルトテンプレートを生成', false)
-  .action(async (options: { pipelineFile: string; output: string; template: boolean }) => {
+  .option('--dry-run', 'プロバイダーを呼び出さずにコスト・時間を見積もり', false)
+  .action(async (options: { pipelineFile: string; output: string; template: boolean; dryRun: boolean }) => {
     try {
       await executePipelineFromFile(options);
     } catch (error) {
@@ -215,6 +452,21 @@ program
     }
   });
 
+// motiva-compose resume コマンド
+program
+  .command('resume')
+  .description('中断したパイプライン実行をチェックポイントから再開します')
+  .argument('<executionId>', '再開する実行ID')
+  .option('--output <file>', '結果出力ファイル', 'pipeline-result.json')
+  .action(async (executionId: string, options: { output: string }) => {
+    try {
+      await resumePipeline(executionId, options);
+    } catch (error) {
+      console.error(chalk.red('❌ パイプライン再開に失敗:'), error);
+      process.exit(1);
+    }
+  });
+
 // motiva-compose pipeline-parallel コマンド
 program
   .command('pipeline-parallel')
@@ -439,7 +691,7 @@ async function generatePlan(options: any): Promise<void> {
     throw new Error('テーマが指定されていません。標準入力からテーマを入力してください。');
   }
 
-  const budgetManager = new BudgetManager();
+  const budgetManager = new DualBudgetManager();
   const planner = new ConceptPlanner(budgetManager);
 
   const config = {
@@ -448,7 +700,11 @@ async function generatePlan(options: any): Promise<void> {
     maxTokens: 4096
   };
 
-  const plan = await planner.generatePlan(input.trim(), config);
+  let plan = await planner.generatePlan(input.trim(), config);
+
+  if (options.beatSync) {
+    plan = await syncPlanToBeat(plan, options);
+  }
 
   // 検証実行
   const validation = await planner.validatePlan(plan);
@@ -469,18 +725,93 @@ async function generatePlan(options: any): Promise<void> {
   console.log(chalk.green(`✅ プランを ${options.output} に保存しました`));
 }
 
-async function validateFile(filePath: string, schemaType: string): Promise<void> {
+async function syncPlanToBeat(plan: ShotPlan, options: { beatUnit: string; beatTolerance?: string }): Promise<ShotPlan> {
+  if (options.beatUnit !== 'beat' && options.beatUnit !== 'bar') {
+    throw new Error(`--beat-unit には beat または bar を指定してください: ${options.beatUnit}`);
+  }
+  const tolerance = options.beatTolerance === undefined ? undefined : Number(options.beatTolerance);
+  if (tolerance !== undefined && (!Number.isInteger(tolerance) || tolerance < 0)) {
+    throw new Error(`--beat-tolerance には0以上の整数を指定してください: ${options.beatTolerance}`);
+  }
+
+  const { fps } = await ConfigurationManager.getInstance().getRemotionConfig();
+  const result = beatSyncPlan(plan, { fps, unit: options.beatUnit, tolerance });
+  formatBeatSyncReport(result).forEach(line => console.log(chalk.cyan(line)));
+  result.warnings.forEach(warning => console.log(chalk.yellow(`⚠️  ${warning}`)));
+  return result.plan;
+}
+
+async function fixPlan(shotPlanFile: string, options: { strategy: string; output?: string }): Promise<void> {
+  const strategy = TIMELINE_REPAIR_STRATEGIES.find(candidate => candidate === options.strategy);
+  if (!strategy) {
+    throw new Error(`--strategy には ${TIMELINE_REPAIR_STRATEGIES.join(', ')} のいずれかを指定してください: ${options.strategy}`);
+  }
+
+  const plan = ShotPlanSchema.parse(JSON.parse(await fs.readFile(shotPlanFile, 'utf8')));
+  const result = repairTimeline(plan, strategy);
+  formatTimelineRepairReport(result).forEach(line => console.log(chalk.cyan(line)));
+
+  // 修復後のプランを検証（字幕・音のきっかけがショットからはみ出した場合などは警告）
+  const fixedPlan = ShotPlanSchema.parse(result.plan);
+  const validation = await new ConceptPlanner(new DualBudgetManager()).validatePlan(fixedPlan);
+
+  if (validation.warnings.length > 0) {
+    console.log(chalk.yellow('⚠️  警告:'));
+    validation.warnings.forEach(warning => console.log(chalk.yellow(`  - ${warning}`)));
+  }
+
+  if (!validation.isValid) {
+    console.log(chalk.red('❌ エラー:'));
+    validation.errors.forEach(error => console.log(chalk.red(`  - ${error}`)));
+    throw new Error('修復したプランに致命的なエラーがあります');
+  }
+
+  const output = options.output ?? shotPlanFile;
+  await fs.writeFile(output, JSON.stringify(fixedPlan, null, 2));
+  console.log(chalk.green(`✅ 修復したプランを ${output} に保存しました`));
+}
+
+async function validateFile(filePath: string, schemaType: string, migrate = false): Promise<void> {
   const content = await fs.readFile(filePath, 'utf8');
-  const data = JSON.parse(content);
+  let data = JSON.parse(content);
+  const schemaName = SCHEMA_FILE_TYPES[schemaType];
+  if (!schemaName) {
+    throw new Error(`未対応のスキーマタイプ: ${schemaType}`);
+  }
 
   console.log(chalk.blue(`📋 ${filePath} を検証中...`));
 
+  // ファイルのバージョンを判定し、旧バージョンは現行バージョンに変換してから検証
+  const registry = SchemaRegistry.getInstance();
+  const version = registry.detectVersion(schemaName, data);
+  const currentVersion = registry.getVersion(schemaName);
+
+  if (version && version !== currentVersion) {
+    if (!registry.hasMigrationPath(schemaName, version)) {
+      console.log(chalk.yellow(`⚠️  未知のバージョンです: v${version}（現行 v${currentVersion}）`));
+    } else {
+      const migration = registry.migrate(schemaName, data);
+      printMigrationSummary(data, migration);
+
+      if (!migrate) {
+        console.log(chalk.red(`❌ v${version} 形式のファイルです。--migrate または motiva-compose migrate ${filePath} で v${currentVersion} 形式に変換できます`));
+        process.exit(1);
+      }
+
+      await fs.writeFile(filePath, JSON.stringify(migration.data, null, 2));
+      console.log(chalk.green(`✅ v${currentVersion} 形式に変換しました: ${filePath}`));
+      data = migration.data;
+    }
+  } else if (version) {
+    console.log(chalk.gray(`  バージョン: v${version}`));
+  }
+
   switch (schemaType) {
     case 'shot-plan':
       const validatedPlan = ShotPlanSchema.parse(data);
       
       // 追加的な業務ロジック検証
-      const budgetManager = new BudgetManager();
+      const budgetManager = new DualBudgetManager();
       const planner = new ConceptPlanner(budgetManager);
       const validation = await planner.validatePlan(validatedPlan);
 
@@ -502,7 +833,7 @@ async function validateFile(filePath: string, schemaType: string): Promise<void>
       const validatedManifest = AssetManifestSchema.parse(data);
       
       // 追加的な業務ロジック検証
-      const budgetManagerAsset = new BudgetManager();
+      const budgetManagerAsset = new DualBudgetManager();
       const synthesizer = new AssetSynthesizer(budgetManagerAsset);
       const manifestValidation = await synthesizer.validateManifest(validatedManifest);
 
@@ -519,9 +850,76 @@ async function validateFile(filePath: string, schemaType: string): Promise<void>
 
       console.log(chalk.green('✅ 検証成功'));
       break;
-    
-    default:
-      throw new Error(`未対応のスキーマタイプ: ${schemaType}`);
+
+    case 'scene-graph':
+      SceneGraphSchema.parse(data);
+      console.log(chalk.green('✅ 検証成功'));
+      break;
+  }
+}
+
+async function migrateFile(filePath: string, options: { schema?: string; output?: string; dryRun: boolean }): Promise<void> {
+  const data = JSON.parse(await fs.readFile(filePath, 'utf8'));
+  const schemaType = options.schema ?? detectSchemaType(data);
+  const schemaName = SCHEMA_FILE_TYPES[schemaType];
+  if (!schemaName) {
+    throw new Error(`未対応のスキーマタイプ: ${schemaType}`);
+  }
+
+  const migration = SchemaRegistry.getInstance().migrate(schemaName, data);
+  if (migration.applied.length === 0) {
+    console.log(chalk.green(`✅ ${filePath} は既に現行バージョン（v${migration.toVersion}）です`));
+    return;
+  }
+
+  console.log(chalk.blue(`📋 ${filePath}（${schemaType}）を変換中...`));
+  printMigrationSummary(data, migration);
+
+  if (options.dryRun) {
+    console.log(chalk.blue('🔍 --dry-run のため保存しません'));
+    return;
+  }
+
+  const output = options.output ?? filePath;
+  await fs.writeFile(output, JSON.stringify(migration.data, null, 2));
+  console.log(chalk.green(`✅ v${migration.toVersion} 形式に変換して ${output} に保存しました`));
+}
+
+/**
+ * ファイルの内容からスキーマタイプを判定
+ */
+function detectSchemaType(data: unknown): string {
+  if (typeof data === 'object' && data !== null) {
+    if ('@context' in data) return 'scene-graph';
+    if ('assets' in data) return 'asset-manifest';
+    if ('shots' in data) return 'shot-plan';
+  }
+  throw new Error('ファイルの種類を判定できません。--schema で指定してください');
+}
+
+const MIGRATION_DIFF_PREVIEW = 20;
+const MIGRATION_DIFF_SYMBOLS: Record<string, string> = { add: '+', remove: '-', replace: '~' };
+
+/**
+ * 適用した移行・警告・変換前後の差分の概要を表示
+ */
+function printMigrationSummary(before: unknown, migration: SchemaMigrationResult): void {
+  console.log(chalk.cyan(`🔄 v${migration.fromVersion} → v${migration.toVersion}`));
+  migration.applied.forEach(step => console.log(chalk.cyan(`  - v${step.from} → v${step.to}: ${step.description}`)));
+
+  if (migration.warnings.length > 0) {
+    console.log(chalk.yellow('⚠️  移行時の警告:'));
+    migration.warnings.forEach(warning => console.log(chalk.yellow(`  - ${warning}`)));
+  }
+
+  const patch = createJsonPatch(before, migration.data);
+  const count = (op: string) => patch.filter(operation => operation.op === op).length;
+  console.log(chalk.cyan(`📝 差分: 追加 ${count('add')} / 削除 ${count('remove')} / 変更 ${count('replace')}`));
+  patch.slice(0, MIGRATION_DIFF_PREVIEW).forEach(operation => {
+    console.log(chalk.gray(`  ${MIGRATION_DIFF_SYMBOLS[operation.op] ?? operation.op} ${operation.path}`));
+  });
+  if (patch.length > MIGRATION_DIFF_PREVIEW) {
+    console.log(chalk.gray(`  … 他 ${patch.length - MIGRATION_DIFF_PREVIEW} 件`));
   }
 }
 
@@ -532,7 +930,7 @@ async function synthesizeAssets(shotPlanFile: string, options: any): Promise<voi
 
   console.log(chalk.blue(`📋 ショットプランを読み込み: ${shotPlanFile}`));
 
-  const budgetManager = new BudgetManager();
+  const budgetManager = new DualBudgetManager();
   const synthesizer = new AssetSynthesizer(budgetManager);
 
   const config = {
@@ -579,11 +977,45 @@ async function synthesizeAssets(shotPlanFile: string, options: any): Promise<voi
 }
 
 async function showStatus(): Promise<void> {
-  const budgetManager = new BudgetManager();
+  const budgetManager = new DualBudgetManager();
   const status = await budgetManager.getUsageStatus();
   console.log(status);
 }
 
+async function showBudget(options: { history: string; rolloverDay?: string }): Promise<void> {
+  const budgetManager = new DualBudgetManager();
+
+  if (options.rolloverDay !== undefined) {
+    await budgetManager.setRolloverDay(Number(options.rolloverDay));
+  }
+
+  const report = await budgetManager.getPeriodReport();
+  const formatDate = (iso: string) => new Date(iso).toLocaleDateString();
+  const rate = (used: number, limit: number) => `${((used / limit) * 100).toFixed(1)}%`;
+
+  console.log(chalk.blue(`📊 請求期間: ${formatDate(report.period.start)} 〜 ${formatDate(report.period.end)}（毎月${report.period.rolloverDay}日締め）`));
+  console.log(`Tier: ${chalk.cyan(report.tier)}`);
+  console.log(`Cost: ${chalk.yellow(`$${report.usage.costUSD.toFixed(3)}`)} / ${chalk.green(`$${report.limits.monthly}`)} (${rate(report.usage.costUSD, report.limits.monthly)})`);
+  console.log(`Tokens: ${chalk.yellow(report.usage.tokens.toLocaleString())} / ${chalk.green(report.limits.tokens.toLocaleString())} (${rate(report.usage.tokens, report.limits.tokens)})`);
+  console.log(`Wall Time: ${chalk.yellow(`${(report.usage.wallTimeSec / 60).toFixed(1)}分`)} / ${chalk.green(`${(report.limits.wallTimeSec / 60).toFixed(1)}分`)} (${rate(report.usage.wallTimeSec, report.limits.wallTimeSec)})`);
+
+  console.log(chalk.blue('\n🤖 エージェント別内訳'));
+  if (report.byAgent.length === 0) {
+    console.log(chalk.gray('  この期間の使用記録はありません'));
+  }
+  for (const agent of report.byAgent) {
+    console.log(`  ${agent.agent.padEnd(20)} ${String(agent.calls).padStart(4)}回  ${agent.tokens.toLocaleString().padStart(10)} tokens  $${agent.costUSD.toFixed(4)}`);
+  }
+
+  const history = report.history.slice(0, Math.max(0, parseInt(options.history) || 0));
+  if (history.length > 0) {
+    console.log(chalk.blue('\n🗓️  過去の請求期間'));
+    for (const period of history) {
+      console.log(`  ${formatDate(period.start)} 〜 ${formatDate(period.end)}  ${period.tier.padEnd(10)} ${period.tokens.toLocaleString().padStart(10)} tokens  $${period.costUSD.toFixed(3)}`);
+    }
+  }
+}
+
 async function executePipeline(options: { pipeline: string; model: string; output: string }): Promise<void> {
   // 標準入力からテーマを読み込み
   const input = await readStdin();
@@ -748,26 +1180,31 @@ async function executeParallel(options: { agents: string; maxConcurrency: string
   }
 }
 
-async function manageCache(options: { clear: boolean; stats: boolean; cleanup: boolean }): Promise<void> {
+async function manageCache(options: { clear: boolean; stats: boolean; cleanup: boolean; namespace?: string }): Promise<void> {
   const cacheManager = new CacheManager();
+  const namespace = options.namespace ? CacheManager.validateNamespace(options.namespace) : undefined;
+  const target = namespace ? ` (${namespace})` : '';
 
   if (options.clear) {
-    await cacheManager.clear();
-    console.log(chalk.green('✅ キャッシュをクリアしました'));
+    await cacheManager.clear(namespace);
+    console.log(chalk.green(`✅ キャッシュをクリアしました${target}`));
   }
 
   if (options.stats) {
-    const stats = await cacheManager.getStats();
-    console.log(chalk.blue('📊 キャッシュ統計:'));
+    const stats = await cacheManager.getStats(namespace);
+    console.log(chalk.blue(`📊 キャッシュ統計${target}:`));
     console.log(chalk.gray(`  ファイル数: ${stats.totalFiles}`));
     console.log(chalk.gray(`  総サイズ: ${(stats.totalSize / 1024 / 1024).toFixed(2)}MB`));
     console.log(chalk.gray(`  最古のエントリ: ${new Date(stats.oldestEntry).toLocaleString()}`));
     console.log(chalk.gray(`  最新のエントリ: ${new Date(stats.newestEntry).toLocaleString()}`));
+    for (const [name, summary] of Object.entries(stats.namespaces)) {
+      console.log(chalk.gray(`  ${name}: ${summary.files}件 / ${(summary.size / 1024).toFixed(1)}KB`));
+    }
   }
 
   if (options.cleanup) {
-    // クリーンアップは自動的に実行されるため、手動実行は不要
-    console.log(chalk.blue('🧹 キャッシュクリーンアップは自動的に実行されています'));
+    await cacheManager.cleanup();
+    console.log(chalk.blue('🧹 期限切れキャッシュを削除しました'));
   }
 
   if (!options.clear && !options.stats && !options.cleanup) {
@@ -775,12 +1212,219 @@ async function manageCache(options: { clear: boolean; stats: boolean; cleanup: b
     console.log(chalk.gray('  --clear: キャッシュをクリア'));
     console.log(chalk.gray('  --stats: キャッシュ統計を表示'));
     console.log(chalk.gray('  --cleanup: 期限切れキャッシュを削除'));
+    console.log(chalk.gray(`  --namespace <name>: 対象の名前空間を指定 (${CACHE_NAMESPACES.join(', ')})`));
   }
   
   // プロセスを明示的に終了
   process.exit(0);
 }
 
+/**
+ * 設定ファイルの cache（maxSize・compression）に従ったキャッシュマネージャーを作成
+ */
+async function createConfiguredCacheManager(): Promise<CacheManager> {
+  const { cache } = await ConfigurationManager.getInstance().loadConfig();
+  return new CacheManager(undefined, cache.maxSize, { compression: cache.compression });
+}
+
+async function exportCache(file: string, options: { namespace?: string; maxAge?: string; tag?: string }): Promise<void> {
+  const filter: CacheEntryFilter = {};
+  if (options.namespace) filter.namespace = CacheManager.validateNamespace(options.namespace);
+  if (options.maxAge) {
+    const hours = Number(options.maxAge);
+    if (!Number.isFinite(hours) || hours <= 0) {
+      throw new Error(`--max-age には正の時間数を指定してください: ${options.maxAge}`);
+    }
+    filter.maxAgeMs = hours * 60 * 60 * 1000;
+  }
+  if (options.tag) filter.tag = options.tag;
+
+  const result = await exportCacheArchive(await createConfiguredCacheManager(), file, filter);
+  console.log(chalk.green(`✅ ${result.entries}件のキャッシュを ${file} に書き出しました (${(result.bytes / 1024).toFixed(1)}KB)`));
+  process.exit(0);
+}
+
+async function importCache(file: string, options: { overwrite: boolean }): Promise<void> {
+  const report = await importCacheArchive(await createConfiguredCacheManager(), file, options);
+
+  console.log(chalk.green(`✅ ${file} を検証し、${report.imported}件のキャッシュを取り込みました`));
+  console.log(chalk.gray(`  同一内容のため省略: ${report.unchanged}件`));
+  console.log(chalk.gray(`  期限切れのため省略: ${report.skippedExpired}件`));
+  if (report.conflicts.length > 0) {
+    console.log(chalk.yellow(`⚠️  内容の異なる既存エントリ: ${report.conflicts.length}件`));
+    report.conflicts.forEach(conflict => console.log(chalk.gray(
+      `   ${conflict.namespace}/${conflict.key}: ${conflict.resolution === 'overwritten' ? '上書き' : '既存を保持（--overwrite で上書き）'}`
+    )));
+  }
+  process.exit(0);
+}
+
+async function buildSceneGraphFile(directorOutputFile: string, options: { assets?: string; output?: string }): Promise<void> {
+  const directorOutput = DirectorOutputSchema.parse(JSON.parse(await fs.readFile(directorOutputFile, 'utf8')));
+  const manifest = options.assets
+    ? AssetManifestSchema.parse(JSON.parse(await fs.readFile(options.assets, 'utf8')))
+    : undefined;
+
+  const result = await new SceneGraphBuilder().buildToFile(directorOutput, {
+    assets: manifest?.assets,
+    sceneGraphPath: options.output
+  });
+
+  if (result.warnings.length > 0) {
+    console.log(chalk.yellow('⚠️  警告:'));
+    result.warnings.forEach(warning => console.log(chalk.yellow(`  - ${warning}`)));
+  }
+  if (result.danglingAssetIds.length > 0) {
+    console.log(chalk.yellow(`⚠️  Asset Manifest に存在しない素材ID（参照切れ）: ${result.danglingAssetIds.join(', ')}`));
+  } else if (!manifest) {
+    console.log(chalk.gray('💡 --assets を指定すると参照切れの素材IDを検出できます'));
+  }
+
+  const { sceneGraph } = result;
+  console.log(chalk.green(`✅ SceneGraphを生成しました: ${result.sceneGraphPath}`));
+  console.log(chalk.gray(`  ${sceneGraph.layers.length}レイヤー / ${sceneGraph.duration}フレーム (${sceneGraph.fps}fps)`));
+}
+
+async function loadSceneGraphForExport(input: string | undefined, assetsFile: string | undefined) {
+  const inputPath = input ?? (await ConfigurationManager.getInstance().getPathsConfig()).sceneGraph;
+  const manifest = assetsFile
+    ? AssetManifestSchema.parse(JSON.parse(await fs.readFile(assetsFile, 'utf8')))
+    : undefined;
+
+  const loaded = await new SceneGraphBuilder().load(inputPath, manifest?.assets);
+  return { ...loaded, assets: manifest?.assets };
+}
+
+function printExportWarnings(warnings: string[], danglingAssetIds: string[]): void {
+  if (warnings.length > 0) {
+    console.log(chalk.yellow('⚠️  警告:'));
+    warnings.forEach(warning => console.log(chalk.yellow(`  - ${warning}`)));
+  }
+  if (danglingAssetIds.length > 0) {
+    console.log(chalk.yellow(`⚠️  Asset Manifest に存在しない素材ID（参照切れ）: ${danglingAssetIds.join(', ')}`));
+  }
+}
+
+async function exportRemotion(input: string | undefined, options: { assets?: string; outDir: string }): Promise<void> {
+  const { sceneGraph, danglingAssetIds, warnings, assets } = await loadSceneGraphForExport(input, options.assets);
+  const result = await exportRemotionProject(sceneGraph, { outDir: options.outDir, assets });
+
+  printExportWarnings([...warnings, ...result.warnings], danglingAssetIds);
+
+  console.log(chalk.green(`✅ Remotionプロジェクトを生成しました: ${result.outDir}`));
+  console.log(chalk.gray(`  ${sceneGraph.layers.length}レイヤー / ${sceneGraph.duration}フレーム (${sceneGraph.fps}fps, ${sceneGraph.size.w}x${sceneGraph.size.h}) / 素材 ${result.copiedAssets.length}件をコピー`));
+  console.log(chalk.cyan(`次のステップ:
+  cd ${options.outDir}
+  npm install
+  npm run render`));
+}
+
+async function exportTimeline(format: string, input: string | undefined, options: { assets?: string; output: string }): Promise<void> {
+  const { label, exporter } = TIMELINE_FORMATS[format]!;
+  const { fps } = await ConfigurationManager.getInstance().getRemotionConfig();
+
+  const { sceneGraph, danglingAssetIds, warnings, assets } = await loadSceneGraphForExport(input, options.assets);
+  const { timeline, warnings: timelineWarnings } = toEditTimeline(sceneGraph, { fps, assets });
+  const result = exporter(timeline);
+
+  await fs.mkdir(path.dirname(path.resolve(options.output)), { recursive: true });
+  await fs.writeFile(options.output, result.content);
+
+  printExportWarnings([...warnings, ...timelineWarnings, ...result.warnings], danglingAssetIds);
+  const clipCount = timeline.tracks.reduce((count, track) => count + track.clips.length, 0);
+  console.log(chalk.green(`✅ ${label}を書き出しました: ${options.output}`));
+  console.log(chalk.gray(`  ${timeline.tracks.length}トラック / ${clipCount}クリップ / ${timeline.duration}フレーム (${timeline.fps}fps)`));
+}
+
+async function draftCaptions(shotPlanFile: string, options: { model: string; temperature: string; output?: string }): Promise<void> {
+  const plan = ShotPlanSchema.parse(JSON.parse(await fs.readFile(shotPlanFile, 'utf8')));
+  const agent = new SubtitleAgent(new DualBudgetManager());
+
+  const captioned = await agent.draftCaptions(plan, {
+    model: options.model,
+    temperature: parseFloat(options.temperature)
+  });
+
+  const output = options.output ?? shotPlanFile;
+  await fs.writeFile(output, JSON.stringify(captioned, null, 2));
+  console.log(chalk.green(`✅ ${collectSubtitleCues(captioned).length}件の字幕を ${output} に保存しました`));
+  console.log(chalk.gray('💡 motiva-compose export srt / export vtt で字幕ファイルを書き出せます'));
+}
+
+async function exportSubtitles(format: string, shotPlanFile: string, options: { output: string }): Promise<void> {
+  const { label, exporter } = SUBTITLE_FORMATS[format]!;
+  const plan = ShotPlanSchema.parse(JSON.parse(await fs.readFile(shotPlanFile, 'utf8')));
+  const { fps } = await ConfigurationManager.getInstance().getRemotionConfig();
+
+  const cues = collectSubtitleCues(plan);
+  if (cues.length === 0) {
+    throw new Error(`ショットプランに字幕がありません。motiva-compose captions ${shotPlanFile} で下書きできます`);
+  }
+
+  await fs.mkdir(path.dirname(path.resolve(options.output)), { recursive: true });
+  await fs.writeFile(options.output, exporter(plan, fps));
+
+  const issues = checkCaptions(plan);
+  if (issues.length > 0) {
+    console.log(chalk.yellow('⚠️  字幕の問題:'));
+    issues.forEach(issue => console.log(chalk.yellow(`  - ${issue.message}`)));
+  }
+  console.log(chalk.green(`✅ ${label}を書き出しました: ${options.output}`));
+  console.log(chalk.gray(`  ${cues.length}件の字幕 (${fps}fps)`));
+}
+
+async function editSceneGraph(options: { sceneGraph?: string; patch?: string; undo: boolean }): Promise<void> {
+  const editor = new SceneGraphEditor();
+
+  if (options.undo) {
+    const edit = await editor.undo();
+    if (!edit) {
+      console.log(chalk.yellow('⚠️  取り消せる編集がありません'));
+    } else {
+      console.log(chalk.green(`✅ ${edit.appliedAt} の編集（${edit.patch.length}件）を取り消しました: ${edit.sceneGraphPath}`));
+    }
+    return;
+  }
+
+  if (options.patch) {
+    const patch = JsonPatchSchema.parse(JSON.parse(await fs.readFile(options.patch, 'utf8')));
+    const edit = await editor.applyToFile(patch, options.sceneGraph);
+    console.log(chalk.green(`✅ ${patch.length}件の編集を ${edit.sceneGraphPath} に適用しました`));
+  } else {
+    await new EditorAgent().runAndApply(options.sceneGraph, editor);
+  }
+  console.log(chalk.gray('💡 取り消すには motiva-compose edit --undo を実行してください'));
+}
+
+async function refineSceneGraph(options: { sceneGraph?: string; threshold?: string; maxRounds?: string; output: string }): Promise<void> {
+  const threshold = options.threshold !== undefined ? Number(options.threshold) : undefined;
+  if (threshold !== undefined && !(threshold >= 0 && threshold <= 100)) {
+    throw new Error(`--threshold には 0〜100 のスコアを指定してください: ${options.threshold}`);
+  }
+  const maxRounds = options.maxRounds !== undefined ? Number(options.maxRounds) : undefined;
+  if (maxRounds !== undefined && !(Number.isInteger(maxRounds) && maxRounds > 0)) {
+    throw new Error(`--max-rounds には正の整数を指定してください: ${options.maxRounds}`);
+  }
+
+  const result = await new RefinementLoop().run({ sceneGraphPath: options.sceneGraph, threshold, maxRounds });
+
+  const stopReasons: Record<RefinementStopReason, string> = {
+    'threshold': '目標スコアに到達',
+    'max-rounds': '最大ラウンド数に到達',
+    'budget': '予算上限に到達',
+    'no-changes': '編集提案なし',
+    'invalid-patch': '編集提案を適用できませんでした'
+  };
+
+  await fs.writeFile(options.output, JSON.stringify(result, null, 2));
+  console.log(chalk.green(`✅ 改善ループ終了: ${stopReasons[result.stopReason]}`));
+  console.log(chalk.gray(`  スコア: ${result.initialScore ?? '-'} → ${result.finalScore ?? '-'} (目標 ${result.threshold})`));
+  result.rounds.forEach(round => console.log(chalk.gray(
+    `  ラウンド ${round.round}: ${round.scoreBefore} → ${round.scoreAfter ?? '-'} / ${round.patch.length}件の編集${round.error ? ` (${round.error})` : ''}`
+  )));
+  console.log(chalk.gray(`📄 履歴を ${options.output} に保存しました（edit --undo で1ラウンドずつ取り消し可能）`));
+}
+
 async function executeIndependentParallel(options: { agents: string; maxConcurrency: string; timeout: string; output: string }): Promise<void> {
   const agentNames = options.agents.split(',').map(name => name.trim());
   const maxConcurrency = parseInt(options.maxConcurrency);
@@ -872,21 +1516,24 @@ async function showProgressDemo(options: { demo: boolean }): Promise<void> {
   console.log(chalk.green('✅ プログレスデモが完了しました'));
 }
 
-async function executePipelineFromFile(options: { pipelineFile: string; output: string; template: boolean }): Promise<void> {
-  const budgetManager = new BudgetManager();
-  const pipelineManager = new PipelineManager(budgetManager);
-  
+async function executePipelineFromFile(options: { pipelineFile: string; output: string; template: boolean; dryRun: boolean }): Promise<void> {
   if (options.template) {
     // デフォルトテンプレートを生成
-    const defaultPipeline = PipelineManager.generateDefaultPipeline();
-    await pipelineManager.savePipelineTemplate(defaultPipeline, options.pipelineFile);
+    const defaultPipeline = createDefaultPipelineDefinition();
+    await fs.writeFile(options.pipelineFile, JSON.stringify(defaultPipeline, null, 2));
     console.log(chalk.green(`✅ デフォルトパイプライン設定を生成: ${options.pipelineFile}`));
     return;
   }
+
+  if (options.dryRun) {
+    const definition = await loadPipelineDefinition(options.pipelineFile);
+    printPipelineEstimate(await estimatePipeline(definition));
+    return;
+  }
   
   try {
     // パイプライン設定を読み込み
-    const pipelineConfig = await pipelineManager.loadPipelineConfig(options.pipelineFile);
+    const pipelineConfig = await loadPipelineDefinition(options.pipelineFile);
     
     // ユーザー入力を取得
     console.log(chalk.blue('📝 プロンプトを入力してください（Ctrl+Dで終了）:'));
@@ -897,19 +1544,13 @@ async function executePipelineFromFile(options: { pipelineFile: string; output:
       return;
     }
     
-    // パイプラインを実行
-    const result = await pipelineManager.executePipeline(
-      pipelineConfig,
-      userInput,
-      process.env.OPENAI_API_KEY
-    );
+    // パイプラインを実行（チェックポイントは .motiva/runs/<executionId>/ に保存）
+    const runner = new PipelineRunner();
+    const result = await runner.run(pipelineConfig, userInput.trim());
     
     // 結果を保存
-    await pipelineManager.savePipelineResult(result, options.output);
-    
-    console.log(chalk.green(`✅ パイプライン実行完了: ${result.pipelineName}`));
-    console.log(chalk.gray(`   実行時間: ${result.duration}ms`));
-    console.log(chalk.gray(`   ステータス: ${result.status}`));
+    await fs.writeFile(options.output, JSON.stringify(result, null, 2));
+    printPipelineRunSummary(result, options.output);
     
   } catch (error) {
     console.error(chalk.red('❌ パイプライン実行エラー:'), error);
@@ -920,6 +1561,61 @@ async function executePipelineFromFile(options: { pipelineFile: string; output:
   }
 }
 
+async function resumePipeline(executionId: string, options: { output: string }): Promise<void> {
+  const runner = new PipelineRunner();
+  const result = await runner.resume(executionId);
+
+  await fs.writeFile(options.output, JSON.stringify(result, null, 2));
+  printPipelineRunSummary(result, options.output);
+  process.exit(result.status === 'success' ? 0 : 1);
+}
+
+function printPipelineEstimate(estimate: PipelineEstimate): void {
+  const formatTokens = (tokens: number) => tokens.toLocaleString().padStart(10);
+
+  console.log(chalk.blue(`🧮 見積もり（ドライラン）: ${estimate.pipelineName}`));
+  console.log(chalk.gray('   プロバイダーは呼び出していません。出力トークンは maxTokens を上限として見込んでいます'));
+  for (const agent of estimate.agents) {
+    console.log(`  ${agent.name.padEnd(20)} ${chalk.gray(agent.provider.padEnd(24))} ${formatTokens(agent.tokens)} tokens（入力 ${agent.promptTokens.toLocaleString()} / 出力 ${agent.completionTokens.toLocaleString()}）  $${agent.costUSD.toFixed(4)}  ${agent.wallTimeSec}s`);
+  }
+  console.log(`  ${'合計'.padEnd(45)} ${formatTokens(estimate.total.tokens)} tokens  ${chalk.yellow(`$${estimate.total.costUSD.toFixed(4)}`)}  ${estimate.total.wallTimeSec}s`);
+  console.log(chalk.gray(`   所要時間はクリティカルパス（${estimate.criticalPath.join(' → ')}）で見積もっています`));
+
+  if (!estimate.budget) {
+    console.log(chalk.gray('\n💰 予算ファイルが未作成のため、予算内かどうかは判定していません'));
+    return;
+  }
+
+  const { tier, allowed, reason, usageRates } = estimate.budget;
+  const percent = (rate: number) => `${(rate * 100).toFixed(1)}%`;
+  console.log(chalk.blue(`\n💰 予算層: ${tier}`));
+  console.log(chalk.gray(`   実行後の使用率: Cost ${percent(usageRates.cost)} / Tokens ${percent(usageRates.tokens)} / Wall Time ${percent(usageRates.wallTime)}`));
+  if (allowed) {
+    console.log(chalk.green('✅ 現在の予算内で実行できます'));
+  } else {
+    console.log(chalk.red(`❌ 予算内に収まりません: ${reason}`));
+  }
+}
+
+function printPipelineRunSummary(result: { pipelineName: string; executionId: string; duration: number; status: string; results: Array<{ agentName: string; status: string; provider?: string; model?: string; cached?: boolean; error?: string }> }, output: string): void {
+  const statusColor = result.status === 'success' ? chalk.green : chalk.red;
+  console.log(statusColor(`${result.status === 'success' ? '✅' : '❌'} パイプライン実行${result.status === 'success' ? '完了' : '失敗'}: ${result.pipelineName}`));
+  console.log(chalk.gray(`   実行ID: ${result.executionId}`));
+  console.log(chalk.gray(`   実行時間: ${result.duration}ms`));
+  console.log(chalk.gray(`   ステータス: ${result.status}`));
+  result.results
+    .filter(agent => agent.status === 'success' && agent.provider)
+    .forEach(agent => console.log(chalk.gray(`   ${agent.agentName}: ${agent.provider}:${agent.model}${agent.cached ? '（キャッシュ）' : ''}`)));
+  result.results
+    .filter(agent => agent.status === 'failed')
+    .forEach(agent => console.log(chalk.red(`   ${agent.agentName}: ${agent.error}`)));
+  console.log(chalk.cyan(`📄 結果を ${output} に保存しました`));
+
+  if (result.status !== 'success') {
+    console.log(chalk.cyan(`💡 再開するには: motiva-compose resume ${result.executionId}`));
+  }
+}
+
 async function executeParallelPipelineFromFile(options: { pipelineFile: string; output: string }): Promise<void> {
   const budgetManager = new BudgetManager();
   const pipelineManager = new PipelineManager(budgetManager);
@@ -0,0 +1,255 @@
+import { z } from 'zod';
+import chalk from 'chalk';
+import { SchemaRegistry } from './schema-registry.js';
+import { withRetryForErrorTypes } from './retry.js';
+import { ErrorType } from './error-classifier.js';
+
+export interface AnthropicRequest {
+  model: string;
+  systemPrompt: string;
+  userInput: string;
+  temperature?: number;
+  maxTokens?: number;
+  signal?: AbortSignal;
+}
+
+export interface AnthropicResponse<T> {
+  data: T;
+  tokensUsed: number;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface AnthropicWrapperOptions {
+  apiKey?: string;
+  baseUrl?: string;
+  apiVersion?: string;
+  timeoutMs?: number; // 1リクエストのタイムアウト（既定: 120秒）
+}
+
+interface MessagesApiResponse {
+  model?: string;
+  content: Array<{ type: 'text'; text: string } | { type: 'tool_use'; name: string; input: unknown }>;
+  usage?: { input_tokens?: number; output_tokens?: number };
+}
+
+// 旧来の短縮名を Messages API のモデルIDに解決
+const MODEL_ALIASES: Record<string, string> = {
+  'claude-3-opus': 'claude-3-opus-latest',
+  'claude-3-sonnet': 'claude-3-sonnet-20240229',
+  'claude-3-haiku': 'claude-3-haiku-20240307',
+  'claude-3-5-sonnet': 'claude-3-5-sonnet-latest',
+  'claude-3-5-haiku': 'claude-3-5-haiku-latest'
+};
+
+// 非オブジェクトスキーマをツール入力として扱うためのラッパーキー
+const WRAPPED_RESULT_KEY = 'result';
+
+const DEFAULT_TIMEOUT_MS = 120000;
+
+export class AnthropicWrapper {
+  private apiKey: string | undefined;
+  private baseUrl: string;
+  private apiVersion: string;
+  private timeoutMs: number;
+
+  constructor(options: AnthropicWrapperOptions = {}) {
+    this.apiKey = options.apiKey || process.env.ANTHROPIC_API_KEY;
+    this.baseUrl = (options.baseUrl || process.env.ANTHROPIC_BASE_URL || 'https://api.anthropic.com').replace(/\/+$/, '');
+    this.apiVersion = options.apiVersion || '2023-06-01';
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  }
+
+  hasApiKey(): boolean {
+    return !!this.apiKey;
+  }
+
+  /**
+   * ツール使用（tool_choice固定）でスキーマに沿ったJSONを生成
+   */
+  async generateJSON<T>(
+    request: AnthropicRequest,
+    schema: z.ZodSchema<T>,
+    schemaName: string = 'response_schema'
+  ): Promise<AnthropicResponse<T>> {
+    const { inputSchema, wrapped } = this.buildToolInputSchema(schema, schemaName);
+    const toolName = schemaName.replace(/[^a-zA-Z0-9_-]/g, '_').slice(0, 64);
+
+    return await withRetryForErrorTypes(
+      async () => {
+        const response = await this.createMessage(request, {
+          tools: [{
+            name: toolName,
+            description: `Return the result as ${schemaName}`,
+            input_schema: inputSchema
+          }],
+          tool_choice: { type: 'tool', name: toolName }
+        });
+
+        const toolUse = response.content.find(block => block.type === 'tool_use');
+        if (!toolUse || toolUse.type !== 'tool_use') {
+          throw new Error('Anthropic APIからツール出力が得られませんでした');
+        }
+
+        const raw = wrapped ? (toolUse.input as Record<string, unknown>)?.[WRAPPED_RESULT_KEY] : toolUse.input;
+        return {
+          data: this.validate(raw, schema),
+          ...this.usageOf(response)
+        };
+      },
+      [ErrorType.API_LIMIT, ErrorType.TIMEOUT, ErrorType.NETWORK],
+      {
+        onRetry: (attempt, error) => {
+          console.log(chalk.yellow(`🔄 Anthropic API リトライ ${attempt}: ${error.message}`));
+        }
+      }
+    );
+  }
+
+  /**
+   * テキストを生成
+   */
+  async generateText(request: AnthropicRequest): Promise<AnthropicResponse<string>> {
+    return await withRetryForErrorTypes(
+      async () => {
+        const response = await this.createMessage(request, {});
+        const text = response.content
+          .filter((block): block is { type: 'text'; text: string } => block.type === 'text')
+          .map(block => block.text)
+          .join('');
+
+        return { data: text, ...this.usageOf(response) };
+      },
+      [ErrorType.API_LIMIT, ErrorType.TIMEOUT, ErrorType.NETWORK],
+      {
+        onRetry: (attempt, error) => {
+          console.log(chalk.yellow(`🔄 Anthropic API リトライ ${attempt}: ${error.message}`));
+        }
+      }
+    );
+  }
+
+  resolveModel(model: string): string {
+    return MODEL_ALIASES[model] ?? model;
+  }
+
+  private async createMessage(request: AnthropicRequest, extra: Record<string, unknown>): Promise<MessagesApiResponse> {
+    const { model, systemPrompt, userInput, temperature = 0.7, maxTokens = 4096 } = request;
+
+    if (!this.apiKey) {
+      throw new Error('API認証エラー: ANTHROPIC_API_KEY が設定されていません');
+    }
+
+    // タイムアウト（リトライ対象）または呼び出し元の中断でリクエストを取り消す
+    const controller = new AbortController();
+    const timer = setTimeout(
+      () => controller.abort(new Error(`Anthropic API リクエストが ${this.timeoutMs}ms でタイムアウトしました (timeout)`)),
+      this.timeoutMs
+    );
+    const onAbort = () => controller.abort(request.signal?.reason);
+    if (request.signal?.aborted) {
+      onAbort();
+    } else {
+      request.signal?.addEventListener('abort', onAbort, { once: true });
+    }
+
+    try {
+      const response = await fetch(`${this.baseUrl}/v1/messages`, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          'x-api-key': this.apiKey,
+          'anthropic-version': this.apiVersion
+        },
+        body: JSON.stringify({
+          model: this.resolveModel(model),
+          system: systemPrompt,
+          messages: [{ role: 'user', content: userInput }],
+          temperature,
+          max_tokens: maxTokens,
+          ...extra
+        }),
+        signal: controller.signal
+      });
+
+      if (!response.ok) {
+        throw await this.toApiError(response);
+      }
+
+      return await response.json() as MessagesApiResponse;
+    } finally {
+      clearTimeout(timer);
+      request.signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  /**
+   * ツールの input_schema を生成（Anthropicはobject型のみ受け付けるため、それ以外はラップする）
+   */
+  private buildToolInputSchema(schema: z.ZodSchema, schemaName: string): { inputSchema: Record<string, unknown>; wrapped: boolean } {
+    const registry = SchemaRegistry.getInstance();
+
+    if (!(schema instanceof z.ZodObject)) {
+      const inputSchema = registry.generateJSONSchema(z.object({ [WRAPPED_RESULT_KEY]: schema }), {
+        name: schemaName,
+        description: `Wrapped schema for ${schemaName}`
+      }) as Record<string, unknown>;
+      return { inputSchema, wrapped: true };
+    }
+
+    const inputSchema = (registry.has(schemaName)
+      ? registry.get(schemaName).jsonSchema
+      : registry.generateJSONSchema(schema, { name: schemaName, description: `Generated schema for ${schemaName}` })) as Record<string, unknown>;
+    return { inputSchema, wrapped: false };
+  }
+
+  private validate<T>(raw: unknown, schema: z.ZodSchema<T>): T {
+    // strict モードのスキーマでは省略可能な項目が null で返るため、検証前に取り除く
+    const result = schema.safeParse(SchemaRegistry.getInstance().removeOptionalNulls(schema, raw));
+    if (!result.success) {
+      console.error(chalk.red('Zod検証エラー:'), result.error.errors);
+      const zodErr: any = new Error(`スキーマ検証エラー: ${result.error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')}`);
+      zodErr.data = raw;
+      throw zodErr;
+    }
+    return result.data;
+  }
+
+  private usageOf(response: MessagesApiResponse): { tokensUsed: number; promptTokens: number; completionTokens: number } {
+    const promptTokens = response.usage?.input_tokens ?? 0;
+    const completionTokens = response.usage?.output_tokens ?? 0;
+    return { tokensUsed: promptTokens + completionTokens, promptTokens, completionTokens };
+  }
+
+  private async toApiError(response: Response): Promise<Error> {
+    let message = response.statusText;
+    try {
+      const body = await response.json() as { error?: { type?: string; message?: string } };
+      if (body.error?.message) {
+        message = `${body.error.type ?? 'error'}: ${body.error.message}`;
+      }
+    } catch {
+      // JSON以外のエラーボディは無視
+    }
+
+    const error: any = new Error(this.formatErrorMessage(response.status, message));
+    error.status = response.status;
+    return error;
+  }
+
+  private formatErrorMessage(status: number, message: string): string {
+    switch (status) {
+      case 401:
+        return 'API認証エラー: Anthropic APIキーを確認してください';
+      case 429:
+        return `レート制限エラー (rate limit): ${message}`;
+      case 529:
+        return `Anthropic APIが過負荷です (rate limit): ${message}`;
+      default:
+        if (status >= 500) {
+          return `Anthropic APIサーバーエラー (${status}): ${message}`;
+        }
+        return `リクエストエラー (${status}): ${message}`;
+    }
+  }
+}
@@ -0,0 +1,125 @@
+import { ShotPlan } from '../schemas/index.js';
+
+export type BeatSyncUnit = 'beat' | 'bar';
+
+export interface BeatSyncOptions {
+  fps: number;
+  unit?: BeatSyncUnit; // カット点を合わせる単位（既定は拍）
+  beatsPerBar?: number; // 1小節の拍数（既定は4）
+  tolerance?: number; // 移動を許容するフレーム数（既定は0.25秒分）
+}
+
+export interface ShotMove {
+  shotId: string;
+  from: { start: number; len: number };
+  to: { start: number; len: number };
+}
+
+export interface BeatSyncResult {
+  plan: ShotPlan;
+  moved: ShotMove[];
+  unsynced: string[]; // 許容範囲内に拍・小節の境界が無く、カット点が拍から外れたままのショット
+  warnings: string[];
+  unit: BeatSyncUnit;
+  interval: number; // 1拍（または1小節）あたりのフレーム数
+}
+
+/**
+ * ショットの境界（カット点）を bgm.bpm の拍・小節の境界に合わせる
+ * 境界から許容範囲内にある拍・小節の位置へ移動し、隣接するショットの境界は同じ位置に揃えます（長さが0になるショットは前後の境界ごと移動しません）。
+ * ショット内の字幕・音のきっかけはショット先頭からの相対位置のため、移動後は validatePlan で範囲を確認してください
+ */
+export function beatSyncPlan(plan: ShotPlan, options: BeatSyncOptions): BeatSyncResult {
+  const bpm = plan.bgm?.bpm;
+  if (!bpm) {
+    throw new Error('ショットプランに bgm.bpm が無いため、拍に合わせられません');
+  }
+
+  const unit = options.unit ?? 'beat';
+  const beatsPerBar = options.beatsPerBar ?? 4;
+  const tolerance = options.tolerance ?? Math.round(options.fps / 4);
+  if (beatsPerBar <= 0 || tolerance < 0) {
+    throw new Error(`拍合わせの設定が不正です: beatsPerBar=${beatsPerBar}, tolerance=${tolerance}`);
+  }
+
+  const interval = (options.fps * 60 / bpm) * (unit === 'bar' ? beatsPerBar : 1);
+  const gridPoint = (frame: number) => Math.round(Math.round(frame / interval) * interval);
+  const snap = (frame: number) => {
+    const target = gridPoint(frame);
+    return Math.abs(target - frame) <= tolerance ? target : frame;
+  };
+
+  const moved: ShotMove[] = [];
+  const unsynced: string[] = [];
+  const warnings: string[] = [];
+
+  // カット点ごとに移動先を一度だけ決め、同じカット点を共有する前後のショットの境界を揃える
+  const cuts = new Map<number, number>();
+  for (const shot of plan.shots) {
+    cuts.set(shot.start, snap(shot.start));
+    cuts.set(shot.start + shot.len, snap(shot.start + shot.len));
+  }
+  const cut = (frame: number) => cuts.get(frame) ?? frame;
+
+  // 長さが0になるショットは両端のカット点を元の位置に戻す（戻したことで隣のショットが潰れる場合も繰り返し戻す）
+  const pinned = new Set<number>();
+  for (let changed = true; changed;) {
+    changed = false;
+    plan.shots.forEach((shot, index) => {
+      const end = shot.start + shot.len;
+      if (!pinned.has(index) && cut(end) - cut(shot.start) < 1) {
+        pinned.add(index);
+        cuts.set(shot.start, shot.start);
+        cuts.set(end, end);
+        changed = true;
+      }
+    });
+  }
+
+  const shots = plan.shots.map((shot, index) => {
+    if (pinned.has(index)) {
+      warnings.push(`ショット "${shot.id}" は拍に合わせると長さが0になるため、前後の境界とともに移動しませんでした`);
+      return shot;
+    }
+
+    const end = shot.start + shot.len;
+    const start = cut(shot.start);
+    const snappedEnd = cut(end);
+
+    if (start !== gridPoint(start) || snappedEnd !== gridPoint(snappedEnd)) {
+      unsynced.push(shot.id);
+    }
+    if (start === shot.start && snappedEnd === end) {
+      return shot;
+    }
+
+    moved.push({ shotId: shot.id, from: { start: shot.start, len: shot.len }, to: { start, len: snappedEnd - start } });
+    return { ...shot, start, len: snappedEnd - start };
+  });
+
+  // 総尺が最後のショットの終わりと一致していた場合は追従させる
+  const originalEnd = Math.max(...plan.shots.map(shot => shot.start + shot.len));
+  const syncedEnd = Math.max(...shots.map(shot => shot.start + shot.len));
+  let duration = plan.duration;
+  if (originalEnd === plan.duration && syncedEnd !== plan.duration) {
+    duration = syncedEnd;
+    warnings.push(`総尺を ${plan.duration} から ${syncedEnd} フレームに変更しました`);
+  }
+
+  return { plan: { ...plan, duration, shots }, moved, unsynced, warnings, unit, interval };
+}
+
+/**
+ * 拍合わせの結果を表示用の行に整形
+ */
+export function formatBeatSyncReport(result: BeatSyncResult): string[] {
+  const label = result.unit === 'bar' ? '小節' : '拍';
+  const lines = [`🎵 ${label}の間隔: ${result.interval.toFixed(2)}フレーム / 移動したショット: ${result.moved.length}件`];
+  for (const move of result.moved) {
+    lines.push(`  - ${move.shotId}: ${move.from.start}+${move.from.len} → ${move.to.start}+${move.to.len}`);
+  }
+  if (result.unsynced.length > 0) {
+    lines.push(`  ${label}から外れたままのショット（許容範囲外）: ${result.unsynced.join(', ')}`);
+  }
+  return lines;
+}
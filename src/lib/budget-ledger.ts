@@ -0,0 +1,86 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { z } from 'zod';
+
+// 使用量台帳の1エントリ（.motiva/budget-ledger.jsonl に1行ずつ追記）
+export const LedgerEntrySchema = z.object({
+  timestamp: z.string(),
+  periodStart: z.string(),
+  agent: z.string().optional(),
+  model: z.string().optional(),
+  provider: z.string().optional(),
+  pipeline: z.string().optional(),
+  executionId: z.string().optional(),
+  cached: z.boolean().optional(),
+  tokens: z.number(),
+  promptTokens: z.number().optional(),
+  completionTokens: z.number().optional(),
+  costUSD: z.number(),
+  wallTimeSec: z.number()
+});
+
+export type LedgerEntry = z.infer<typeof LedgerEntrySchema>;
+
+export interface AgentUsageSummary {
+  agent: string;
+  calls: number;
+  tokens: number;
+  costUSD: number;
+  wallTimeSec: number;
+}
+
+/**
+ * 追記専用の使用量台帳
+ */
+export class BudgetLedger {
+  private ledgerPath: string;
+
+  constructor(motivaDir: string) {
+    this.ledgerPath = path.join(motivaDir, 'budget-ledger.jsonl');
+  }
+
+  async append(entry: LedgerEntry): Promise<void> {
+    await fs.mkdir(path.dirname(this.ledgerPath), { recursive: true });
+    await fs.appendFile(this.ledgerPath, `${JSON.stringify(LedgerEntrySchema.parse(entry))}\n`, 'utf8');
+  }
+
+  /**
+   * 台帳を読み込み（periodStart を指定した場合はその期間のエントリのみ）
+   */
+  async read(periodStart?: string): Promise<LedgerEntry[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.ledgerPath, 'utf8');
+    } catch {
+      return [];
+    }
+
+    const entries: LedgerEntry[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      // 書き込み途中で中断された行などは読み飛ばす
+      const parsed = LedgerEntrySchema.safeParse((() => { try { return JSON.parse(line); } catch { return undefined; } })());
+      if (parsed.success && (!periodStart || parsed.data.periodStart === periodStart)) {
+        entries.push(parsed.data);
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * エージェント別に集計（コストの大きい順）
+   */
+  static summarizeByAgent(entries: LedgerEntry[]): AgentUsageSummary[] {
+    const summaries = new Map<string, AgentUsageSummary>();
+    for (const entry of entries) {
+      const agent = entry.agent ?? '(unknown)';
+      const summary = summaries.get(agent) ?? { agent, calls: 0, tokens: 0, costUSD: 0, wallTimeSec: 0 };
+      summary.calls++;
+      summary.tokens += entry.tokens;
+      summary.costUSD += entry.costUSD;
+      summary.wallTimeSec += entry.wallTimeSec;
+      summaries.set(agent, summary);
+    }
+    return [...summaries.values()].sort((a, b) => b.costUSD - a.costUSD);
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * 請求期間の計算
+ * 毎月 rolloverDay 日の 0:00（ローカル時刻）を期間の境界とします
+ */
+
+// 全ての月に存在する日に制限（29〜31日は月によって存在しないため）
+export const MAX_ROLLOVER_DAY = 28;
+
+/**
+ * 指定日時を含む請求期間の開始日時を取得
+ */
+export function getPeriodStart(date: Date, rolloverDay: number): Date {
+  const day = clampRolloverDay(rolloverDay);
+  const start = new Date(date.getFullYear(), date.getMonth(), day);
+  if (date < start) {
+    start.setMonth(start.getMonth() - 1);
+  }
+  return start;
+}
+
+/**
+ * 請求期間の終了日時（次の期間の開始日時）を取得
+ */
+export function getNextPeriodStart(periodStart: Date, rolloverDay: number): Date {
+  const day = clampRolloverDay(rolloverDay);
+  return new Date(periodStart.getFullYear(), periodStart.getMonth() + 1, day);
+}
+
+function clampRolloverDay(rolloverDay: number): number {
+  return Math.min(Math.max(Math.trunc(rolloverDay), 1), MAX_ROLLOVER_DAY);
+}
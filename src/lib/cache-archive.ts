@@ -0,0 +1,203 @@
+import fs from 'fs/promises';
+import crypto from 'crypto';
+import zlib from 'zlib';
+import { promisify } from 'util';
+import { z } from 'zod';
+import { CacheManager, CacheEntry, CacheEntryFilter } from './cache-manager.js';
+
+const gzip = promisify(zlib.gzip);
+const gunzip = promisify(zlib.gunzip);
+
+const ARCHIVE_FORMAT = 'motiva-cache-archive';
+
+const ManifestEntrySchema = z.object({
+  namespace: z.string(),
+  key: z.string(),
+  sha256: z.string(), // payload のハッシュ
+  size: z.number().int().min(0),
+  createdAt: z.number(),
+  expiresAt: z.number(),
+  tags: z.array(z.string()).default([])
+});
+
+const CacheArchiveManifestSchema = z.object({
+  createdAt: z.string(),
+  filter: z.object({
+    namespace: z.string().optional(),
+    maxAgeMs: z.number().optional(),
+    tag: z.string().optional()
+  }),
+  entries: z.array(ManifestEntrySchema)
+});
+
+const CacheArchiveSchema = z.object({
+  format: z.literal(ARCHIVE_FORMAT),
+  version: z.literal(1),
+  manifest: CacheArchiveManifestSchema,
+  manifestSha256: z.string(),
+  entries: z.array(z.object({
+    namespace: z.string(),
+    key: z.string(),
+    payload: z.string() // CacheEntry のJSON
+  }))
+});
+
+const CacheEntrySchema = z.object({
+  key: z.string(),
+  data: z.unknown(),
+  timestamp: z.number(),
+  ttl: z.number(),
+  metadata: z.record(z.any()).optional()
+});
+
+export type CacheArchiveManifest = z.infer<typeof CacheArchiveManifestSchema>;
+
+export interface CacheExportResult {
+  entries: number;
+  bytes: number; // アーカイブファイルのサイズ
+}
+
+export interface CacheImportConflict {
+  namespace: string;
+  key: string;
+  resolution: 'kept' | 'overwritten';
+}
+
+export interface CacheImportReport {
+  imported: number;
+  unchanged: number; // 同じ内容のエントリが既にあったもの
+  skippedExpired: number;
+  conflicts: CacheImportConflict[];
+}
+
+function sha256(content: string): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * キャッシュエントリを整合性マニフェスト付きの単一アーカイブ（gzip圧縮JSON）に書き出し
+ */
+export async function exportCacheArchive(
+  cacheManager: CacheManager,
+  file: string,
+  filter: CacheEntryFilter = {}
+): Promise<CacheExportResult> {
+  const manifestEntries: CacheArchiveManifest['entries'] = [];
+  const entries: z.infer<typeof CacheArchiveSchema>['entries'] = [];
+
+  for (const info of await cacheManager.listEntries(filter)) {
+    const entry = await cacheManager.readEntry(info.namespace, info.key);
+    if (!entry) continue; // 一覧取得後に期限切れ・削除されたもの
+
+    const payload = JSON.stringify(entry);
+    manifestEntries.push({
+      namespace: info.namespace,
+      key: info.key,
+      sha256: sha256(payload),
+      size: Buffer.byteLength(payload),
+      createdAt: entry.timestamp,
+      expiresAt: entry.timestamp + entry.ttl,
+      tags: info.tags
+    });
+    entries.push({ namespace: info.namespace, key: info.key, payload });
+  }
+
+  const manifest: CacheArchiveManifest = {
+    createdAt: new Date().toISOString(),
+    filter,
+    entries: manifestEntries
+  };
+  const archive = {
+    format: ARCHIVE_FORMAT,
+    version: 1,
+    manifest,
+    manifestSha256: sha256(JSON.stringify(manifest)),
+    entries
+  };
+
+  const content = await gzip(Buffer.from(JSON.stringify(archive), 'utf8'));
+  await fs.writeFile(file, content);
+  return { entries: entries.length, bytes: content.length };
+}
+
+/**
+ * アーカイブを読み込み、マニフェストと各エントリのハッシュを検証
+ * 検証に失敗した場合は何も取り込まずにエラーを投げます
+ */
+export async function readCacheArchive(file: string): Promise<{ manifest: CacheArchiveManifest; entries: Array<{ namespace: string; entry: CacheEntry }> }> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse((await gunzip(await fs.readFile(file))).toString('utf8'));
+  } catch (error) {
+    throw new Error(`キャッシュアーカイブを読み込めません: ${file} (${error instanceof Error ? error.message : String(error)})`);
+  }
+
+  const parsed = CacheArchiveSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`キャッシュアーカイブの形式が不正です: ${parsed.error.issues.map(issue => issue.message).join(', ')}`);
+  }
+
+  // 検証はスキーマの既定値などで正規化する前の、書き出されたままのマニフェストに対して行う
+  const archive = parsed.data;
+  if (sha256(JSON.stringify((raw as { manifest: unknown }).manifest)) !== archive.manifestSha256) {
+    throw new Error('キャッシュアーカイブの検証に失敗しました: マニフェストのハッシュが一致しません');
+  }
+
+  const payloads = new Map(archive.entries.map(item => [`${item.namespace}/${item.key}`, item.payload]));
+  if (payloads.size !== archive.manifest.entries.length) {
+    throw new Error('キャッシュアーカイブの検証に失敗しました: マニフェストとエントリの数が一致しません');
+  }
+
+  const entries = archive.manifest.entries.map(item => {
+    CacheManager.validateNamespace(item.namespace);
+    CacheManager.validateKey(item.key);
+    const id = `${item.namespace}/${item.key}`;
+    const payload = payloads.get(id);
+    if (payload === undefined || sha256(payload) !== item.sha256) {
+      throw new Error(`キャッシュアーカイブの検証に失敗しました: ${id} のハッシュが一致しません`);
+    }
+    const entry = CacheEntrySchema.parse(JSON.parse(payload));
+    if (entry.key !== item.key) {
+      throw new Error(`キャッシュアーカイブの検証に失敗しました: ${id} のキーが一致しません`);
+    }
+    return { namespace: item.namespace, entry: entry as CacheEntry };
+  });
+
+  return { manifest: archive.manifest, entries };
+}
+
+/**
+ * 検証済みのアーカイブをキャッシュに取り込み
+ * 期限切れのエントリは取り込まず、内容の異なる既存エントリは overwrite を指定しない限り残します
+ */
+export async function importCacheArchive(
+  cacheManager: CacheManager,
+  file: string,
+  options: { overwrite?: boolean } = {}
+): Promise<CacheImportReport> {
+  const { entries } = await readCacheArchive(file);
+  const report: CacheImportReport = { imported: 0, unchanged: 0, skippedExpired: 0, conflicts: [] };
+  const now = Date.now();
+
+  for (const { namespace, entry } of entries) {
+    if (now > entry.timestamp + entry.ttl) {
+      report.skippedExpired++;
+      continue;
+    }
+
+    const existing = await cacheManager.readEntry(namespace, entry.key);
+    if (existing) {
+      if (JSON.stringify(existing.data) === JSON.stringify(entry.data)) {
+        report.unchanged++;
+        continue;
+      }
+      report.conflicts.push({ namespace, key: entry.key, resolution: options.overwrite ? 'overwritten' : 'kept' });
+      if (!options.overwrite) continue;
+    }
+
+    await cacheManager.writeEntry(namespace, entry);
+    report.imported++;
+  }
+
+  return report;
+}
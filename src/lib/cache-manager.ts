@@ -1,7 +1,16 @@
 import fs from 'fs/promises';
 import path from 'path';
 import crypto from 'crypto';
+import zlib from 'zlib';
+import { promisify } from 'util';
 import chalk from 'chalk';
+import { v4 as uuidv4 } from 'uuid';
+import { z } from 'zod';
+
+const gzip = promisify(zlib.gzip);
+const gunzip = promisify(zlib.gunzip);
+const brotliCompress = promisify(zlib.brotliCompress);
+const brotliDecompress = promisify(zlib.brotliDecompress);
 
 /**
  * キャッシュエントリの型定義
@@ -14,20 +23,124 @@ export interface CacheEntry<T = any> {
   metadata?: Record<string, any>;
 }
 
+export type CacheCompression = 'gzip' | 'brotli' | 'none';
+
+/**
+ * 設定ファイルの圧縮方式（旧形式の true / false はそれぞれ gzip / none として扱う）
+ */
+export const CacheCompressionSchema = z.preprocess(
+  value => typeof value === 'boolean' ? (value ? 'gzip' : 'none') : value,
+  z.enum(['gzip', 'brotli', 'none'])
+);
+
+// 用途ごとの名前空間（llm: LLMレスポンス, assets: 素材, plans: 計画）
+export const CACHE_NAMESPACES = ['llm', 'assets', 'plans'] as const;
+export type KnownCacheNamespace = typeof CACHE_NAMESPACES[number];
+
+export const DEFAULT_CACHE_NAMESPACE = 'default';
+
+const NAMESPACE_PATTERN = /^[a-z0-9][a-z0-9_-]*$/i;
+// キーはファイル名として使用する
+const KEY_PATTERN = /^[a-z0-9][a-z0-9._-]*$/i;
+
+const COMPRESSION_EXTENSIONS: Record<CacheCompression, string> = {
+  gzip: '.json.gz',
+  brotli: '.json.br',
+  none: '.json'
+};
+
+export interface CacheManagerOptions {
+  namespace?: string; // set/get/delete の対象となる名前空間
+  compression?: CacheCompression;
+}
+
+export interface CacheEntryFilter {
+  namespace?: string;
+  maxAgeMs?: number; // 作成からの経過時間がこれ以下のエントリのみ
+  tag?: string; // metadata.tags に含まれるタグ
+}
+
+export interface CacheEntryInfo {
+  namespace: string;
+  key: string;
+  size: number;
+  createdAt: number;
+  lastAccess: number;
+  expiresAt: number;
+  tags: string[];
+}
+
+export interface CacheStats {
+  totalFiles: number;
+  totalSize: number;
+  oldestEntry: number;
+  newestEntry: number;
+  namespaces: Record<string, { files: number; size: number }>;
+}
+
+/**
+ * アクセス時刻インデックスのエントリ
+ * サイズと有効期限を保持することで、エントリ本体を展開せずにLRU退避・統計・期限切れ判定を行います
+ */
+interface CacheIndexEntry {
+  namespace: string;
+  key: string;
+  file: string; // cacheDir からの相対パス
+  size: number; // 圧縮後のバイト数
+  createdAt: number;
+  lastAccess: number;
+  expiresAt: number;
+  tags?: string[]; // metadata.tags の写し（エクスポート時の絞り込み用）
+}
+
+interface CacheIndex {
+  version: 1;
+  entries: Record<string, CacheIndexEntry>; // `${namespace}/${key}` → エントリ
+}
+
+const INDEX_FILE = 'index.json';
+
+// 同じキャッシュディレクトリのインデックス更新を直列化するキュー
+const indexQueues = new Map<string, Promise<void>>();
+
 /**
  * キャッシュマネージャー
- * 中間結果を永続化し、パフォーマンスを向上させます
+ * 中間結果を名前空間ごとに圧縮して永続化し、アクセス時刻に基づくLRUで容量上限を維持します
  */
 export class CacheManager {
   private cacheDir: string;
-  private maxSize: number; // 最大キャッシュサイズ（MB）
+  private maxSize: number; // 最大キャッシュサイズ（bytes）
   private cleanupInterval: number; // クリーンアップ間隔（ms）
   private cleanupStarted: boolean = false;
+  private namespace: string;
+  private compression: CacheCompression;
 
-  constructor(cacheDir: string = '.motiva/cache', maxSize: number = 100) {
+  constructor(cacheDir: string = '.motiva/cache', maxSize: number = 100, options: CacheManagerOptions = {}) {
     this.cacheDir = cacheDir;
     this.maxSize = maxSize * 1024 * 1024; // MB to bytes
     this.cleanupInterval = 24 * 60 * 60 * 1000; // 24時間
+    this.namespace = CacheManager.validateNamespace(options.namespace ?? DEFAULT_CACHE_NAMESPACE);
+    this.compression = options.compression ?? 'gzip';
+  }
+
+  /**
+   * 名前空間名を検証（ディレクトリ名として使用するため英数字・ハイフン・アンダースコアのみ）
+   */
+  static validateNamespace(namespace: string): string {
+    if (!NAMESPACE_PATTERN.test(namespace)) {
+      throw new Error(`不正なキャッシュ名前空間です: ${namespace}`);
+    }
+    return namespace;
+  }
+
+  /**
+   * キャッシュキーを検証（ファイル名として使用するため）
+   */
+  static validateKey(key: string): string {
+    if (!KEY_PATTERN.test(key)) {
+      throw new Error(`不正なキャッシュキーです: ${key}`);
+    }
+    return key;
   }
 
   /**
@@ -39,22 +152,15 @@ export class CacheManager {
     return `${prefix}${hash.digest('hex')}`;
   }
 
-  /**
-   * キャッシュファイルのパスを取得
-   */
-  private getCacheFilePath(key: string): string {
-    return path.join(this.cacheDir, `${key}.json`);
+  private indexId(key: string, namespace: string = this.namespace): string {
+    return `${namespace}/${key}`;
   }
 
   /**
-   * キャッシュディレクトリを初期化
+   * キャッシュファイルの相対パスを取得
    */
-  private async ensureCacheDir(): Promise<void> {
-    try {
-      await fs.access(this.cacheDir);
-    } catch {
-      await fs.mkdir(this.cacheDir, { recursive: true });
-    }
+  private getCacheFile(key: string, namespace: string = this.namespace): string {
+    return path.join(namespace, `${key}${COMPRESSION_EXTENSIONS[this.compression]}`);
   }
 
   /**
@@ -66,66 +172,172 @@ export class CacheManager {
     ttl: number = 24 * 60 * 60 * 1000, // デフォルト24時間
     metadata?: Record<string, any>
   ): Promise<void> {
-    await this.ensureCacheDir();
-    
     // 初回使用時にクリーンアップを開始
     this.startCleanup();
 
-    const entry: CacheEntry<T> = {
+    await this.store(this.namespace, {
       key,
       data,
       timestamp: Date.now(),
       ttl,
       metadata
-    };
+    });
+  }
+
+  /**
+   * エントリを書き込み、インデックスを更新した上で容量上限を適用
+   */
+  private async store(namespace: string, entry: CacheEntry): Promise<void> {
+    const content = await this.encode(JSON.stringify(entry));
+    const file = this.getCacheFile(entry.key, namespace);
+    const id = this.indexId(entry.key, namespace);
+    const tags = Array.isArray(entry.metadata?.tags) ? entry.metadata.tags.map(String) : [];
+
+    await this.withIndexLock(async index => {
+      const filePath = path.join(this.cacheDir, file);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      // 書き込み途中のファイルを読まないよう一時ファイル経由で置き換える
+      const tempPath = `${filePath}.${uuidv4()}.tmp`;
+      await fs.writeFile(tempPath, content);
+      await fs.rename(tempPath, filePath);
 
-    const filePath = this.getCacheFilePath(key);
-    await fs.writeFile(filePath, JSON.stringify(entry, null, 2));
+      // 圧縮設定が変わった場合は旧形式のファイルを削除
+      const previous = index.entries[id];
+      if (previous && previous.file !== file) {
+        await this.removeFile(previous.file);
+      }
+
+      index.entries[id] = {
+        namespace,
+        key: entry.key,
+        file,
+        size: content.length,
+        createdAt: entry.timestamp,
+        lastAccess: Date.now(),
+        expiresAt: entry.timestamp + entry.ttl,
+        tags
+      };
+      await this.evictLeastRecentlyUsed(index);
+    });
   }
 
   /**
-   * キャッシュからデータを取得
+   * キャッシュからデータを取得（ヒットした場合はアクセス時刻を更新）
    */
   async get<T>(key: string): Promise<T | null> {
-    try {
-      const filePath = this.getCacheFilePath(key);
-      const content = await fs.readFile(filePath, 'utf8');
-      const entry: CacheEntry<T> = JSON.parse(content);
+    return this.withIndexLock(async index => {
+      const id = this.indexId(key);
+      const indexEntry = index.entries[id];
+      if (!indexEntry) {
+        return null;
+      }
 
       // TTLチェック
       const now = Date.now();
-      if (now - entry.timestamp > entry.ttl) {
-        await this.delete(key);
+      if (now > indexEntry.expiresAt) {
+        delete index.entries[id];
+        await this.removeFile(indexEntry.file);
         return null;
       }
 
-      return entry.data;
-    } catch {
-      return null;
-    }
+      try {
+        const content = await fs.readFile(path.join(this.cacheDir, indexEntry.file));
+        const entry: CacheEntry<T> = JSON.parse(await this.decode(content, indexEntry.file));
+        indexEntry.lastAccess = now;
+        return entry.data;
+      } catch {
+        // 破損・欠損したエントリは破棄
+        delete index.entries[id];
+        await this.removeFile(indexEntry.file);
+        return null;
+      }
+    });
+  }
+
+  /**
+   * 条件に合う有効なエントリの一覧を取得
+   */
+  async listEntries(filter: CacheEntryFilter = {}): Promise<CacheEntryInfo[]> {
+    return this.withIndexLock(async index => {
+      await this.removeExpired(index);
+      const now = Date.now();
+      return Object.values(index.entries)
+        .filter(entry => !filter.namespace || entry.namespace === filter.namespace)
+        .filter(entry => filter.maxAgeMs === undefined || now - entry.createdAt <= filter.maxAgeMs)
+        .filter(entry => !filter.tag || (entry.tags ?? []).includes(filter.tag))
+        .map(({ file, tags, ...info }) => ({ ...info, tags: tags ?? [] }));
+    });
+  }
+
+  /**
+   * 名前空間とキーを指定してエントリ本体を読み込み（アクセス時刻は更新しない）
+   */
+  async readEntry(namespace: string, key: string): Promise<CacheEntry | null> {
+    return this.withIndexLock(async index => {
+      const indexEntry = index.entries[this.indexId(key, namespace)];
+      if (!indexEntry || Date.now() > indexEntry.expiresAt) {
+        return null;
+      }
+      try {
+        const content = await fs.readFile(path.join(this.cacheDir, indexEntry.file));
+        return JSON.parse(await this.decode(content, indexEntry.file));
+      } catch {
+        return null;
+      }
+    });
+  }
+
+  /**
+   * 作成時刻と有効期限を保ったままエントリを書き込み（インポート用）
+   */
+  async writeEntry(namespace: string, entry: CacheEntry): Promise<void> {
+    CacheManager.validateKey(entry.key);
+    await this.store(CacheManager.validateNamespace(namespace), entry);
   }
 
   /**
    * キャッシュからデータを削除
    */
   async delete(key: string): Promise<void> {
-    try {
-      const filePath = this.getCacheFilePath(key);
-      await fs.unlink(filePath);
-    } catch {
-      // ファイルが存在しない場合は無視
-    }
+    await this.withIndexLock(async index => {
+      const id = this.indexId(key);
+      const indexEntry = index.entries[id];
+      if (indexEntry) {
+        delete index.entries[id];
+        await this.removeFile(indexEntry.file);
+      }
+    });
   }
 
   /**
    * キャッシュをクリア
+   * 名前空間を指定した場合はその名前空間のみを削除します
    */
-  async clear(): Promise<void> {
+  async clear(namespace?: string): Promise<void> {
     try {
-      const files = await fs.readdir(this.cacheDir);
-      await Promise.all(
-        files.map(file => fs.unlink(path.join(this.cacheDir, file)))
-      );
+      if (namespace) {
+        CacheManager.validateNamespace(namespace);
+        await this.withIndexLock(async index => {
+          for (const [id, entry] of Object.entries(index.entries)) {
+            if (entry.namespace === namespace) {
+              delete index.entries[id];
+            }
+          }
+          await fs.rm(path.join(this.cacheDir, namespace), { recursive: true, force: true });
+        });
+        console.log(chalk.blue(`🗑️  キャッシュをクリアしました (${namespace})`));
+        return;
+      }
+
+      await this.withIndexLock(async index => {
+        index.entries = {};
+        const files = await fs.readdir(this.cacheDir).catch(() => []);
+        await Promise.all(
+          files
+            .filter(file => file !== INDEX_FILE)
+            .map(file => fs.rm(path.join(this.cacheDir, file), { recursive: true, force: true }))
+        );
+      });
       console.log(chalk.blue('🗑️  キャッシュをクリアしました'));
     } catch (error) {
       console.log(chalk.yellow('⚠️  キャッシュクリアに失敗しました'));
@@ -134,118 +346,62 @@ export class CacheManager {
 
   /**
    * キャッシュの統計情報を取得
+   * 名前空間を指定した場合はその名前空間のみを集計します
    */
-  async getStats(): Promise<{
-    totalFiles: number;
-    totalSize: number;
-    oldestEntry: number;
-    newestEntry: number;
-  }> {
+  async getStats(namespace?: string): Promise<CacheStats> {
+    // 初回使用時にクリーンアップを開始
+    this.startCleanup();
+
     try {
-      // キャッシュディレクトリが存在するかチェック
-      await this.ensureCacheDir();
-      
-      // 初回使用時にクリーンアップを開始
-      this.startCleanup();
-      
-      const files = await fs.readdir(this.cacheDir);
-      const jsonFiles = files.filter(file => file.endsWith('.json'));
-      
-      if (jsonFiles.length === 0) {
-        // キャッシュファイルが存在しない場合
-        return {
-          totalFiles: 0,
-          totalSize: 0,
-          oldestEntry: Date.now(),
-          newestEntry: Date.now() // 現在時刻を設定
-        };
-      }
+      return await this.withIndexLock(async index => {
+        await this.removeExpired(index);
 
-      let totalSize = 0;
-      let oldestEntry = Date.now();
-      let newestEntry = 0;
-      let validEntries = 0;
-
-      for (const file of jsonFiles) {
-        const filePath = path.join(this.cacheDir, file);
-        const stats = await fs.stat(filePath);
-        totalSize += stats.size;
-
-        try {
-          const content = await fs.readFile(filePath, 'utf8');
-          const entry: CacheEntry = JSON.parse(content);
-          
-          // TTLチェック
-          const now = Date.now();
-          if (now - entry.timestamp <= entry.ttl) {
-            oldestEntry = Math.min(oldestEntry, entry.timestamp);
-            newestEntry = Math.max(newestEntry, entry.timestamp);
-            validEntries++;
-          } else {
-            // 期限切れのファイルを削除
-            await fs.unlink(filePath);
-          }
-        } catch {
-          // 破損したファイルを削除
-          await fs.unlink(filePath);
+        const entries = Object.values(index.entries)
+          .filter(entry => !namespace || entry.namespace === namespace);
+        const namespaces: CacheStats['namespaces'] = {};
+        for (const entry of entries) {
+          const summary = namespaces[entry.namespace] ?? { files: 0, size: 0 };
+          summary.files++;
+          summary.size += entry.size;
+          namespaces[entry.namespace] = summary;
+        }
+
+        if (entries.length === 0) {
+          // 有効なエントリがない場合
+          return { totalFiles: 0, totalSize: 0, oldestEntry: Date.now(), newestEntry: Date.now(), namespaces };
         }
-      }
 
-      // 有効なエントリがない場合
-      if (validEntries === 0) {
         return {
-          totalFiles: 0,
-          totalSize: 0,
-          oldestEntry: Date.now(),
-          newestEntry: Date.now()
+          totalFiles: entries.length,
+          totalSize: entries.reduce((sum, entry) => sum + entry.size, 0),
+          oldestEntry: Math.min(...entries.map(entry => entry.createdAt)),
+          newestEntry: Math.max(...entries.map(entry => entry.createdAt)),
+          namespaces
         };
-      }
-
-      return {
-        totalFiles: validEntries,
-        totalSize,
-        oldestEntry,
-        newestEntry
-      };
+      });
     } catch (error) {
       // エラーが発生した場合
-      return {
-        totalFiles: 0,
-        totalSize: 0,
-        oldestEntry: Date.now(),
-        newestEntry: Date.now()
-      };
+      return { totalFiles: 0, totalSize: 0, oldestEntry: Date.now(), newestEntry: Date.now(), namespaces: {} };
     }
   }
 
   /**
-   * 期限切れのキャッシュを削除
+   * 期限切れのキャッシュと、インデックスに無いファイル（旧形式のキャッシュなど）を削除
    */
-  private async cleanup(): Promise<void> {
+  async cleanup(): Promise<void> {
     try {
-      const files = await fs.readdir(this.cacheDir);
-      const now = Date.now();
-      let deletedCount = 0;
-
-      for (const file of files) {
-        if (file.endsWith('.json')) {
-          const filePath = path.join(this.cacheDir, file);
-          
-          try {
-            const content = await fs.readFile(filePath, 'utf8');
-            const entry: CacheEntry = JSON.parse(content);
-
-            if (now - entry.timestamp > entry.ttl) {
-              await fs.unlink(filePath);
-              deletedCount++;
-            }
-          } catch {
-            // 破損したファイルは削除
-            await fs.unlink(filePath);
-            deletedCount++;
+      const deletedCount = await this.withIndexLock(async index => {
+        let deleted = await this.removeExpired(index);
+
+        const known = new Set(Object.values(index.entries).map(entry => entry.file));
+        for (const file of await this.listFiles()) {
+          if (!known.has(file)) {
+            await this.removeFile(file);
+            deleted++;
           }
         }
-      }
+        return deleted;
+      });
 
       if (deletedCount > 0) {
         console.log(chalk.gray(`🧹 キャッシュクリーンアップ: ${deletedCount}個のファイルを削除`));
@@ -262,55 +418,151 @@ export class CacheManager {
     if (this.cleanupStarted) {
       return; // 既に開始済み
     }
-    
+
     this.cleanupStarted = true;
-    
-    // 一度だけクリーンアップを実行
+
+    // 一度だけクリーンアップを実行（タイマーでプロセスの終了を妨げない）
     setTimeout(() => {
       this.cleanup();
-    }, 5000); // 5秒後に初回クリーンアップ
-    
+    }, 5000).unref(); // 5秒後に初回クリーンアップ
+
     // その後、定期的にクリーンアップを実行
     setInterval(() => {
       this.cleanup();
-    }, this.cleanupInterval);
+    }, this.cleanupInterval).unref();
   }
 
   /**
    * キャッシュサイズを制限内に保つ
    */
   async enforceSizeLimit(): Promise<void> {
-    const stats = await this.getStats();
-    
-    if (stats.totalSize > this.maxSize) {
-      console.log(chalk.yellow(`⚠️  キャッシュサイズが上限を超過: ${(stats.totalSize / 1024 / 1024).toFixed(2)}MB`));
-      
-      // 古いファイルから削除
-      const files = await fs.readdir(this.cacheDir);
-      const fileInfos = [];
-
-      for (const file of files) {
-        if (file.endsWith('.json')) {
-          const filePath = path.join(this.cacheDir, file);
-          const stats = await fs.stat(filePath);
-          fileInfos.push({ file, path: filePath, mtime: stats.mtime });
-        }
+    await this.withIndexLock(index => this.evictLeastRecentlyUsed(index));
+  }
+
+  /**
+   * 合計サイズが上限を超えている間、最後のアクセスが最も古いエントリから削除
+   */
+  private async evictLeastRecentlyUsed(index: CacheIndex): Promise<void> {
+    let totalSize = Object.values(index.entries).reduce((sum, entry) => sum + entry.size, 0);
+    if (totalSize <= this.maxSize) {
+      return;
+    }
+
+    console.log(chalk.yellow(`⚠️  キャッシュサイズが上限を超過: ${(totalSize / 1024 / 1024).toFixed(2)}MB`));
+
+    const byLastAccess = Object.entries(index.entries)
+      .sort(([, a], [, b]) => a.lastAccess - b.lastAccess);
+    for (const [id, entry] of byLastAccess) {
+      if (totalSize <= this.maxSize) {
+        break;
       }
+      delete index.entries[id];
+      await this.removeFile(entry.file);
+      totalSize -= entry.size;
+    }
 
-      // 古い順にソート
-      fileInfos.sort((a, b) => a.mtime.getTime() - b.mtime.getTime());
+    console.log(chalk.blue('✅ キャッシュサイズを制限内に調整しました'));
+  }
+
+  private async removeExpired(index: CacheIndex): Promise<number> {
+    const now = Date.now();
+    let deleted = 0;
+    for (const [id, entry] of Object.entries(index.entries)) {
+      if (now > entry.expiresAt) {
+        delete index.entries[id];
+        await this.removeFile(entry.file);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  /**
+   * キャッシュディレクトリ配下のファイルを相対パスで列挙
+   * readdir の recursive・Dirent.parentPath は Node 20.0 で使えないため、ディレクトリを順にたどる
+   */
+  private async listFiles(dir: string = this.cacheDir): Promise<string[]> {
+    const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => []);
+    const files: string[] = [];
 
-      // 古いファイルから削除
-      for (const fileInfo of fileInfos) {
-        await fs.unlink(fileInfo.path);
-        const newStats = await this.getStats();
-        
-        if (newStats.totalSize <= this.maxSize) {
-          break;
+    for (const entry of entries) {
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        files.push(...await this.listFiles(entryPath));
+      } else if (entry.isFile()) {
+        const file = path.relative(this.cacheDir, entryPath);
+        if (file !== INDEX_FILE && !file.endsWith('.tmp')) {
+          files.push(file);
         }
       }
+    }
+    return files;
+  }
+
+  private async removeFile(file: string): Promise<void> {
+    try {
+      await fs.unlink(path.join(this.cacheDir, file));
+    } catch {
+      // ファイルが存在しない場合は無視
+    }
+  }
+
+  private async encode(json: string): Promise<Buffer> {
+    const buffer = Buffer.from(json, 'utf8');
+    switch (this.compression) {
+      case 'gzip':
+        return gzip(buffer);
+      case 'brotli':
+        return brotliCompress(buffer);
+      default:
+        return buffer;
+    }
+  }
+
+  /**
+   * 拡張子から圧縮形式を判定して展開（設定変更前に保存されたエントリも読めるように）
+   */
+  private async decode(content: Buffer, file: string): Promise<string> {
+    if (file.endsWith('.gz')) {
+      return (await gunzip(content)).toString('utf8');
+    }
+    if (file.endsWith('.br')) {
+      return (await brotliDecompress(content)).toString('utf8');
+    }
+    return content.toString('utf8');
+  }
+
+  /**
+   * 同じキャッシュディレクトリに対するインデックスの読み込み→更新→保存を直列化
+   */
+  private async withIndexLock<T>(operation: (index: CacheIndex) => Promise<T>): Promise<T> {
+    const indexPath = path.join(this.cacheDir, INDEX_FILE);
+    const previous = indexQueues.get(indexPath) ?? Promise.resolve();
+    const next = previous.then(async () => {
+      const index = await this.readIndex(indexPath);
+      const before = JSON.stringify(index);
+      const result = await operation(index);
+      if (JSON.stringify(index) !== before) {
+        await fs.mkdir(this.cacheDir, { recursive: true });
+        const tempPath = `${indexPath}.${uuidv4()}.tmp`;
+        await fs.writeFile(tempPath, JSON.stringify(index), 'utf8');
+        await fs.rename(tempPath, indexPath);
+      }
+      return result;
+    });
+    indexQueues.set(indexPath, next.then(() => undefined, () => undefined));
+    return next;
+  }
 
-      console.log(chalk.blue('✅ キャッシュサイズを制限内に調整しました'));
+  private async readIndex(indexPath: string): Promise<CacheIndex> {
+    try {
+      const index = JSON.parse(await fs.readFile(indexPath, 'utf8'));
+      if (index?.version === 1 && index.entries) {
+        return index;
+      }
+    } catch {
+      // 未作成・破損の場合は空のインデックスから始める（孤立したファイルはクリーンアップで削除）
     }
+    return { version: 1, entries: {} };
   }
-} 
\ No newline at end of file
+}
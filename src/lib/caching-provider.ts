@@ -0,0 +1,161 @@
+import crypto from 'crypto';
+import { z } from 'zod';
+import chalk from 'chalk';
+import type { LLMProvider, LLMRequest, LLMResponse } from './llm-provider.js';
+import { CacheManager } from './cache-manager.js';
+import { ConfigurationManager } from './config-manager.js';
+
+// テキスト生成のキャッシュに使用するスキーマ名
+const TEXT_SCHEMA_NAME = 'text';
+
+// temperature・maxTokens 未指定時にプロバイダーが使用する値
+const DEFAULT_TEMPERATURE = 0.7;
+const DEFAULT_MAX_TOKENS = 4096;
+
+/**
+ * LLMレスポンスキャッシュの設定
+ */
+export interface LLMCacheSettings {
+  cacheManager: CacheManager;
+  ttlMs: number;
+  maxTemperature: number; // これより高い temperature のリクエストは出力が揺らぐためキャッシュしない
+}
+
+interface CachedResponse {
+  data: unknown;
+  tokensUsed: number; // 生成時の使用量（参考情報）
+  costUSD: number;
+}
+
+/**
+ * 設定ファイル（motiva.config.ts の cache）からキャッシュ設定を取得
+ * キャッシュマネージャーを省略した場合は llm 名前空間のものを作成します。キャッシュが無効の場合は undefined を返します
+ */
+export async function resolveLLMCacheSettings(cacheManager?: CacheManager): Promise<LLMCacheSettings | undefined> {
+  const config = await ConfigurationManager.getInstance().loadConfig();
+  if (!config.cache.enabled) {
+    return undefined;
+  }
+  return {
+    cacheManager: cacheManager ?? new CacheManager(undefined, config.cache.maxSize, {
+      namespace: 'llm',
+      compression: config.cache.compression
+    }),
+    ttlMs: config.cache.ttlHours * 60 * 60 * 1000,
+    maxTemperature: config.cache.maxTemperature
+  };
+}
+
+/**
+ * キャッシュ付きプロバイダー
+ * プロバイダー・モデル・temperature・maxTokens・システムプロンプトのハッシュ・ユーザー入力・スキーマ名をキーとして
+ * 検証済みのレスポンスを保存し、ヒットした場合はコスト0で返します
+ */
+export class CachingLLMProvider implements LLMProvider {
+  constructor(
+    private inner: LLMProvider,
+    private settings: LLMCacheSettings
+  ) {}
+
+  get name(): string {
+    return this.inner.name;
+  }
+
+  /**
+   * リクエストからキャッシュキーを生成
+   */
+  static keyFor(providerName: string, request: LLMRequest, schemaName: string): string {
+    const systemPromptHash = crypto.createHash('sha256').update(request.systemPrompt).digest('hex');
+    const hash = crypto
+      .createHash('sha256')
+      .update(JSON.stringify({
+        provider: providerName,
+        model: request.model,
+        temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+        maxTokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+        systemPromptHash,
+        userInput: request.userInput,
+        schemaName
+      }))
+      .digest('hex');
+    return `llm-${hash}`;
+  }
+
+  async generateJSON<T>(request: LLMRequest, schema: z.ZodSchema<T>): Promise<LLMResponse<T>> {
+    return this.withCache(request, request.schemaName ?? 'response_schema', schema, () => this.inner.generateJSON(request, schema));
+  }
+
+  async generateText(request: LLMRequest): Promise<LLMResponse<string>> {
+    return this.withCache(request, TEXT_SCHEMA_NAME, z.string(), () => this.inner.generateText(request));
+  }
+
+  isAvailable(): boolean {
+    return this.inner.isAvailable();
+  }
+
+  getSupportedModels(): string[] {
+    return this.inner.getSupportedModels();
+  }
+
+  /**
+   * キャッシュ済みのレスポンスを取得（プロバイダーは呼び出さない）
+   * キャッシュ対象外の temperature・未登録・検証できないエントリの場合は undefined を返します
+   */
+  async findCached<T>(request: LLMRequest, schemaName: string, schema: z.ZodSchema<T>): Promise<LLMResponse<T> | undefined> {
+    if ((request.temperature ?? DEFAULT_TEMPERATURE) > this.settings.maxTemperature) {
+      return undefined;
+    }
+
+    const { cacheManager } = this.settings;
+    const key = CachingLLMProvider.keyFor(this.name, request, schemaName);
+    const startTime = Date.now();
+    const cached = await cacheManager.get<CachedResponse>(key);
+
+    if (cached) {
+      const parsed = schema.safeParse(cached.data);
+      if (parsed.success) {
+        console.log(chalk.gray(`💾 キャッシュヒット: ${schemaName} (${this.name}:${request.model})`));
+        return {
+          data: parsed.data,
+          tokensUsed: 0,
+          promptTokens: 0,
+          completionTokens: 0,
+          costUSD: 0,
+          provider: this.name,
+          model: request.model,
+          duration: Date.now() - startTime,
+          cached: true
+        };
+      }
+      // スキーマ変更などで検証できなくなったエントリは破棄
+      await cacheManager.delete(key);
+    }
+    return undefined;
+  }
+
+  private async withCache<T>(
+    request: LLMRequest,
+    schemaName: string,
+    schema: z.ZodSchema<T>,
+    generate: () => Promise<LLMResponse<T>>
+  ): Promise<LLMResponse<T>> {
+    if ((request.temperature ?? DEFAULT_TEMPERATURE) > this.settings.maxTemperature) {
+      return generate();
+    }
+
+    const cached = await this.findCached(request, schemaName, schema);
+    if (cached) {
+      return cached;
+    }
+
+    const { cacheManager, ttlMs } = this.settings;
+    const key = CachingLLMProvider.keyFor(this.name, request, schemaName);
+    const response = await generate();
+    await cacheManager.set<CachedResponse>(key, {
+      data: response.data,
+      tokensUsed: response.tokensUsed,
+      costUSD: response.costUSD
+    }, ttlMs, { schemaName, tags: [schemaName] });
+    return response;
+  }
+}
@@ -0,0 +1,252 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import crypto from 'crypto';
+import { z } from 'zod';
+import chalk from 'chalk';
+import type { LLMProvider, LLMRequest, LLMResponse } from './llm-provider.js';
+
+// テキスト生成の記録に使用するスキーマ名
+const TEXT_SCHEMA_NAME = 'text';
+
+const CassetteEntrySchema = z.object({
+  key: z.string(),
+  provider: z.string(),
+  model: z.string(),
+  schemaName: z.string(),
+  promptHash: z.string(),
+  request: z.object({
+    systemPrompt: z.string(),
+    userInput: z.string(),
+    temperature: z.number().optional(),
+    maxTokens: z.number().optional()
+  }),
+  response: z.object({
+    data: z.any(),
+    tokensUsed: z.number(),
+    promptTokens: z.number().optional(),
+    completionTokens: z.number().optional(),
+    costUSD: z.number(),
+    duration: z.number()
+  }),
+  recordedAt: z.string()
+});
+
+const CassetteFileSchema = z.object({
+  version: z.literal(1),
+  entries: z.record(z.string(), CassetteEntrySchema)
+});
+
+export type CassetteEntry = z.infer<typeof CassetteEntrySchema>;
+
+/**
+ * LLM呼び出しの記録ファイル（カセット）
+ * モデル・プロンプトのハッシュ・スキーマ名をキーとして、検証済みのレスポンスを保存します
+ */
+export class Cassette {
+  private entries: Record<string, CassetteEntry> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string) {}
+
+  get path(): string {
+    return this.filePath;
+  }
+
+  /**
+   * リクエストからカセットのキーを生成
+   */
+  static keyFor(request: LLMRequest, schemaName: string): { key: string; promptHash: string } {
+    const promptHash = crypto
+      .createHash('sha256')
+      .update(JSON.stringify([request.systemPrompt, request.userInput]))
+      .digest('hex');
+    return { key: `${request.model}:${promptHash}:${schemaName}`, promptHash };
+  }
+
+  async get(key: string): Promise<CassetteEntry | undefined> {
+    const entries = await this.load();
+    return entries[key];
+  }
+
+  /**
+   * エントリを追加して保存（同じキーは上書き）
+   */
+  async put(entry: CassetteEntry): Promise<void> {
+    const entries = await this.load();
+    entries[entry.key] = entry;
+
+    const snapshot = JSON.stringify({ version: 1, entries }, null, 2);
+    const next = this.writeQueue.then(async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.tmp`;
+      await fs.writeFile(tempPath, snapshot, 'utf8');
+      await fs.rename(tempPath, this.filePath);
+    });
+    this.writeQueue = next.catch(() => undefined);
+    await next;
+  }
+
+  private async load(): Promise<Record<string, CassetteEntry>> {
+    if (this.entries) {
+      return this.entries;
+    }
+
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, 'utf8');
+    } catch {
+      this.entries = {};
+      return this.entries;
+    }
+
+    try {
+      this.entries = CassetteFileSchema.parse(JSON.parse(content)).entries;
+    } catch (error) {
+      throw new Error(`カセットファイルの形式が不正です: ${this.filePath} (${error instanceof Error ? error.message : error})`);
+    }
+    return this.entries;
+  }
+}
+
+/**
+ * 記録用プロバイダー
+ * 内部プロバイダーへの呼び出しをそのまま行い、検証済みのレスポンスをカセットに保存します
+ */
+export class RecordingLLMProvider implements LLMProvider {
+  name: string;
+
+  constructor(private inner: LLMProvider, private cassette: Cassette) {
+    this.name = inner.name;
+  }
+
+  async generateJSON<T>(request: LLMRequest, schema: z.ZodSchema<T>): Promise<LLMResponse<T>> {
+    const response = await this.inner.generateJSON(request, schema);
+    await this.record(request, request.schemaName ?? 'response_schema', response);
+    return response;
+  }
+
+  async generateText(request: LLMRequest): Promise<LLMResponse<string>> {
+    const response = await this.inner.generateText(request);
+    await this.record(request, TEXT_SCHEMA_NAME, response);
+    return response;
+  }
+
+  isAvailable(): boolean {
+    return this.inner.isAvailable();
+  }
+
+  getSupportedModels(): string[] {
+    return this.inner.getSupportedModels();
+  }
+
+  private async record(request: LLMRequest, schemaName: string, response: LLMResponse<unknown>): Promise<void> {
+    const { key, promptHash } = Cassette.keyFor(request, schemaName);
+    await this.cassette.put({
+      key,
+      provider: response.provider,
+      model: request.model,
+      schemaName,
+      promptHash,
+      request: {
+        systemPrompt: request.systemPrompt,
+        userInput: request.userInput,
+        temperature: request.temperature,
+        maxTokens: request.maxTokens
+      },
+      response: {
+        data: response.data,
+        tokensUsed: response.tokensUsed,
+        promptTokens: response.promptTokens,
+        completionTokens: response.completionTokens,
+        costUSD: response.costUSD,
+        duration: response.duration
+      },
+      recordedAt: new Date().toISOString()
+    });
+    console.log(chalk.gray(`📼 記録: ${schemaName} (${request.model}) → ${this.cassette.path}`));
+  }
+}
+
+/**
+ * 記録・再生の設定が不正な場合に登録するプロバイダー
+ * 設定エラーは起動時ではなく LLM を呼び出した時点で報告します（--help など LLM を使わないコマンドは動作させる）
+ */
+export class MisconfiguredCassetteProvider implements LLMProvider {
+  name: string;
+
+  constructor(private inner: LLMProvider, private error: Error) {
+    this.name = inner.name;
+  }
+
+  async generateJSON<T>(): Promise<LLMResponse<T>> {
+    throw this.error;
+  }
+
+  async generateText(): Promise<LLMResponse<string>> {
+    throw this.error;
+  }
+
+  isAvailable(): boolean {
+    return this.inner.isAvailable();
+  }
+
+  getSupportedModels(): string[] {
+    return this.inner.getSupportedModels();
+  }
+}
+
+/**
+ * 再生用プロバイダー
+ * カセットに記録されたレスポンスをオフラインで返します。記録の無いリクエストはエラーにします
+ */
+export class ReplayLLMProvider implements LLMProvider {
+  constructor(
+    public name: string,
+    private models: string[],
+    private cassette: Cassette
+  ) {}
+
+  async generateJSON<T>(request: LLMRequest, schema: z.ZodSchema<T>): Promise<LLMResponse<T>> {
+    const entry = await this.lookup(request, request.schemaName ?? 'response_schema');
+    return this.toResponse(entry, request, schema.parse(entry.response.data));
+  }
+
+  async generateText(request: LLMRequest): Promise<LLMResponse<string>> {
+    const entry = await this.lookup(request, TEXT_SCHEMA_NAME);
+    return this.toResponse(entry, request, z.string().parse(entry.response.data));
+  }
+
+  isAvailable(): boolean {
+    return true; // 再生時はAPIキー不要
+  }
+
+  getSupportedModels(): string[] {
+    return this.models;
+  }
+
+  private async lookup(request: LLMRequest, schemaName: string): Promise<CassetteEntry> {
+    const { key, promptHash } = Cassette.keyFor(request, schemaName);
+    const entry = await this.cassette.get(key);
+
+    if (!entry) {
+      throw new Error(
+        `カセットに記録がありません: model=${request.model}, schema=${schemaName}, prompt=${promptHash.slice(0, 12)} ` +
+        `(${this.cassette.path})。MOTIVA_LLM_MODE=record で再記録してください`
+      );
+    }
+    return entry;
+  }
+
+  private toResponse<T>(entry: CassetteEntry, request: LLMRequest, data: T): LLMResponse<T> {
+    return {
+      data,
+      tokensUsed: entry.response.tokensUsed,
+      promptTokens: entry.response.promptTokens,
+      completionTokens: entry.response.completionTokens,
+      costUSD: entry.response.costUSD,
+      provider: this.name,
+      model: request.model,
+      duration: 0
+    };
+  }
+}
@@ -2,10 +2,15 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import { z } from 'zod';
 import chalk from 'chalk';
+import { PricingTableSchema, pricingRegistry } from './pricing.js';
+import { CacheCompressionSchema } from './cache-manager.js';
 
 // 設定スキーマ定義
+// "provider:model" 形式の指定、または先頭から順に試行するフォールバックチェーン
+export const ProviderSpecSchema = z.union([z.string().min(1), z.array(z.string().min(1)).min(1)]);
+
 export const AgentConfigSchema = z.object({
-  provider: z.string().default('openai:gpt-4o-mini'),
+  provider: ProviderSpecSchema.default('openai:gpt-4o-mini'),
   maxTokens: z.number().int().positive().default(4096),
   temperature: z.number().min(0).max(2).default(0.7),
   timeout: z.number().int().positive().default(30000)
@@ -43,7 +48,22 @@ export const MotivaConfigSchema = z.object({
   retry: z.object({
     maxAttempts: z.number().int().positive().default(3),
     backoffMs: z.number().int().positive().default(1000)
-  }).default({ maxAttempts: 3, backoffMs: 1000 })
+  }).default({ maxAttempts: 3, backoffMs: 1000 }),
+  // プロバイダー → モデル → 100万トークンあたりのUSD（既定の価格表を上書き）
+  pricing: PricingTableSchema.default({}),
+  // LLMレスポンスキャッシュ（maxTemperature より高い temperature のリクエストはキャッシュしない）
+  cache: z.object({
+    enabled: z.boolean().default(true),
+    ttlHours: z.number().positive().default(24),
+    maxTemperature: z.number().min(0).max(2).default(0.7),
+    maxSize: z.number().positive().default(100), // MB（超過時は最後のアクセスが古いエントリから削除）
+    compression: CacheCompressionSchema.default('gzip')
+  }).default({ enabled: true, ttlHours: 24, maxTemperature: 0.7, maxSize: 100, compression: 'gzip' }),
+  // Critic → Editor の改善ループ（総合スコアが threshold 以上、または maxRounds 回の編集で終了）
+  refinement: z.object({
+    threshold: z.number().min(0).max(100).default(80),
+    maxRounds: z.number().int().positive().default(3)
+  }).default({ threshold: 80, maxRounds: 3 })
 });
 
 export type MotivaConfig = z.infer<typeof MotivaConfigSchema>;
@@ -77,8 +97,7 @@ export class ConfigurationManager {
     const exists = await this.configExists();
     if (!exists) {
       console.log(chalk.yellow('⚠️  設定ファイルが見つかりません。デフォルト設定を使用します。'));
-      this.config = this.getDefaultConfig();
-      return this.config;
+      return this.setConfig(this.getDefaultConfig());
     }
 
     try {
@@ -87,19 +106,27 @@ export class ConfigurationManager {
       const rawConfig = configModule.default || configModule;
 
       // スキーマ検証
-      this.config = MotivaConfigSchema.parse(rawConfig);
+      const config = MotivaConfigSchema.parse(rawConfig);
       
       console.log(chalk.green('✅ 設定ファイルを読み込みました'));
-      return this.config;
+      return this.setConfig(config);
 
     } catch (error) {
       console.error(chalk.red('❌ 設定ファイルの読み込みに失敗:'), error);
       console.log(chalk.yellow('デフォルト設定を使用します。'));
-      this.config = this.getDefaultConfig();
-      return this.config;
+      return this.setConfig(this.getDefaultConfig());
     }
   }
 
+  /**
+   * 読み込んだ設定を保持し、価格の上書きを価格レジストリに反映
+   */
+  private setConfig(config: MotivaConfig): MotivaConfig {
+    this.config = config;
+    pricingRegistry.setOverrides(config.pricing);
+    return config;
+  }
+
   /**
    * 設定ファイルの存在確認
    */
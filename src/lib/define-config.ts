@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { CacheCompressionSchema } from './cache-manager.js';
 
 /**
  * 設定を定義するためのヘルパー関数
@@ -33,9 +34,9 @@ export const OpenAIConfigSchema = z.object({
 export const CacheConfigSchema = z.object({
   enabled: z.boolean().default(true),
   ttl: z.number().positive().default(3600000), // 1時間
-  maxSize: z.number().positive().default(100),
+  maxSize: z.number().positive().default(100), // MB
   cleanupInterval: z.number().positive().default(300000), // 5分
-  compression: z.boolean().default(false)
+  compression: CacheCompressionSchema.default('gzip')
 });
 
 // 並列処理設定スキーマ
@@ -161,7 +162,7 @@ export const DEFAULT_CONFIG: MotivaConfig = {
     ttl: 3600000,
     maxSize: 100,
     cleanupInterval: 300000,
-    compression: false
+    compression: 'gzip'
   },
   parallel: {
     maxConcurrency: 3,
@@ -3,6 +3,19 @@ import * as path from 'path';
 import chalk from 'chalk';
 import inquirer from 'inquirer';
 import { z } from 'zod';
+import { v4 as uuidv4 } from 'uuid';
+import { BudgetLedger, LedgerEntry, AgentUsageSummary } from './budget-ledger.js';
+import { getPeriodStart, getNextPeriodStart, MAX_ROLLOVER_DAY } from './budget-period.js';
+
+// 締め済みの請求期間の集計
+const BudgetPeriodSummarySchema = z.object({
+  start: z.string(),
+  end: z.string(),
+  tier: z.string(),
+  tokens: z.number(),
+  costUSD: z.number(),
+  wallTimeSec: z.number()
+});
 
 // 二軸予算スキーマ
 const DualBudgetSchema = z.object({
@@ -25,10 +38,45 @@ const DualBudgetSchema = z.object({
   limits: z.object({
     maxConcurrency: z.number().default(3), // 並列処理制限
     maxWallTimePerRequest: z.number().default(300) // リクエストあたり最大秒数
-  })
+  }),
+  period: z.object({
+    rolloverDay: z.number().int().min(1).max(MAX_ROLLOVER_DAY).default(1), // 毎月の締め日（この日の0:00に使用量をリセット）
+    start: z.string().optional() // 現在の請求期間の開始日時
+  }).default({ rolloverDay: 1 }),
+  history: z.array(BudgetPeriodSummarySchema).default([]) // 過去の請求期間
 });
 
 export type DualBudget = z.infer<typeof DualBudgetSchema>;
+export type BudgetPeriodSummary = z.infer<typeof BudgetPeriodSummarySchema>;
+
+/**
+ * 確定する使用量と、台帳に記録する実行情報
+ */
+export interface UsageRecord {
+  tokens: number;
+  promptTokens?: number;
+  completionTokens?: number;
+  cost: number;
+  wallTime: number;
+  agent?: string;
+  model?: string;
+  provider?: string;
+  pipeline?: string;
+  executionId?: string;
+  cached?: boolean; // キャッシュヒット（トークン・コストは0）
+}
+
+/**
+ * 現在の請求期間の使用状況
+ */
+export interface BudgetPeriodReport {
+  tier: string;
+  limits: { monthly: number; tokens: number; wallTimeSec: number };
+  period: { start: string; end: string; rolloverDay: number };
+  usage: { tokens: number; costUSD: number; wallTimeSec: number };
+  byAgent: AgentUsageSummary[];
+  history: BudgetPeriodSummary[];
+}
 
 export interface CostEstimate {
   tokens: number;
@@ -47,6 +95,32 @@ export interface BudgetCheckResult {
   };
 }
 
+/**
+ * 予算の予約（見積もり分を確保し、実使用量で確定するか解放する）
+ */
+export interface BudgetReservation {
+  id: string;
+  label?: string;
+  tokens: number;
+  cost: number;
+  wallTime: number;
+  createdAt: number;
+}
+
+/**
+ * 予算超過により予約が拒否された場合のエラー
+ */
+export class BudgetExceededError extends Error {
+  constructor(message: string, public readonly check: BudgetCheckResult) {
+    super(message);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+// 同じ予算ファイルを参照するインスタンス間で未確定の予約と書き込み順序を共有
+const pendingReservations = new Map<string, Map<string, BudgetReservation>>();
+const budgetWriteQueues = new Map<string, Promise<void>>();
+
 /**
  * 二軸コスト管理システム
  * トークン数と壁時計秒の両方を管理し、並列処理時の課金爆発を防止
@@ -56,9 +130,24 @@ export class DualBudgetManager {
   private budget: DualBudget | null = null;
   private sessionStartTime: number = Date.now();
   private activeRequests: Set<string> = new Set();
+  private reservations: Map<string, BudgetReservation>;
+  private ledger: BudgetLedger;
 
   constructor(workspacePath: string = process.cwd()) {
     this.budgetPath = path.join(workspacePath, '.motiva', 'dual-budget.json');
+    this.ledger = new BudgetLedger(path.dirname(this.budgetPath));
+
+    if (!pendingReservations.has(this.budgetPath)) {
+      pendingReservations.set(this.budgetPath, new Map());
+    }
+    this.reservations = pendingReservations.get(this.budgetPath)!;
+  }
+
+  /**
+   * 予算ファイルが作成済みかどうか
+   */
+  async isConfigured(): Promise<boolean> {
+    return this.pathExists(this.budgetPath);
   }
 
   async ensureBudgetExists(): Promise<void> {
@@ -91,7 +180,10 @@ export class DualBudgetManager {
   }
 
   private async writeJson(filePath: string, data: any): Promise<void> {
-    await fs.writeFile(filePath, JSON.stringify(data, null, 2), 'utf8');
+    // 書き込み途中のファイルを読まないよう一時ファイル経由で置き換える
+    const tempPath = `${filePath}.${uuidv4()}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(data, null, 2), 'utf8');
+    await fs.rename(tempPath, filePath);
   }
 
   private async readJson(filePath: string): Promise<any> {
@@ -142,7 +234,12 @@ export class DualBudgetManager {
       limits: { 
         maxConcurrency: answers.maxConcurrency,
         maxWallTimePerRequest: 300 // 5分
-      }
+      },
+      period: {
+        rolloverDay: 1,
+        start: getPeriodStart(new Date(), 1).toISOString()
+      },
+      history: []
     };
 
     await this.ensureDir(path.dirname(this.budgetPath));
@@ -158,8 +255,15 @@ export class DualBudgetManager {
       this.budget = DualBudgetSchema.parse(budgetData);
       
       // セッション開始時刻を更新
-      if (!this.budget.usage.startTime) {
+      let changed = false;
+      if (this.budget.usage.startTime === undefined) {
         this.budget.usage.startTime = this.sessionStartTime;
+        changed = true;
+      }
+      if (this.applyPeriodRollover(new Date())) {
+        changed = true;
+      }
+      if (changed) {
         await this.saveBudget();
       }
     } catch (error) {
@@ -186,95 +290,271 @@ export class DualBudgetManager {
       };
     }
 
-    const currentTier = this.budget.tiers[this.budget.current];
-    if (!currentTier) {
-      throw new Error(`不明な予算層: ${this.budget.current}`);
-    }
-
-    // 現在の使用量を計算
-    const currentWallTime = this.calculateCurrentWallTime();
-    const newTokenUsage = this.budget.usage.tokens + estimate.tokens;
-    const newCostUsage = this.budget.usage.costUSD + estimate.estimatedCost;
-    const newWallTimeUsage = currentWallTime + estimate.estimatedWallTime;
-
-    // 使用率を計算
-    const tokenUsageRate = newTokenUsage / currentTier.tokens;
-    const costUsageRate = newCostUsage / currentTier.monthly;
-    const wallTimeUsageRate = newWallTimeUsage / currentTier.wallTimeSec;
-    const maxUsageRate = Math.max(tokenUsageRate, costUsageRate, wallTimeUsageRate);
-
     // 並列処理制限チェック
     if (this.activeRequests.size >= this.budget.limits.maxConcurrency) {
       return {
         allowed: false,
         reason: `並列処理制限に達しました (${this.activeRequests.size}/${this.budget.limits.maxConcurrency})`,
-        usageRates: { tokens: tokenUsageRate, cost: costUsageRate, wallTime: wallTimeUsageRate, maxRate: maxUsageRate }
+        usageRates: this.calculateUsageRates(estimate)
       };
     }
 
+    const result = this.evaluateEstimate(estimate);
+
+    // リクエストを記録
+    if (result.allowed && requestId) {
+      this.activeRequests.add(requestId);
+    }
+
+    return result;
+  }
+
+  /**
+   * 複数リクエストの見積もりが現在の予算層に収まるかを判定（予約・記録は行わない）
+   */
+  async checkPlannedUsage(estimates: CostEstimate[]): Promise<BudgetCheckResult> {
+    return this.withBudgetLock(async () => {
+      await this.loadBudget();
+
+      const total = estimates.reduce<CostEstimate>((sum, estimate) => ({
+        tokens: sum.tokens + estimate.tokens,
+        estimatedCost: sum.estimatedCost + estimate.estimatedCost,
+        estimatedWallTime: sum.estimatedWallTime + estimate.estimatedWallTime
+      }), { tokens: 0, estimatedCost: 0, estimatedWallTime: 0 });
+      const usageRates = this.calculateUsageRates(total);
+
+      const maxWallTimePerRequest = this.budget!.limits.maxWallTimePerRequest;
+      const tooLong = estimates.find(estimate => estimate.estimatedWallTime > maxWallTimePerRequest);
+      if (tooLong) {
+        return {
+          allowed: false,
+          reason: `リクエストあたりの壁時計制限を超過: ${tooLong.estimatedWallTime}s > ${maxWallTimePerRequest}s`,
+          usageRates
+        };
+      }
+
+      if (usageRates.maxRate >= this.budget!.alerts.stopAt) {
+        return {
+          allowed: false,
+          reason: `予算制限を超過します (${(usageRates.maxRate * 100).toFixed(1)}%)`,
+          usageRates
+        };
+      }
+
+      return { allowed: true, usageRates };
+    });
+  }
+
+  /**
+   * 見積もり分の予算を予約
+   * 判定と登録は予算ファイルごとに直列化されるため、並列実行中のエージェントが同時に予約しても
+   * 未確定の予約を含めて stopAt を超えることはありません
+   */
+  async reserve(estimate: CostEstimate, label?: string): Promise<BudgetReservation> {
+    await this.ensureBudgetExists();
+
+    return this.withBudgetLock(async () => {
+      await this.loadBudget();
+      if (!this.budget) {
+        throw new BudgetExceededError('予算情報が利用できません', {
+          allowed: false,
+          reason: '予算情報が利用できません',
+          usageRates: { tokens: 0, cost: 0, wallTime: 0, maxRate: 0 }
+        });
+      }
+
+      const result = this.evaluateEstimate(estimate);
+      if (!result.allowed) {
+        throw new BudgetExceededError(`${label ? `${label}: ` : ''}${result.reason}`, result);
+      }
+
+      const reservation: BudgetReservation = {
+        id: uuidv4(),
+        label,
+        tokens: estimate.tokens,
+        cost: estimate.estimatedCost,
+        wallTime: estimate.estimatedWallTime,
+        createdAt: Date.now()
+      };
+      this.reservations.set(reservation.id, reservation);
+      return reservation;
+    });
+  }
+
+  /**
+   * 予約を実使用量で確定
+   */
+  async commit(reservation: BudgetReservation, usage: UsageRecord): Promise<void> {
+    await this.withBudgetLock(async () => {
+      this.reservations.delete(reservation.id);
+      await this.recordUsage({ agent: reservation.label, ...usage });
+    });
+  }
+
+  /**
+   * 予約を解放（確定済みの予約に対しては何もしない）
+   */
+  async release(reservation: BudgetReservation): Promise<void> {
+    this.reservations.delete(reservation.id);
+  }
+
+  /**
+   * 使用量を追加
+   */
+  async addUsage(usage: UsageRecord, requestId?: string): Promise<void> {
+    if (!(await this.isConfigured())) return;
+
+    await this.withBudgetLock(() => this.recordUsage(usage));
+
+    // リクエストを完了として記録
+    if (requestId) {
+      this.activeRequests.delete(requestId);
+    }
+  }
+
+  /**
+   * 使用量を現在の請求期間に加算し、台帳に追記（予算ロック内で呼び出す）
+   */
+  private async recordUsage(usage: UsageRecord): Promise<void> {
+    // 他のインスタンスによる更新を失わないよう、最新の使用量に加算する
+    await this.loadBudget();
+    if (!this.budget) return;
+
+    this.budget.usage.tokens += usage.tokens;
+    this.budget.usage.costUSD += usage.cost;
+    this.budget.usage.wallTimeSec += usage.wallTime;
+    await this.saveBudget();
+
+    await this.ledger.append({
+      timestamp: new Date().toISOString(),
+      periodStart: this.budget.period.start!,
+      agent: usage.agent,
+      model: usage.model,
+      provider: usage.provider,
+      pipeline: usage.pipeline,
+      executionId: usage.executionId,
+      cached: usage.cached,
+      tokens: usage.tokens,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      costUSD: usage.cost,
+      wallTimeSec: usage.wallTime
+    });
+  }
+
+  /**
+   * 請求期間が終了していれば集計を履歴に移し、使用量をリセット
+   */
+  private applyPeriodRollover(now: Date): boolean {
+    const budget = this.budget!;
+    const { rolloverDay } = budget.period;
+    const currentStart = getPeriodStart(now, rolloverDay);
+
+    // 期間情報の無い旧形式の予算ファイルは、既存の使用量を現在の期間に含める
+    if (!budget.period.start) {
+      budget.period.start = currentStart.toISOString();
+      return true;
+    }
+
+    const end = getNextPeriodStart(new Date(budget.period.start), rolloverDay);
+    if (now < end) {
+      return false;
+    }
+
+    budget.history.push({
+      start: budget.period.start,
+      end: end.toISOString(),
+      tier: budget.current,
+      tokens: budget.usage.tokens,
+      costUSD: budget.usage.costUSD,
+      wallTimeSec: budget.usage.wallTimeSec
+    });
+    budget.usage.tokens = 0;
+    budget.usage.costUSD = 0;
+    budget.usage.wallTimeSec = 0;
+    budget.period.start = currentStart.toISOString();
+
+    console.log(chalk.blue(`🗓️  新しい請求期間を開始しました: ${currentStart.toLocaleDateString()}〜`));
+    return true;
+  }
+
+  /**
+   * 確定済み使用量・未確定の予約・見積もりの合計で予算制限を判定
+   */
+  private evaluateEstimate(estimate: CostEstimate): BudgetCheckResult {
+    const usageRates = this.calculateUsageRates(estimate);
+    const maxWallTimePerRequest = this.budget!.limits.maxWallTimePerRequest;
+
     // リクエストあたりの壁時計制限チェック
-    if (estimate.estimatedWallTime > this.budget.limits.maxWallTimePerRequest) {
+    if (estimate.estimatedWallTime > maxWallTimePerRequest) {
       return {
         allowed: false,
-        reason: `リクエストあたりの壁時計制限を超過: ${estimate.estimatedWallTime}s > ${this.budget.limits.maxWallTimePerRequest}s`,
-        usageRates: { tokens: tokenUsageRate, cost: costUsageRate, wallTime: wallTimeUsageRate, maxRate: maxUsageRate }
+        reason: `リクエストあたりの壁時計制限を超過: ${estimate.estimatedWallTime}s > ${maxWallTimePerRequest}s`,
+        usageRates
       };
     }
 
     // 使用制限チェック
-    if (maxUsageRate >= this.budget.alerts.stopAt) {
+    if (usageRates.maxRate >= this.budget!.alerts.stopAt) {
       return {
         allowed: false,
-        reason: `予算制限に達しました (${(maxUsageRate * 100).toFixed(1)}%)`,
-        usageRates: { tokens: tokenUsageRate, cost: costUsageRate, wallTime: wallTimeUsageRate, maxRate: maxUsageRate }
+        reason: `予算制限に達しました (${(usageRates.maxRate * 100).toFixed(1)}%)`,
+        usageRates
       };
     }
 
     // 警告チェック
-    if (maxUsageRate >= this.budget.alerts.warningAt) {
+    if (usageRates.maxRate >= this.budget!.alerts.warningAt) {
       console.log(chalk.yellow('⚠️  予算制限に近づいています'));
-      console.log(chalk.yellow(`現在の使用率: ${(maxUsageRate * 100).toFixed(1)}%`));
+      console.log(chalk.yellow(`現在の使用率: ${(usageRates.maxRate * 100).toFixed(1)}%`));
     }
 
-    // リクエストを記録
-    if (requestId) {
-      this.activeRequests.add(requestId);
+    return { allowed: true, usageRates };
+  }
+
+  private calculateUsageRates(estimate: CostEstimate): BudgetCheckResult['usageRates'] {
+    const currentTier = this.budget!.tiers[this.budget!.current];
+    if (!currentTier) {
+      throw new Error(`不明な予算層: ${this.budget!.current}`);
     }
 
-    return {
-      allowed: true,
-      usageRates: { tokens: tokenUsageRate, cost: costUsageRate, wallTime: wallTimeUsageRate, maxRate: maxUsageRate }
-    };
+    const reserved = this.getReservedTotals();
+    const tokens = (this.budget!.usage.tokens + reserved.tokens + estimate.tokens) / currentTier.tokens;
+    const cost = (this.budget!.usage.costUSD + reserved.cost + estimate.estimatedCost) / currentTier.monthly;
+    const wallTime = (this.calculateCurrentWallTime() + reserved.wallTime + estimate.estimatedWallTime) / currentTier.wallTimeSec;
+
+    return { tokens, cost, wallTime, maxRate: Math.max(tokens, cost, wallTime) };
   }
 
   /**
-   * 使用量を追加
+   * 未確定の予約の合計
    */
-  async addUsage(usage: { tokens: number; cost: number; wallTime: number }, requestId?: string): Promise<void> {
-    if (!this.budget) return;
-
-    this.budget.usage.tokens += usage.tokens;
-    this.budget.usage.costUSD += usage.cost;
-    this.budget.usage.wallTimeSec += usage.wallTime;
-
-    // リクエストを完了として記録
-    if (requestId) {
-      this.activeRequests.delete(requestId);
+  private getReservedTotals(): { tokens: number; cost: number; wallTime: number } {
+    const totals = { tokens: 0, cost: 0, wallTime: 0 };
+    for (const reservation of this.reservations.values()) {
+      totals.tokens += reservation.tokens;
+      totals.cost += reservation.cost;
+      totals.wallTime += reservation.wallTime;
     }
+    return totals;
+  }
 
-    await this.saveBudget();
+  /**
+   * 同じ予算ファイルに対する読み込み→判定・加算→保存を直列化
+   */
+  private async withBudgetLock<T>(operation: () => Promise<T>): Promise<T> {
+    const previous = budgetWriteQueues.get(this.budgetPath) ?? Promise.resolve();
+    const next = previous.then(operation);
+    budgetWriteQueues.set(this.budgetPath, next.then(() => undefined, () => undefined));
+    return next;
   }
 
   /**
    * 現在の壁時計時間を計算
    */
   private calculateCurrentWallTime(): number {
-    if (!this.budget?.usage.startTime) {
-      return this.budget?.usage.wallTimeSec || 0;
-    }
-    
-    const sessionTime = (Date.now() - this.budget.usage.startTime) / 1000;
-    return this.budget.usage.wallTimeSec + sessionTime;
+    // 確定済みリクエストの実行時間の合計（セッション開始からの経過時間は含めない）
+    return this.budget?.usage.wallTimeSec || 0;
   }
 
   /**
@@ -301,9 +581,59 @@ Tokens: ${chalk.yellow(this.budget.usage.tokens.toLocaleString())} / ${chalk.gre
 Cost: ${chalk.yellow(`$${this.budget.usage.costUSD.toFixed(3)}`)} / ${chalk.green(`$${currentTier.monthly}`)} (${(costUsageRate * 100).toFixed(1)}%)
 Wall Time: ${chalk.yellow(`${(currentWallTime / 60).toFixed(1)}分`)} / ${chalk.green(`${(currentTier.wallTimeSec / 60).toFixed(1)}分`)} (${(wallTimeUsageRate * 100).toFixed(1)}%)
 Active Requests: ${chalk.cyan(this.activeRequests.size)} / ${chalk.green(this.budget.limits.maxConcurrency)}
+Reservations: ${chalk.cyan(this.reservations.size)}
     `.trim();
   }
 
+  /**
+   * 現在の請求期間の使用状況（エージェント別内訳・過去の期間を含む）を取得
+   */
+  async getPeriodReport(): Promise<BudgetPeriodReport> {
+    await this.ensureBudgetExists();
+    const budget = this.budget!;
+    const tier = budget.tiers[budget.current];
+    if (!tier) {
+      throw new Error(`不明な予算層: ${budget.current}`);
+    }
+
+    const start = budget.period.start!;
+    const entries: LedgerEntry[] = await this.ledger.read(start);
+
+    return {
+      tier: budget.current,
+      limits: tier,
+      period: {
+        start,
+        end: getNextPeriodStart(new Date(start), budget.period.rolloverDay).toISOString(),
+        rolloverDay: budget.period.rolloverDay
+      },
+      usage: {
+        tokens: budget.usage.tokens,
+        costUSD: budget.usage.costUSD,
+        wallTimeSec: budget.usage.wallTimeSec
+      },
+      byAgent: BudgetLedger.summarizeByAgent(entries),
+      history: [...budget.history].reverse()
+    };
+  }
+
+  /**
+   * 毎月の締め日を変更（次回以降の期間の境界に反映）
+   */
+  async setRolloverDay(day: number): Promise<void> {
+    if (!Number.isInteger(day) || day < 1 || day > MAX_ROLLOVER_DAY) {
+      throw new Error(`締め日は1〜${MAX_ROLLOVER_DAY}の整数で指定してください: ${day}`);
+    }
+
+    await this.ensureBudgetExists();
+    await this.withBudgetLock(async () => {
+      await this.loadBudget();
+      this.budget!.period.rolloverDay = day;
+      await this.saveBudget();
+    });
+    console.log(chalk.green(`✅ 締め日を毎月${day}日に変更しました`));
+  }
+
   /**
    * 予算をリセット
    */
@@ -315,6 +645,7 @@ Active Requests: ${chalk.cyan(this.activeRequests.size)} / ${chalk.green(this.bu
     this.budget.usage.wallTimeSec = 0;
     this.budget.usage.startTime = Date.now();
     this.activeRequests.clear();
+    this.reservations.clear();
 
     await this.saveBudget();
     console.log(chalk.green('✅ 予算使用量をリセットしました'));
@@ -0,0 +1,141 @@
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { SceneGraph, Layer, Transition } from '../schemas/index.js';
+import { SceneGraphAssetRef } from './scene-graph-builder.js';
+
+/**
+ * NLE 向けの編集タイムライン（OTIO / FCPXML / EDL の共通モデル）
+ * 時間はすべて fps 基準のフレーム数で、タイムラインの先頭を 0（00:00:00:00）とします
+ */
+export interface EditClip {
+  name: string; // レイヤーID
+  assetId: string;
+  mediaUrl?: string; // Asset Manifest の uri（ローカルファイルは file:// URL）
+  recordStart: number; // タイムライン上の開始フレーム
+  duration: number;
+  sourceStart: number; // 素材内の開始フレーム
+  transitionIn?: { type: Exclude<Transition['type'], 'cut'>; duration: number }; // 直前のクリップ（無ければ黒）からの切り替え
+}
+
+export interface EditTrack {
+  kind: 'video' | 'audio';
+  clips: EditClip[]; // recordStart 順、重なり無し
+}
+
+export interface EditTimeline {
+  name: string;
+  fps: number;
+  duration: number;
+  size?: { w: number; h: number };
+  tracks: EditTrack[]; // 種別ごとに下のトラックから（V1, V2, ..., A1, A2, ...）
+}
+
+export interface TimelineExportResult {
+  content: string;
+  warnings: string[];
+}
+
+/**
+ * SceneGraph から編集タイムラインを作成
+ * 映像・画像レイヤーを映像トラック、音声レイヤーを音声トラックに、重ならないよう下のトラックから順に配置します。
+ * fps が SceneGraph と異なる場合はフレームを換算します
+ */
+export function toEditTimeline(
+  sceneGraph: SceneGraph,
+  options: { fps?: number; assets?: SceneGraphAssetRef[]; baseDir?: string } = {}
+): { timeline: EditTimeline; warnings: string[] } {
+  const fps = options.fps ?? sceneGraph.fps;
+  const warnings: string[] = [];
+  const rescale = (frames: number) => Math.round(frames * fps / sceneGraph.fps);
+  if (fps !== sceneGraph.fps) {
+    warnings.push(`SceneGraph の ${sceneGraph.fps}fps を ${fps}fps に換算しました`);
+  }
+
+  const tracks: Record<EditTrack['kind'], EditTrack[]> = { video: [], audio: [] };
+  for (const layer of sceneGraph.layers) {
+    if (layer.type !== 'footage' && layer.type !== 'image' && layer.type !== 'audio') {
+      warnings.push(`layer ${layer.id}: ${layer.type} レイヤーは NLE 向けの出力では未対応のため省略しました`);
+      continue;
+    }
+
+    const clip: EditClip = {
+      name: layer.id,
+      assetId: layer.assetId,
+      recordStart: rescale(layer.timing.start),
+      duration: Math.max(1, rescale(layer.timing.duration)),
+      sourceStart: layer.type === 'image' ? 0 : rescale(layer.sourceStart ?? 0)
+    };
+    const mediaUrl = resolveMediaUrl(options.assets?.find(asset => asset.id === layer.assetId)?.uri, options.baseDir);
+    if (mediaUrl) clip.mediaUrl = mediaUrl;
+    const transitionIn = layer.transitions?.in;
+    if (transitionIn && transitionIn.type !== 'cut' && transitionIn.duration > 0) {
+      clip.transitionIn = { type: transitionIn.type, duration: Math.min(rescale(transitionIn.duration), clip.duration) };
+    }
+
+    const kind = layer.type === 'audio' ? 'audio' : 'video';
+    const track = tracks[kind].find(candidate => candidate.clips.every(other => !overlaps(other, clip)));
+    if (track) {
+      track.clips.push(clip);
+    } else {
+      tracks[kind].push({ kind, clips: [clip] });
+    }
+  }
+
+  const allTracks = [...tracks.video, ...tracks.audio];
+  allTracks.forEach(track => track.clips.sort((a, b) => a.recordStart - b.recordStart));
+  warnings.push(...findUnpairedOutTransitions(sceneGraph, allTracks));
+
+  return {
+    timeline: { name: sceneGraph['@id'], fps, duration: rescale(sceneGraph.duration), size: sceneGraph.size, tracks: allTracks },
+    warnings
+  };
+}
+
+/**
+ * 次のクリップの in と対にならない out トランジション（フェードアウト）は NLE 向けの出力に含めない
+ */
+function findUnpairedOutTransitions(sceneGraph: SceneGraph, tracks: EditTrack[]): string[] {
+  const layersById = new Map<string, Layer>(sceneGraph.layers.map(layer => [layer.id, layer]));
+  const warnings: string[] = [];
+  for (const track of tracks) {
+    track.clips.forEach((clip, index) => {
+      const out = layersById.get(clip.name)?.transitions?.out;
+      const next = track.clips[index + 1];
+      const paired = next && next.recordStart === clip.recordStart + clip.duration && next.transitionIn;
+      if (out && out.type !== 'cut' && !paired) {
+        warnings.push(`layer ${clip.name}: 後続のクリップが無い out トランジションは未対応のため省略しました`);
+      }
+    });
+  }
+  return warnings;
+}
+
+function overlaps(a: EditClip, b: EditClip): boolean {
+  return a.recordStart < b.recordStart + b.duration && b.recordStart < a.recordStart + a.duration;
+}
+
+function resolveMediaUrl(uri: string | null | undefined, baseDir: string = process.cwd()): string | undefined {
+  if (!uri) return undefined;
+  if (/^[a-z][a-z0-9+.-]*:\/\//i.test(uri)) return uri;
+  return pathToFileURL(path.resolve(baseDir, uri)).href;
+}
+
+/**
+ * フレーム数を SMPTE ノンドロップフレームのタイムコード（HH:MM:SS:FF）に変換
+ */
+export function framesToTimecode(frames: number, fps: number): string {
+  const rate = Math.round(fps);
+  const ff = frames % rate;
+  const totalSeconds = Math.floor(frames / rate);
+  const parts = [Math.floor(totalSeconds / 3600), Math.floor(totalSeconds / 60) % 60, totalSeconds % 60, ff];
+  return parts.map(part => String(part).padStart(2, '0')).join(':');
+}
+
+export function timecodeToFrames(timecode: string, fps: number): number {
+  const match = /^(\d{2}):(\d{2}):(\d{2})[:;](\d{2})$/.exec(timecode.trim());
+  if (!match) {
+    throw new Error(`タイムコードの形式が不正です: ${timecode}`);
+  }
+  const [hours, minutes, seconds, frames] = match.slice(1).map(Number) as [number, number, number, number];
+  return ((hours * 60 + minutes) * 60 + seconds) * Math.round(fps) + frames;
+}
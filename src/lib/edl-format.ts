@@ -0,0 +1,169 @@
+import { fileURLToPath, pathToFileURL } from 'url';
+import { EditClip, EditTimeline, EditTrack, TimelineExportResult, framesToTimecode, timecodeToFrames } from './edit-timeline.js';
+
+// CMX 3600 EDL。映像1トラック（V）と音声2トラック（A, A2）まで
+const EDL_CHANNELS = { video: ['V'], audio: ['A', 'A2'] } as const;
+
+const REEL = 'AX'; // ファイルベースの素材（素材は FROM CLIP NAME / ASSET ID / SOURCE FILE のコメントで識別）
+const BLACK_REEL = 'BL';
+
+const EVENT_PATTERN = /^(\d{3,})\s+(\S+)\s+(\S+)\s+(C|D|W\d{3})\s+(?:(\d{3})\s+)?(\S+)\s+(\S+)\s+(\S+)\s+(\S+)\s*$/;
+
+interface EdlEvent {
+  channel: string;
+  clip: EditClip;
+  from?: { reel: string; sourceFrame: number; name?: string }; // トランジションの切り替え元
+}
+
+interface ParsedEvent {
+  number: string;
+  channel: string;
+  clip: EditClip;
+  comments: Record<string, string>;
+}
+
+/**
+ * 編集タイムラインを CMX 3600 EDL に変換
+ * トランジションは2行のイベント（切り替え元のカット + 切り替え先の D/W）で表し、直前にクリップが無い場合は黒（BL）から切り替えます
+ */
+export function exportEdl(timeline: EditTimeline): TimelineExportResult {
+  const warnings: string[] = [];
+  const events: EdlEvent[] = [];
+
+  for (const kind of ['video', 'audio'] as const) {
+    const tracks = timeline.tracks.filter(track => track.kind === kind);
+    const channels = EDL_CHANNELS[kind];
+    tracks.forEach((track, index) => {
+      const channel = channels[index];
+      if (!channel) {
+        warnings.push(`EDL は${kind === 'video' ? '映像' : '音声'}${channels.length}トラックまでのため、${track.clips.map(clip => clip.name).join(', ')} を省略しました`);
+        return;
+      }
+      track.clips.forEach((clip, clipIndex) => {
+        const event: EdlEvent = { channel, clip };
+        if (clip.transitionIn) {
+          const previous = track.clips[clipIndex - 1];
+          event.from = previous && previous.recordStart + previous.duration === clip.recordStart
+            ? { reel: REEL, sourceFrame: previous.sourceStart + previous.duration, name: previous.name }
+            : { reel: BLACK_REEL, sourceFrame: 0 };
+        }
+        events.push(event);
+      });
+    });
+  }
+
+  const channelOrder: string[] = [...EDL_CHANNELS.video, ...EDL_CHANNELS.audio];
+  events.sort((a, b) => a.clip.recordStart - b.clip.recordStart || channelOrder.indexOf(a.channel) - channelOrder.indexOf(b.channel));
+
+  const tc = (frames: number) => framesToTimecode(frames, timeline.fps);
+  const line = (number: string, reel: string, channel: string, transition: string, duration: string, times: number[]) =>
+    `${number}  ${reel.padEnd(8)} ${channel.padEnd(5)} ${transition.padEnd(4)} ${duration.padStart(3)} ${times.map(tc).join(' ')}`;
+
+  const lines = [`TITLE: ${timeline.name}`, 'FCM: NON-DROP FRAME', ''];
+  events.forEach((event, index) => {
+    const number = String(index + 1).padStart(3, '0');
+    const { clip } = event;
+    const times = [clip.sourceStart, clip.sourceStart + clip.duration, clip.recordStart, clip.recordStart + clip.duration];
+
+    if (event.from && clip.transitionIn) {
+      const { sourceFrame } = event.from;
+      lines.push(line(number, event.from.reel, event.channel, 'C', '', [sourceFrame, sourceFrame, clip.recordStart, clip.recordStart]));
+      const transition = clip.transitionIn.type === 'wipe' ? 'W001' : 'D';
+      lines.push(line(number, REEL, event.channel, transition, String(clip.transitionIn.duration).padStart(3, '0'), times));
+      if (event.from.name) lines.push(`* FROM CLIP NAME: ${event.from.name}`);
+      lines.push(`* TO CLIP NAME: ${clip.name}`);
+    } else {
+      lines.push(line(number, REEL, event.channel, 'C', '', times));
+      lines.push(`* FROM CLIP NAME: ${clip.name}`);
+    }
+    lines.push(`* ASSET ID: ${clip.assetId}`);
+    if (clip.mediaUrl) lines.push(`* SOURCE FILE: ${toSourceFile(clip.mediaUrl)}`);
+    lines.push('');
+  });
+
+  return { content: lines.join('\n'), warnings };
+}
+
+/**
+ * CMX 3600 EDL を編集タイムラインとして読み込み（EDL はフレームレートを持たないため fps を指定）
+ */
+export function parseEdl(content: string, fps: number): EditTimeline {
+  const tracks = new Map<string, EditTrack>();
+  let name = '';
+  let current: ParsedEvent | undefined;
+  const finished: ParsedEvent[] = [];
+
+  for (const raw of content.split(/\r?\n/)) {
+    const text = raw.trim();
+    if (text.startsWith('TITLE:')) {
+      name = text.slice('TITLE:'.length).trim();
+      continue;
+    }
+    if (text.startsWith('FCM:')) {
+      if (/DROP FRAME/.test(text) && !/NON-DROP/.test(text)) {
+        throw new Error('ドロップフレームの EDL には対応していません');
+      }
+      continue;
+    }
+
+    const comment = /^\*\s*([A-Z ]+?):\s*(.*)$/.exec(text);
+    if (comment && current) {
+      current.comments[comment[1]!] = comment[2]!;
+      continue;
+    }
+
+    const match = EVENT_PATTERN.exec(text);
+    if (!match) continue;
+    const [, number, reel, channel, transition, duration, srcIn, srcOut, recIn, recOut] = match as unknown as string[];
+    const frames = [srcIn, srcOut, recIn, recOut].map(timecode => timecodeToFrames(timecode!, fps)) as [number, number, number, number];
+
+    const clip: EditClip = {
+      name: '',
+      assetId: reel!,
+      recordStart: frames[2],
+      duration: frames[3] - frames[2],
+      sourceStart: frames[0]
+    };
+    if (transition !== 'C') {
+      clip.transitionIn = { type: transition!.startsWith('W') ? 'wipe' : 'crossfade', duration: Number(duration) };
+    }
+    // トランジションの2行目は同じ番号の1行目（切り替え元のカット）を置き換える
+    if (current && current.number !== number) finished.push(current);
+    current = { number: number!, channel: channel!, clip, comments: {} };
+  }
+  if (current) finished.push(current);
+
+  for (const event of finished) {
+    const { clip, comments } = event;
+    if (clip.duration <= 0) continue;
+    clip.name = comments['TO CLIP NAME'] ?? comments['FROM CLIP NAME'] ?? `event-${event.number}`;
+    if (comments['ASSET ID']) clip.assetId = comments['ASSET ID'];
+    if (comments['SOURCE FILE']) clip.mediaUrl = fromSourceFile(comments['SOURCE FILE']);
+
+    const kind = event.channel.startsWith('A') ? 'audio' : 'video';
+    const track = tracks.get(event.channel) ?? { kind, clips: [] };
+    track.clips.push(clip);
+    tracks.set(event.channel, track);
+  }
+
+  const channelOrder: string[] = [...EDL_CHANNELS.video, ...EDL_CHANNELS.audio];
+  const ordered = [...tracks.entries()]
+    .sort(([a], [b]) => channelOrder.indexOf(a) - channelOrder.indexOf(b))
+    .map(([, track]) => ({ ...track, clips: track.clips.sort((a, b) => a.recordStart - b.recordStart) }));
+
+  return {
+    name,
+    fps,
+    duration: Math.max(0, ...ordered.flatMap(track => track.clips.map(clip => clip.recordStart + clip.duration))),
+    tracks: ordered
+  };
+}
+
+// SOURCE FILE にはローカルファイルのパスを書く（NLE がそのまま再リンクできるよう）
+function toSourceFile(mediaUrl: string): string {
+  return mediaUrl.startsWith('file://') ? fileURLToPath(mediaUrl) : mediaUrl;
+}
+
+function fromSourceFile(sourceFile: string): string {
+  return /^[a-z][a-z0-9+.-]*:\/\//i.test(sourceFile) ? sourceFile : pathToFileURL(sourceFile).href;
+}
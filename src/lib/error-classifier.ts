@@ -1,5 +1,6 @@
 import { ZodError } from 'zod';
 import chalk from 'chalk';
+import { BudgetExceededError } from './dual-budget-manager.js';
 
 export enum ErrorType {
   NETWORK = 'network',
@@ -8,6 +9,7 @@ export enum ErrorType {
   VALIDATION = 'validation',
   TIMEOUT = 'timeout',
   SCHEMA = 'schema',
+  ABORTED = 'aborted',
   UNKNOWN = 'unknown'
 }
 
@@ -33,6 +35,27 @@ export class ErrorClassifier {
     const errorCode = error.code || '';
     const statusCode = error.status || error.statusCode;
 
+    // 予算予約の拒否（メッセージに依存せず型で判定）
+    if (error instanceof BudgetExceededError) {
+      return {
+        type: ErrorType.BUDGET,
+        severity: ErrorSeverity.CRITICAL,
+        message: '予算制限に達しました',
+        retryable: false,
+        recoveryStrategy: '予算設定の見直しが必要'
+      };
+    }
+
+    // 呼び出し元による中断（タイムアウトで取り消したリクエスト等）は再試行しない
+    if (error?.name === 'AbortError' || error?.name === 'APIUserAbortError') {
+      return {
+        type: ErrorType.ABORTED,
+        severity: ErrorSeverity.LOW,
+        message: 'リクエストが中断されました',
+        retryable: false
+      };
+    }
+
     // ネットワークエラー
     if (this.isNetworkError(errorMessage, errorCode, statusCode)) {
       return {
@@ -1,32 +1,77 @@
 import { z } from 'zod';
 import chalk from 'chalk';
 import { EventBus, PipelineEvent } from './event-bus.js';
-import { llmProviderManager, LLMProvider, LLMRequest, LLMResponse } from './llm-provider.js';
-import { DualBudgetManager, CostEstimate } from './dual-budget-manager.js';
+import { llmProviderManager, LLMRequest, LLMResponse, ProviderSpec } from './llm-provider.js';
+import { DualBudgetManager, CostEstimate, BudgetReservation, UsageRecord } from './dual-budget-manager.js';
 // BaseAgentは削除されたため、直接エージェントクラスを使用
-import { CacheManager } from './cache-manager.js';
+import { LLMCacheSettings, resolveLLMCacheSettings } from './caching-provider.js';
+import { PipelineDag } from './pipeline-dag.js';
+import { Semaphore, ConcurrencyGate } from './semaphore.js';
+import { ErrorClassifier } from './error-classifier.js';
+import type { ParallelGroup } from '../schemas/pipeline.js';
 
 export interface AgentConfig {
   name: string;
   model: string;
-  provider?: string;
+  provider?: ProviderSpec; // 未指定の場合はモデル名からプロバイダーを選択
   temperature?: number;
   maxTokens?: number;
   systemPrompt: string;
   inputSchema: z.ZodSchema;
   outputSchema: z.ZodSchema;
+  schemaName?: string; // 構造化出力で使用するスキーマ名
+  dependencies?: string[]; // 依存するエージェント名（未指定の場合は定義順に直列実行）
+  parallelGroup?: string; // 所属する並列実行グループ
+  parallel?: boolean; // false の場合は他のエージェントと同時に実行しない
+  maxConcurrency?: number; // このエージェントの実行中に許容する同時実行数（自身を含む）
+  run?: (input: any) => Promise<unknown>; // LLMを呼ばずにローカルで処理するステップ（拍合わせ等）
+  mergeInputs?: (inputs: Record<string, unknown>) => unknown; // 依存先が複数の場合に出力を1つの入力にまとめる（未指定の場合はエージェント名をキーとしたオブジェクト）
 }
 
 export interface PipelineConfig {
   agents: AgentConfig[];
+  parallelGroups?: ParallelGroup[];
   maxConcurrency?: number;
-  useCache?: boolean;
+  timeout?: number; // グループ未所属エージェントのタイムアウト（ms）
+  enableParallel?: boolean;
+  useCache?: boolean; // LLMレスポンスキャッシュを使用（未指定の場合は使用しない）
+}
+
+export interface AgentRunResult {
+  agentName: string;
+  status: 'success' | 'failed' | 'skipped';
+  duration: number;
+  tokensUsed?: number;
+  costUSD?: number;
+  provider?: string; // 実際に応答したプロバイダー
+  model?: string;
+  cached?: boolean; // LLMレスポンスキャッシュから返した場合（トークン・コストは0）
+  error?: string;
+  output?: any;
+}
+
+/**
+ * 実行状態の永続化先（チェックポイント）
+ */
+export interface ExecutionCheckpoint {
+  markStarted(agentName: string): Promise<void>;
+  markSucceeded(result: AgentRunResult): Promise<void>;
+  markFailed(result: AgentRunResult): Promise<void>;
+}
+
+export interface ExecutionOptions {
+  checkpoint?: ExecutionCheckpoint;
+  pipelineName?: string; // 使用量台帳に記録するパイプライン名
+  executionId?: string;
+  completedResults?: Map<string, AgentRunResult>; // 再開時に再利用する完了済みエージェントの結果
+  cache?: LLMCacheSettings; // 未指定の場合は PipelineConfig.useCache と設定ファイルから決定
 }
 
 export interface PipelineResult {
   success: boolean;
   data?: any;
   error?: string;
+  results: AgentRunResult[];
   events: PipelineEvent[];
 }
 
@@ -36,50 +81,43 @@ export interface PipelineResult {
 export class EventDrivenOrchestrator {
   private eventBus: EventBus;
   private budgetManager: DualBudgetManager;
-  private cacheManager: CacheManager;
 
-  constructor() {
+  constructor(budgetManager?: DualBudgetManager) {
     this.eventBus = EventBus.getInstance();
-    this.budgetManager = new DualBudgetManager();
-    this.cacheManager = new CacheManager();
+    this.budgetManager = budgetManager || new DualBudgetManager();
   }
 
   /**
    * パイプラインを実行
+   * 依存関係からDAGを構築し、独立したブランチは並列に実行します
    */
   async executePipeline(
     config: PipelineConfig,
-    initialInput: any
+    initialInput: any,
+    options: ExecutionOptions = {}
   ): Promise<PipelineResult> {
     const events: PipelineEvent[] = [];
+    const results = new Map<string, AgentRunResult>();
     const subscription = this.eventBus.subscribeToPipeline(async (event) => {
       events.push(event);
     });
 
     try {
-      let currentInput = initialInput;
-
-      for (const agentConfig of config.agents) {
-        const result = await this.executeAgent(agentConfig, currentInput);
-        currentInput = result.data;
-
-        await this.eventBus.publish({
-          type: this.getEventTypeForAgent(agentConfig.name),
-          data: result.data,
-          metadata: {
-            agent: agentConfig.name,
-            model: agentConfig.model,
-            cost: result.costUSD,
-            duration: result.duration
-          }
-        });
-      }
+      const cache = options.cache ?? (config.useCache ? await resolveLLMCacheSettings() : undefined);
+      const dag = new PipelineDag(this.resolveDependencies(config.agents));
+      const outputs = await this.runDag(dag, config, initialInput, results, { ...options, cache });
+
+      const sinks = dag.getSinks();
+      const data = sinks.length === 1
+        ? outputs.get(sinks[0]!)
+        : Object.fromEntries(sinks.map(name => [name, outputs.get(name)]));
 
-      return { success: true, data: currentInput, events };
+      return { success: true, data, results: this.orderResults(config, results), events };
     } catch (error) {
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error',
+        results: this.orderResults(config, results),
         events
       };
     } finally {
@@ -87,29 +125,324 @@ export class EventDrivenOrchestrator {
     }
   }
 
+  /**
+   * 依存関係を解決
+   * どのエージェントも dependencies を宣言していない場合は従来通り定義順の直列パイプラインとみなす
+   */
+  private resolveDependencies(agents: AgentConfig[]): AgentConfig[] {
+    if (agents.some(agent => agent.dependencies !== undefined)) {
+      return agents;
+    }
+
+    return agents.map((agent, index) => ({
+      ...agent,
+      dependencies: index === 0 ? [] : [agents[index - 1]!.name]
+    }));
+  }
+
+  /**
+   * DAGをトポロジカル順に実行
+   * 各エージェントは依存先の完了を待ってから、全体とグループのセマフォ、エージェントごとの同時実行数の上限
+   * （parallel: false は単独実行）を満たす許可を取得して実行されます
+   */
+  private async runDag(
+    dag: PipelineDag<AgentConfig>,
+    config: PipelineConfig,
+    initialInput: any,
+    results: Map<string, AgentRunResult>,
+    options: ExecutionOptions
+  ): Promise<Map<string, any>> {
+    const maxConcurrency = config.enableParallel === false ? 1 : (config.maxConcurrency ?? 3);
+    const globalSemaphore = new Semaphore(maxConcurrency);
+    const gate = new ConcurrencyGate();
+
+    const groups = new Map<string, { group: ParallelGroup; semaphore: Semaphore }>();
+    for (const group of config.parallelGroups ?? []) {
+      groups.set(group.name, { group, semaphore: new Semaphore(group.maxConcurrency) });
+    }
+    for (const name of dag.getTopologicalOrder()) {
+      const groupName = dag.getNode(name).parallelGroup;
+      if (groupName && !groups.has(groupName)) {
+        throw new Error(`パイプライン定義エラー: "${name}" の並列実行グループ "${groupName}" が定義されていません`);
+      }
+    }
+
+    const outputs = new Map<string, any>();
+    const tasks = new Map<string, Promise<void>>();
+    let aborted = false;
+
+    for (const name of dag.getTopologicalOrder()) {
+      const agentConfig = dag.getNode(name);
+      const dependencies = dag.getDependencies(name);
+      const groupEntry = agentConfig.parallelGroup ? groups.get(agentConfig.parallelGroup) : undefined;
+      const concurrencyLimit = agentConfig.parallel === false ? 1 : (agentConfig.maxConcurrency ?? Infinity);
+
+      const task = (async () => {
+        try {
+          await Promise.all(dependencies.map(dependency => tasks.get(dependency)!));
+        } catch (error) {
+          results.set(name, { agentName: name, status: 'skipped', duration: 0 });
+          throw error;
+        }
+
+        // 完了済みエージェントは保存済みの出力を再検証して再利用
+        const completed = options.completedResults?.get(name);
+        if (completed) {
+          const output = agentConfig.outputSchema.parse(completed.output);
+          outputs.set(name, output);
+          results.set(name, { ...completed, output });
+          return;
+        }
+
+        const input = this.buildAgentInput(agentConfig, dependencies, outputs, initialInput);
+
+        await globalSemaphore.acquire();
+        await groupEntry?.semaphore.acquire();
+        await gate.acquire(concurrencyLimit);
+        const startTime = Date.now();
+
+        try {
+          if (aborted) {
+            results.set(name, { agentName: name, status: 'skipped', duration: 0 });
+            return;
+          }
+
+          await this.saveCheckpoint(options.checkpoint?.markStarted(name));
+          const result = await this.executeAgentWithPolicy(agentConfig, input, options, groupEntry?.group, config.timeout);
+          const runResult: AgentRunResult = {
+            agentName: name,
+            status: 'success',
+            duration: result.duration,
+            tokensUsed: result.tokensUsed,
+            costUSD: result.costUSD,
+            provider: result.provider,
+            model: result.model,
+            cached: result.cached,
+            output: result.data
+          };
+          outputs.set(name, result.data);
+          results.set(name, runResult);
+          await this.saveCheckpoint(options.checkpoint?.markSucceeded(runResult));
+
+          await this.eventBus.publish({
+            type: this.getEventTypeForAgent(agentConfig.name),
+            data: result.data,
+            metadata: {
+              agent: agentConfig.name,
+              model: result.model,
+              cost: result.costUSD,
+              duration: result.duration
+            }
+          });
+        } catch (error) {
+          aborted = true;
+          const runResult: AgentRunResult = {
+            agentName: name,
+            status: 'failed',
+            duration: Date.now() - startTime,
+            error: error instanceof Error ? error.message : String(error)
+          };
+          results.set(name, runResult);
+          await this.saveCheckpoint(options.checkpoint?.markFailed(runResult));
+          throw error;
+        } finally {
+          gate.release(concurrencyLimit);
+          groupEntry?.semaphore.release();
+          globalSemaphore.release();
+        }
+      })();
+
+      tasks.set(name, task);
+    }
+
+    const settled = await Promise.allSettled(tasks.values());
+    const failure = settled.find((outcome): outcome is PromiseRejectedResult => outcome.status === 'rejected');
+    if (failure) {
+      throw failure.reason;
+    }
+
+    return outputs;
+  }
+
+  /**
+   * チェックポイントを保存（失敗しても実行は止めず、再開できない可能性を警告するのみ）
+   */
+  private async saveCheckpoint(write: Promise<void> | undefined): Promise<void> {
+    try {
+      await write;
+    } catch (error) {
+      console.error(chalk.red('❌ チェックポイントの保存に失敗:'), error);
+    }
+  }
+
+  /**
+   * 依存先の出力からエージェント入力を組み立て
+   * 依存なし: 初期入力 / 依存1件: その出力 / 依存複数: mergeInputs でまとめた値（未指定の場合はエージェント名をキーとしたオブジェクト）
+   */
+  private buildAgentInput(config: AgentConfig, dependencies: string[], outputs: Map<string, any>, initialInput: any): any {
+    if (dependencies.length === 0) {
+      return initialInput;
+    }
+    if (dependencies.length === 1) {
+      return outputs.get(dependencies[0]!);
+    }
+    const inputs = Object.fromEntries(dependencies.map(dependency => [dependency, outputs.get(dependency)]));
+    return config.mergeInputs ? config.mergeInputs(inputs) : inputs;
+  }
+
+  /**
+   * 並列実行グループのタイムアウト・リトライ設定を適用してエージェントを実行
+   */
+  private async executeAgentWithPolicy(
+    config: AgentConfig,
+    input: any,
+    options: ExecutionOptions,
+    group?: ParallelGroup,
+    defaultTimeout?: number
+  ): Promise<LLMResponse<any>> {
+    const timeout = group?.timeout ?? defaultTimeout;
+    const retryCount = group?.retryCount ?? 0;
+    const retryDelay = group?.retryDelay ?? 1000;
+
+    for (let attempt = 0; ; attempt++) {
+      // タイムアウトした試行のリクエストは取り消してから次の試行に進む
+      const controller = new AbortController();
+      try {
+        const execution = this.executeAgent(config, input, options, controller.signal);
+        return timeout ? await this.withTimeout(execution, timeout, config.name, controller) : await execution;
+      } catch (error) {
+        const errorInfo = ErrorClassifier.classify(error);
+        if (attempt >= retryCount || !errorInfo.retryable) {
+          throw error;
+        }
+
+        console.log(chalk.yellow(`⚠️  ${config.name} リトライ ${attempt + 1}/${retryCount} (${errorInfo.type})`));
+        await new Promise(resolve => setTimeout(resolve, retryDelay));
+      }
+    }
+  }
+
+  private async withTimeout<T>(promise: Promise<T>, timeoutMs: number, agentName: string, controller: AbortController): Promise<T> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new Error(`エージェント "${agentName}" が ${timeoutMs}ms でタイムアウトしました (timeout)`));
+      }, timeoutMs);
+    });
+    // 中断後に遅れて届く拒否は未処理にしない
+    promise.catch(() => undefined);
+
+    try {
+      return await Promise.race([promise, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
   /**
    * 単一エージェントを実行
    */
   private async executeAgent(
     config: AgentConfig,
-    input: any
+    input: any,
+    options: ExecutionOptions,
+    signal?: AbortSignal
   ): Promise<LLMResponse<any>> {
     const validatedInput = config.inputSchema.parse(input);
-    const provider = llmProviderManager.getProviderForModel(config.model);
+
+    if (config.run) {
+      const startTime = Date.now();
+      const data = config.outputSchema.parse(await config.run(validatedInput));
+      return { data, tokensUsed: 0, costUSD: 0, provider: 'local', model: config.model, duration: Date.now() - startTime };
+    }
 
     const request: LLMRequest = {
       model: config.model,
       systemPrompt: config.systemPrompt,
       userInput: JSON.stringify(validatedInput),
       temperature: config.temperature || 0.7,
-      maxTokens: config.maxTokens || 4096
+      maxTokens: config.maxTokens || 4096,
+      schemaName: config.schemaName,
+      signal
     };
 
+    // キャッシュヒットはプロバイダーを呼ばないため、予算を予約せずに返す（台帳にはコスト0で記録）
+    if (options.cache) {
+      const cached = await llmProviderManager.findCachedJSON(config.provider ?? config.model, request, config.outputSchema, options.cache);
+      if (cached) {
+        if (await this.budgetManager.isConfigured()) {
+          await this.budgetManager.addUsage(this.toUsageRecord(config, cached, cached.duration, options));
+        }
+        return cached;
+      }
+    }
+
+    const reservation = await this.reserveBudget(config, request);
     const startTime = Date.now();
-    const response = await provider.generateJSON(request, config.outputSchema);
-    const duration = Date.now() - startTime;
 
-    return { ...response, duration };
+    try {
+      const response = await llmProviderManager.generateJSONWithFallback(
+        config.provider ?? config.model,
+        request,
+        config.outputSchema,
+        { cache: options.cache }
+      );
+      const duration = Date.now() - startTime;
+
+      if (reservation) {
+        await this.budgetManager.commit(reservation, this.toUsageRecord(config, response, duration, options));
+      }
+      return { ...response, duration };
+    } catch (error) {
+      if (reservation) {
+        await this.budgetManager.release(reservation);
+      }
+      throw error;
+    }
+  }
+
+  private toUsageRecord(config: AgentConfig, response: LLMResponse<any>, duration: number, options: ExecutionOptions): UsageRecord {
+    return {
+      tokens: response.tokensUsed,
+      promptTokens: response.promptTokens,
+      completionTokens: response.completionTokens,
+      cost: response.costUSD,
+      wallTime: duration / 1000,
+      agent: config.name,
+      model: response.model,
+      provider: response.provider,
+      pipeline: options.pipelineName,
+      executionId: options.executionId,
+      cached: response.cached
+    };
+  }
+
+  /**
+   * エージェント実行前に見積もり分の予算を予約
+   * 予算ファイルが未作成の場合は予算管理を行いません
+   */
+  private async reserveBudget(config: AgentConfig, request: LLMRequest): Promise<BudgetReservation | null> {
+    if (!(await this.budgetManager.isConfigured())) {
+      return null;
+    }
+
+    const { tokens, costUSD } = await llmProviderManager.estimateCost(config.provider ?? config.model, request);
+    const estimate: CostEstimate = {
+      tokens,
+      estimatedCost: costUSD,
+      estimatedWallTime: 30
+    };
+    return this.budgetManager.reserve(estimate, config.name);
+  }
+
+  /**
+   * 実行結果を定義順に並べる（未実行のエージェントはskippedとして補完）
+   */
+  private orderResults(config: PipelineConfig, results: Map<string, AgentRunResult>): AgentRunResult[] {
+    return config.agents.map(agent =>
+      results.get(agent.name) ?? { agentName: agent.name, status: 'skipped', duration: 0 }
+    );
   }
 
   private getEventTypeForAgent(agentName: string): PipelineEvent['type'] {
@@ -122,4 +455,4 @@ export class EventDrivenOrchestrator {
     };
     return typeMap[agentName] || 'compose';
   }
-} 
\ No newline at end of file
+}
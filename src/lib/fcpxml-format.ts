@@ -0,0 +1,301 @@
+import { EditClip, EditTimeline, EditTrack, TimelineExportResult } from './edit-timeline.js';
+
+// Final Cut Pro X の FCPXML 1.9。V1 を基本ストーリーライン、それ以外のトラックを接続クリップ（lane）として出力
+const FCPXML_VERSION = '1.9';
+const CROSS_DISSOLVE = { name: 'Cross Dissolve', uid: 'FxPlug:4731E73A-8DAC-4113-9A30-AE85B1761265' };
+const DEFAULT_SIZE = { w: 1920, h: 1080 };
+
+interface SpineItem {
+  offset: number; // タイムライン上の位置
+  start: number; // 要素内の開始位置（接続クリップの offset の基準）
+  duration: number;
+  clip?: EditClip; // 無ければギャップ
+  connected: Array<{ lane: number; clip: EditClip }>;
+}
+
+interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+}
+
+/**
+ * 編集タイムラインを FCPXML に変換
+ * トランジションは基本ストーリーライン上のみ Cross Dissolve として出力し、それ以外は警告して省略します
+ */
+export function exportFcpxml(timeline: EditTimeline): TimelineExportResult {
+  const warnings: string[] = [];
+  const time = (frames: number) => frames === 0 ? '0s' : `${frames}/${timeline.fps}s`;
+  const size = timeline.size ?? DEFAULT_SIZE;
+
+  const videoTracks = timeline.tracks.filter(track => track.kind === 'video');
+  const audioTracks = timeline.tracks.filter(track => track.kind === 'audio');
+  const spine = buildSpine(videoTracks[0]?.clips ?? [], timeline.duration);
+
+  const connect = (track: EditTrack, lane: number) => {
+    for (const clip of track.clips) {
+      const parent = spine.find(item => clip.recordStart < item.offset + item.duration) ?? spine[spine.length - 1]!;
+      parent.connected.push({ lane, clip });
+      if (clip.transitionIn) {
+        warnings.push(`${clip.name}: FCPXML では接続クリップのトランジション（${clip.transitionIn.type}）は未対応のため省略しました`);
+      }
+    }
+  };
+  videoTracks.slice(1).forEach((track, index) => connect(track, index + 1));
+  audioTracks.forEach((track, index) => connect(track, -(index + 1)));
+
+  // 素材ごとに asset を定義（長さは使用範囲の最大）
+  const assets = new Map<string, { id: string; clip: EditClip; duration: number; hasVideo: boolean; hasAudio: boolean }>();
+  for (const track of timeline.tracks) {
+    for (const clip of track.clips) {
+      const asset = assets.get(clip.assetId) ?? { id: `r${assets.size + 2}`, clip, duration: 0, hasVideo: false, hasAudio: false };
+      asset.duration = Math.max(asset.duration, clip.sourceStart + clip.duration);
+      if (track.kind === 'video') asset.hasVideo = true;
+      else asset.hasAudio = true;
+      assets.set(clip.assetId, asset);
+    }
+  }
+  const dissolveId = `r${assets.size + 2}`;
+  const spineTransitions = spine.filter(item => item.clip?.transitionIn);
+  for (const item of spineTransitions) {
+    const type = item.clip!.transitionIn!.type;
+    if (type !== 'crossfade' && type !== 'fade') {
+      warnings.push(`${item.clip!.name}: FCPXML では ${type} トランジションを Cross Dissolve として出力しました`);
+    }
+  }
+
+  const clipElement = (clip: EditClip, offset: number, lane?: number) => {
+    const asset = assets.get(clip.assetId)!;
+    const laneAttribute = lane === undefined ? '' : ` lane="${lane}"`;
+    return `<asset-clip ref="${asset.id}"${laneAttribute} offset="${time(offset)}" name="${escapeXml(clip.name)}" start="${time(clip.sourceStart)}" duration="${time(clip.duration)}" tcFormat="NDF"`;
+  };
+
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<!DOCTYPE fcpxml>',
+    `<fcpxml version="${FCPXML_VERSION}">`,
+    '  <resources>',
+    `    <format id="r1" frameDuration="${time(1)}" width="${size.w}" height="${size.h}"/>`
+  ];
+  for (const [assetId, asset] of assets) {
+    if (!asset.clip.mediaUrl) {
+      warnings.push(`素材 ${assetId}: 参照先が無いため FCPXML ではオフラインメディアになります`);
+    }
+    lines.push(
+      `    <asset id="${asset.id}" name="${escapeXml(assetId)}" uid="${escapeXml(assetId)}" start="0s" duration="${time(asset.duration)}" hasVideo="${asset.hasVideo ? 1 : 0}" hasAudio="${asset.hasAudio ? 1 : 0}" format="r1">`,
+      `      <media-rep kind="original-media" src="${escapeXml(asset.clip.mediaUrl ?? assetId)}"/>`,
+      '    </asset>'
+    );
+  }
+  if (spineTransitions.length > 0) {
+    lines.push(`    <effect id="${dissolveId}" name="${CROSS_DISSOLVE.name}" uid="${CROSS_DISSOLVE.uid}"/>`);
+  }
+  lines.push(
+    '  </resources>',
+    '  <library>',
+    '    <event name="motiva-compose">',
+    `      <project name="${escapeXml(timeline.name)}">`,
+    `        <sequence format="r1" duration="${time(timeline.duration)}" tcStart="0s" tcFormat="NDF" audioLayout="stereo" audioRate="48k">`,
+    '          <spine>'
+  );
+
+  for (const item of spine) {
+    const indent = '            ';
+    if (item.clip?.transitionIn) {
+      lines.push(
+        `${indent}<transition name="${CROSS_DISSOLVE.name}" offset="${time(item.offset)}" duration="${time(item.clip.transitionIn.duration)}">`,
+        `${indent}  <filter-video ref="${dissolveId}" name="${CROSS_DISSOLVE.name}"/>`,
+        `${indent}</transition>`
+      );
+    }
+    const open = item.clip
+      ? clipElement(item.clip, item.offset)
+      : `<gap name="Gap" offset="${time(item.offset)}" start="${time(item.start)}" duration="${time(item.duration)}"`;
+    if (item.connected.length === 0) {
+      lines.push(`${indent}${open}/>`);
+      continue;
+    }
+    lines.push(`${indent}${open}>`);
+    for (const { lane, clip } of item.connected) {
+      lines.push(`${indent}  ${clipElement(clip, item.start + clip.recordStart - item.offset, lane)}/>`);
+    }
+    lines.push(`${indent}</${item.clip ? 'asset-clip' : 'gap'}>`);
+  }
+
+  lines.push('          </spine>', '        </sequence>', '      </project>', '    </event>', '  </library>', '</fcpxml>', '');
+  return { content: lines.join('\n'), warnings };
+}
+
+/**
+ * FCPXML を編集タイムラインとして読み込み（本ツールが出力する構造に対応）
+ * トランジションはすべて crossfade として読み込みます
+ */
+export function parseFcpxml(content: string): EditTimeline {
+  const root = parseXml(content);
+  if (root.name !== 'fcpxml') {
+    throw new Error('FCPXML のルート要素がありません');
+  }
+
+  const resources = findElement(root, 'resources');
+  const sequence = findElement(root, 'sequence');
+  const spine = sequence && findElement(sequence, 'spine');
+  if (!resources || !sequence || !spine) {
+    throw new Error('FCPXML に resources / sequence / spine がありません');
+  }
+
+  const format = resources.children.find(child => child.name === 'format' && child.attributes.id === sequence.attributes.format);
+  const frameDuration = parseTime(format?.attributes.frameDuration);
+  if (!format || !frameDuration) {
+    throw new Error('FCPXML からフレームレートを判別できません');
+  }
+  const fps = Math.round(1 / frameDuration);
+  const frames = (value: string | undefined) => Math.round((parseTime(value) ?? 0) * fps);
+
+  const assets = new Map(resources.children
+    .filter(child => child.name === 'asset')
+    .map(asset => {
+      const src = asset.children.find(child => child.name === 'media-rep')?.attributes.src ?? asset.attributes.src;
+      return [asset.attributes.id ?? '', { assetId: asset.attributes.uid ?? asset.attributes.name ?? '', src }] as const;
+    }));
+
+  const toClip = (element: XmlElement, recordStart: number): EditClip => {
+    const asset = assets.get(element.attributes.ref ?? '');
+    const clip: EditClip = {
+      name: element.attributes.name ?? '',
+      assetId: asset?.assetId ?? element.attributes.ref ?? '',
+      recordStart,
+      duration: frames(element.attributes.duration),
+      sourceStart: frames(element.attributes.start)
+    };
+    if (asset?.src && /^[a-z][a-z0-9+.-]*:\/\//i.test(asset.src)) clip.mediaUrl = asset.src;
+    return clip;
+  };
+
+  const videoTracks: EditClip[][] = [[]];
+  const audioTracks: EditClip[][] = [];
+  let pendingTransition: EditClip['transitionIn'];
+
+  for (const item of spine.children) {
+    if (item.name === 'transition') {
+      pendingTransition = { type: 'crossfade', duration: frames(item.attributes.duration) };
+      continue;
+    }
+    if (item.name !== 'asset-clip' && item.name !== 'clip' && item.name !== 'gap') continue;
+
+    const offset = frames(item.attributes.offset);
+    const start = frames(item.attributes.start);
+    if (item.name !== 'gap') {
+      const clip = toClip(item, offset);
+      if (pendingTransition) clip.transitionIn = pendingTransition;
+      videoTracks[0]!.push(clip);
+    }
+    pendingTransition = undefined;
+
+    for (const child of item.children) {
+      if (child.name !== 'asset-clip' || child.attributes.lane === undefined) continue;
+      const lane = Number(child.attributes.lane);
+      const clip = toClip(child, offset + frames(child.attributes.offset) - start);
+      const tracks = lane > 0 ? videoTracks : audioTracks;
+      const index = lane > 0 ? lane : -lane - 1;
+      while (tracks.length <= index) tracks.push([]);
+      tracks[index]!.push(clip);
+    }
+  }
+
+  const toTracks = (kind: EditTrack['kind'], clipsByTrack: EditClip[][]): EditTrack[] => clipsByTrack
+    .filter(clips => clips.length > 0)
+    .map(clips => ({ kind, clips: clips.sort((a, b) => a.recordStart - b.recordStart) }));
+
+  return {
+    name: findElement(root, 'project')?.attributes.name ?? '',
+    fps,
+    duration: frames(sequence.attributes.duration),
+    size: { w: Number(format.attributes.width ?? DEFAULT_SIZE.w), h: Number(format.attributes.height ?? DEFAULT_SIZE.h) },
+    tracks: [...toTracks('video', videoTracks), ...toTracks('audio', audioTracks)]
+  };
+}
+
+/**
+ * V1 のクリップとギャップで基本ストーリーラインを作成（タイムライン全体を覆う）
+ */
+function buildSpine(clips: EditClip[], duration: number): SpineItem[] {
+  const spine: SpineItem[] = [];
+  let cursor = 0;
+  const gap = (end: number) => {
+    spine.push({ offset: cursor, start: cursor, duration: end - cursor, connected: [] });
+  };
+  for (const clip of clips) {
+    if (clip.recordStart > cursor) gap(clip.recordStart);
+    spine.push({ offset: clip.recordStart, start: clip.sourceStart, duration: clip.duration, clip, connected: [] });
+    cursor = clip.recordStart + clip.duration;
+  }
+  if (cursor < duration || spine.length === 0) gap(Math.max(duration, cursor + 1));
+  return spine;
+}
+
+// FCPXML の時間表記（"0s", "5s", "120/30s", "1001/30000s"）を秒に変換
+function parseTime(value: string | undefined): number | undefined {
+  const match = value && /^(\d+)(?:\/(\d+))?s$/.exec(value);
+  if (!match) return undefined;
+  return Number(match[1]) / Number(match[2] ?? 1);
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function unescapeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function findElement(element: XmlElement, name: string): XmlElement | undefined {
+  for (const child of element.children) {
+    if (child.name === name) return child;
+    const found = findElement(child, name);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+/**
+ * 要素と属性のみを読む最小限の XML パーサー（テキストノードは無視）
+ */
+function parseXml(content: string): XmlElement {
+  const document: XmlElement = { name: '#document', attributes: {}, children: [] };
+  const stack: XmlElement[] = [document];
+  const tagPattern = /<(\/?)([A-Za-z_][\w.:-]*)((?:\s+[\w.:-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|<!--[\s\S]*?-->|<[?!][^>]*>/g;
+
+  for (const match of content.matchAll(tagPattern)) {
+    const [, closing, name, attributeText, selfClosing] = match;
+    if (!name) continue; // 宣言・コメント
+    if (closing) {
+      if (stack.length <= 1 || stack[stack.length - 1]!.name !== name) {
+        throw new Error(`XML の終了タグが対応していません: </${name}>`);
+      }
+      stack.pop();
+      continue;
+    }
+
+    const attributes: Record<string, string> = {};
+    for (const attribute of (attributeText ?? '').matchAll(/([\w.:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+      attributes[attribute[1]!] = unescapeXml(attribute[2] ?? attribute[3] ?? '');
+    }
+    const element: XmlElement = { name, attributes, children: [] };
+    stack[stack.length - 1]!.children.push(element);
+    if (!selfClosing) stack.push(element);
+  }
+
+  if (stack.length !== 1) {
+    throw new Error(`XML の要素が閉じられていません: <${stack[stack.length - 1]!.name}>`);
+  }
+  const root = document.children[0];
+  if (!root) {
+    throw new Error('XML に要素がありません');
+  }
+  return root;
+}
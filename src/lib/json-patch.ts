@@ -0,0 +1,271 @@
+import { JsonPatch, JsonPatchOperation } from '../schemas/index.js';
+
+/**
+ * JSON Patch の適用エラー（何番目の操作で失敗したかを保持）
+ */
+export class JsonPatchError extends Error {
+  constructor(message: string, public readonly operationIndex: number, public readonly operation: JsonPatchOperation) {
+    super(`JSON Patch の適用に失敗 (#${operationIndex} ${operation.op} ${operation.path}): ${message}`);
+    this.name = 'JsonPatchError';
+  }
+}
+
+export interface JsonPatchResult<T> {
+  document: T;
+  inverse: JsonPatch; // 適用後の文書に適用すると元の文書に戻るパッチ
+}
+
+type Container = Record<string, unknown> | unknown[];
+
+const ARRAY_INDEX_PATTERN = /^(0|[1-9][0-9]*)$/;
+
+/**
+ * JSON Pointer（RFC 6901）をトークン列に分解
+ */
+export function parsePointer(pointer: string): string[] {
+  if (pointer === '') return [];
+  if (!pointer.startsWith('/')) {
+    throw new Error(`JSON Pointer は "/" で始まる必要があります: ${pointer}`);
+  }
+  return pointer.slice(1).split('/').map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+/**
+ * トークン列を JSON Pointer に変換
+ */
+export function toPointer(tokens: string[]): string {
+  return tokens.map(token => `/${token.replace(/~/g, '~0').replace(/\//g, '~1')}`).join('');
+}
+
+/**
+ * JSON Patch（RFC 6902）を適用
+ * 元の文書は変更せず、全操作が成功した場合のみ適用後の文書と逆パッチを返します（途中で失敗した場合は JsonPatchError）
+ */
+export function applyJsonPatch<T>(document: T, patch: JsonPatch): JsonPatchResult<T> {
+  const state = { root: structuredClone(document) as unknown };
+  const inverse: JsonPatch = [];
+
+  patch.forEach((operation, index) => {
+    try {
+      inverse.unshift(...applyOperation(state, operation));
+    } catch (error) {
+      throw new JsonPatchError(error instanceof Error ? error.message : String(error), index, operation);
+    }
+  });
+
+  return { document: state.root as T, inverse };
+}
+
+/**
+ * 2つの文書の差分を JSON Patch（RFC 6902）として生成
+ * before に適用すると after になります。配列は同じ位置の要素どうしを比較し、増減は末尾の追加・削除として表します
+ */
+export function createJsonPatch(before: unknown, after: unknown): JsonPatch {
+  const patch: JsonPatch = [];
+  diffValue(before, after, [], patch);
+  return patch;
+}
+
+function diffValue(before: unknown, after: unknown, path: string[], patch: JsonPatch): void {
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const common = Math.min(before.length, after.length);
+    for (let index = 0; index < common; index++) {
+      diffValue(before[index], after[index], [...path, String(index)], patch);
+    }
+    for (let index = before.length - 1; index >= common; index--) {
+      patch.push({ op: 'remove', path: toPointer([...path, String(index)]) });
+    }
+    for (let index = common; index < after.length; index++) {
+      patch.push({ op: 'add', path: toPointer([...path, String(index)]), value: structuredClone(after[index]) });
+    }
+    return;
+  }
+
+  if (isObject(before) && isObject(after)) {
+    for (const key of Object.keys(before)) {
+      if (!Object.prototype.hasOwnProperty.call(after, key)) {
+        patch.push({ op: 'remove', path: toPointer([...path, key]) });
+      }
+    }
+    for (const [key, value] of Object.entries(after)) {
+      if (Object.prototype.hasOwnProperty.call(before, key)) {
+        diffValue(before[key], value, [...path, key], patch);
+      } else {
+        patch.push({ op: 'add', path: toPointer([...path, key]), value: structuredClone(value) });
+      }
+    }
+    return;
+  }
+
+  if (!deepEqual(before, after)) {
+    patch.push({ op: 'replace', path: toPointer(path), value: structuredClone(after) });
+  }
+}
+
+/**
+ * 1操作を適用し、その逆操作（適用順）を返す
+ */
+function applyOperation(state: { root: unknown }, operation: JsonPatchOperation): JsonPatch {
+  const path = parsePointer(operation.path);
+
+  switch (operation.op) {
+    case 'add':
+      return add(state, path, structuredClone(requireValue(operation)));
+    case 'remove':
+      return remove(state, path);
+    case 'replace': {
+      const previous = getValue(state.root, path);
+      setValue(state, path, structuredClone(requireValue(operation)));
+      return [{ op: 'replace', path: toPointer(path), value: previous }];
+    }
+    case 'move': {
+      const from = parsePointer(requireFrom(operation));
+      if (path.length > from.length && toPointer(path.slice(0, from.length)) === toPointer(from)) {
+        throw new Error('値を自身の子孫へ移動することはできません');
+      }
+      const value = getValue(state.root, from);
+      const undoRemove = remove(state, from);
+      const undoAdd = add(state, path, value);
+      return [...undoAdd, ...undoRemove];
+    }
+    case 'copy': {
+      const value = getValue(state.root, parsePointer(requireFrom(operation)));
+      return add(state, path, structuredClone(value));
+    }
+    case 'test': {
+      const actual = getValue(state.root, path);
+      if (!deepEqual(actual, operation.value)) {
+        throw new Error(`値が一致しません: ${JSON.stringify(actual)} !== ${JSON.stringify(operation.value)}`);
+      }
+      return [];
+    }
+  }
+}
+
+function add(state: { root: unknown }, path: string[], value: unknown): JsonPatch {
+  if (path.length === 0) {
+    const previous = state.root;
+    state.root = value;
+    return [{ op: 'replace', path: '', value: previous }];
+  }
+
+  const parent = getContainer(state.root, path.slice(0, -1));
+  const token = path[path.length - 1]!;
+
+  if (Array.isArray(parent)) {
+    const index = token === '-' ? parent.length : parseArrayIndex(token, parent.length + 1);
+    parent.splice(index, 0, value);
+    return [{ op: 'remove', path: toPointer([...path.slice(0, -1), String(index)]) }];
+  }
+
+  const existed = Object.prototype.hasOwnProperty.call(parent, token);
+  const previous = parent[token];
+  parent[token] = value;
+  return existed
+    ? [{ op: 'replace', path: toPointer(path), value: previous }]
+    : [{ op: 'remove', path: toPointer(path) }];
+}
+
+function remove(state: { root: unknown }, path: string[]): JsonPatch {
+  if (path.length === 0) {
+    throw new Error('文書全体は削除できません');
+  }
+
+  const parent = getContainer(state.root, path.slice(0, -1));
+  const token = path[path.length - 1]!;
+
+  if (Array.isArray(parent)) {
+    const index = parseArrayIndex(token, parent.length);
+    const [previous] = parent.splice(index, 1);
+    return [{ op: 'add', path: toPointer(path), value: previous }];
+  }
+
+  if (!Object.prototype.hasOwnProperty.call(parent, token)) {
+    throw new Error(`パスが存在しません: ${toPointer(path)}`);
+  }
+  const previous = parent[token];
+  delete parent[token];
+  return [{ op: 'add', path: toPointer(path), value: previous }];
+}
+
+function setValue(state: { root: unknown }, path: string[], value: unknown): void {
+  if (path.length === 0) {
+    state.root = value;
+    return;
+  }
+
+  const parent = getContainer(state.root, path.slice(0, -1));
+  const token = path[path.length - 1]!;
+  if (Array.isArray(parent)) {
+    parent[parseArrayIndex(token, parent.length)] = value;
+  } else {
+    parent[token] = value;
+  }
+}
+
+function getValue(root: unknown, path: string[]): unknown {
+  let current = root;
+  for (const [depth, token] of path.entries()) {
+    if (Array.isArray(current)) {
+      current = current[parseArrayIndex(token, current.length)];
+    } else if (isObject(current) && Object.prototype.hasOwnProperty.call(current, token)) {
+      current = current[token];
+    } else {
+      throw new Error(`パスが存在しません: ${toPointer(path.slice(0, depth + 1))}`);
+    }
+  }
+  return current;
+}
+
+function getContainer(root: unknown, path: string[]): Container {
+  const container = getValue(root, path);
+  if (!Array.isArray(container) && !isObject(container)) {
+    throw new Error(`オブジェクトまたは配列ではありません: ${toPointer(path)}`);
+  }
+  return container;
+}
+
+/**
+ * 配列インデックスを検証（upperBound は含まない）
+ */
+function parseArrayIndex(token: string, upperBound: number): number {
+  if (!ARRAY_INDEX_PATTERN.test(token)) {
+    throw new Error(`配列インデックスが不正です: ${token}`);
+  }
+  const index = Number(token);
+  if (index >= upperBound) {
+    throw new Error(`配列インデックスが範囲外です: ${token}`);
+  }
+  return index;
+}
+
+function requireValue(operation: JsonPatchOperation): unknown {
+  if (!('value' in operation) || operation.value === undefined) {
+    throw new Error('value が指定されていません');
+  }
+  return operation.value;
+}
+
+function requireFrom(operation: JsonPatchOperation): string {
+  if (operation.from === undefined) {
+    throw new Error('from が指定されていません');
+  }
+  return operation.from;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => deepEqual(item, b[index]));
+  }
+  if (isObject(a) && isObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length &&
+      keys.every(key => Object.prototype.hasOwnProperty.call(b, key) && deepEqual(a[key], b[key]));
+  }
+  return false;
+}
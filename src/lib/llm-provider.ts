@@ -1,5 +1,12 @@
 import { z } from 'zod';
 import { OpenAIWrapper } from './openai.js';
+import { AnthropicWrapper, AnthropicWrapperOptions } from './anthropic.js';
+import { OpenAICompatibleWrapper } from './openai-compatible.js';
+import { ErrorClassifier } from './error-classifier.js';
+import { Cassette, RecordingLLMProvider, ReplayLLMProvider, MisconfiguredCassetteProvider } from './cassette-provider.js';
+import { pricingRegistry, RequestCostEstimate } from './pricing.js';
+import { ConfigurationManager } from './config-manager.js';
+import { CachingLLMProvider, LLMCacheSettings } from './caching-provider.js';
 import chalk from 'chalk';
 import dotenv from 'dotenv';
 
@@ -13,17 +20,29 @@ export interface LLMRequest {
   temperature?: number;
   maxTokens?: number;
   responseFormat?: 'json_object' | 'text';
+  schemaName?: string; // 構造化出力で使用するスキーマ名（Schema Registryの登録名）
+  signal?: AbortSignal; // 中断されると送信中のリクエストを取り消す
 }
 
 export interface LLMResponse<T> {
   data: T;
   tokensUsed: number;
+  promptTokens?: number; // 内訳が取得できない場合は未設定
+  completionTokens?: number;
   costUSD: number;
   provider: string;
   model: string;
   duration: number;
+  cached?: boolean; // キャッシュから返した場合（トークン・コストは0）
 }
 
+/**
+ * プロバイダー指定
+ * "openai:gpt-4o"（プロバイダー:モデル）、"mock"（プロバイダーのみ）、"gpt-4o"（モデルのみ）のいずれか。
+ * 配列の場合は先頭から順に試行するフォールバックチェーンとして扱います
+ */
+export type ProviderSpec = string | string[];
+
 export interface LLMProvider {
   name: string;
   generateJSON<T>(
@@ -57,11 +76,12 @@ export class OpenAIProvider implements LLMProvider {
     schema: z.ZodSchema<T>
   ): Promise<LLMResponse<T>> {
     const startTime = Date.now();
-    const response = await this.wrapper.generateJSON(request, schema);
+    const response = await this.wrapper.generateJSON(request, schema, request.schemaName);
     const duration = Date.now() - startTime;
 
     return {
       ...response,
+      costUSD: pricingRegistry.calculateCost(this.name, request.model, response),
       provider: this.name,
       model: request.model,
       duration
@@ -78,7 +98,9 @@ export class OpenAIProvider implements LLMProvider {
     return {
       data: response.data,
       tokensUsed: response.tokensUsed,
-      costUSD: response.costUSD,
+      promptTokens: response.promptTokens,
+      completionTokens: response.completionTokens,
+      costUSD: pricingRegistry.calculateCost(this.name, request.model, response),
       provider: this.name,
       model: request.model,
       duration
@@ -102,85 +124,217 @@ export class OpenAIProvider implements LLMProvider {
 }
 
 /**
- * Anthropicプロバイダー実装（将来実装）
+ * Anthropicプロバイダー実装
+ * Messages APIのツール使用でスキーマ準拠のJSONを生成します
  */
 export class AnthropicProvider implements LLMProvider {
   name = 'anthropic';
+  private wrapper: AnthropicWrapper;
+
+  constructor(options: AnthropicWrapperOptions = {}) {
+    this.wrapper = new AnthropicWrapper(options);
+  }
 
   async generateJSON<T>(
     request: LLMRequest,
     schema: z.ZodSchema<T>
   ): Promise<LLMResponse<T>> {
-    throw new Error('Anthropic provider not yet implemented');
+    const startTime = Date.now();
+    const response = await this.wrapper.generateJSON(request, schema, request.schemaName);
+    const duration = Date.now() - startTime;
+
+    return {
+      ...response,
+      costUSD: pricingRegistry.calculateCost(this.name, request.model, response),
+      provider: this.name,
+      model: request.model,
+      duration
+    };
   }
 
   async generateText(request: LLMRequest): Promise<LLMResponse<string>> {
-    throw new Error('Anthropic provider not yet implemented');
+    const startTime = Date.now();
+    const response = await this.wrapper.generateText(request);
+    const duration = Date.now() - startTime;
+
+    return {
+      ...response,
+      costUSD: pricingRegistry.calculateCost(this.name, request.model, response),
+      provider: this.name,
+      model: request.model,
+      duration
+    };
   }
 
   isAvailable(): boolean {
-    return !!process.env.ANTHROPIC_API_KEY;
+    return this.wrapper.hasApiKey();
   }
 
   getSupportedModels(): string[] {
-    return ['claude-3-opus', 'claude-3-sonnet', 'claude-3-haiku'];
+    return [
+      'claude-sonnet-4-20250514',
+      'claude-opus-4-20250514',
+      'claude-3-7-sonnet-latest',
+      'claude-3-5-sonnet-latest',
+      'claude-3-5-haiku-latest',
+      'claude-3-5-sonnet',
+      'claude-3-5-haiku',
+      'claude-3-opus',
+      'claude-3-sonnet',
+      'claude-3-haiku'
+    ];
   }
 }
 
+export interface OpenAICompatibleProviderConfig {
+  name: string;
+  label: string;
+  baseURL?: string; // 未設定の場合は利用不可
+  apiKeyEnv?: string; // 指定した場合、その環境変数が設定されている時のみ利用可能
+  models: string[];
+  structuredOutputs?: boolean;
+}
+
 /**
- * Groqプロバイダー実装（将来実装）
+ * OpenAI互換プロバイダー実装
+ * Chat Completions API互換のバックエンド（Groq, Mistral, Ollama, vLLM等）を baseURL・APIキー・モデル一覧で構成します
  */
-export class GroqProvider implements LLMProvider {
-  name = 'groq';
+export class OpenAICompatibleProvider implements LLMProvider {
+  name: string;
+  private config: OpenAICompatibleProviderConfig;
+  private wrapper: OpenAICompatibleWrapper | null = null;
+
+  constructor(config: OpenAICompatibleProviderConfig) {
+    this.name = config.name;
+    this.config = config;
+  }
 
   async generateJSON<T>(
     request: LLMRequest,
     schema: z.ZodSchema<T>
   ): Promise<LLMResponse<T>> {
-    throw new Error('Groq provider not yet implemented');
+    const startTime = Date.now();
+    const response = await this.getWrapper().generateJSON(request, schema, request.schemaName);
+    const duration = Date.now() - startTime;
+
+    return {
+      ...response,
+      costUSD: pricingRegistry.calculateCost(this.name, request.model, response),
+      provider: this.name,
+      model: request.model,
+      duration
+    };
   }
 
   async generateText(request: LLMRequest): Promise<LLMResponse<string>> {
-    throw new Error('Groq provider not yet implemented');
+    const startTime = Date.now();
+    const response = await this.getWrapper().generateText(request);
+    const duration = Date.now() - startTime;
+
+    return {
+      ...response,
+      costUSD: pricingRegistry.calculateCost(this.name, request.model, response),
+      provider: this.name,
+      model: request.model,
+      duration
+    };
   }
 
   isAvailable(): boolean {
-    return !!process.env.GROQ_API_KEY;
+    if (!this.config.baseURL || this.config.models.length === 0) {
+      return false;
+    }
+    return !this.config.apiKeyEnv || !!process.env[this.config.apiKeyEnv];
   }
 
   getSupportedModels(): string[] {
-    return ['llama3-8b-8192', 'llama3-70b-8192', 'mixtral-8x7b-32768'];
+    return this.config.models;
+  }
+
+  private getWrapper(): OpenAICompatibleWrapper {
+    if (!this.isAvailable()) {
+      throw new Error(`プロバイダーが利用できません: ${this.name} (baseURL・APIキーの設定を確認してください)`);
+    }
+
+    this.wrapper ??= new OpenAICompatibleWrapper({
+      label: this.config.label,
+      baseURL: this.config.baseURL!,
+      apiKey: this.config.apiKeyEnv ? process.env[this.config.apiKeyEnv] : undefined,
+      structuredOutputs: this.config.structuredOutputs
+    });
+    return this.wrapper;
   }
 }
 
 /**
- * Self-hosted Mistralプロバイダー実装（将来実装）
+ * 環境変数のカンマ区切りモデル一覧を取得（未設定の場合はデフォルト）
  */
-export class SelfHostedMistralProvider implements LLMProvider {
-  name = 'self-hosted-mistral';
-  private baseUrl: string;
-
-  constructor(baseUrl: string) {
-    this.baseUrl = baseUrl;
+function modelsFromEnv(envName: string, defaults: string[]): string[] {
+  const value = process.env[envName];
+  if (!value) {
+    return defaults;
   }
+  return value.split(',').map(model => model.trim()).filter(Boolean);
+}
 
-  async generateJSON<T>(
-    request: LLMRequest,
-    schema: z.ZodSchema<T>
-  ): Promise<LLMResponse<T>> {
-    throw new Error('Self-hosted Mistral provider not yet implemented');
+/**
+ * Groqプロバイダー実装
+ */
+export class GroqProvider extends OpenAICompatibleProvider {
+  constructor() {
+    super({
+      name: 'groq',
+      label: 'Groq',
+      baseURL: process.env.GROQ_BASE_URL || 'https://api.groq.com/openai/v1',
+      apiKeyEnv: 'GROQ_API_KEY',
+      models: modelsFromEnv('GROQ_MODELS', ['llama3-8b-8192', 'llama3-70b-8192', 'mixtral-8x7b-32768'])
+    });
   }
+}
 
-  async generateText(request: LLMRequest): Promise<LLMResponse<string>> {
-    throw new Error('Self-hosted Mistral provider not yet implemented');
+/**
+ * Self-hosted Mistralプロバイダー実装
+ */
+export class SelfHostedMistralProvider extends OpenAICompatibleProvider {
+  constructor(baseUrl: string | undefined = process.env.MISTRAL_BASE_URL) {
+    super({
+      name: 'self-hosted-mistral',
+      label: 'Self-hosted Mistral',
+      baseURL: baseUrl,
+      models: modelsFromEnv('MISTRAL_MODELS', ['mistral-7b-instruct', 'mistral-large', 'mixtral-8x7b']),
+      structuredOutputs: process.env.MISTRAL_STRUCTURED_OUTPUTS === 'true'
+    });
   }
+}
 
-  isAvailable(): boolean {
-    return true; // 常に利用可能（設定依存）
+/**
+ * Ollamaプロバイダー実装
+ */
+export class OllamaProvider extends OpenAICompatibleProvider {
+  constructor(baseUrl: string | undefined = process.env.OLLAMA_BASE_URL) {
+    super({
+      name: 'ollama',
+      label: 'Ollama',
+      baseURL: baseUrl,
+      models: modelsFromEnv('OLLAMA_MODELS', ['llama3.1', 'mistral', 'qwen2.5']),
+      structuredOutputs: true
+    });
   }
+}
 
-  getSupportedModels(): string[] {
-    return ['mistral-7b-instruct', 'mistral-large', 'mixtral-8x7b'];
+/**
+ * vLLMプロバイダー実装
+ * サーブするモデルは環境により異なるため VLLM_MODELS で指定します
+ */
+export class VLLMProvider extends OpenAICompatibleProvider {
+  constructor(baseUrl: string | undefined = process.env.VLLM_BASE_URL) {
+    super({
+      name: 'vllm',
+      label: 'vLLM',
+      baseURL: baseUrl,
+      models: modelsFromEnv('VLLM_MODELS', []),
+      structuredOutputs: true
+    });
   }
 }
 
@@ -190,50 +344,85 @@ export class SelfHostedMistralProvider implements LLMProvider {
 export class LLMProviderManager {
   private providers: Map<string, LLMProvider> = new Map();
   private defaultProvider: string = 'openai';
+  private cassetteMode: { mode: 'record' | 'replay'; cassette: Cassette } | { mode: 'invalid'; error: Error } | null;
 
   constructor() {
+    this.cassetteMode = this.resolveCassetteMode();
     this.registerDefaultProviders().catch(error => {
       console.error(chalk.red('❌ プロバイダー登録エラー:'), error);
     });
   }
 
+  /**
+   * 環境変数から記録・再生モードを決定
+   * MOTIVA_LLM_MODE=record|replay と MOTIVA_LLM_CASSETTE=<ファイル> で有効化します
+   * 設定が不正な場合はここでは例外にせず、LLM を呼び出した時点でエラーにします
+   */
+  private resolveCassetteMode(): { mode: 'record' | 'replay'; cassette: Cassette } | { mode: 'invalid'; error: Error } | null {
+    const mode = process.env.MOTIVA_LLM_MODE;
+    if (!mode) {
+      return null;
+    }
+    if (mode !== 'record' && mode !== 'replay') {
+      return { mode: 'invalid', error: new Error(`MOTIVA_LLM_MODE の値が不正です: ${mode} (record または replay を指定してください)`) };
+    }
+
+    const cassettePath = process.env.MOTIVA_LLM_CASSETTE;
+    if (!cassettePath) {
+      return { mode: 'invalid', error: new Error(`MOTIVA_LLM_MODE=${mode} には MOTIVA_LLM_CASSETTE でカセットファイルを指定してください`) };
+    }
+
+    console.log(chalk.cyan(`📼 LLM呼び出しを${mode === 'record' ? '記録' : '再生'}します: ${cassettePath}`));
+    return { mode, cassette: new Cassette(cassettePath) };
+  }
+
+  /**
+   * プロバイダーを登録（記録・再生モードの場合はラップする）
+   */
+  private setProvider(name: string, provider: LLMProvider): void {
+    if (this.cassetteMode?.mode === 'record') {
+      provider = new RecordingLLMProvider(provider, this.cassetteMode.cassette);
+    } else if (this.cassetteMode?.mode === 'replay') {
+      provider = new ReplayLLMProvider(provider.name, provider.getSupportedModels(), this.cassetteMode.cassette);
+    } else if (this.cassetteMode?.mode === 'invalid') {
+      provider = new MisconfiguredCassetteProvider(provider, this.cassetteMode.error);
+    }
+    this.providers.set(name, provider);
+  }
+
   private async registerDefaultProviders(): Promise<void> {
     // OpenAI（デフォルト）
     const openaiProvider = new OpenAIProvider();
-    this.providers.set('openai', openaiProvider);
+    this.setProvider('openai', openaiProvider);
 
     // Anthropic
     const anthropicProvider = new AnthropicProvider();
-    this.providers.set('anthropic', anthropicProvider);
+    this.setProvider('anthropic', anthropicProvider);
 
     // Mock Provider（テスト用）
     if (process.env.NODE_ENV === 'test' || !process.env.OPENAI_API_KEY) {
       try {
         const { MockLLMProvider } = await import('./mock-provider.js');
         const mockProvider = new MockLLMProvider();
-        this.providers.set('mock', mockProvider);
+        this.setProvider('mock', mockProvider);
         console.log(chalk.green('✅ モックプロバイダーを登録しました'));
       } catch (error) {
         console.log(chalk.yellow('⚠️  モックプロバイダーの読み込みに失敗'));
       }
     }
 
-    // Groq
-    const groqProvider = new GroqProvider();
-    this.providers.set('groq', groqProvider);
-
-    // Self-hosted Mistral（設定から）
-    if (process.env.MISTRAL_BASE_URL) {
-      const mistralProvider = new SelfHostedMistralProvider(process.env.MISTRAL_BASE_URL);
-      this.providers.set('self-hosted-mistral', mistralProvider);
-    }
+    // OpenAI互換プロバイダー（APIキー・baseURLが設定されている場合のみ利用可能）
+    this.setProvider('groq', new GroqProvider());
+    this.setProvider('self-hosted-mistral', new SelfHostedMistralProvider());
+    this.setProvider('ollama', new OllamaProvider());
+    this.setProvider('vllm', new VLLMProvider());
   }
 
   /**
    * プロバイダーを登録
    */
   registerProvider(name: string, provider: LLMProvider): void {
-    this.providers.set(name, provider);
+    this.setProvider(name, provider);
     console.log(chalk.green(`✅ LLMプロバイダー登録: ${name}`));
   }
 
@@ -272,8 +461,148 @@ export class LLMProviderManager {
       }
     }
 
-    // デフォルトプロバイダーを返す
-    return this.getProvider();
+    throw new Error(`モデルに対応する利用可能なプロバイダーが見つかりません: ${model}`);
+  }
+
+  /**
+   * プロバイダー指定を解決
+   * モデルを含まない指定（"mock"等）ではリクエストのモデルをそのまま使用します
+   */
+  resolveProviderSpec(spec: string, defaultModel: string): { provider: LLMProvider; model: string } {
+    const prefixed = this.splitProviderPrefix(spec);
+    if (prefixed) {
+      return { provider: this.getProvider(prefixed.provider), model: prefixed.model };
+    }
+    if (this.providers.has(spec)) {
+      return { provider: this.getProvider(spec), model: defaultModel };
+    }
+    return { provider: this.getProviderForModel(spec), model: spec };
+  }
+
+  /**
+   * フォールバックチェーンに従ってJSONを生成
+   * リトライ可能なエラー（ネットワーク・API制限・タイムアウト）の場合のみ次のプロバイダーを試行し、
+   * 実際に応答したプロバイダーとモデルをレスポンスに記録します。cache を指定した場合は各プロバイダーの呼び出しをキャッシュします
+   */
+  async generateJSONWithFallback<T>(
+    spec: ProviderSpec,
+    request: LLMRequest,
+    schema: z.ZodSchema<T>,
+    options: { cache?: LLMCacheSettings } = {}
+  ): Promise<LLMResponse<T>> {
+    const chain = Array.isArray(spec) ? spec : [spec];
+    if (chain.length === 0) {
+      throw new Error('プロバイダー指定が空です');
+    }
+
+    for (let index = 0; index < chain.length; index++) {
+      const entry = chain[index]!;
+      const isLast = index === chain.length - 1;
+
+      let route: { provider: LLMProvider; model: string };
+      try {
+        route = this.resolveProviderSpec(entry, request.model);
+      } catch (error) {
+        // 設定ミスは隠さず、チェーンの最後であればそのまま報告する
+        if (isLast) throw error;
+        console.log(chalk.yellow(`⚠️  ${entry} をスキップ: ${error instanceof Error ? error.message : error}`));
+        continue;
+      }
+
+      const provider = options.cache ? new CachingLLMProvider(route.provider, options.cache) : route.provider;
+      try {
+        const response = await provider.generateJSON({ ...request, model: route.model }, schema);
+        return { ...response, provider: route.provider.name, model: route.model };
+      } catch (error) {
+        const errorInfo = ErrorClassifier.classify(error);
+        if (isLast || !errorInfo.retryable) {
+          throw error;
+        }
+        console.log(chalk.yellow(`⚠️  ${route.provider.name}:${route.model} が失敗 (${errorInfo.type})。次のプロバイダーにフォールバック: ${chain[index + 1]}`));
+      }
+    }
+
+    throw new Error('プロバイダー指定が空です');
+  }
+
+  /**
+   * キャッシュ済みのレスポンスを取得（プロバイダーは呼び出さない）
+   * フォールバックチェーンの経路を順に確認し（解決できない指定はスキップ）、最初に見つかったキャッシュを返します
+   */
+  async findCachedJSON<T>(
+    spec: ProviderSpec,
+    request: LLMRequest,
+    schema: z.ZodSchema<T>,
+    cache: LLMCacheSettings
+  ): Promise<LLMResponse<T> | undefined> {
+    for (const entry of Array.isArray(spec) ? spec : [spec]) {
+      let route: { provider: LLMProvider; model: string };
+      try {
+        route = this.resolveProviderSpec(entry, request.model);
+      } catch {
+        continue;
+      }
+
+      const cached = await new CachingLLMProvider(route.provider, cache)
+        .findCached({ ...request, model: route.model }, request.schemaName ?? 'response_schema', schema);
+      if (cached) {
+        return { ...cached, provider: route.provider.name, model: route.model };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * 実行前のコスト見積もり（価格は motiva.config.ts の pricing で上書き可能）
+   * フォールバックチェーンの場合は最も高価な経路で見積もります
+   */
+  async estimateCost(spec: ProviderSpec, request: LLMRequest): Promise<RequestCostEstimate> {
+    await ConfigurationManager.getInstance().loadConfig();
+
+    const chain = Array.isArray(spec) ? spec : [spec];
+    if (chain.length === 0) {
+      throw new Error('プロバイダー指定が空です');
+    }
+
+    const estimates = chain.map(entry => {
+      const route = this.describeSpecEntry(entry, request.model);
+      return pricingRegistry.estimate(route.provider, route.model, request);
+    });
+    return estimates.reduce((max, estimate) => estimate.costUSD > max.costUSD ? estimate : max);
+  }
+
+  /**
+   * プロバイダー指定（フォールバックチェーンの場合は先頭）で使用するモデル名を取得
+   * プロバイダー名のみの指定（"mock"等）の場合は defaultModel を返します
+   */
+  getSpecModel(spec: ProviderSpec, defaultModel: string): string {
+    const entry = Array.isArray(spec) ? spec[0] : spec;
+    return entry ? this.describeSpecEntry(entry, defaultModel).model : defaultModel;
+  }
+
+  /**
+   * プロバイダー指定からプロバイダー名とモデルを取得（利用可否は問わない）
+   */
+  private describeSpecEntry(entry: string, defaultModel: string): { provider: string; model: string } {
+    const prefixed = this.splitProviderPrefix(entry);
+    if (prefixed) {
+      return prefixed;
+    }
+    if (this.providers.has(entry)) {
+      return { provider: entry, model: defaultModel };
+    }
+    const provider = Array.from(this.providers.values()).find(p => p.getSupportedModels().includes(entry));
+    return { provider: provider?.name ?? '', model: entry };
+  }
+
+  /**
+   * "プロバイダー:モデル" 形式の指定を分解
+   * ":" の前が登録済みのプロバイダー名の場合のみ分解し、"llama3.1:8b" のようなモデル名はそのまま扱います
+   */
+  private splitProviderPrefix(entry: string): { provider: string; model: string } | undefined {
+    const separator = entry.indexOf(':');
+    const provider = entry.slice(0, separator);
+    return separator > 0 && this.providers.has(provider) ? { provider, model: entry.slice(separator + 1) } : undefined;
   }
 
   /**
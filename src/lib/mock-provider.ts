@@ -1,5 +1,6 @@
 import { z } from 'zod';
 import { LLMProvider, LLMRequest, LLMResponse } from './llm-provider.js';
+import { pricingRegistry, estimateTokens } from './pricing.js';
 
 /**
  * テスト用モックLLMプロバイダー
@@ -23,8 +24,7 @@ export class MockLLMProvider implements LLMProvider {
     
     return {
       data: validatedData,
-      tokensUsed: Math.ceil((request.systemPrompt.length + request.userInput.length) / 3),
-      costUSD: 0.001,
+      ...this.usageOf(request, JSON.stringify(validatedData)),
       provider: this.name,
       model: request.model,
       duration
@@ -41,8 +41,7 @@ export class MockLLMProvider implements LLMProvider {
     
     return {
       data: mockText,
-      tokensUsed: Math.ceil((request.systemPrompt.length + request.userInput.length) / 3),
-      costUSD: 0.001,
+      ...this.usageOf(request, mockText),
       provider: this.name,
       model: request.model,
       duration
@@ -57,6 +56,20 @@ export class MockLLMProvider implements LLMProvider {
     return ['gpt-4o-mini', 'gpt-4o', 'gpt-3.5-turbo'];
   }
 
+  /**
+   * 入出力の長さからトークン数を概算し、価格レジストリでコストを計算
+   */
+  private usageOf(request: LLMRequest, output: string): Pick<LLMResponse<unknown>, 'tokensUsed' | 'promptTokens' | 'completionTokens' | 'costUSD'> {
+    const promptTokens = estimateTokens(request.systemPrompt) + estimateTokens(request.userInput);
+    const completionTokens = estimateTokens(output);
+    return {
+      tokensUsed: promptTokens + completionTokens,
+      promptTokens,
+      completionTokens,
+      costUSD: pricingRegistry.calculateCost(this.name, request.model, { promptTokens, completionTokens })
+    };
+  }
+
   private generateMockData<T>(request: LLMRequest, schema: z.ZodSchema<T>): any {
     // リクエスト内容に基づいてモックデータを生成
     const userInput = request.userInput.toLowerCase();
@@ -70,6 +83,30 @@ export class MockLLMProvider implements LLMProvider {
       };
     }
     
+    if (userInput.includes('ナレーション・字幕')) {
+      // 字幕の下書きスキーマ（ショットプランのモックと同じショットID。入力の ShotPlan に captions が含まれ得るため固有の文言で判定）
+      return {
+        shots: [
+          {
+            shotId: "shot-001",
+            captions: [
+              { text: "遥か彼方、星々の海へ。", speaker: "ナレーター", start: 30, len: 120 }
+            ]
+          },
+          {
+            shotId: "shot-002",
+            captions: [
+              { text: "未知の惑星が、静かに待っていた。", speaker: "ナレーター", start: 30, len: 150 }
+            ]
+          },
+          {
+            shotId: "shot-003",
+            captions: []
+          }
+        ]
+      };
+    }
+
     if (userInput.includes('ショット') || userInput.includes('shot') || userInput.includes('プラン')) {
       // ショットプランスキーマ
       return {
@@ -0,0 +1,250 @@
+import OpenAI from 'openai';
+import { z } from 'zod';
+import chalk from 'chalk';
+import { SchemaRegistry } from './schema-registry.js';
+import { withRetryForErrorTypes } from './retry.js';
+import { ErrorType } from './error-classifier.js';
+
+export interface OpenAICompatibleRequest {
+  model: string;
+  systemPrompt: string;
+  userInput: string;
+  temperature?: number;
+  maxTokens?: number;
+  signal?: AbortSignal;
+}
+
+export interface OpenAICompatibleResponse<T> {
+  data: T;
+  tokensUsed: number;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface OpenAICompatibleOptions {
+  label: string; // ログ・エラーメッセージ用の表示名
+  baseURL: string;
+  apiKey?: string;
+  structuredOutputs?: boolean; // json_schema 形式の response_format に対応しているか
+}
+
+// 非オブジェクトスキーマをJSONオブジェクトとして扱うためのラッパーキー
+const WRAPPED_RESULT_KEY = 'result';
+
+/**
+ * OpenAI互換 Chat Completions API のラッパー
+ * Groq・Ollama・vLLM など baseURL を差し替えるだけで利用できるバックエンドを扱います
+ */
+export class OpenAICompatibleWrapper {
+  private client: OpenAI;
+  private label: string;
+  private structuredOutputs: boolean;
+  // json_schema を拒否されたモデル（以降はJSON modeを使用）
+  private jsonModeModels = new Set<string>();
+
+  constructor(options: OpenAICompatibleOptions) {
+    this.client = new OpenAI({
+      baseURL: options.baseURL,
+      // ローカル実行のバックエンドはキー不要だが、SDKは空文字を受け付けない
+      apiKey: options.apiKey || 'not-required',
+      maxRetries: 0
+    });
+    this.label = options.label;
+    this.structuredOutputs = options.structuredOutputs ?? false;
+  }
+
+  /**
+   * スキーマに沿ったJSONを生成
+   * Structured Outputs非対応のバックエンドでは JSON mode + Zod検証にフォールバックします
+   */
+  async generateJSON<T>(
+    request: OpenAICompatibleRequest,
+    schema: z.ZodSchema<T>,
+    schemaName: string = 'response_schema'
+  ): Promise<OpenAICompatibleResponse<T>> {
+    const { jsonSchema, wrapped } = this.buildJSONSchema(schema, schemaName);
+
+    if (this.structuredOutputs && !this.jsonModeModels.has(request.model)) {
+      try {
+        return await this.withRetry(() => this.useStructuredOutputs(request, schema, schemaName, jsonSchema, wrapped));
+      } catch (error: any) {
+        if (error?.status !== 400 || !/response_format|json_schema/i.test(error.message ?? '')) {
+          throw error;
+        }
+        console.log(chalk.yellow(`⚠️  ${this.label} (${request.model}) はStructured Outputsを受け付けませんでした。JSON modeにフォールバック`));
+        this.jsonModeModels.add(request.model);
+      }
+    }
+
+    return await this.withRetry(() => this.useJSONMode(request, schema, jsonSchema, wrapped));
+  }
+
+  /**
+   * テキストを生成
+   */
+  async generateText(request: OpenAICompatibleRequest): Promise<OpenAICompatibleResponse<string>> {
+    return await this.withRetry(async () => {
+      const response = await this.createCompletion(request, request.systemPrompt, undefined);
+      const content = response.choices[0]?.message?.content;
+      if (content === null || content === undefined) {
+        throw new Error(`${this.label} APIから有効な応答が得られませんでした`);
+      }
+      return { data: content, ...this.usageOf(response) };
+    });
+  }
+
+  private async useStructuredOutputs<T>(
+    request: OpenAICompatibleRequest,
+    schema: z.ZodSchema<T>,
+    schemaName: string,
+    jsonSchema: Record<string, unknown>,
+    wrapped: boolean
+  ): Promise<OpenAICompatibleResponse<T>> {
+    const response = await this.createCompletion(request, request.systemPrompt, {
+      type: 'json_schema',
+      json_schema: { name: schemaName, strict: true, schema: jsonSchema }
+    });
+    return this.parseAndValidate(response, schema, wrapped);
+  }
+
+  private async useJSONMode<T>(
+    request: OpenAICompatibleRequest,
+    schema: z.ZodSchema<T>,
+    jsonSchema: Record<string, unknown>,
+    wrapped: boolean
+  ): Promise<OpenAICompatibleResponse<T>> {
+    // JSON modeではスキーマが強制されないため、プロンプトでスキーマを明示する
+    const systemPrompt = [
+      request.systemPrompt,
+      'Respond only with a single JSON object that conforms to the following JSON Schema:',
+      JSON.stringify(jsonSchema)
+    ].join('\n\n');
+
+    const response = await this.createCompletion(request, systemPrompt, { type: 'json_object' });
+    return this.parseAndValidate(response, schema, wrapped);
+  }
+
+  private async createCompletion(
+    request: OpenAICompatibleRequest,
+    systemPrompt: string,
+    responseFormat: OpenAI.Chat.Completions.ChatCompletionCreateParams['response_format']
+  ): Promise<OpenAI.Chat.Completions.ChatCompletion> {
+    const { model, userInput, temperature = 0.7, maxTokens = 4096 } = request;
+
+    try {
+      return await this.client.chat.completions.create({
+        model,
+        messages: [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: userInput }
+        ],
+        temperature,
+        max_tokens: maxTokens,
+        ...(responseFormat ? { response_format: responseFormat } : {})
+      }, { signal: request.signal });
+    } catch (error) {
+      throw this.toApiError(error);
+    }
+  }
+
+  /**
+   * JSON Schemaを生成（response_format はobject型のみ受け付けるため、それ以外はラップする）
+   */
+  private buildJSONSchema(schema: z.ZodSchema, schemaName: string): { jsonSchema: Record<string, unknown>; wrapped: boolean } {
+    const registry = SchemaRegistry.getInstance();
+
+    if (!(schema instanceof z.ZodObject)) {
+      const jsonSchema = registry.generateJSONSchema(z.object({ [WRAPPED_RESULT_KEY]: schema }), {
+        name: schemaName,
+        description: `Wrapped schema for ${schemaName}`
+      }) as Record<string, unknown>;
+      return { jsonSchema, wrapped: true };
+    }
+
+    const jsonSchema = (registry.has(schemaName)
+      ? registry.get(schemaName).jsonSchema
+      : registry.generateJSONSchema(schema, { name: schemaName, description: `Generated schema for ${schemaName}` })) as Record<string, unknown>;
+    return { jsonSchema, wrapped: false };
+  }
+
+  private parseAndValidate<T>(
+    response: OpenAI.Chat.Completions.ChatCompletion,
+    schema: z.ZodSchema<T>,
+    wrapped: boolean
+  ): OpenAICompatibleResponse<T> {
+    const content = response.choices[0]?.message?.content;
+    if (!content) {
+      throw new Error(`${this.label} APIから有効な応答が得られませんでした`);
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch (error) {
+      throw new Error(`JSON解析エラー: ${error}`);
+    }
+
+    const raw = wrapped ? (parsed as Record<string, unknown> | null)?.[WRAPPED_RESULT_KEY] : parsed;
+    // strict モードでは省略可能な項目が null で返るため、検証前に取り除く
+    const result = schema.safeParse(SchemaRegistry.getInstance().removeOptionalNulls(schema, raw));
+    if (!result.success) {
+      console.error(chalk.red('Zod検証エラー:'), result.error.errors);
+      console.error(chalk.gray('受信データ:'), content);
+      const zodErr: any = new Error(`スキーマ検証エラー: ${result.error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')}`);
+      zodErr.data = raw;
+      throw zodErr;
+    }
+
+    return { data: result.data, ...this.usageOf(response) };
+  }
+
+  private usageOf(response: OpenAI.Chat.Completions.ChatCompletion): { tokensUsed: number; promptTokens: number; completionTokens: number } {
+    const promptTokens = response.usage?.prompt_tokens ?? 0;
+    const completionTokens = response.usage?.completion_tokens ?? 0;
+    return {
+      tokensUsed: response.usage?.total_tokens ?? promptTokens + completionTokens,
+      promptTokens,
+      completionTokens
+    };
+  }
+
+  private withRetry<T>(operation: () => Promise<T>): Promise<T> {
+    return withRetryForErrorTypes(
+      operation,
+      [ErrorType.API_LIMIT, ErrorType.TIMEOUT, ErrorType.NETWORK],
+      {
+        onRetry: (attempt, error) => {
+          console.log(chalk.yellow(`🔄 ${this.label} API リトライ ${attempt}: ${error.message}`));
+        }
+      }
+    );
+  }
+
+  private toApiError(error: any): Error {
+    if (!(error instanceof OpenAI.APIError) || error.status === undefined) {
+      return error instanceof OpenAI.APIConnectionError
+        ? new Error(`${this.label} への接続に失敗しました (network): ${error.message}`)
+        : error;
+    }
+
+    const apiError: any = new Error(this.formatErrorMessage(error.status, error.message));
+    apiError.status = error.status;
+    return apiError;
+  }
+
+  private formatErrorMessage(status: number, message: string): string {
+    switch (status) {
+      case 401:
+        return `API認証エラー: ${this.label} のAPIキーを確認してください`;
+      case 404:
+        return `モデルエラー: ${this.label} で指定されたモデルが見つかりません (${message})`;
+      case 429:
+        return `レート制限エラー (rate limit): ${message}`;
+      default:
+        if (status >= 500) {
+          return `${this.label} APIサーバーエラー (${status}): ${message}`;
+        }
+        return `リクエストエラー (${status}): ${message}`;
+    }
+  }
+}
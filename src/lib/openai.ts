@@ -11,270 +11,18 @@ export interface LLMRequest {
   userInput: string;
   temperature?: number;
   maxTokens?: number;
+  signal?: AbortSignal;
 }
 
 export interface LLMResponse<T> {
   data: T;
   tokensUsed: number;
-  costUSD: number;
+  promptTokens: number;
+  completionTokens: number;
 }
 
-// JSON Schema for ShotPlan - manually defined for Structured Outputs
-const SHOT_PLAN_JSON_SCHEMA = {
-  type: "object",
-  properties: {
-    sceneId: {
-      type: "string",
-      description: "Unique identifier for the scene"
-    },
-    duration: {
-      type: "number",
-      description: "Total duration in frames"
-    },
-    theme: {
-      type: "string", 
-      description: "Theme of the video"
-    },
-    shots: {
-      type: "array",
-      items: {
-        type: "object",
-        properties: {
-          id: {
-            type: "string",
-            description: "Unique identifier for the shot"
-          },
-          start: {
-            type: "number", 
-            description: "Start frame number"
-          },
-          len: {
-            type: "number",
-            description: "Length in frames"
-          },
-          desc: {
-            type: "string",
-            description: "Description of the shot"
-          }
-        },
-        required: ["id", "start", "len", "desc"],
-        additionalProperties: false
-      }
-    },
-    bgm: {
-      anyOf: [
-        {
-          type: "object",
-          properties: {
-            style: {
-              type: "string",
-              description: "Music style"
-            },
-            bpm: {
-              type: "number",
-              description: "Beats per minute"
-            }
-          },
-          required: ["style", "bpm"],
-          additionalProperties: false
-        },
-        {
-          type: "null"
-        }
-      ],
-      description: "Background music settings (optional)"
-    }
-  },
-  required: ["sceneId", "duration", "theme", "shots", "bgm"],
-  additionalProperties: false
-};
-
-// JSON Schema for AssetManifest - manually defined for Structured Outputs
-const ASSET_MANIFEST_JSON_SCHEMA = {
-  type: "object",
-  properties: {
-    sceneId: {
-      type: "string",
-      description: "Scene identifier matching the shot plan"
-    },
-    version: {
-      type: "string",
-      description: "Manifest version (e.g., '1.0')"
-    },
-    assets: {
-      type: "array",
-      items: {
-        type: "object",
-        properties: {
-          id: {
-            type: "string",
-            description: "Unique asset identifier"
-          },
-          type: {
-            type: "string",
-            enum: ["video", "audio", "image", "effect"],
-            description: "Type of asset"
-          },
-          uri: {
-            anyOf: [
-              { type: "string" },
-              { type: "null" }
-            ],
-            description: "File path or URL (optional)"
-          },
-          generator: {
-            type: "string",
-            description: "Generator used to create this asset"
-          },
-          spec: {
-            type: "object",
-            properties: {
-              description: {
-                type: "string",
-                description: "Detailed description of the asset"
-              },
-              duration: {
-                anyOf: [
-                  { type: "number" },
-                  { type: "null" }
-                ],
-                description: "Duration in seconds (for video/audio)"
-              },
-              dimensions: {
-                anyOf: [
-                  {
-                    type: "object",
-                    properties: {
-                      width: { type: "number" },
-                      height: { type: "number" }
-                    },
-                    required: ["width", "height"],
-                    additionalProperties: false
-                  },
-                  { type: "null" }
-                ],
-                description: "Dimensions for video/image assets"
-              },
-              format: {
-                anyOf: [
-                  { type: "string" },
-                  { type: "null" }
-                ],
-                description: "File format (mp4, jpg, wav, etc.)"
-              },
-              style: {
-                anyOf: [
-                  { type: "string" },
-                  { type: "null" }
-                ],
-                description: "Style or genre specification"
-              },
-              quality: {
-                anyOf: [
-                  {
-                    type: "string",
-                    enum: ["draft", "standard", "high"]
-                  },
-                  { type: "null" }
-                ],
-                description: "Quality level"
-              }
-            },
-                          required: ["description", "duration", "dimensions", "format", "style", "quality"],
-              additionalProperties: false
-          },
-          status: {
-            type: "string",
-            enum: ["pending", "generated", "failed"],
-            description: "Current status of the asset"
-          },
-          metadata: {
-            anyOf: [
-              {
-                type: "object",
-                properties: {
-                  shotId: {
-                    anyOf: [
-                      { type: "string" },
-                      { type: "null" }
-                    ],
-                    description: "Related shot identifier"
-                  },
-                  createdAt: {
-                    anyOf: [
-                      { type: "string" },
-                      { type: "null" }
-                    ],
-                    description: "Creation timestamp"
-                  },
-                  estimatedCost: {
-                    anyOf: [
-                      { type: "number" },
-                      { type: "null" }
-                    ],
-                    description: "Estimated cost in USD"
-                  },
-                  actualCost: {
-                    anyOf: [
-                      { type: "number" },
-                      { type: "null" }
-                    ],
-                    description: "Actual cost in USD"
-                  }
-                },
-                required: ["shotId", "createdAt", "estimatedCost", "actualCost"],
-                additionalProperties: false
-              },
-              { type: "null" }
-            ],
-            description: "Additional metadata"
-          }
-        },
-        required: ["id", "type", "uri", "generator", "spec", "status", "metadata"],
-        additionalProperties: false
-      }
-    },
-    generators: {
-      anyOf: [
-        {
-          type: "object",
-                    patternProperties: {
-            ".*": {
-              type: "object",
-              properties: {
-                name: { type: "string" },
-                type: {
-                  type: "string",
-                  enum: ["local", "api", "mock"]
-                },
-                config: {
-                  anyOf: [
-                    { type: "object" },
-                    { type: "null" }
-                  ]
-                }
-              },
-              required: ["name", "type", "config"],
-              additionalProperties: false
-            }
-          },
-          additionalProperties: false
-        },
-        { type: "null" }
-      ],
-      description: "Available generators configuration"
-    },
-    totalEstimatedCost: {
-      anyOf: [
-        { type: "number" },
-        { type: "null" }
-      ],
-      description: "Total estimated cost for all assets"
-    }
-  },
-  required: ["sceneId", "version", "assets", "generators", "totalEstimatedCost"],
-  additionalProperties: false
-};
+// 非オブジェクトスキーマをJSONオブジェクトとして扱うためのラッパーキー
+const WRAPPED_RESULT_KEY = 'result';
 
 export class OpenAIWrapper {
   private client: OpenAI;
@@ -330,8 +78,16 @@ export class OpenAIWrapper {
     // Schema RegistryからJSON Schemaを取得
     const registry = SchemaRegistry.getInstance();
     let jsonSchema: Record<string, unknown>;
+    // response_format はobject型のみ受け付けるため、それ以外はラップする
+    const wrapped = !(schema instanceof z.ZodObject);
 
-    if (registry.has(schemaName)) {
+    if (wrapped) {
+      jsonSchema = registry.generateJSONSchema(z.object({ [WRAPPED_RESULT_KEY]: schema }), {
+        name: schemaName,
+        description: `Wrapped schema for ${schemaName}`
+      }) as Record<string, unknown>;
+      console.log(chalk.gray(`🔧 object型でラップしたスキーマを使用: ${schemaName}`));
+    } else if (registry.has(schemaName)) {
       // 登録済みスキーマを使用
       jsonSchema = registry.get(schemaName).jsonSchema as Record<string, unknown>;
       console.log(chalk.gray(`🔍 登録済みスキーマを使用: ${schemaName}`));
@@ -377,10 +133,10 @@ export class OpenAIWrapper {
               schema: jsonSchema
             }
           }
-        });
+        }, { signal: request.signal });
         console.log(chalk.green('🟢 OpenAI APIレスポンス受信'));
 
-        return this.parseAndValidate(response, schema);
+        return this.parseAndValidate(response, schema, wrapped);
       },
       [ErrorType.API_LIMIT, ErrorType.TIMEOUT, ErrorType.NETWORK, ErrorType.UNKNOWN],
       {
@@ -410,7 +166,7 @@ export class OpenAIWrapper {
           temperature,
           max_tokens: maxTokens,
           response_format: { type: 'json_object' }
-        });
+        }, { signal: request.signal });
 
         return this.parseAndValidate(response, schema);
       },
@@ -425,10 +181,13 @@ export class OpenAIWrapper {
 
   private parseAndValidate<T>(
     response: any,
-    schema: z.ZodSchema<T>
+    schema: z.ZodSchema<T>,
+    wrapped: boolean = false
   ): LLMResponse<T> {
     const content = response.choices[0]?.message?.content;
-    const tokensUsed = response.usage?.total_tokens || 0;
+    const promptTokens = response.usage?.prompt_tokens || 0;
+    const completionTokens = response.usage?.completion_tokens || 0;
+    const tokensUsed = response.usage?.total_tokens || promptTokens + completionTokens;
     
     if (!content) {
       throw new Error('OpenAI APIから有効な応答が得られませんでした');
@@ -436,11 +195,14 @@ export class OpenAIWrapper {
 
     try {
       const parsed = JSON.parse(content);
-      const validated = schema.parse(parsed);
+      const raw = wrapped ? parsed?.[WRAPPED_RESULT_KEY] : parsed;
+      // strict モードでは省略可能な項目が null で返るため、検証前に取り除く
+      const validated = schema.parse(SchemaRegistry.getInstance().removeOptionalNulls(schema, raw));
       return {
         data: validated,
         tokensUsed,
-        costUSD: this.calculateCost(tokensUsed, response.model || 'gpt-4o-mini')
+        promptTokens,
+        completionTokens
       };
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -448,30 +210,20 @@ export class OpenAIWrapper {
         console.error(chalk.gray('受信データ:'), content);
         // 受信データをエラーオブジェクトに含めてthrow
         const zodErr: any = new Error(`スキーマ検証エラー: ${error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')}`);
-        zodErr.data = (() => { try { return JSON.parse(content); } catch { return undefined; } })();
+        zodErr.data = (() => {
+          try {
+            const parsed = JSON.parse(content);
+            return wrapped ? parsed?.[WRAPPED_RESULT_KEY] : parsed;
+          } catch {
+            return undefined;
+          }
+        })();
         throw zodErr;
       }
       throw new Error(`JSON解析エラー: ${error}`);
     }
   }
 
-  private calculateCost(tokens: number, model: string): number {
-    // Updated cost calculation for newer models
-    const costPer1K: Record<string, number> = {
-      'gpt-4o-mini': 0.00015,
-      'gpt-4o-2024-08-06': 0.0025,
-      'gpt-4o-2024-11-20': 0.0025,
-      'gpt-4o': 0.0025,
-      'o1-2024-12-17': 0.015,
-      'o1': 0.015,
-      'gpt-3.5-turbo': 0.0015,
-      'gpt-4': 0.03
-    };
-
-    const rate = costPer1K[model] ?? 0.00015;
-    return (tokens / 1000) * rate;
-  }
-
   private formatErrorMessage(error: any): string {
     if (error?.status) {
       switch (error.status) {
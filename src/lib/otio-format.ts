@@ -0,0 +1,190 @@
+import { z } from 'zod';
+import { TransitionSchema } from '../schemas/index.js';
+import { EditClip, EditTimeline, EditTrack, TimelineExportResult } from './edit-timeline.js';
+
+// OpenTimelineIO（.otio）の JSON 形式。読み込みは本ツールが出力する範囲のスキーマに対応
+
+const RationalTimeSchema = z.object({
+  OTIO_SCHEMA: z.string().startsWith('RationalTime.'),
+  rate: z.number().positive(),
+  value: z.number()
+});
+
+const TimeRangeSchema = z.object({
+  start_time: RationalTimeSchema,
+  duration: RationalTimeSchema
+});
+
+const MediaReferenceSchema = z.object({
+  OTIO_SCHEMA: z.string(),
+  name: z.string().optional(),
+  target_url: z.string().optional()
+}).passthrough();
+
+const SizeSchema = z.object({ w: z.number(), h: z.number() });
+
+const MotivaMetadataSchema = z.object({
+  motiva: z.record(z.string(), z.unknown()).optional()
+}).passthrough();
+
+const TrackItemSchema = z.object({
+  OTIO_SCHEMA: z.string(),
+  name: z.string().optional(),
+  source_range: TimeRangeSchema.nullable().optional(),
+  media_references: z.record(z.string(), MediaReferenceSchema).optional(), // Clip.2
+  active_media_reference_key: z.string().optional(),
+  media_reference: MediaReferenceSchema.nullable().optional(), // Clip.1
+  transition_type: z.string().optional(),
+  in_offset: RationalTimeSchema.optional(),
+  out_offset: RationalTimeSchema.optional(),
+  metadata: MotivaMetadataSchema.optional()
+}).passthrough();
+
+const OtioTimelineSchema = z.object({
+  OTIO_SCHEMA: z.string().startsWith('Timeline.'),
+  name: z.string().optional(),
+  global_start_time: RationalTimeSchema.nullable().optional(),
+  metadata: MotivaMetadataSchema.optional(),
+  tracks: z.object({
+    children: z.array(z.object({
+      OTIO_SCHEMA: z.string().startsWith('Track.'),
+      kind: z.enum(['Video', 'Audio']),
+      children: z.array(TrackItemSchema)
+    }).passthrough())
+  }).passthrough()
+}).passthrough();
+
+/**
+ * 編集タイムラインを OTIO の JSON に変換
+ * トランジションは直前の要素と後続のクリップの間に置き、カット点から後続のクリップ側に掛けます
+ */
+export function exportOtio(timeline: EditTimeline): TimelineExportResult {
+  const time = (value: number) => ({ OTIO_SCHEMA: 'RationalTime.1', rate: timeline.fps, value });
+  const range = (start: number, duration: number) => ({ OTIO_SCHEMA: 'TimeRange.1', duration: time(duration), start_time: time(start) });
+  const counters = { video: 0, audio: 0 };
+
+  const tracks = timeline.tracks.map(track => {
+    const children: unknown[] = [];
+    let cursor = 0;
+    for (const clip of track.clips) {
+      if (clip.recordStart > cursor) {
+        children.push({ OTIO_SCHEMA: 'Gap.1', name: '', source_range: range(0, clip.recordStart - cursor), effects: [], markers: [], enabled: true, metadata: {} });
+      }
+      if (clip.transitionIn) {
+        children.push({
+          OTIO_SCHEMA: 'Transition.1',
+          name: clip.transitionIn.type,
+          transition_type: ['fade', 'crossfade'].includes(clip.transitionIn.type) ? 'SMPTE_Dissolve' : 'Custom_Transition',
+          in_offset: time(0),
+          out_offset: time(clip.transitionIn.duration),
+          metadata: { motiva: { type: clip.transitionIn.type } }
+        });
+      }
+      children.push({
+        OTIO_SCHEMA: 'Clip.2',
+        name: clip.name,
+        source_range: range(clip.sourceStart, clip.duration),
+        media_references: {
+          DEFAULT_MEDIA: clip.mediaUrl
+            ? { OTIO_SCHEMA: 'ExternalReference.1', name: clip.assetId, target_url: clip.mediaUrl, available_range: null, metadata: {} }
+            : { OTIO_SCHEMA: 'MissingReference.1', name: clip.assetId, available_range: null, metadata: {} }
+        },
+        active_media_reference_key: 'DEFAULT_MEDIA',
+        effects: [],
+        markers: [],
+        enabled: true,
+        metadata: { motiva: { assetId: clip.assetId } }
+      });
+      cursor = clip.recordStart + clip.duration;
+    }
+
+    const prefix = track.kind === 'video' ? 'V' : 'A';
+    return {
+      OTIO_SCHEMA: 'Track.1',
+      name: `${prefix}${++counters[track.kind]}`,
+      kind: track.kind === 'video' ? 'Video' : 'Audio',
+      source_range: null,
+      children,
+      effects: [],
+      markers: [],
+      enabled: true,
+      metadata: {}
+    };
+  });
+
+  const document = {
+    OTIO_SCHEMA: 'Timeline.1',
+    name: timeline.name,
+    global_start_time: time(0),
+    metadata: { motiva: { duration: timeline.duration, ...(timeline.size ? { size: timeline.size } : {}) } },
+    tracks: { OTIO_SCHEMA: 'Stack.1', name: 'tracks', source_range: null, children: tracks, effects: [], markers: [], enabled: true, metadata: {} }
+  };
+
+  return { content: `${JSON.stringify(document, null, 2)}\n`, warnings: [] };
+}
+
+/**
+ * OTIO の JSON を編集タイムラインとして読み込み
+ */
+export function parseOtio(content: string): EditTimeline {
+  const document = OtioTimelineSchema.parse(JSON.parse(content));
+  const fps = document.global_start_time?.rate ?? findRate(document.tracks.children.flatMap(track => track.children));
+  if (!fps) {
+    throw new Error('OTIO からフレームレートを判別できません');
+  }
+
+  const tracks: EditTrack[] = document.tracks.children.map(track => {
+    const clips: EditClip[] = [];
+    let cursor = 0;
+    let pendingTransition: EditClip['transitionIn'];
+
+    for (const item of track.children) {
+      const schema = item.OTIO_SCHEMA.split('.')[0];
+      if (schema === 'Transition') {
+        // 本ツール以外が出力した OTIO は種別を持たないためディゾルブとして扱う
+        const type = TransitionSchema.shape.type.exclude(['cut']).safeParse(item.metadata?.motiva?.type);
+        pendingTransition = {
+          type: type.success ? type.data : 'crossfade',
+          duration: (item.in_offset?.value ?? 0) + (item.out_offset?.value ?? 0)
+        };
+        continue;
+      }
+
+      const duration = item.source_range?.duration.value ?? 0;
+      if (schema === 'Clip') {
+        const reference = item.media_references?.[item.active_media_reference_key ?? 'DEFAULT_MEDIA'] ?? item.media_reference;
+        const assetId = item.metadata?.motiva?.assetId;
+        const clip: EditClip = {
+          name: item.name ?? '',
+          assetId: typeof assetId === 'string' ? assetId : reference?.name ?? item.name ?? '',
+          recordStart: cursor,
+          duration,
+          sourceStart: item.source_range?.start_time.value ?? 0
+        };
+        if (reference?.target_url) clip.mediaUrl = reference.target_url;
+        if (pendingTransition) clip.transitionIn = pendingTransition;
+        clips.push(clip);
+      }
+      pendingTransition = undefined;
+      cursor += duration;
+    }
+
+    return { kind: track.kind === 'Video' ? 'video' : 'audio', clips };
+  });
+
+  const duration = document.metadata?.motiva?.duration;
+  const size = SizeSchema.safeParse(document.metadata?.motiva?.size);
+  return {
+    name: document.name ?? '',
+    fps,
+    duration: typeof duration === 'number'
+      ? duration
+      : Math.max(0, ...tracks.flatMap(track => track.clips.map(clip => clip.recordStart + clip.duration))),
+    ...(size.success ? { size: size.data } : {}),
+    tracks
+  };
+}
+
+function findRate(items: Array<z.infer<typeof TrackItemSchema>>): number | undefined {
+  return items.find(item => item.source_range)?.source_range?.duration.rate;
+}
@@ -0,0 +1,185 @@
+/**
+ * DAGノードの最小定義
+ */
+export interface DagNode {
+  name: string;
+  dependencies?: string[];
+}
+
+/**
+ * パイプラインの依存グラフ
+ * 構築時に重複・未知の依存・循環を検出し、トポロジカル順序を確定します
+ */
+export class PipelineDag<T extends DagNode = DagNode> {
+  private nodes = new Map<string, T>();
+  private dependents = new Map<string, string[]>();
+  private order: string[] = [];
+
+  constructor(nodes: T[]) {
+    for (const node of nodes) {
+      if (this.nodes.has(node.name)) {
+        throw new Error(`パイプライン定義エラー: エージェント名 "${node.name}" が重複しています`);
+      }
+      this.nodes.set(node.name, node);
+      this.dependents.set(node.name, []);
+    }
+
+    for (const node of nodes) {
+      for (const dependency of node.dependencies ?? []) {
+        if (!this.nodes.has(dependency)) {
+          throw new Error(`パイプライン定義エラー: "${node.name}" の依存先 "${dependency}" が見つかりません`);
+        }
+        if (dependency === node.name) {
+          throw new Error(`パイプライン定義エラー: "${node.name}" が自分自身に依存しています`);
+        }
+        this.dependents.get(dependency)!.push(node.name);
+      }
+    }
+
+    this.order = this.sortTopologically();
+  }
+
+  /**
+   * ノードを取得
+   */
+  getNode(name: string): T {
+    const node = this.nodes.get(name);
+    if (!node) {
+      throw new Error(`ノードが見つかりません: ${name}`);
+    }
+    return node;
+  }
+
+  /**
+   * 依存先ノード名を取得
+   */
+  getDependencies(name: string): string[] {
+    return [...(this.getNode(name).dependencies ?? [])];
+  }
+
+  /**
+   * 依存元（後続）ノード名を取得
+   */
+  getDependents(name: string): string[] {
+    return [...(this.dependents.get(name) ?? [])];
+  }
+
+  /**
+   * トポロジカル順序を取得（同順位は定義順）
+   */
+  getTopologicalOrder(): string[] {
+    return [...this.order];
+  }
+
+  /**
+   * 依存を持たないノード名を取得
+   */
+  getRoots(): string[] {
+    return this.order.filter(name => this.getDependencies(name).length === 0);
+  }
+
+  /**
+   * 後続を持たないノード名を取得
+   */
+  getSinks(): string[] {
+    return this.order.filter(name => this.getDependents(name).length === 0);
+  }
+
+  /**
+   * 重み（ノードごとの所要時間等）の合計が最大となる経路を取得（クリティカルパス）
+   */
+  getLongestPath(weightOf: (name: string) => number): { path: string[]; weight: number } {
+    const best = new Map<string, { path: string[]; weight: number }>();
+
+    for (const name of this.order) {
+      const longestDependency = this.getDependencies(name)
+        .map(dependency => best.get(dependency)!)
+        .reduce<{ path: string[]; weight: number } | undefined>(
+          (longest, candidate) => (!longest || candidate.weight > longest.weight ? candidate : longest),
+          undefined
+        );
+      best.set(name, {
+        path: [...(longestDependency?.path ?? []), name],
+        weight: (longestDependency?.weight ?? 0) + weightOf(name)
+      });
+    }
+
+    return Array.from(best.values()).reduce(
+      (longest, candidate) => (candidate.weight > longest.weight ? candidate : longest),
+      { path: [], weight: 0 }
+    );
+  }
+
+  get size(): number {
+    return this.nodes.size;
+  }
+
+  /**
+   * Kahnのアルゴリズムでトポロジカルソート
+   */
+  private sortTopologically(): string[] {
+    const inDegree = new Map<string, number>();
+    for (const [name, node] of this.nodes) {
+      inDegree.set(name, node.dependencies?.length ?? 0);
+    }
+
+    const queue = Array.from(this.nodes.keys()).filter(name => inDegree.get(name) === 0);
+    const order: string[] = [];
+
+    while (queue.length > 0) {
+      const name = queue.shift()!;
+      order.push(name);
+
+      for (const dependent of this.dependents.get(name) ?? []) {
+        const remaining = inDegree.get(dependent)! - 1;
+        inDegree.set(dependent, remaining);
+        if (remaining === 0) {
+          queue.push(dependent);
+        }
+      }
+    }
+
+    if (order.length !== this.nodes.size) {
+      const cycle = this.findCycle(new Set(order));
+      throw new Error(`パイプライン定義エラー: 依存関係が循環しています (${cycle.join(' -> ')})`);
+    }
+
+    return order;
+  }
+
+  /**
+   * ソートできなかったノードから循環経路を1つ抽出
+   */
+  private findCycle(sorted: Set<string>): string[] {
+    const visiting: string[] = [];
+    const visited = new Set<string>();
+
+    const visit = (name: string): string[] | null => {
+      const index = visiting.indexOf(name);
+      if (index !== -1) {
+        return [...visiting.slice(index), name];
+      }
+      if (visited.has(name)) {
+        return null;
+      }
+
+      visiting.push(name);
+      for (const dependency of this.nodes.get(name)?.dependencies ?? []) {
+        if (sorted.has(dependency)) continue;
+        const cycle = visit(dependency);
+        if (cycle) return cycle;
+      }
+      visiting.pop();
+      visited.add(name);
+      return null;
+    };
+
+    for (const name of this.nodes.keys()) {
+      if (sorted.has(name)) continue;
+      const cycle = visit(name);
+      if (cycle) return cycle.reverse();
+    }
+
+    return [];
+  }
+}
@@ -0,0 +1,224 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { z } from 'zod';
+import chalk from 'chalk';
+import {
+  PipelineConfig as PipelineDefinition,
+  PipelineConfigSchema,
+  AgentConfig as AgentDefinition,
+  ShotPlan,
+  ShotPlanSchema,
+  AssetManifest,
+  AssetManifestSchema,
+  SceneGraphSchema
+} from '../schemas/index.js';
+import { DirectorOutputSchema } from '../agents/director-agent.js';
+import { EditorPatchSchema } from '../agents/editor-agent.js';
+import { CriticReportSchema } from '../agents/critic-agent.js';
+import { AgentConfig, PipelineConfig } from './event-driven-orchestrator.js';
+import { ConfigurationManager } from './config-manager.js';
+import { beatSyncPlan, formatBeatSyncReport } from './beat-sync.js';
+
+export type AgentType = AgentDefinition['type'];
+
+/**
+ * エージェント種別ごとの入出力スキーマと既定値
+ */
+export interface AgentTypeSpec {
+  inputSchema: z.ZodSchema;
+  outputSchema: z.ZodSchema;
+  schemaName: string; // 構造化出力・記録で使用するスキーマ名
+  temperature: number;
+  maxTokens: number;
+  createStep?: (agent: AgentDefinition) => AgentConfig['run']; // LLMを呼ばないローカル処理の種別
+  mergeInputs?: AgentConfig['mergeInputs']; // 複数の依存先の出力を入力スキーマに合うようにまとめる（未指定の種別は依存先を1つに限る）
+}
+
+export const AGENT_TYPE_SPECS: Record<AgentType, AgentTypeSpec> = {
+  'concept-planner': {
+    inputSchema: z.string(),
+    outputSchema: ShotPlanSchema,
+    schemaName: 'shot_plan_schema',
+    temperature: 0.7,
+    maxTokens: 4096
+  },
+  'asset-synthesizer': {
+    inputSchema: ShotPlanSchema,
+    outputSchema: AssetManifestSchema,
+    schemaName: 'asset_manifest_schema',
+    temperature: 0.5,
+    maxTokens: 6144
+  },
+  'director': {
+    inputSchema: AssetManifestSchema,
+    outputSchema: DirectorOutputSchema,
+    schemaName: 'director_output_schema',
+    temperature: 0.7,
+    maxTokens: 4096,
+    mergeInputs: inputs => mergeAssetManifests(Object.values(inputs).map(input => AssetManifestSchema.parse(input)))
+  },
+  'editor': {
+    inputSchema: SceneGraphSchema,
+    outputSchema: EditorPatchSchema,
+    schemaName: 'json_patch_schema',
+    temperature: 0.3,
+    maxTokens: 2048
+  },
+  'critic': {
+    inputSchema: SceneGraphSchema,
+    outputSchema: CriticReportSchema,
+    schemaName: 'critic_report_schema',
+    temperature: 0.2,
+    maxTokens: 1024
+  },
+  'beat-sync': {
+    inputSchema: ShotPlanSchema,
+    outputSchema: ShotPlanSchema,
+    schemaName: 'shot_plan_schema',
+    temperature: 0,
+    maxTokens: 0,
+    createStep: agent => async (plan: ShotPlan) => {
+      const { fps } = await ConfigurationManager.getInstance().getRemotionConfig();
+      const result = beatSyncPlan(plan, { fps, ...agent.config?.beatSync });
+      formatBeatSyncReport(result).forEach(line => console.log(chalk.gray(line)));
+      result.warnings.forEach(warning => console.log(chalk.yellow(`⚠️  ${warning}`)));
+      return result.plan;
+    }
+  }
+};
+
+const DEFAULT_MODEL = 'gpt-4o-mini';
+
+/**
+ * 並列に生成した複数の Asset Manifest を1つにまとめる
+ * 素材は定義順に連結し、同じIDの素材は最初のものを残します（見積もりコストは合算）
+ */
+export function mergeAssetManifests(manifests: AssetManifest[]): AssetManifest {
+  const [first, ...rest] = manifests;
+  if (!first) {
+    throw new Error('まとめる Asset Manifest がありません');
+  }
+
+  const assetIds = new Set<string>();
+  const assets = manifests.flatMap(manifest => manifest.assets).filter(asset => {
+    if (assetIds.has(asset.id)) return false;
+    assetIds.add(asset.id);
+    return true;
+  });
+  const costs = manifests.map(manifest => manifest.totalEstimatedCost).filter((cost): cost is number => typeof cost === 'number');
+
+  return {
+    ...first,
+    assets,
+    generators: Object.assign({}, first.generators, ...rest.map(manifest => manifest.generators)),
+    ...(costs.length > 0 ? { totalEstimatedCost: costs.reduce((sum, cost) => sum + cost, 0) } : {})
+  };
+}
+
+/**
+ * パイプライン定義ファイルを読み込み・検証
+ */
+export async function loadPipelineDefinition(filePath: string): Promise<PipelineDefinition> {
+  const content = await fs.readFile(filePath, 'utf8');
+  return PipelineConfigSchema.parse(JSON.parse(content));
+}
+
+/**
+ * エージェント種別のシステムプロンプトを読み込み（prompts/<type>/v1_system.txt）
+ */
+export async function loadAgentSystemPrompt(
+  type: AgentType,
+  promptsDir: string = path.join(process.cwd(), 'prompts')
+): Promise<string> {
+  const promptPath = path.join(promptsDir, type, 'v1_system.txt');
+  try {
+    return await fs.readFile(promptPath, 'utf8');
+  } catch {
+    throw new Error(`システムプロンプトが見つかりません: ${promptPath}`);
+  }
+}
+
+/**
+ * パイプライン定義をOrchestrator用の実行設定に変換
+ */
+export async function buildPipelineConfig(
+  definition: PipelineDefinition,
+  promptsDir?: string
+): Promise<PipelineConfig> {
+  const agents: AgentConfig[] = [];
+
+  for (const agent of definition.agents) {
+    const spec = AGENT_TYPE_SPECS[agent.type];
+    if ((agent.dependencies?.length ?? 0) > 1 && !spec.mergeInputs) {
+      throw new Error(`パイプライン定義エラー: "${agent.name}"（${agent.type}）は複数の依存先の出力をまとめられません。dependencies を1つにしてください`);
+    }
+
+    const run = spec.createStep?.(agent);
+    agents.push({
+      name: agent.name,
+      model: run ? agent.type : agent.config?.model ?? DEFAULT_MODEL,
+      provider: agent.config?.provider,
+      temperature: agent.config?.temperature ?? spec.temperature,
+      maxTokens: agent.config?.maxTokens ?? spec.maxTokens,
+      systemPrompt: run ? '' : await loadAgentSystemPrompt(agent.type, promptsDir),
+      inputSchema: spec.inputSchema,
+      outputSchema: spec.outputSchema,
+      schemaName: spec.schemaName,
+      dependencies: agent.dependencies,
+      parallelGroup: agent.parallelGroup,
+      parallel: agent.parallel,
+      maxConcurrency: agent.maxConcurrency,
+      run,
+      mergeInputs: spec.mergeInputs
+    });
+  }
+
+  return {
+    agents,
+    parallelGroups: definition.parallelGroups,
+    maxConcurrency: definition.options?.maxConcurrency,
+    timeout: definition.options?.timeout,
+    enableParallel: definition.options?.enableParallel,
+    useCache: definition.options?.useCache ?? true
+  };
+}
+
+/**
+ * デフォルトの3段階パイプライン定義を生成
+ */
+export function createDefaultPipelineDefinition(): PipelineDefinition {
+  return PipelineConfigSchema.parse({
+    name: 'default-pipeline',
+    description: 'デフォルトの3段階パイプライン',
+    version: '1.0',
+    agents: [
+      {
+        name: 'concept-planner',
+        type: 'concept-planner',
+        config: { model: DEFAULT_MODEL, temperature: 0.7, maxTokens: 4096 }
+      },
+      {
+        name: 'asset-synthesizer',
+        type: 'asset-synthesizer',
+        config: { model: DEFAULT_MODEL, temperature: 0.5, maxTokens: 6144, quality: 'standard' },
+        dependencies: ['concept-planner']
+      },
+      {
+        name: 'director',
+        type: 'director',
+        dependencies: ['asset-synthesizer']
+      }
+    ],
+    options: {
+      maxConcurrency: 3,
+      timeout: 30000,
+      useCache: true,
+      showProgress: true
+    },
+    metadata: {
+      createdAt: new Date().toISOString(),
+      author: 'system',
+      tags: ['default', '3-stage']
+    }
+  });
+}
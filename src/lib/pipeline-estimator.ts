@@ -0,0 +1,102 @@
+import { PipelineConfig as PipelineDefinition } from '../schemas/index.js';
+import { llmProviderManager } from './llm-provider.js';
+import { PipelineDag } from './pipeline-dag.js';
+import { DualBudgetManager, BudgetCheckResult, CostEstimate } from './dual-budget-manager.js';
+import { AGENT_TYPE_SPECS, AgentType, buildPipelineConfig } from './pipeline-definition.js';
+
+/**
+ * エージェント種別ごとの代表的な入力サイズ（文字数）
+ * 実行前には上流の出力が無いため、典型的な入力（テーマ文・ShotPlan・AssetManifest・SceneGraph のJSON）の大きさで見積もります
+ */
+export const REPRESENTATIVE_INPUT_CHARS: Record<AgentType, number> = {
+  'concept-planner': 200,
+  'asset-synthesizer': 3000,
+  'director': 6000,
+  'editor': 8000,
+  'critic': 8000,
+  'beat-sync': 0
+};
+
+// 実行時の予約と同じく1エージェントあたり30秒と見込む
+const ESTIMATED_WALL_TIME_SEC = 30;
+
+export interface AgentEstimate {
+  name: string;
+  type: AgentType;
+  provider: string; // 表示用のプロバイダー指定
+  promptTokens: number;
+  completionTokens: number;
+  tokens: number;
+  costUSD: number;
+  wallTimeSec: number;
+}
+
+export interface PipelineEstimate {
+  pipelineName: string;
+  agents: AgentEstimate[];
+  total: { tokens: number; costUSD: number; wallTimeSec: number }; // wallTimeSec は並列実行を考慮したクリティカルパスの所要時間
+  criticalPath: string[]; // 所要時間が最長となる依存の連なり
+  budget: (BudgetCheckResult & { tier: string }) | null; // 予算ファイルが未作成の場合は null
+}
+
+/**
+ * パイプライン定義の実行コスト・時間を見積もり（プロバイダーは呼び出さない）
+ */
+export async function estimatePipeline(
+  definition: PipelineDefinition,
+  options: { promptsDir?: string; budgetManager?: DualBudgetManager } = {}
+): Promise<PipelineEstimate> {
+  const config = await buildPipelineConfig(definition, options.promptsDir);
+  const agents: AgentEstimate[] = [];
+
+  for (const [index, agent] of config.agents.entries()) {
+    const type = definition.agents[index]!.type;
+    if (agent.run) {
+      // LLMを呼ばないローカル処理はコスト・時間を見込まない
+      agents.push({ name: agent.name, type, provider: 'local', promptTokens: 0, completionTokens: 0, tokens: 0, costUSD: 0, wallTimeSec: 0 });
+      continue;
+    }
+
+    const spec = agent.provider ?? agent.model;
+    const estimate = await llmProviderManager.estimateCost(spec, {
+      model: agent.model,
+      systemPrompt: agent.systemPrompt,
+      // 代表的な入力サイズ分のプレースホルダー
+      userInput: 'x'.repeat(REPRESENTATIVE_INPUT_CHARS[type]),
+      maxTokens: agent.maxTokens ?? AGENT_TYPE_SPECS[type].maxTokens
+    });
+
+    agents.push({
+      name: agent.name,
+      type,
+      provider: Array.isArray(spec) ? spec.join(' → ') : spec,
+      ...estimate,
+      wallTimeSec: ESTIMATED_WALL_TIME_SEC
+    });
+  }
+
+  // 独立したエージェントは並列に実行されるため、所要時間は依存関係上の最長経路で見積もる
+  const wallTimes = new Map(agents.map(agent => [agent.name, agent.wallTimeSec]));
+  const criticalPath = new PipelineDag(config.agents).getLongestPath(name => wallTimes.get(name) ?? 0);
+
+  const total = {
+    tokens: agents.reduce((sum, agent) => sum + agent.tokens, 0),
+    costUSD: agents.reduce((sum, agent) => sum + agent.costUSD, 0),
+    wallTimeSec: criticalPath.weight
+  };
+
+  const budgetManager = options.budgetManager ?? new DualBudgetManager();
+  let budget: PipelineEstimate['budget'] = null;
+  if (await budgetManager.isConfigured()) {
+    const estimates: CostEstimate[] = agents.map(agent => ({
+      tokens: agent.tokens,
+      estimatedCost: agent.costUSD,
+      estimatedWallTime: agent.wallTimeSec
+    }));
+    const check = await budgetManager.checkPlannedUsage(estimates);
+    const { tier } = await budgetManager.getPeriodReport();
+    budget = { ...check, tier };
+  }
+
+  return { pipelineName: definition.name, agents, total, criticalPath: criticalPath.path, budget };
+}
@@ -0,0 +1,103 @@
+import chalk from 'chalk';
+import { v4 as uuidv4 } from 'uuid';
+import { PipelineConfig as PipelineDefinition, PipelineResult as PipelineRunResult, PipelineResultSchema } from '../schemas/index.js';
+import { EventDrivenOrchestrator, PipelineResult } from './event-driven-orchestrator.js';
+import { DualBudgetManager } from './dual-budget-manager.js';
+import { buildPipelineConfig } from './pipeline-definition.js';
+import { RunCheckpoint } from './run-checkpoint.js';
+
+/**
+ * パイプライン定義ファイルの実行・再開を担当
+ * 実行ごとに .motiva/runs/<executionId>/ へチェックポイントを保存します
+ */
+export class PipelineRunner {
+  private orchestrator: EventDrivenOrchestrator;
+  private workspacePath: string;
+
+  constructor(workspacePath: string = process.cwd()) {
+    this.orchestrator = new EventDrivenOrchestrator(new DualBudgetManager(workspacePath));
+    this.workspacePath = workspacePath;
+  }
+
+  /**
+   * パイプラインを新規実行
+   */
+  async run(definition: PipelineDefinition, input: any, executionId: string = uuidv4()): Promise<PipelineRunResult> {
+    const startTime = new Date();
+    const checkpoint = await RunCheckpoint.create({
+      executionId,
+      pipelineName: definition.name,
+      definition,
+      input,
+      startTime: startTime.toISOString()
+    }, this.workspacePath);
+
+    console.log(chalk.blue(`🚀 パイプライン実行: ${definition.name}`));
+    console.log(chalk.gray(`📋 実行ID: ${executionId}`));
+
+    const config = await buildPipelineConfig(definition);
+    const result = await this.orchestrator.executePipeline(config, input, {
+      checkpoint,
+      pipelineName: definition.name,
+      executionId
+    });
+
+    return this.finalize(checkpoint, result, startTime);
+  }
+
+  /**
+   * チェックポイントから実行を再開
+   * 完了済みエージェントの出力を再利用し、最初の失敗・未実行エージェントから続行します
+   */
+  async resume(executionId: string): Promise<PipelineRunResult> {
+    const checkpoint = await RunCheckpoint.load(executionId, this.workspacePath);
+    const manifest = checkpoint.getManifest();
+    const resumePoint = checkpoint.getResumePoint();
+
+    if (!resumePoint) {
+      console.log(chalk.yellow(`⚠️  実行 ${executionId} は全エージェントが完了済みです`));
+    } else {
+      console.log(chalk.blue(`🔁 パイプライン再開: ${manifest.pipelineName}`));
+      console.log(chalk.gray(`📋 実行ID: ${executionId} / 再開位置: ${resumePoint}`));
+    }
+
+    const completedResults = await checkpoint.loadCompletedResults();
+    for (const name of completedResults.keys()) {
+      console.log(chalk.gray(`  ⏭️  ${name}: 保存済みの出力を再利用`));
+    }
+
+    await checkpoint.markResumed();
+    const config = await buildPipelineConfig(manifest.definition);
+    const result = await this.orchestrator.executePipeline(config, manifest.input, {
+      checkpoint,
+      completedResults,
+      pipelineName: manifest.pipelineName,
+      executionId
+    });
+
+    return this.finalize(checkpoint, result, new Date(manifest.startTime));
+  }
+
+  /**
+   * Orchestratorの結果をPipelineResult形式に変換し、実行状態を記録
+   */
+  private async finalize(checkpoint: RunCheckpoint, result: PipelineResult, startTime: Date): Promise<PipelineRunResult> {
+    const endTime = new Date();
+    const succeeded = result.results.filter(r => r.status === 'success').length;
+    const status = result.success ? 'success' : succeeded > 0 ? 'partial' : 'failed';
+
+    await checkpoint.finish(status);
+
+    return PipelineResultSchema.parse({
+      pipelineName: checkpoint.getManifest().pipelineName,
+      executionId: checkpoint.executionId,
+      startTime: startTime.toISOString(),
+      endTime: endTime.toISOString(),
+      duration: endTime.getTime() - startTime.getTime(),
+      status,
+      results: result.results,
+      totalTokens: result.results.reduce((sum, r) => sum + (r.tokensUsed ?? 0), 0),
+      totalCost: result.results.reduce((sum, r) => sum + (r.costUSD ?? 0), 0)
+    });
+  }
+}
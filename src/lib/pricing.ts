@@ -0,0 +1,157 @@
+import { z } from 'zod';
+import chalk from 'chalk';
+
+/**
+ * モデル価格（100万トークンあたりのUSD）
+ */
+export const ModelPriceSchema = z.object({
+  input: z.number().min(0),
+  output: z.number().min(0)
+});
+
+// プロバイダー名 → モデル名 → 価格。モデル名 "*" はそのプロバイダーの未登録モデルに適用
+export const PricingTableSchema = z.record(z.string(), z.record(z.string(), ModelPriceSchema));
+
+export type ModelPrice = z.infer<typeof ModelPriceSchema>;
+export type PricingTable = z.infer<typeof PricingTableSchema>;
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface RequestCostEstimate extends TokenUsage {
+  tokens: number;
+  costUSD: number;
+}
+
+// 出力トークン数の上限が指定されていない場合の見積もり値
+const DEFAULT_COMPLETION_TOKENS = 1024;
+
+const FREE: ModelPrice = { input: 0, output: 0 };
+
+export const DEFAULT_PRICING: PricingTable = {
+  openai: {
+    'gpt-4o-mini': { input: 0.15, output: 0.6 },
+    'gpt-4o': { input: 2.5, output: 10 },
+    'gpt-4-turbo': { input: 10, output: 30 },
+    'gpt-4': { input: 30, output: 60 },
+    'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+    'o1': { input: 15, output: 60 },
+    'o1-mini': { input: 1.1, output: 4.4 },
+    '*': { input: 0.15, output: 0.6 }
+  },
+  anthropic: {
+    'claude-3-5-haiku': { input: 0.8, output: 4 },
+    'claude-3-haiku': { input: 0.25, output: 1.25 },
+    'claude-3-opus': { input: 15, output: 75 },
+    'claude-opus-4': { input: 15, output: 75 },
+    'claude-3-5-sonnet': { input: 3, output: 15 },
+    'claude-3-7-sonnet': { input: 3, output: 15 },
+    'claude-sonnet-4': { input: 3, output: 15 },
+    'claude-3-sonnet': { input: 3, output: 15 },
+    '*': { input: 3, output: 15 }
+  },
+  groq: {
+    'llama3-8b-8192': { input: 0.05, output: 0.08 },
+    'llama3-70b-8192': { input: 0.59, output: 0.79 },
+    'mixtral-8x7b-32768': { input: 0.24, output: 0.24 }
+  },
+  // セルフホスト・ローカル実行はAPI課金なし
+  'self-hosted-mistral': { '*': FREE },
+  ollama: { '*': FREE },
+  vllm: { '*': FREE },
+  mock: { '*': FREE }
+};
+
+/**
+ * 価格レジストリ
+ * プロバイダー・モデルごとの入力/出力トークン単価を一元管理し、
+ * 事前見積もりと実使用量のコスト計算の両方に使用します
+ */
+export class PricingRegistry {
+  private overrides: PricingTable = {};
+  private warnedModels = new Set<string>();
+
+  constructor(private defaults: PricingTable = DEFAULT_PRICING) {}
+
+  /**
+   * 設定ファイルの価格で上書き（既定の価格より優先）
+   */
+  setOverrides(overrides: PricingTable): void {
+    this.overrides = PricingTableSchema.parse(overrides);
+  }
+
+  /**
+   * 価格を取得
+   * 上書きと既定の価格表を合わせた上で、完全一致 → 最長の前方一致（"gpt-4o-2024-08-06" → "gpt-4o"）→ "*" の順に探索します。
+   * プロバイダーに登録が無い場合は他のプロバイダーの同名モデルを使用し、それも無ければ0とします
+   */
+  getPrice(provider: string, model: string): ModelPrice {
+    const price = this.lookup(this.pricesFor(provider), model);
+    if (price) return price;
+
+    const providers = new Set([...Object.keys(this.overrides), ...Object.keys(this.defaults)]);
+    for (const name of providers) {
+      const sameModel = this.pricesFor(name)[model];
+      if (sameModel) return sameModel;
+    }
+
+    const key = `${provider}:${model}`;
+    if (!this.warnedModels.has(key)) {
+      this.warnedModels.add(key);
+      console.log(chalk.yellow(`⚠️  価格が未登録のためコストを0として計算します: ${key}`));
+    }
+    return FREE;
+  }
+
+  /**
+   * 実使用量からコストを計算
+   */
+  calculateCost(provider: string, model: string, usage: TokenUsage): number {
+    const price = this.getPrice(provider, model);
+    return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+  }
+
+  /**
+   * リクエスト内容から実行前のコストを見積もり
+   * 出力トークンは maxTokens を上限として見込みます
+   */
+  estimate(
+    provider: string,
+    model: string,
+    request: { systemPrompt: string; userInput: string; maxTokens?: number }
+  ): RequestCostEstimate {
+    const promptTokens = estimateTokens(request.systemPrompt) + estimateTokens(request.userInput);
+    const completionTokens = request.maxTokens ?? DEFAULT_COMPLETION_TOKENS;
+    return {
+      promptTokens,
+      completionTokens,
+      tokens: promptTokens + completionTokens,
+      costUSD: this.calculateCost(provider, model, { promptTokens, completionTokens })
+    };
+  }
+
+  private pricesFor(provider: string): Record<string, ModelPrice> {
+    return { ...this.defaults[provider], ...this.overrides[provider] };
+  }
+
+  private lookup(prices: Record<string, ModelPrice>, model: string): ModelPrice | undefined {
+    if (prices[model]) return prices[model];
+
+    const prefix = Object.keys(prices)
+      .filter(key => key !== '*' && model.startsWith(key))
+      .sort((a, b) => b.length - a.length)[0];
+    return prefix ? prices[prefix] : prices['*'];
+  }
+}
+
+/**
+ * テキストのトークン数を概算（約3文字で1トークン）
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 3);
+}
+
+// グローバルインスタンス
+export const pricingRegistry = new PricingRegistry();
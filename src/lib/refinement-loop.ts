@@ -0,0 +1,177 @@
+import * as fs from 'fs/promises';
+import chalk from 'chalk';
+import { SceneGraph, SceneGraphSchema, JsonPatch } from '../schemas/index.js';
+import { CriticAgent, CriticReport } from '../agents/critic-agent.js';
+import { EditorAgent } from '../agents/editor-agent.js';
+import { BudgetExceededError, DualBudgetManager } from './dual-budget-manager.js';
+import { ConfigurationManager } from './config-manager.js';
+import { SceneGraphEditor } from './scene-graph-editor.js';
+
+export interface RefinementCritic {
+  run(sceneGraph: SceneGraph): Promise<CriticReport>;
+}
+
+export interface RefinementEditor {
+  run(sceneGraph: SceneGraph, feedback?: CriticReport): Promise<JsonPatch>;
+}
+
+export type RefinementStopReason = 'threshold' | 'max-rounds' | 'budget' | 'no-changes' | 'invalid-patch';
+
+/**
+ * 1ラウンド分の記録（評価 → 編集提案 → 適用）
+ */
+export interface RefinementRound {
+  round: number;
+  scoreBefore: number;
+  scoreAfter?: number; // 編集後の再評価（予算超過で評価できなかった場合は無し）
+  issues: number;
+  patch: JsonPatch; // このラウンドの差分
+  inverse: JsonPatch; // このラウンドの編集を取り消すパッチ
+  editId?: string; // SceneGraphEditor の編集ID（edit --undo で1ラウンドずつ取り消し可能）
+  error?: string;
+}
+
+export interface RefinementResult {
+  sceneGraphPath: string;
+  threshold: number;
+  maxRounds: number;
+  initialScore: number | null;
+  finalScore: number | null;
+  stopReason: RefinementStopReason;
+  rounds: RefinementRound[];
+}
+
+export interface RefinementOptions {
+  sceneGraphPath?: string; // 省略時は paths.sceneGraph
+  threshold?: number; // 省略時は設定の refinement.threshold
+  maxRounds?: number; // 省略時は設定の refinement.maxRounds
+}
+
+/**
+ * Critic → Editor の改善ループ
+ * Critic の総合スコアが閾値に達するまで、指摘を Editor に渡して得たパッチを SceneGraph に適用し再評価を繰り返します。
+ * 閾値到達・最大ラウンド数・予算超過・編集提案なし・不正なパッチのいずれかで終了します
+ */
+export class RefinementLoop {
+  private critic: RefinementCritic;
+  private editor: RefinementEditor;
+  private sceneGraphEditor: SceneGraphEditor;
+
+  constructor(options: {
+    budgetManager?: DualBudgetManager;
+    critic?: RefinementCritic;
+    editor?: RefinementEditor;
+    sceneGraphEditor?: SceneGraphEditor;
+  } = {}) {
+    const budgetManager = options.budgetManager ?? new DualBudgetManager();
+    this.critic = options.critic ?? new CriticAgent(budgetManager);
+    this.editor = options.editor ?? new EditorAgent(budgetManager);
+    this.sceneGraphEditor = options.sceneGraphEditor ?? new SceneGraphEditor();
+  }
+
+  async run(options: RefinementOptions = {}): Promise<RefinementResult> {
+    const config = await ConfigurationManager.getInstance().loadConfig();
+    const sceneGraphPath = options.sceneGraphPath ?? config.paths.sceneGraph;
+    const threshold = options.threshold ?? config.refinement.threshold;
+    const maxRounds = options.maxRounds ?? config.refinement.maxRounds;
+
+    const result: RefinementResult = {
+      sceneGraphPath,
+      threshold,
+      maxRounds,
+      initialScore: null,
+      finalScore: null,
+      stopReason: 'max-rounds',
+      rounds: []
+    };
+
+    console.log(chalk.blue(`🔁 改善ループ開始: 目標スコア ${threshold} / 最大 ${maxRounds} ラウンド`));
+
+    let report = await this.evaluate(sceneGraphPath);
+    if (!report) {
+      result.stopReason = 'budget';
+      return result;
+    }
+    result.initialScore = result.finalScore = report.overallScore;
+
+    for (let round = 1; round <= maxRounds; round++) {
+      if (report.overallScore >= threshold) {
+        result.stopReason = 'threshold';
+        break;
+      }
+
+      const sceneGraph = await this.readSceneGraph(sceneGraphPath);
+      let patch: JsonPatch;
+      try {
+        patch = await this.editor.run(sceneGraph, report);
+      } catch (error) {
+        if (error instanceof BudgetExceededError) {
+          console.log(chalk.yellow(`⚠️  予算上限のため改善ループを終了します: ${error.message}`));
+          result.stopReason = 'budget';
+          break;
+        }
+        throw error;
+      }
+
+      const entry: RefinementRound = {
+        round,
+        scoreBefore: report.overallScore,
+        issues: report.issues.length,
+        patch,
+        inverse: []
+      };
+      result.rounds.push(entry);
+
+      if (patch.length === 0) {
+        result.stopReason = 'no-changes';
+        break;
+      }
+
+      try {
+        const edit = await this.sceneGraphEditor.applyToFile(patch, sceneGraphPath);
+        entry.inverse = edit.inverse;
+        entry.editId = edit.id;
+      } catch (error) {
+        // 同じ入力では同じ提案が返る（キャッシュ）ため、再試行せずに終了
+        entry.error = error instanceof Error ? error.message : String(error);
+        result.stopReason = 'invalid-patch';
+        break;
+      }
+
+      const next = await this.evaluate(sceneGraphPath);
+      if (!next) {
+        result.stopReason = 'budget';
+        break;
+      }
+      report = next;
+      entry.scoreAfter = result.finalScore = report.overallScore;
+      console.log(chalk.gray(`  ラウンド ${round}: ${entry.scoreBefore} → ${entry.scoreAfter} (${patch.length}件の編集)`));
+
+      if (report.overallScore >= threshold) {
+        result.stopReason = 'threshold';
+        break;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * 現在の SceneGraph を評価（予算超過の場合は null）
+   */
+  private async evaluate(sceneGraphPath: string): Promise<CriticReport | null> {
+    try {
+      return await this.critic.run(await this.readSceneGraph(sceneGraphPath));
+    } catch (error) {
+      if (error instanceof BudgetExceededError) {
+        console.log(chalk.yellow(`⚠️  予算上限のため改善ループを終了します: ${error.message}`));
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private async readSceneGraph(sceneGraphPath: string): Promise<SceneGraph> {
+    return SceneGraphSchema.parse(JSON.parse(await fs.readFile(sceneGraphPath, 'utf8')));
+  }
+}
@@ -0,0 +1,497 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { SceneGraph, Layer, Effect } from '../schemas/index.js';
+import { SceneGraphAssetRef, getReferencedAssetIds } from './scene-graph-builder.js';
+
+export const REMOTION_COMPOSITION_ID = 'main';
+
+export interface RemotionExportOptions {
+  outDir: string;
+  assets?: SceneGraphAssetRef[]; // uri から素材を参照（ローカルファイルは public/assets にコピー）
+  baseDir?: string; // 素材の相対パスの基準（省略時はカレントディレクトリ）
+  compositionId?: string;
+}
+
+export interface RemotionExportResult {
+  outDir: string;
+  files: string[]; // 生成したファイル（outDir からの相対パス）
+  copiedAssets: string[]; // public/ にコピーした素材（outDir からの相対パス）
+  missingAssetIds: string[]; // 参照できなかった素材（プレースホルダーで出力）
+  warnings: string[];
+}
+
+/**
+ * 素材の参照方法（生成コード中の式）
+ */
+export type RemotionAssetSource =
+  | { kind: 'local'; from: string; publicPath: string }
+  | { kind: 'remote'; url: string };
+
+// SceneGraph のエフェクト → CSS filter
+const CSS_FILTERS: Record<string, (params: Record<string, number | string | boolean>) => string> = {
+  blur: params => `blur(${numberParam(params, ['radius', 'amount', 'value'], 4)}px)`,
+  brightness: params => `brightness(${numberParam(params, ['amount', 'value'], 1)})`,
+  contrast: params => `contrast(${numberParam(params, ['amount', 'value'], 1)})`,
+  saturate: params => `saturate(${numberParam(params, ['amount', 'value'], 1)})`,
+  grayscale: params => `grayscale(${numberParam(params, ['amount', 'value'], 1)})`,
+  sepia: params => `sepia(${numberParam(params, ['amount', 'value'], 1)})`,
+  invert: params => `invert(${numberParam(params, ['amount', 'value'], 1)})`,
+  'hue-rotate': params => `hue-rotate(${numberParam(params, ['degrees', 'angle', 'value'], 0)}deg)`
+};
+
+/**
+ * SceneGraph から Remotion プロジェクトを生成
+ * Composition（fps・サイズ・尺）とレイヤーごとの Sequence を型付きの React コンポーネントとして書き出し、
+ * Asset Manifest のローカル素材を public/assets にコピーして staticFile で参照します
+ */
+export async function exportRemotionProject(sceneGraph: SceneGraph, options: RemotionExportOptions): Promise<RemotionExportResult> {
+  const outDir = path.resolve(options.outDir);
+  const { sources, warnings } = await resolveAssetSources(sceneGraph, options.assets ?? [], options.baseDir ?? process.cwd());
+  const project = generateRemotionProject(sceneGraph, sources, options.compositionId);
+
+  for (const [file, content] of Object.entries(project.files)) {
+    const filePath = path.join(outDir, file);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content, 'utf8');
+  }
+
+  const copiedAssets: string[] = [];
+  for (const source of sources.values()) {
+    if (source.kind !== 'local') continue;
+    const target = path.join(outDir, 'public', source.publicPath);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.copyFile(source.from, target);
+    copiedAssets.push(path.join('public', source.publicPath));
+  }
+
+  return {
+    outDir,
+    files: Object.keys(project.files),
+    copiedAssets,
+    missingAssetIds: getReferencedAssetIds(sceneGraph).filter(assetId => !sources.has(assetId)),
+    warnings: [...warnings, ...project.warnings]
+  };
+}
+
+/**
+ * Remotion プロジェクトのファイル内容を生成（ファイルには書き出さない）
+ */
+export function generateRemotionProject(
+  sceneGraph: SceneGraph,
+  sources: Map<string, RemotionAssetSource>,
+  compositionId: string = REMOTION_COMPOSITION_ID
+): { files: Record<string, string>; warnings: string[] } {
+  const warnings: string[] = [];
+  return {
+    files: {
+      'package.json': generatePackageJson(sceneGraph, compositionId),
+      'tsconfig.json': TSCONFIG,
+      'src/index.ts': INDEX_SOURCE,
+      'src/Root.tsx': generateRoot(sceneGraph, compositionId),
+      'src/Scene.tsx': generateScene(sceneGraph, sources, warnings),
+      'src/assets.ts': generateAssets(sources),
+      'src/motiva.tsx': MOTIVA_SOURCE
+    },
+    warnings
+  };
+}
+
+async function resolveAssetSources(
+  sceneGraph: SceneGraph,
+  assets: SceneGraphAssetRef[],
+  baseDir: string
+): Promise<{ sources: Map<string, RemotionAssetSource>; warnings: string[] }> {
+  const sources = new Map<string, RemotionAssetSource>();
+  const warnings: string[] = [];
+
+  for (const assetId of getReferencedAssetIds(sceneGraph)) {
+    const uri = assets.find(asset => asset.id === assetId)?.uri;
+    if (!uri) {
+      warnings.push(`素材 ${assetId}: Asset Manifest に uri が無いためプレースホルダーで出力しました`);
+      continue;
+    }
+    if (/^https?:\/\//i.test(uri)) {
+      sources.set(assetId, { kind: 'remote', url: uri });
+      continue;
+    }
+
+    const from = path.resolve(baseDir, uri.replace(/^file:\/\//i, ''));
+    try {
+      await fs.access(from);
+    } catch {
+      warnings.push(`素材 ${assetId}: ファイルが見つからないためプレースホルダーで出力しました (${from})`);
+      continue;
+    }
+    // 素材名の衝突を避けるため素材IDをファイル名にする
+    sources.set(assetId, { kind: 'local', from, publicPath: `assets/${assetId.replace(/[^A-Za-z0-9._-]/g, '_')}${path.extname(from)}` });
+  }
+
+  return { sources, warnings };
+}
+
+function generatePackageJson(sceneGraph: SceneGraph, compositionId: string): string {
+  const packageJson = {
+    name: sceneGraph['@id'].toLowerCase().replace(/[^a-z0-9-]+/g, '-').replace(/^-+|-+$/g, '') || 'motiva-composition',
+    version: '1.0.0',
+    private: true,
+    description: 'motiva-compose export remotion で生成した Remotion プロジェクト',
+    scripts: {
+      studio: 'remotion studio src/index.ts',
+      render: `remotion render src/index.ts ${compositionId} out/video.mp4`,
+      typecheck: 'tsc --noEmit'
+    },
+    dependencies: {
+      '@remotion/cli': '^4.0.0',
+      remotion: '^4.0.0',
+      react: '^18.2.0',
+      'react-dom': '^18.2.0'
+    },
+    devDependencies: {
+      '@types/react': '^18.2.0',
+      typescript: '^5.0.0'
+    }
+  };
+  return `${JSON.stringify(packageJson, null, 2)}\n`;
+}
+
+function generateRoot(sceneGraph: SceneGraph, compositionId: string): string {
+  return `import { Composition } from 'remotion';
+import { Scene } from './Scene';
+
+export const RemotionRoot = () => {
+  return (
+    <Composition
+      id=${JSON.stringify(compositionId)}
+      component={Scene}
+      durationInFrames={${sceneGraph.duration}}
+      fps={${sceneGraph.fps}}
+      width={${sceneGraph.size.w}}
+      height={${sceneGraph.size.h}}
+    />
+  );
+};
+`;
+}
+
+function generateAssets(sources: Map<string, RemotionAssetSource>): string {
+  const entries = [...sources.entries()].map(([assetId, source]) => source.kind === 'local'
+    ? `  ${JSON.stringify(assetId)}: staticFile(${JSON.stringify(source.publicPath)}),`
+    : `  ${JSON.stringify(assetId)}: ${JSON.stringify(source.url)},`);
+  const usesStaticFile = [...sources.values()].some(source => source.kind === 'local');
+
+  return `${usesStaticFile ? "import { staticFile } from 'remotion';\n\n" : ''}// Asset Manifest の素材（ローカルファイルは public/assets にコピー済み）
+export const assets = ${entries.length > 0 ? `{\n${entries.join('\n')}\n}` : '{}'} as const;
+`;
+}
+
+function generateScene(sceneGraph: SceneGraph, sources: Map<string, RemotionAssetSource>, warnings: string[]): string {
+  const remotionImports = new Set(['AbsoluteFill']);
+  const helperImports = new Set<string>();
+  const body = sceneGraph.layers.map(layer => generateLayer(layer, sources, remotionImports, helperImports, warnings));
+
+  const sceneFilter = toCssFilter(sceneGraph.effects ?? [], 'scene', warnings);
+  const rootStyle = { backgroundColor: 'black', ...(sceneFilter ? { filter: sceneFilter } : {}) };
+  const usesAssets = sceneGraph.layers.some(layer => 'assetId' in layer && sources.has(layer.assetId));
+
+  return [
+    `import { ${[...remotionImports].sort().join(', ')} } from 'remotion';`,
+    ...(usesAssets ? ["import { assets } from './assets';"] : []),
+    ...(helperImports.size > 0 ? [`import { ${[...helperImports].sort().join(', ')} } from './motiva';`] : []),
+    '',
+    `// ${sanitizeComment(sceneGraph['@id'])}: ${sceneGraph.size.w}x${sceneGraph.size.h} / ${sceneGraph.fps}fps / ${sceneGraph.duration}フレーム`,
+    '// layers の先頭が最背面',
+    'export const Scene = () => {',
+    '  return (',
+    `    <AbsoluteFill style={${JSON.stringify(rootStyle)}}>`,
+    ...body,
+    '    </AbsoluteFill>',
+    '  );',
+    '};',
+    ''
+  ].join('\n');
+}
+
+function generateLayer(
+  layer: Layer,
+  sources: Map<string, RemotionAssetSource>,
+  remotionImports: Set<string>,
+  helperImports: Set<string>,
+  warnings: string[]
+): string {
+  const { start, duration } = layer.timing;
+  const label = `layer ${layer.id}`;
+  remotionImports.add('Sequence');
+  const sequence = (children: string[], layout = '') => [
+    `      <Sequence name={${JSON.stringify(layer.id)}} from={${start}} durationInFrames={${duration}}${layout}>`,
+    ...children,
+    '      </Sequence>'
+  ].join('\n');
+  const transitions = layer.transitions ? JSON.stringify(layer.transitions) : 'undefined';
+  const asset = 'assetId' in layer ? layer.assetId : undefined;
+  const src = asset && sources.has(asset) ? `assets[${JSON.stringify(asset)}]` : null;
+
+  if (layer.type === 'audio') {
+    if (!src) {
+      return `      {/* 素材が見つかりません: ${sanitizeComment(layer.assetId)} (${sanitizeComment(layer.id)}) */}`;
+    }
+    remotionImports.add('Audio');
+    helperImports.add('fadeVolume');
+    const startFrom = layer.sourceStart ? ` startFrom={${layer.sourceStart}}` : '';
+    return sequence([
+      `        <Audio src={${src}} volume={fadeVolume(${layer.volume ?? 1}, ${duration}, ${transitions})}${startFrom} />`
+    ], ' layout="none"');
+  }
+
+  if (layer.effects?.some(effect => effect.timing)) {
+    warnings.push(`${label}: エフェクトの区間指定（timing）は Remotion 出力では未対応のため、レイヤー全体に適用しました`);
+  }
+  const filter = toCssFilter(layer.effects ?? [], label, warnings);
+
+  let content: string;
+  switch (layer.type) {
+    case 'footage':
+      if (src) {
+        remotionImports.add('OffthreadVideo');
+        helperImports.add('fadeVolume').add('fill');
+        const props = [
+          `src={${src}}`,
+          ...(layer.sourceStart ? [`startFrom={${layer.sourceStart}}`] : []),
+          ...(layer.playbackRate !== undefined ? [`playbackRate={${layer.playbackRate}}`] : []),
+          `volume={fadeVolume(${layer.volume ?? 1}, ${duration}, ${transitions})}`,
+          'style={fill}'
+        ];
+        content = `<OffthreadVideo ${props.join(' ')} />`;
+      } else {
+        content = missingAsset(layer.assetId);
+      }
+      break;
+    case 'image':
+      if (src) {
+        remotionImports.add('Img');
+        helperImports.add('fill');
+        content = `<Img src={${src}} style={fill} />`;
+      } else {
+        content = missingAsset(layer.assetId);
+      }
+      break;
+    case 'text': {
+      const style = {
+        color: layer.style?.color ?? 'white',
+        fontSize: layer.style?.fontSize ?? 80,
+        ...(layer.style?.fontFamily ? { fontFamily: layer.style.fontFamily } : {}),
+        ...(layer.style?.fontWeight !== undefined ? { fontWeight: layer.style.fontWeight } : {}),
+        textAlign: layer.style?.align ?? 'center',
+        whiteSpace: 'pre-wrap'
+      };
+      content = `<AbsoluteFill style={${JSON.stringify(CENTERED)}}><div style={${JSON.stringify(style)}}>{${JSON.stringify(layer.text)}}</div></AbsoluteFill>`;
+      break;
+    }
+    case 'solid':
+      content = `<AbsoluteFill style={${JSON.stringify({ backgroundColor: layer.color })}} />`;
+      break;
+    case 'adjustment':
+      // 背面のレイヤー全体にエフェクトを適用する
+      content = `<AbsoluteFill style={${JSON.stringify(filter ? { backdropFilter: filter } : {})}} />`;
+      break;
+  }
+
+  helperImports.add('VisualLayer');
+  const props = [
+    `durationInFrames={${duration}}`,
+    ...(layer.transitions ? [`transitions={${transitions}}`] : []),
+    ...(layer.transform ? [`transform={${JSON.stringify(layer.transform)}}`] : []),
+    ...(filter && layer.type !== 'adjustment' ? [`filter={${JSON.stringify(filter)}}`] : [])
+  ];
+  return sequence([
+    `        <VisualLayer ${props.join(' ')}>`,
+    `          ${content}`,
+    '        </VisualLayer>'
+  ]);
+}
+
+const CENTERED = { justifyContent: 'center', alignItems: 'center' };
+
+function missingAsset(assetId: string): string {
+  const style = { ...CENTERED, backgroundColor: '#333', color: '#fff', fontSize: 40 };
+  return `<AbsoluteFill style={${JSON.stringify(style)}}>{${JSON.stringify(`素材が見つかりません: ${assetId}`)}}</AbsoluteFill>`;
+}
+
+function toCssFilter(effects: Effect[], label: string, warnings: string[]): string | undefined {
+  const filters = effects.flatMap(effect => {
+    const toFilter = CSS_FILTERS[effect.type.toLowerCase()];
+    if (!toFilter) {
+      warnings.push(`${label}: エフェクト ${effect.type} は Remotion 出力では未対応のため省略しました`);
+      return [];
+    }
+    return [toFilter(effect.params ?? {})];
+  });
+  return filters.length > 0 ? filters.join(' ') : undefined;
+}
+
+function numberParam(params: Record<string, number | string | boolean>, keys: string[], fallback: number): number {
+  for (const key of keys) {
+    const value = params[key];
+    if (typeof value === 'number' && Number.isFinite(value)) return value;
+  }
+  return fallback;
+}
+
+function sanitizeComment(value: string): string {
+  return value.replace(/\*\//g, '* /').replace(/[\r\n]+/g, ' ');
+}
+
+const TSCONFIG = `${JSON.stringify({
+  compilerOptions: {
+    target: 'ES2020',
+    module: 'ESNext',
+    moduleResolution: 'bundler',
+    lib: ['DOM', 'ES2020'],
+    jsx: 'react-jsx',
+    strict: true,
+    noEmit: true,
+    skipLibCheck: true,
+    esModuleInterop: true,
+    forceConsistentCasingInFileNames: true
+  },
+  include: ['src']
+}, null, 2)}\n`;
+
+const INDEX_SOURCE = `import { registerRoot } from 'remotion';
+import { RemotionRoot } from './Root';
+
+registerRoot(RemotionRoot);
+`;
+
+// 生成したプロジェクトで使う、SceneGraph のトランスフォーム・トランジションの実装
+const MOTIVA_SOURCE = `import type { CSSProperties, ReactNode } from 'react';
+import { AbsoluteFill, useCurrentFrame, useVideoConfig } from 'remotion';
+
+export type TransitionType = 'cut' | 'fade' | 'crossfade' | 'wipe' | 'slide' | 'zoom';
+export type TransitionEasing = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out';
+
+export interface Transition {
+  type: TransitionType;
+  duration: number;
+  easing?: TransitionEasing;
+}
+
+export interface Transitions {
+  in?: Transition;
+  out?: Transition;
+}
+
+export interface Vector2 {
+  x: number;
+  y: number;
+}
+
+// position はコンポジション左上が原点（px）、anchor はレイヤー内の相対位置（0-1、既定は中央）
+export interface Transform {
+  position?: Vector2;
+  anchor?: Vector2;
+  scale?: Vector2;
+  rotation?: number;
+  opacity?: number;
+}
+
+export const fill: CSSProperties = { width: '100%', height: '100%', objectFit: 'cover' };
+
+const easings: Record<TransitionEasing, (t: number) => number> = {
+  linear: (t) => t,
+  'ease-in': (t) => t * t,
+  'ease-out': (t) => 1 - (1 - t) * (1 - t),
+  'ease-in-out': (t) => (t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2),
+};
+
+// 0 = 完全に隠れた状態、1 = 通常の表示
+const progress = (frame: number, durationInFrames: number, transition: Transition | undefined, edge: 'in' | 'out'): number => {
+  if (!transition || transition.type === 'cut' || transition.duration <= 0) {
+    return 1;
+  }
+  const elapsed = edge === 'in' ? frame : durationInFrames - frame;
+  return easings[transition.easing ?? 'linear'](Math.min(Math.max(elapsed / transition.duration, 0), 1));
+};
+
+const transitionStyle = (frame: number, durationInFrames: number, transitions: Transitions | undefined) => {
+  let opacity = 1;
+  let clipPath: string | undefined;
+  const transforms: string[] = [];
+
+  for (const edge of ['in', 'out'] as const) {
+    const transition = transitions?.[edge];
+    if (!transition) {
+      continue;
+    }
+    const visible = progress(frame, durationInFrames, transition, edge);
+    const hidden = (1 - visible) * 100;
+    switch (transition.type) {
+      case 'fade':
+      case 'crossfade':
+        opacity *= visible;
+        break;
+      case 'zoom':
+        opacity *= visible;
+        transforms.push('scale(' + (0.8 + 0.2 * visible) + ')');
+        break;
+      case 'slide':
+        transforms.push('translateX(' + (edge === 'in' ? hidden : -hidden) + '%)');
+        break;
+      case 'wipe':
+        clipPath = edge === 'in' ? 'inset(0 ' + hidden + '% 0 0)' : 'inset(0 0 0 ' + hidden + '%)';
+        break;
+      case 'cut':
+        break;
+    }
+  }
+
+  return { opacity, clipPath, transforms };
+};
+
+// トランジションに合わせて音量を変化させる（Audio / OffthreadVideo の volume）
+export const fadeVolume = (volume: number, durationInFrames: number, transitions: Transitions | undefined) => {
+  return (frame: number): number =>
+    volume * progress(frame, durationInFrames, transitions?.in, 'in') * progress(frame, durationInFrames, transitions?.out, 'out');
+};
+
+export const VisualLayer = ({
+  durationInFrames,
+  transitions,
+  transform,
+  filter,
+  children,
+}: {
+  durationInFrames: number;
+  transitions?: Transitions;
+  transform?: Transform;
+  filter?: string;
+  children?: ReactNode;
+}) => {
+  const frame = useCurrentFrame();
+  const { width, height } = useVideoConfig();
+  const anchor = transform?.anchor ?? { x: 0.5, y: 0.5 };
+  const transition = transitionStyle(frame, durationInFrames, transitions);
+
+  const transforms: string[] = [];
+  if (transform?.position) {
+    // レイヤー（コンポジションと同じ大きさ）のアンカーを position に合わせる
+    transforms.push('translate(' + (transform.position.x - anchor.x * width) + 'px, ' + (transform.position.y - anchor.y * height) + 'px)');
+  }
+  transforms.push(...transition.transforms);
+  if (transform?.rotation) {
+    transforms.push('rotate(' + transform.rotation + 'deg)');
+  }
+  if (transform?.scale) {
+    transforms.push('scale(' + transform.scale.x + ', ' + transform.scale.y + ')');
+  }
+
+  const style: CSSProperties = {
+    opacity: (transform?.opacity ?? 1) * transition.opacity,
+    transform: transforms.length > 0 ? transforms.join(' ') : undefined,
+    transformOrigin: anchor.x * 100 + '% ' + anchor.y * 100 + '%',
+    filter,
+    clipPath: transition.clipPath,
+  };
+
+  return <AbsoluteFill style={style}>{children}</AbsoluteFill>;
+};
+`;
@@ -0,0 +1,259 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { z } from 'zod';
+import { PipelineConfigSchema } from '../schemas/index.js';
+import type { AgentRunResult, ExecutionCheckpoint } from './event-driven-orchestrator.js';
+
+// エージェント単位の実行状態
+const RunAgentStateSchema = z.object({
+  status: z.enum(['pending', 'running', 'success', 'failed']),
+  startTime: z.string().optional(),
+  endTime: z.string().optional(),
+  duration: z.number().optional(),
+  tokensUsed: z.number().optional(),
+  costUSD: z.number().optional(),
+  provider: z.string().optional(),
+  model: z.string().optional(),
+  cached: z.boolean().optional(),
+  error: z.string().optional()
+});
+
+// 実行全体のマニフェスト（.motiva/runs/<executionId>/run.json）
+export const RunManifestSchema = z.object({
+  executionId: z.string(),
+  pipelineName: z.string(),
+  definition: PipelineConfigSchema,
+  input: z.any(),
+  status: z.enum(['running', 'success', 'failed', 'partial']),
+  startTime: z.string(),
+  updatedAt: z.string(),
+  resumedAt: z.array(z.string()).default([]),
+  agents: z.record(z.string(), RunAgentStateSchema)
+});
+
+export type RunAgentState = z.infer<typeof RunAgentStateSchema>;
+export type RunManifest = z.infer<typeof RunManifestSchema>;
+
+// 実行ID・エージェント名はディレクトリ名・ファイル名に使うため、パス区切りや .. を含まない文字に限る
+const FILE_NAME_PATTERN = /^[\w-]+$/;
+
+/**
+ * パイプライン実行のチェックポイント
+ * 各エージェントの検証済み出力を完了次第ディスクに保存し、失敗時の再開を可能にします
+ */
+export class RunCheckpoint implements ExecutionCheckpoint {
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  private constructor(
+    private runDir: string,
+    private manifest: RunManifest
+  ) {}
+
+  /**
+   * 実行ディレクトリのルートを取得
+   */
+  static getRunsDir(workspacePath: string = process.cwd()): string {
+    return path.join(workspacePath, '.motiva', 'runs');
+  }
+
+  /**
+   * 実行IDを検証し、実行ディレクトリのパスを取得
+   */
+  static getRunDir(executionId: string, workspacePath?: string): string {
+    if (!FILE_NAME_PATTERN.test(executionId)) {
+      throw new Error(`実行IDが不正です: ${executionId}（英数字・_・- のみ使用できます）`);
+    }
+    return path.join(RunCheckpoint.getRunsDir(workspacePath), executionId);
+  }
+
+  /**
+   * 新しい実行のチェックポイントを作成
+   */
+  static async create(
+    manifest: Omit<RunManifest, 'status' | 'updatedAt' | 'resumedAt' | 'agents'>,
+    workspacePath?: string
+  ): Promise<RunCheckpoint> {
+    const runDir = RunCheckpoint.getRunDir(manifest.executionId, workspacePath);
+    for (const agent of manifest.definition.agents) {
+      if (!FILE_NAME_PATTERN.test(agent.name)) {
+        throw new Error(`エージェント名が不正です: ${agent.name}（英数字・_・- のみ使用できます）`);
+      }
+    }
+    await fs.mkdir(path.join(runDir, 'outputs'), { recursive: true });
+
+    const agents: Record<string, RunAgentState> = {};
+    for (const agent of manifest.definition.agents) {
+      agents[agent.name] = { status: 'pending' };
+    }
+
+    const checkpoint = new RunCheckpoint(runDir, {
+      ...manifest,
+      status: 'running',
+      updatedAt: new Date().toISOString(),
+      resumedAt: [],
+      agents
+    });
+    await checkpoint.persist();
+    return checkpoint;
+  }
+
+  /**
+   * 既存の実行のチェックポイントを読み込み
+   */
+  static async load(executionId: string, workspacePath?: string): Promise<RunCheckpoint> {
+    const runDir = RunCheckpoint.getRunDir(executionId, workspacePath);
+    let content: string;
+    try {
+      content = await fs.readFile(path.join(runDir, 'run.json'), 'utf8');
+    } catch {
+      throw new Error(`実行が見つかりません: ${executionId} (${runDir})`);
+    }
+
+    let manifest: RunManifest;
+    try {
+      manifest = RunManifestSchema.parse(JSON.parse(content));
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`チェックポイントが破損しています: ${path.join(runDir, 'run.json')} (${reason})`);
+    }
+    const checkpoint = new RunCheckpoint(runDir, manifest);
+
+    // 成功扱いでも出力ファイルが欠けている・読めない場合は未実行として扱う
+    for (const [name, state] of Object.entries(manifest.agents)) {
+      if (state.status === 'success' && (await checkpoint.readOutput(name)) === undefined) {
+        manifest.agents[name] = { status: 'pending' };
+      }
+    }
+    return checkpoint;
+  }
+
+  getManifest(): RunManifest {
+    return this.manifest;
+  }
+
+  get executionId(): string {
+    return this.manifest.executionId;
+  }
+
+  /**
+   * 再開時に最初に実行されるエージェント（失敗または未実行）を取得
+   */
+  getResumePoint(): string | undefined {
+    return this.manifest.definition.agents
+      .map(agent => agent.name)
+      .find(name => this.manifest.agents[name]?.status !== 'success');
+  }
+
+  /**
+   * 再開を記録
+   */
+  async markResumed(): Promise<void> {
+    this.manifest.status = 'running';
+    this.manifest.resumedAt.push(new Date().toISOString());
+    await this.persist();
+  }
+
+  /**
+   * 完了済みエージェントの結果（出力を含む）を取得
+   */
+  async loadCompletedResults(): Promise<Map<string, AgentRunResult>> {
+    const completed = new Map<string, AgentRunResult>();
+
+    for (const [name, state] of Object.entries(this.manifest.agents)) {
+      if (state.status !== 'success') continue;
+
+      const output = await this.readOutput(name);
+      if (output === undefined) continue;
+      completed.set(name, {
+        agentName: name,
+        status: 'success',
+        duration: state.duration ?? 0,
+        tokensUsed: state.tokensUsed,
+        costUSD: state.costUSD,
+        provider: state.provider,
+        model: state.model,
+        cached: state.cached,
+        output
+      });
+    }
+
+    return completed;
+  }
+
+  async markStarted(agentName: string): Promise<void> {
+    this.manifest.agents[agentName] = { status: 'running', startTime: new Date().toISOString() };
+    await this.persist();
+  }
+
+  async markSucceeded(result: AgentRunResult): Promise<void> {
+    await this.enqueue(() => this.writeJsonAtomic(this.getOutputPath(result.agentName), result.output));
+
+    this.manifest.agents[result.agentName] = {
+      ...this.manifest.agents[result.agentName],
+      status: 'success',
+      endTime: new Date().toISOString(),
+      duration: result.duration,
+      tokensUsed: result.tokensUsed,
+      costUSD: result.costUSD,
+      provider: result.provider,
+      model: result.model,
+      cached: result.cached
+    };
+    await this.persist();
+  }
+
+  async markFailed(result: AgentRunResult): Promise<void> {
+    this.manifest.agents[result.agentName] = {
+      ...this.manifest.agents[result.agentName],
+      status: 'failed',
+      endTime: new Date().toISOString(),
+      duration: result.duration,
+      error: result.error
+    };
+    await this.persist();
+  }
+
+  /**
+   * 実行の最終状態を記録
+   */
+  async finish(status: RunManifest['status']): Promise<void> {
+    this.manifest.status = status;
+    await this.persist();
+  }
+
+  private getOutputPath(agentName: string): string {
+    return path.join(this.runDir, 'outputs', `${agentName}.json`);
+  }
+
+  /**
+   * 保存済みの出力を読み込み（ファイルが無い・JSONとして読めない場合は undefined）
+   */
+  private async readOutput(agentName: string): Promise<unknown> {
+    try {
+      return JSON.parse(await fs.readFile(this.getOutputPath(agentName), 'utf8'));
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async persist(): Promise<void> {
+    this.manifest.updatedAt = new Date().toISOString();
+    const snapshot = JSON.parse(JSON.stringify(this.manifest));
+    await this.enqueue(() => this.writeJsonAtomic(path.join(this.runDir, 'run.json'), snapshot));
+  }
+
+  /**
+   * 並列エージェントからの書き込みを直列化
+   */
+  private enqueue(write: () => Promise<void>): Promise<void> {
+    const next = this.writeQueue.then(write);
+    this.writeQueue = next.catch(() => undefined);
+    return next;
+  }
+
+  private async writeJsonAtomic(filePath: string, data: any): Promise<void> {
+    const tempPath = `${filePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(data, null, 2), 'utf8');
+    await fs.rename(tempPath, filePath);
+  }
+}
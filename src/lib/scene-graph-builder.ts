@@ -0,0 +1,304 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  SceneGraph,
+  SceneGraphSchema,
+  Layer,
+  Effect,
+  Transition,
+  TransitionSchema,
+  SCENE_GRAPH_VERSION
+} from '../schemas/index.js';
+import { DirectorOutput, DirectorOutputSchema } from '../agents/director-agent.js';
+import { ConfigurationManager } from './config-manager.js';
+import { migrateSceneGraph } from './scene-graph-migration.js';
+
+export const SCENE_GRAPH_CONTEXT = 'https://schema.motiva.dev/scene-graph/v2';
+
+/**
+ * 参照先として照合する素材（AssetManifest / DirectorInput の assets）
+ */
+export interface SceneGraphAssetRef {
+  id: string;
+  uri?: string | null;
+  metadata?: { shotId?: string | null } | null;
+}
+
+export interface SceneGraphBuildOptions {
+  fps: number; // remotion.fps
+  size: { w: number; h: number }; // remotion.size
+  assets?: SceneGraphAssetRef[]; // 指定時のみ参照切れの素材を検出
+}
+
+export interface SceneGraphBuildResult {
+  sceneGraph: SceneGraph;
+  danglingAssetIds: string[]; // assets に存在しない素材ID（出現順）
+  warnings: string[];
+}
+
+type TimelineEntry = DirectorOutput['composition']['timeline'][number];
+
+// Director の assetType → レイヤー種別
+const TIMELINE_LAYER_TYPES: Record<TimelineEntry['assetType'], Layer['type']> = {
+  video: 'footage',
+  image: 'image',
+  audio: 'audio',
+  effect: 'adjustment'
+};
+
+// TransitionSchema に無い Director のトランジション名
+const TRANSITION_ALIASES: Record<string, Transition['type']> = {
+  dissolve: 'crossfade',
+  'cross-fade': 'crossfade',
+  'fade-in': 'fade',
+  'fade-out': 'fade',
+  push: 'slide'
+};
+
+/**
+ * DirectorOutput を SceneGraph に変換
+ * 秒単位の時間を fps でフレームに換算し、timeline を映像レイヤー、audio の bgm/sfx を音声レイヤーにします。
+ * 同じ入力からは常に同じ SceneGraph を生成します
+ */
+export function buildSceneGraph(output: DirectorOutput, options: SceneGraphBuildOptions): SceneGraphBuildResult {
+  const { composition } = output;
+  const { fps } = options;
+  const warnings: string[] = [];
+  const toFrames = (seconds: number) => Math.max(0, Math.round(seconds * fps));
+
+  let duration = toFrames(composition.duration);
+  if (duration <= 0) {
+    duration = Math.max(1, ...composition.timeline.map(entry => toFrames(entry.end)));
+    warnings.push(`composition.duration が不正なため、タイムラインの終端から尺を ${duration} フレームとしました`);
+  }
+
+  const usedIds = new Set<string>();
+  const uniqueId = (id: string): string => {
+    let candidate = id;
+    for (let n = 2; usedIds.has(candidate); n++) candidate = `${id}-${n}`;
+    if (candidate !== id) warnings.push(`重複したレイヤーID ${id} を ${candidate} に変更しました`);
+    usedIds.add(candidate);
+    return candidate;
+  };
+
+  const layers: Layer[] = [];
+  const layerIdsByEntry = new Map<string, string>();
+
+  for (const entry of composition.timeline) {
+    const start = Math.min(toFrames(entry.start), duration);
+    const end = Math.min(toFrames(entry.end), duration);
+    if (end <= start) {
+      warnings.push(`timeline ${entry.id}: 表示区間がシーンの尺に収まらないため除外しました (${entry.start}s - ${entry.end}s)`);
+      continue;
+    }
+    if (toFrames(entry.end) > duration) {
+      warnings.push(`timeline ${entry.id}: シーンの尺に収まるよう ${end - start} フレームに切り詰めました`);
+    }
+
+    const id = uniqueId(entry.id);
+    layerIdsByEntry.set(entry.id, id);
+    const base = { id, timing: { start, duration: end - start } };
+    const effects = convertEffects(entry.effects ?? [], `timeline ${entry.id}`, warnings);
+
+    const type = TIMELINE_LAYER_TYPES[entry.assetType];
+    let layer: Layer;
+    switch (type) {
+      case 'audio':
+        layer = { ...base, type, assetId: entry.assetId };
+        break;
+      case 'adjustment':
+        // エフェクト素材はレイヤーとして参照先を持たないため metadata に残す
+        layer = { ...base, type, metadata: { assetId: entry.assetId } };
+        break;
+      default:
+        layer = { ...base, type: type as 'footage' | 'image', assetId: entry.assetId };
+    }
+    if (layer.type !== 'audio' && entry.transform) {
+      // Director の x/y は画面中央からのずれ（px）として扱う
+      const { x, y, scale, rotation, opacity } = entry.transform;
+      layer.transform = {
+        position: { x: options.size.w / 2 + x, y: options.size.h / 2 + y },
+        scale: { x: scale, y: scale },
+        rotation,
+        opacity: Math.min(Math.max(opacity, 0), 1)
+      };
+    }
+    if (effects.length > 0) layer.effects = effects;
+    layers.push(layer);
+  }
+
+  applyTransitions(output, layers, layerIdsByEntry, options.assets, toFrames, warnings);
+
+  const bgm = composition.audio?.bgm;
+  if (bgm?.assetId) {
+    const transitions = {
+      ...(bgm.fadeIn > 0 ? { in: { type: 'fade' as const, duration: Math.min(toFrames(bgm.fadeIn), duration) } } : {}),
+      ...(bgm.fadeOut > 0 ? { out: { type: 'fade' as const, duration: Math.min(toFrames(bgm.fadeOut), duration) } } : {})
+    };
+    layers.push({
+      id: uniqueId('bgm'),
+      type: 'audio',
+      role: 'bgm',
+      assetId: bgm.assetId,
+      volume: clamp01(bgm.volume),
+      timing: { start: 0, duration },
+      ...(Object.keys(transitions).length > 0 ? { transitions } : {})
+    });
+  }
+
+  (composition.audio?.sfx ?? []).forEach((sfx, index) => {
+    const start = toFrames(sfx.start);
+    if (start >= duration) {
+      warnings.push(`sfx[${index}] (${sfx.assetId}): 開始位置がシーンの尺を超えるため除外しました`);
+      return;
+    }
+    // 効果音の長さは DirectorOutput に無いため、シーンの最後まで再生可能な区間とする（素材の長さで自然に終わる）
+    layers.push({
+      id: uniqueId(`sfx-${index + 1}`),
+      type: 'audio',
+      role: 'sfx',
+      assetId: sfx.assetId,
+      volume: clamp01(sfx.volume),
+      timing: { start, duration: duration - start }
+    });
+  });
+
+  const sceneGraph = SceneGraphSchema.parse({
+    '@context': SCENE_GRAPH_CONTEXT,
+    '@id': output.sceneId,
+    version: SCENE_GRAPH_VERSION,
+    type: 'Comp',
+    fps,
+    duration,
+    size: options.size,
+    layers
+  });
+
+  return { sceneGraph, danglingAssetIds: options.assets ? findDanglingAssetIds(sceneGraph, options.assets) : [], warnings };
+}
+
+/**
+ * SceneGraph が参照する素材ID（出現順・重複なし）
+ * 調整レイヤーはエフェクト素材の ID を metadata.assetId に持ちます
+ */
+export function getReferencedAssetIds(sceneGraph: SceneGraph): string[] {
+  const assetIds = sceneGraph.layers.map(layer =>
+    'assetId' in layer ? layer.assetId : typeof layer.metadata?.assetId === 'string' ? layer.metadata.assetId : undefined
+  );
+  return [...new Set(assetIds.filter((assetId): assetId is string => assetId !== undefined))];
+}
+
+/**
+ * assets に存在しない素材ID（参照切れ）
+ */
+export function findDanglingAssetIds(sceneGraph: SceneGraph, assets: SceneGraphAssetRef[]): string[] {
+  const knownAssetIds = new Set(assets.map(asset => asset.id));
+  return getReferencedAssetIds(sceneGraph).filter(assetId => !knownAssetIds.has(assetId));
+}
+
+/**
+ * composition.transitions を前後のレイヤーの out/in に割り当て
+ * fromShot/toShot はタイムラインのIDで照合し、見つからない場合は素材の metadata.shotId で照合します
+ */
+function applyTransitions(
+  output: DirectorOutput,
+  layers: Layer[],
+  layerIdsByEntry: Map<string, string>,
+  assets: SceneGraphAssetRef[] | undefined,
+  toFrames: (seconds: number) => number,
+  warnings: string[]
+): void {
+  const findLayer = (shotId: string): Layer | undefined => {
+    const byEntry = layerIdsByEntry.get(shotId);
+    if (byEntry) return layers.find(layer => layer.id === byEntry);
+    const assetIds = new Set((assets ?? []).filter(asset => asset.metadata?.shotId === shotId).map(asset => asset.id));
+    return layers.find(layer => 'assetId' in layer && assetIds.has(layer.assetId));
+  };
+
+  for (const transition of output.composition.transitions ?? []) {
+    const from = findLayer(transition.fromShot);
+    const to = findLayer(transition.toShot);
+    if (!from || !to) {
+      warnings.push(`transition ${transition.id}: 対象のショット (${transition.fromShot} → ${transition.toShot}) が見つからないため除外しました`);
+      continue;
+    }
+
+    const name = transition.type.toLowerCase();
+    const parsed = TransitionSchema.shape.type.safeParse(TRANSITION_ALIASES[name] ?? name);
+    if (!parsed.success) {
+      warnings.push(`transition ${transition.id}: 種別 ${transition.type} は未対応のため fade に変換しました`);
+    }
+    const type = parsed.success ? parsed.data : 'fade';
+    const frames = toFrames(transition.duration);
+
+    from.transitions = { ...from.transitions, out: { type, duration: Math.min(frames, from.timing.duration) } };
+    to.transitions = { ...to.transitions, in: { type, duration: Math.min(frames, to.timing.duration) } };
+  }
+}
+
+function convertEffects(effects: NonNullable<TimelineEntry['effects']>, label: string, warnings: string[]): Effect[] {
+  return effects.map(effect => {
+    const params: Record<string, number | string | boolean> = {};
+    for (const [key, value] of Object.entries(effect.params)) {
+      if (typeof value === 'number' || typeof value === 'string' || typeof value === 'boolean') {
+        params[key] = value;
+      } else {
+        warnings.push(`${label}: エフェクト ${effect.type} のパラメータ ${key} は数値・文字列・真偽値ではないため除外しました`);
+      }
+    }
+    return { type: effect.type, ...(Object.keys(params).length > 0 ? { params } : {}) };
+  });
+}
+
+function clamp01(value: number): number {
+  return Math.min(Math.max(value, 0), 1);
+}
+
+/**
+ * 設定（remotion.fps / remotion.size / paths.sceneGraph）に従って DirectorOutput から SceneGraph を生成
+ */
+export class SceneGraphBuilder {
+  constructor(private workspacePath: string = process.cwd()) {}
+
+  async build(output: DirectorOutput, assets?: SceneGraphAssetRef[]): Promise<SceneGraphBuildResult> {
+    const remotion = await ConfigurationManager.getInstance().getRemotionConfig();
+    return buildSceneGraph(output, { fps: remotion.fps, size: remotion.size, assets });
+  }
+
+  /**
+   * SceneGraph または DirectorOutput の JSON ファイルから SceneGraph を取得
+   * 旧形式の SceneGraph は型付きレイヤー形式に移行し、移行時の警告を warnings に含めます
+   */
+  async load(filePath: string, assets?: SceneGraphAssetRef[]): Promise<SceneGraphBuildResult> {
+    const data: unknown = JSON.parse(await fs.readFile(filePath, 'utf8'));
+
+    const directorOutput = DirectorOutputSchema.safeParse(data);
+    if (directorOutput.success) {
+      return this.build(directorOutput.data, assets);
+    }
+
+    const { sceneGraph, warnings } = migrateSceneGraph(data);
+    return { sceneGraph, danglingAssetIds: assets ? findDanglingAssetIds(sceneGraph, assets) : [], warnings };
+  }
+
+  /**
+   * SceneGraph を生成して書き出し（省略時は paths.sceneGraph）
+   */
+  async buildToFile(
+    output: DirectorOutput,
+    options: { assets?: SceneGraphAssetRef[]; sceneGraphPath?: string } = {}
+  ): Promise<SceneGraphBuildResult & { sceneGraphPath: string }> {
+    const result = await this.build(output, options.assets);
+    const configured = options.sceneGraphPath ?? (await ConfigurationManager.getInstance().getPathsConfig()).sceneGraph;
+    const sceneGraphPath = path.resolve(this.workspacePath, configured);
+
+    await fs.mkdir(path.dirname(sceneGraphPath), { recursive: true });
+    // 書き込み途中のファイルを読まないよう一時ファイル経由で置き換える
+    const tempPath = `${sceneGraphPath}.${uuidv4()}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(result.sceneGraph, null, 2), 'utf8');
+    await fs.rename(tempPath, sceneGraphPath);
+
+    return { ...result, sceneGraphPath };
+  }
+}
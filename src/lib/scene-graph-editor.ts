@@ -0,0 +1,152 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { z } from 'zod';
+import { SceneGraph, SceneGraphSchema, LegacySceneGraphSchema, JsonPatch, JsonPatchSchema } from '../schemas/index.js';
+import { ConfigurationManager } from './config-manager.js';
+import { applyJsonPatch } from './json-patch.js';
+
+const SceneGraphEditSchema = z.object({
+  id: z.string(),
+  appliedAt: z.string(),
+  sceneGraphPath: z.string(),
+  patch: JsonPatchSchema,
+  inverse: JsonPatchSchema, // 適用後の SceneGraph に適用すると編集前に戻るパッチ
+  resultHash: z.string() // 適用後に書き出した SceneGraph のハッシュ（取り消し前の変更検知用）
+});
+
+const EditHistorySchema = z.object({
+  edits: z.array(SceneGraphEditSchema)
+});
+
+export type SceneGraphEdit = z.infer<typeof SceneGraphEditSchema>;
+
+/**
+ * SceneGraph の編集
+ * EditorAgent の JSON Patch を適用して SceneGraphSchema で検証し、paths.sceneGraph に書き出します。
+ * 逆パッチを .motiva/scene-graph-edits.json に記録し、最後の編集から順に取り消せます
+ */
+export class SceneGraphEditor {
+  private historyPath: string;
+
+  constructor(private workspacePath: string = process.cwd()) {
+    this.historyPath = path.join(workspacePath, '.motiva', 'scene-graph-edits.json');
+  }
+
+  /**
+   * パッチを適用（ファイルには書き出さない）
+   * 適用後の SceneGraph がスキーマに違反する場合はエラー
+   */
+  apply(sceneGraph: SceneGraph, patch: JsonPatch): { sceneGraph: SceneGraph; inverse: JsonPatch } {
+    const { document, inverse } = applyJsonPatch(sceneGraph, patch);
+    return { sceneGraph: this.validate(document, 'パッチ適用後の SceneGraph が不正です'), inverse };
+  }
+
+  /**
+   * SceneGraph ファイルにパッチを適用して書き出し、編集履歴に記録
+   */
+  async applyToFile(patch: JsonPatch, sceneGraphPath?: string): Promise<SceneGraphEdit> {
+    const filePath = await this.resolveSceneGraphPath(sceneGraphPath);
+    const raw = await this.readJson(filePath);
+    if (!SceneGraphSchema.safeParse(raw).success && LegacySceneGraphSchema.safeParse(raw).success) {
+      throw new Error(`旧形式の SceneGraph です。先に motiva-compose validate ${filePath} --schema scene-graph --migrate で変換してください`);
+    }
+    const current = this.validate(raw, `SceneGraph が不正です (${filePath})`);
+    const { sceneGraph, inverse } = this.apply(current, patch);
+    const content = await this.writeSceneGraph(filePath, sceneGraph);
+
+    const edit: SceneGraphEdit = {
+      id: uuidv4(),
+      appliedAt: new Date().toISOString(),
+      sceneGraphPath: filePath,
+      patch,
+      inverse,
+      resultHash: this.hash(content)
+    };
+    const history = await this.loadHistory();
+    history.edits.push(edit);
+    await this.saveHistory(history);
+    return edit;
+  }
+
+  /**
+   * 最後の編集を取り消し（編集が無い場合は null）
+   * 編集後に SceneGraph ファイルが変更されている場合は逆パッチを適用できないためエラー
+   */
+  async undo(): Promise<SceneGraphEdit | null> {
+    const history = await this.loadHistory();
+    const edit = history.edits[history.edits.length - 1];
+    if (!edit) {
+      return null;
+    }
+
+    const content = await fs.readFile(edit.sceneGraphPath, 'utf8');
+    if (this.hash(content) !== edit.resultHash) {
+      throw new Error(`編集後に SceneGraph が変更されているため取り消せません: ${edit.sceneGraphPath}`);
+    }
+
+    const { sceneGraph } = this.apply(JSON.parse(content), edit.inverse);
+    await this.writeSceneGraph(edit.sceneGraphPath, sceneGraph);
+    history.edits.pop();
+    await this.saveHistory(history);
+    return edit;
+  }
+
+  /**
+   * 取り消し可能な編集の履歴（古い順）
+   */
+  async getHistory(): Promise<SceneGraphEdit[]> {
+    return (await this.loadHistory()).edits;
+  }
+
+  /**
+   * スキーマで検証（未定義のプロパティも逆パッチで復元できるよう、取り除かずにそのまま返す）
+   */
+  private validate(value: unknown, message: string): SceneGraph {
+    const result = SceneGraphSchema.safeParse(value);
+    if (!result.success) {
+      const issues = result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+      throw new Error(`${message}: ${issues.join(', ')}`);
+    }
+    return value as SceneGraph;
+  }
+
+  private async resolveSceneGraphPath(sceneGraphPath?: string): Promise<string> {
+    const configured = sceneGraphPath ?? (await ConfigurationManager.getInstance().loadConfig()).paths.sceneGraph;
+    return path.resolve(this.workspacePath, configured);
+  }
+
+  private async writeSceneGraph(filePath: string, sceneGraph: SceneGraph): Promise<string> {
+    const content = JSON.stringify(sceneGraph, null, 2);
+    // 書き込み途中のファイルを読まないよう一時ファイル経由で置き換える
+    const tempPath = `${filePath}.${uuidv4()}.tmp`;
+    await fs.writeFile(tempPath, content, 'utf8');
+    await fs.rename(tempPath, filePath);
+    return content;
+  }
+
+  private async loadHistory(): Promise<z.infer<typeof EditHistorySchema>> {
+    try {
+      return EditHistorySchema.parse(await this.readJson(this.historyPath));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return { edits: [] };
+      }
+      throw error;
+    }
+  }
+
+  private async saveHistory(history: z.infer<typeof EditHistorySchema>): Promise<void> {
+    await fs.mkdir(path.dirname(this.historyPath), { recursive: true });
+    await fs.writeFile(this.historyPath, JSON.stringify(history, null, 2), 'utf8');
+  }
+
+  private async readJson(filePath: string): Promise<unknown> {
+    return JSON.parse(await fs.readFile(filePath, 'utf8'));
+  }
+
+  private hash(content: string): string {
+    return crypto.createHash('sha256').update(content).digest('hex');
+  }
+}
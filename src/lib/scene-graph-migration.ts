@@ -0,0 +1,269 @@
+import {
+  SceneGraph,
+  SceneGraphSchema,
+  LegacySceneGraphSchema,
+  LegacySceneGraph,
+  Layer,
+  Effect,
+  Transition,
+  Transform,
+  TransitionSchema,
+  SCENE_GRAPH_VERSION
+} from '../schemas/index.js';
+
+export interface SceneGraphMigrationResult {
+  sceneGraph: SceneGraph;
+  migrated: boolean; // 型付きレイヤーへの変換を行ったか
+  warnings: string[];
+}
+
+// 旧形式のレイヤー type → 型付きレイヤーの type
+const LEGACY_LAYER_TYPES: Record<string, Layer['type']> = {
+  footage: 'footage',
+  video: 'footage',
+  clip: 'footage',
+  image: 'image',
+  picture: 'image',
+  text: 'text',
+  title: 'text',
+  caption: 'text',
+  audio: 'audio',
+  sound: 'audio',
+  music: 'audio',
+  bgm: 'audio',
+  sfx: 'audio',
+  narration: 'audio',
+  solid: 'solid',
+  color: 'solid',
+  background: 'solid',
+  adjustment: 'adjustment',
+  effect: 'adjustment'
+};
+
+// 旧形式で長さの指定が無いトランジションに使用するフレーム数
+const LEGACY_TRANSITION_FRAMES = 15;
+
+type LegacyRecord = Record<string, unknown>;
+
+/**
+ * SceneGraph を型付きレイヤー形式に移行
+ * 既に型付きの場合はそのまま返します。layers/effects が任意の値だった旧形式は、
+ * よく使われていたプロパティ（ref/src/start/len など）から推定して変換し、変換できなかったプロパティは metadata.legacy に残します
+ */
+export function migrateSceneGraph(input: unknown): SceneGraphMigrationResult {
+  const typed = SceneGraphSchema.safeParse(input);
+  if (typed.success) {
+    return { sceneGraph: input as SceneGraph, migrated: false, warnings: [] };
+  }
+
+  const legacy = LegacySceneGraphSchema.safeParse(input);
+  if (!legacy.success) {
+    // 旧形式としても不正な場合は型付きスキーマのエラーを報告する
+    throw typed.error;
+  }
+
+  const warnings: string[] = [];
+  // スキーマに無いトップレベルのプロパティも残すため、検証前の値から組み立てる
+  const { layers, effects, ...rest } = input as LegacySceneGraph;
+  const usedIds = new Set<string>();
+
+  const sceneGraph = {
+    ...rest,
+    version: SCENE_GRAPH_VERSION,
+    layers: layers.map((layer, index) => migrateLayer(layer, index, legacy.data.duration, usedIds, warnings)),
+    ...(effects ? { effects: migrateEffects(effects, 'effects', warnings) } : {})
+  } as SceneGraph;
+  SceneGraphSchema.parse(sceneGraph);
+
+  return { sceneGraph, migrated: true, warnings };
+}
+
+function migrateLayer(
+  raw: unknown,
+  index: number,
+  sceneDuration: number,
+  usedIds: Set<string>,
+  warnings: string[]
+): Layer {
+  const layer: LegacyRecord = isRecord(raw) ? { ...raw } : { value: raw };
+  const take = (...keys: string[]): unknown => {
+    for (const key of keys) {
+      if (layer[key] !== undefined) {
+        const value = layer[key];
+        keys.forEach(k => delete layer[k]);
+        return value;
+      }
+    }
+    return undefined;
+  };
+
+  let id = asString(take('id', '@id')) ?? `layer-${index + 1}`;
+  if (usedIds.has(id)) {
+    const renamed = `${id}-${index + 1}`;
+    warnings.push(`layers[${index}]: 重複したID ${id} を ${renamed} に変更しました`);
+    id = renamed;
+  }
+  usedIds.add(id);
+  const label = `layers[${index}] (${id})`;
+
+  const rawType = asString(take('type', 'kind'));
+  let type = rawType ? LEGACY_LAYER_TYPES[rawType.toLowerCase()] : inferLayerType(layer);
+  if (!type) {
+    type = 'adjustment';
+    warnings.push(`${label}: 種別 ${rawType ?? '(未指定)'} を判別できないため adjustment レイヤーに変換しました`);
+    if (rawType) layer.type = rawType;
+  }
+
+  const start = clampFrame(asNumber(take('start', 'from', 'startFrame', 'in')) ?? 0, 0, sceneDuration - 1);
+  const requestedDuration = asNumber(take('duration', 'durationInFrames', 'len', 'length'));
+  const duration = Math.max(1, Math.min(Math.round(requestedDuration ?? sceneDuration - start), sceneDuration - start));
+  if (requestedDuration === undefined) {
+    warnings.push(`${label}: 長さの指定が無いためシーンの最後までとしました`);
+  } else if (Math.round(requestedDuration) !== duration) {
+    warnings.push(`${label}: シーンの尺に収まるよう長さを ${duration} フレームに調整しました`);
+  }
+
+  const name = asString(take('name', 'label'));
+  const base = { id, ...(name ? { name } : {}), timing: { start, duration } };
+
+  const effects = migrateEffects(take('effects') ?? [], `${label}.effects`, warnings);
+  const singleEffect = asString(take('effect'));
+  if (singleEffect) effects.push({ type: singleEffect });
+
+  const transitions = migrateTransitions(take('transition', 'transitionIn'), take('transitionOut'), label, warnings);
+  // 音声レイヤーは位置などを持たないため、該当するプロパティは metadata.legacy に残す
+  const transform = type === 'audio' ? undefined : migrateTransform(layer, take);
+
+  let typed: Layer;
+  switch (type) {
+    case 'footage':
+    case 'image':
+    case 'audio': {
+      let assetId = asString(take('assetId', 'asset', 'ref', 'src', 'uri'));
+      if (!assetId) {
+        assetId = id;
+        warnings.push(`${label}: 素材の参照が無いためレイヤーIDを assetId としました`);
+      }
+      if (type === 'audio') {
+        const role = rawType && ['bgm', 'sfx', 'narration'].includes(rawType.toLowerCase())
+          ? rawType.toLowerCase() as 'bgm' | 'sfx' | 'narration'
+          : undefined;
+        const volume = asNumber(take('volume'));
+        typed = { ...base, type, assetId, ...(role ? { role } : {}), ...(volume !== undefined ? { volume: clamp01(volume) } : {}) };
+      } else {
+        typed = { ...base, type, assetId, ...(transform ? { transform } : {}) };
+      }
+      break;
+    }
+    case 'text':
+      typed = { ...base, type, text: asString(take('text', 'content', 'value')) ?? '', ...(transform ? { transform } : {}) };
+      break;
+    case 'solid':
+      typed = { ...base, type, color: asString(take('color', 'fill')) ?? '#000000', ...(transform ? { transform } : {}) };
+      break;
+    default:
+      typed = { ...base, type: 'adjustment', ...(transform ? { transform } : {}) };
+  }
+
+  if (effects.length > 0) typed.effects = effects;
+  if (transitions) typed.transitions = transitions;
+
+  // 変換に使わなかったプロパティは失わないよう metadata に退避
+  const metadata = isRecord(layer.metadata) ? layer.metadata : undefined;
+  delete layer.metadata;
+  if (Object.keys(layer).length > 0) {
+    typed.metadata = { ...metadata, legacy: layer };
+  } else if (metadata) {
+    typed.metadata = metadata;
+  }
+
+  return typed;
+}
+
+/**
+ * 種別の指定が無いレイヤーの種別を、持っているプロパティから推定
+ */
+function inferLayerType(layer: LegacyRecord): Layer['type'] | undefined {
+  if (['assetId', 'asset', 'ref', 'src', 'uri'].some(key => layer[key] !== undefined)) return 'footage';
+  if (layer.text !== undefined) return 'text';
+  if (layer.color !== undefined) return 'solid';
+  return undefined;
+}
+
+function migrateEffects(raw: unknown, label: string, warnings: string[]): Effect[] {
+  const items = Array.isArray(raw) ? raw : [raw];
+  return items.flatMap((item, index): Effect[] => {
+    if (typeof item === 'string' && item.length > 0) {
+      return [{ type: item }];
+    }
+    if (isRecord(item)) {
+      const type = asString(item.type ?? item.name);
+      if (type) {
+        const { type: _type, name: _name, params, ...others } = item;
+        const source = isRecord(params) ? params : others;
+        const entries = Object.entries(source)
+          .filter((entry): entry is [string, number | string | boolean] => ['number', 'string', 'boolean'].includes(typeof entry[1]));
+        return [{ type, ...(entries.length > 0 ? { params: Object.fromEntries(entries) } : {}) }];
+      }
+    }
+    warnings.push(`${label}[${index}]: エフェクトを判別できないため削除しました`);
+    return [];
+  });
+}
+
+function migrateTransitions(rawIn: unknown, rawOut: unknown, label: string, warnings: string[]): { in?: Transition; out?: Transition } | undefined {
+  const convert = (raw: unknown, edge: string): Transition | undefined => {
+    if (raw === undefined) return undefined;
+    const record = isRecord(raw) ? raw : { type: raw };
+    const candidate = {
+      type: asString(record.type)?.toLowerCase(),
+      duration: Math.max(0, Math.round(asNumber(record.duration) ?? LEGACY_TRANSITION_FRAMES))
+    };
+    const parsed = TransitionSchema.safeParse(candidate);
+    if (parsed.success) return parsed.data;
+    warnings.push(`${label}: トランジション(${edge}) ${JSON.stringify(raw)} を fade に変換しました`);
+    return { type: 'fade', duration: candidate.duration };
+  };
+
+  const transitionIn = convert(rawIn, 'in');
+  const transitionOut = convert(rawOut, 'out');
+  if (!transitionIn && !transitionOut) return undefined;
+  return { ...(transitionIn ? { in: transitionIn } : {}), ...(transitionOut ? { out: transitionOut } : {}) };
+}
+
+function migrateTransform(layer: LegacyRecord, take: (...keys: string[]) => unknown): Transform | undefined {
+  const nested = isRecord(layer.transform) ? take('transform') as LegacyRecord : {};
+  const x = asNumber(take('x') ?? nested.x);
+  const y = asNumber(take('y') ?? nested.y);
+  const scale = take('scale') ?? nested.scale;
+  const rotation = asNumber(take('rotation') ?? nested.rotation);
+  const opacity = asNumber(take('opacity') ?? nested.opacity);
+
+  const transform: Transform = {};
+  if (x !== undefined || y !== undefined) transform.position = { x: x ?? 0, y: y ?? 0 };
+  if (typeof scale === 'number') transform.scale = { x: scale, y: scale };
+  else if (isRecord(scale)) transform.scale = { x: asNumber(scale.x) ?? 1, y: asNumber(scale.y) ?? 1 };
+  if (rotation !== undefined) transform.rotation = rotation;
+  if (opacity !== undefined) transform.opacity = clamp01(opacity);
+  return Object.keys(transform).length > 0 ? transform : undefined;
+}
+
+function isRecord(value: unknown): value is LegacyRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.length > 0 ? value : undefined;
+}
+
+function asNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+function clampFrame(value: number, min: number, max: number): number {
+  return Math.min(Math.max(Math.round(value), min), max);
+}
+
+function clamp01(value: number): number {
+  return Math.min(Math.max(value, 0), 1);
+}
@@ -1,11 +1,19 @@
+import { z } from 'zod';
 import { SchemaRegistry } from './schema-registry.js';
 import {
   ShotPlanSchema,
   AssetManifestSchema,
   BudgetSchema,
-  MotivaConfigSchema
+  MotivaConfigSchema,
+  SceneGraphSchema,
+  LegacySceneGraphSchema,
+  SCENE_GRAPH_VERSION
 } from '../schemas/index.js';
 import { DirectorInputSchema, DirectorOutputSchema } from '../agents/director-agent.js';
+import { CaptionDraftSchema } from '../agents/subtitle-agent.js';
+import { EditorPatchSchema } from '../agents/editor-agent.js';
+import { CriticReportSchema } from '../agents/critic-agent.js';
+import { migrateSceneGraph } from './scene-graph-migration.js';
 
 /**
  * 既存のスキーマをSchema Registryに登録する
@@ -22,7 +30,8 @@ export function initializeSchemas(): SchemaRegistry {
       description: 'Shot plan for video composition'
     }),
     description: 'Shot plan for video composition',
-    version: '1.0'
+    version: '1.1', // 1.1: 撮影・演出の指定（camera・mood・colorPalette・transitions・characters・audioCues）と captions を追加
+    detectVersion: detectBySchema(ShotPlanSchema, '1.1')
   });
 
   // AssetManifestスキーマの登録
@@ -34,7 +43,9 @@ export function initializeSchemas(): SchemaRegistry {
       description: 'Asset manifest for video assets'
     }),
     description: 'Asset manifest for video assets',
-    version: '1.0'
+    version: '1.0',
+    // version プロパティは素材の内容のバージョン（"1" など自由な値）のため、スキーマのバージョンの判定には使わない
+    detectVersion: detectBySchema(AssetManifestSchema, '1.0')
   });
 
   // Budgetスキーマの登録
@@ -85,9 +96,89 @@ export function initializeSchemas(): SchemaRegistry {
     version: '1.0'
   });
 
+  // Caption Draftスキーマの登録
+  registry.register({
+    name: 'caption_draft_schema',
+    zodSchema: CaptionDraftSchema,
+    jsonSchema: registry.generateJSONSchema(CaptionDraftSchema, {
+      name: 'CaptionDraft',
+      description: 'Subtitle Agent caption draft per shot'
+    }),
+    description: 'Subtitle Agent caption draft per shot',
+    version: '1.0'
+  });
+
+  // Editor Patchスキーマの登録（応答は配列のため、各プロバイダーが送信する形と同じく result キーでラップした object 型とする）
+  registry.register({
+    name: 'json_patch_schema',
+    zodSchema: EditorPatchSchema,
+    jsonSchema: registry.generateJSONSchema(z.object({ result: EditorPatchSchema }), {
+      name: 'EditorPatch',
+      description: 'Editor Agent JSON Patch operations for a scene graph'
+    }),
+    description: 'Editor Agent JSON Patch operations for a scene graph',
+    version: '1.0'
+  });
+
+  // Critic Reportスキーマの登録
+  registry.register({
+    name: 'critic_report_schema',
+    zodSchema: CriticReportSchema,
+    jsonSchema: registry.generateJSONSchema(CriticReportSchema, {
+      name: 'CriticReport',
+      description: 'Critic Agent quality report'
+    }),
+    description: 'Critic Agent quality report',
+    version: '1.0'
+  });
+
+  // SceneGraphスキーマの登録（version の無い旧形式は layers の形で判定）
+  registry.register({
+    name: 'scene_graph_schema',
+    zodSchema: SceneGraphSchema,
+    jsonSchema: registry.generateJSONSchema(SceneGraphSchema, {
+      name: 'SceneGraph',
+      description: 'Scene graph with typed layers'
+    }),
+    description: 'Scene graph with typed layers',
+    version: SCENE_GRAPH_VERSION,
+    detectVersion: data => {
+      const version = (data as { version?: unknown } | null)?.version;
+      if (typeof version === 'string') return version;
+      if (SceneGraphSchema.safeParse(data).success) return SCENE_GRAPH_VERSION;
+      return LegacySceneGraphSchema.safeParse(data).success ? '1.0' : undefined;
+    }
+  });
+
+  registerMigrations(registry);
+
   return registry;
 }
 
+/**
+ * 現行スキーマで検証できれば現行バージョンと判定する（データ中の version プロパティは参照しない）
+ */
+function detectBySchema(schema: z.ZodTypeAny, version: string): (data: unknown) => string | undefined {
+  return data => schema.safeParse(data).success ? version : undefined;
+}
+
+/**
+ * スキーマのバージョン間の移行を登録する
+ */
+function registerMigrations(registry: SchemaRegistry): void {
+  registry.registerMigration('scene_graph_schema', {
+    from: '1.0',
+    to: '2.0',
+    description: '任意の値だった layers/effects を型付きレイヤーに変換',
+    up: ({ version: _version, ...data }, warnings) => {
+      // 旧バージョン番号を外して判定し（型付きレイヤーで version: "1.0" のデータは変換せずに残す）、結果は現行バージョンとする
+      const migration = migrateSceneGraph(data);
+      warnings.push(...migration.warnings);
+      return { ...migration.sceneGraph, version: SCENE_GRAPH_VERSION };
+    }
+  });
+}
+
 /**
  * 新しいスキーマを動的に登録するヘルパー関数
  */
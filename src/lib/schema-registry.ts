@@ -6,6 +6,38 @@ export interface SchemaDefinition<T = any> {
   jsonSchema: object;
   description?: string;
   version?: string;
+  detectVersion?: (data: unknown) => string | undefined; // 省略時は version プロパティ、無ければ現行スキーマで検証できれば現行バージョン
+}
+
+export interface SchemaMigration {
+  from: string;
+  to: string;
+  description: string;
+  up: (data: any, warnings: string[]) => unknown;
+}
+
+export interface SchemaMigrationResult<T = unknown> {
+  data: T;
+  fromVersion: string;
+  toVersion: string;
+  applied: SchemaMigration[];
+  warnings: string[];
+}
+
+const DEFAULT_SCHEMA_VERSION = '1.0';
+
+type JsonSchema = Record<string, unknown>;
+
+interface JsonSchemaConversionContext {
+  strict: boolean;
+  path: string; // エラー表示用のフィールドの位置
+}
+
+/**
+ * description などを持たない anyOf のみのスキーマか（入れ子の anyOf を平坦化できる）
+ */
+function isBareAnyOf(jsonSchema: JsonSchema): boolean {
+  return Array.isArray(jsonSchema.anyOf) && Object.keys(jsonSchema).length === 1;
 }
 
 export interface SchemaRegistryOptions {
@@ -17,6 +49,7 @@ export interface SchemaRegistryOptions {
 export class SchemaRegistry {
   private static instance: SchemaRegistry;
   private schemas = new Map<string, SchemaDefinition>();
+  private migrations = new Map<string, SchemaMigration[]>();
   private options: SchemaRegistryOptions;
 
   private constructor(options: SchemaRegistryOptions = {}) {
@@ -68,237 +101,374 @@ export class SchemaRegistry {
   }
 
   /**
-   * ZodスキーマからJSON Schemaを自動生成
+   * スキーマのバージョン間の移行（from → to）を登録する
+   * 同じ from からの移行は1つのみ（再登録すると置き換え）で、現行バージョンまで順に適用されます
    */
-  generateJSONSchema<T>(zodSchema: z.ZodSchema<T>, options?: {
-    name?: string;
-    description?: string;
-    strict?: boolean;
-  }): object {
-    const schema = this.zodToJsonSchema(zodSchema, {
-      name: options?.name || 'schema',
-      description: options?.description,
-      strict: options?.strict ?? this.options.strict!,
-      additionalProperties: this.options.additionalProperties!
-    });
+  registerMigration(name: string, migration: SchemaMigration): void {
+    const migrations = (this.migrations.get(name) ?? []).filter(existing => existing.from !== migration.from);
+    this.migrations.set(name, [...migrations, migration]);
+  }
 
-    return schema;
+  /**
+   * スキーマの現行バージョンを取得
+   */
+  getVersion(name: string): string {
+    return this.get(name).version ?? DEFAULT_SCHEMA_VERSION;
   }
 
   /**
-   * ZodスキーマをJSON Schemaに変換する内部メソッド
+   * データがどのバージョンのスキーマで作成されたかを判定（判定できない場合は undefined）
    */
-  private zodToJsonSchema<T>(
-    zodSchema: z.ZodSchema<T>,
-    options: {
-      name: string;
-      description?: string;
-      strict: boolean;
-      additionalProperties: boolean;
+  detectVersion(name: string, data: unknown): string | undefined {
+    const schema = this.get(name);
+    if (schema.detectVersion) {
+      return schema.detectVersion(data);
     }
-  ): object {
-    const schema: any = {
-      type: "object",
-      properties: {},
-      required: [],
-      additionalProperties: options.additionalProperties
-    };
-
-    if (options.description) {
-      schema.description = options.description;
+    if (typeof data === 'object' && data !== null && typeof (data as { version?: unknown }).version === 'string') {
+      return (data as { version: string }).version;
     }
+    return schema.zodSchema.safeParse(data).success ? this.getVersion(name) : undefined;
+  }
 
-    // Zodスキーマの形状を解析
-    const shape = this.extractZodShape(zodSchema);
-    
-    for (const [key, fieldSchema] of Object.entries(shape)) {
-      const fieldDefinition = this.convertZodFieldToJsonSchema(fieldSchema, key);
-      
-      if (fieldDefinition) {
-        schema.properties[key] = fieldDefinition.jsonSchema;
-        // OpenAI Strict Structured Outputs仕様: 全てのキーをrequiredに含める
-        schema.required.push(key);
+  /**
+   * 指定バージョンから現行バージョンまでの移行の連鎖を取得（現行バージョンの場合は空）
+   */
+  getMigrationPath(name: string, fromVersion: string): SchemaMigration[] {
+    const target = this.getVersion(name);
+    const migrations = this.migrations.get(name) ?? [];
+    const path: SchemaMigration[] = [];
+    let version = fromVersion;
+
+    while (version !== target) {
+      const next = migrations.find(migration => migration.from === version);
+      if (!next || path.includes(next)) {
+        throw new Error(`${name} の v${fromVersion} から v${target} への移行がありません`);
       }
+      path.push(next);
+      version = next.to;
     }
 
-    return schema;
+    return path;
   }
 
   /**
-   * Zodスキーマの形状を抽出
+   * 指定バージョンから現行バージョンまで移行できるかチェック
    */
-  private extractZodShape(zodSchema: z.ZodSchema): Record<string, z.ZodSchema> {
-    // ZodObjectの場合
-    if (zodSchema instanceof z.ZodObject) {
-      return zodSchema.shape;
+  hasMigrationPath(name: string, fromVersion: string): boolean {
+    try {
+      this.getMigrationPath(name, fromVersion);
+      return true;
+    } catch {
+      return false;
     }
-    
-    // その他の場合は空のオブジェクトを返す
-    return {};
   }
 
   /**
-   * ZodフィールドをJSON Schemaに変換
+   * データのバージョンを判定し、現行バージョンまで移行して検証する
+   * スキーマに無いプロパティを失わないよう、検証前の移行結果を返します
    */
-  private convertZodFieldToJsonSchema(
-    fieldSchema: z.ZodSchema,
-    fieldName: string
-  ): { jsonSchema: object; required: boolean } | null {
-    let jsonSchema: any = {};
-    let required = true;
-
-    // ZodString
-    if (fieldSchema instanceof z.ZodString) {
-      jsonSchema = {
-        type: "string",
-        description: `${fieldName} field`
-      };
-      
-      // 安全な方法でminLengthを取得
-      try {
-        const def = fieldSchema._def as any;
-        if (def.minLength?.value !== undefined) {
-          jsonSchema.minLength = def.minLength.value;
+  migrate<T>(name: string, data: unknown): SchemaMigrationResult<T> {
+    const fromVersion = this.detectVersion(name, data);
+    if (!fromVersion) {
+      throw new Error(`${name} のバージョンを判定できません`);
+    }
+
+    const applied = this.getMigrationPath(name, fromVersion);
+    const warnings: string[] = [];
+    let migrated = data;
+    for (const migration of applied) {
+      migrated = migration.up(structuredClone(migrated), warnings);
+    }
+    this.get(name).zodSchema.parse(migrated);
+
+    return { data: migrated as T, fromVersion, toVersion: this.getVersion(name), applied, warnings };
+  }
+
+  /**
+   * ZodスキーマからJSON Schemaを自動生成
+   * strict モードでは OpenAI Structured Outputs の制約に合わせ、全てのキーを required に含めて省略可能な項目は null を許容し、
+   * 対応していないキーワード（default・minLength など）は出力しません（制約は応答を Zod で検証する際に適用されます）
+   */
+  generateJSONSchema<T>(zodSchema: z.ZodSchema<T>, options?: {
+    name?: string;
+    description?: string;
+    strict?: boolean;
+  }): object {
+    const jsonSchema = this.convertZodSchema(zodSchema, {
+      strict: options?.strict ?? this.options.strict!,
+      path: options?.name || 'schema'
+    });
+
+    if (options?.description) {
+      jsonSchema.description = options.description;
+    }
+
+    return jsonSchema;
+  }
+
+  /**
+   * strict モードの応答から、省略の代わりに返された null を取り除く
+   * optional のみの項目（null を許容しない項目）が null の場合はキーを削除し、Zod で検証できる形にします
+   */
+  removeOptionalNulls<T>(zodSchema: z.ZodSchema<T>, data: unknown): unknown {
+    return this.stripNulls(zodSchema, data);
+  }
+
+  /**
+   * Zodスキーマを再帰的にJSON Schemaに変換する
+   */
+  private convertZodSchema(zodSchema: z.ZodTypeAny, context: JsonSchemaConversionContext): JsonSchema {
+    const jsonSchema = this.convertZodType(zodSchema, context);
+    if (zodSchema.description && jsonSchema.description === undefined) {
+      jsonSchema.description = zodSchema.description;
+    }
+    return jsonSchema;
+  }
+
+  private convertZodType(zodSchema: z.ZodTypeAny, context: JsonSchemaConversionContext): JsonSchema {
+    const def = zodSchema._def;
+
+    switch (def.typeName as z.ZodFirstPartyTypeKind) {
+      case z.ZodFirstPartyTypeKind.ZodString:
+        return this.convertString(zodSchema as z.ZodString, context);
+
+      case z.ZodFirstPartyTypeKind.ZodNumber:
+        return this.convertNumber(zodSchema as z.ZodNumber);
+
+      case z.ZodFirstPartyTypeKind.ZodBoolean:
+        return { type: 'boolean' };
+
+      case z.ZodFirstPartyTypeKind.ZodNull:
+        return { type: 'null' };
+
+      case z.ZodFirstPartyTypeKind.ZodLiteral: {
+        const value = (zodSchema as z.ZodLiteral<unknown>).value;
+        if (value === null) return { type: 'null' };
+        if (!['string', 'number', 'boolean'].includes(typeof value)) {
+          throw new Error(`JSON Schema に変換できないリテラルです: ${context.path}`);
         }
-      } catch (error) {
-        // エラーが発生した場合は無視
+        return { type: typeof value, enum: [value] };
       }
-    }
-    
-    // ZodNumber
-    else if (fieldSchema instanceof z.ZodNumber) {
-      jsonSchema = {
-        type: "number",
-        description: `${fieldName} field`
-      };
-      
-      // 安全な方法でminimum/maximumを取得
-      try {
-        const def = fieldSchema._def as any;
-        if (def.minimum?.value !== undefined) {
-          jsonSchema.minimum = def.minimum.value;
+
+      case z.ZodFirstPartyTypeKind.ZodEnum:
+        return { type: 'string', enum: [...(zodSchema as z.ZodEnum<[string, ...string[]]>).options] };
+
+      case z.ZodFirstPartyTypeKind.ZodArray: {
+        const array = zodSchema as z.ZodArray<z.ZodTypeAny>;
+        const jsonSchema: JsonSchema = { type: 'array', items: this.convertZodSchema(array.element, { ...context, path: `${context.path}[]` }) };
+        const minItems = array._def.exactLength?.value ?? array._def.minLength?.value;
+        const maxItems = array._def.exactLength?.value ?? array._def.maxLength?.value;
+        if (minItems !== undefined) jsonSchema.minItems = minItems;
+        if (maxItems !== undefined) jsonSchema.maxItems = maxItems;
+        return jsonSchema;
+      }
+
+      case z.ZodFirstPartyTypeKind.ZodObject:
+        return this.convertObject(zodSchema as z.AnyZodObject, context);
+
+      case z.ZodFirstPartyTypeKind.ZodRecord: {
+        // strict モードは任意のキーを持つオブジェクトを表現できないため、空のオブジェクトのみ許容する
+        if (context.strict) {
+          return { type: 'object', properties: {}, required: [], additionalProperties: false };
         }
-        if (def.maximum?.value !== undefined) {
-          jsonSchema.maximum = def.maximum.value;
+        const record = zodSchema as z.ZodRecord;
+        return { type: 'object', additionalProperties: this.convertZodSchema(record.valueSchema, { ...context, path: `${context.path}{}` }) };
+      }
+
+      case z.ZodFirstPartyTypeKind.ZodUnion:
+      case z.ZodFirstPartyTypeKind.ZodDiscriminatedUnion: {
+        const options: z.ZodTypeAny[] = Array.isArray(def.options) ? def.options : Array.from(def.options.values());
+        const anyOf = options.flatMap((option, index) => {
+          const converted = this.convertZodSchema(option, { ...context, path: `${context.path}|${index}` });
+          return isBareAnyOf(converted) ? converted.anyOf as JsonSchema[] : [converted];
+        });
+        return { anyOf };
+      }
+
+      case z.ZodFirstPartyTypeKind.ZodOptional:
+        // strict モードではキーを省略できないため、省略の代わりに null を許容する
+        return context.strict
+          ? this.toNullable(this.convertZodSchema(def.innerType, context))
+          : this.convertZodSchema(def.innerType, context);
+
+      case z.ZodFirstPartyTypeKind.ZodNullable:
+        return this.toNullable(this.convertZodSchema(def.innerType, context));
+
+      case z.ZodFirstPartyTypeKind.ZodDefault: {
+        const jsonSchema = this.convertZodSchema(def.innerType, context);
+        const defaultValue = def.defaultValue();
+        if (context.strict) {
+          const note = `既定値: ${JSON.stringify(defaultValue)}`;
+          jsonSchema.description = jsonSchema.description ? `${jsonSchema.description}（${note}）` : note;
+        } else {
+          jsonSchema.default = defaultValue;
         }
-      } catch (error) {
-        // エラーが発生した場合は無視
+        return jsonSchema;
       }
+
+      case z.ZodFirstPartyTypeKind.ZodCatch:
+        return this.convertZodSchema(def.innerType, context);
+
+      case z.ZodFirstPartyTypeKind.ZodEffects:
+        return this.convertZodSchema(def.schema, context);
+
+      case z.ZodFirstPartyTypeKind.ZodAny:
+      case z.ZodFirstPartyTypeKind.ZodUnknown:
+        // strict モードには任意の値を表す型が無いため、プリミティブ値のいずれかとして扱う
+        return context.strict
+          ? { anyOf: [{ type: 'string' }, { type: 'number' }, { type: 'boolean' }, { type: 'null' }] }
+          : {};
+
+      default:
+        throw new Error(`JSON Schema に変換できない Zod の型です: ${def.typeName} (${context.path})`);
     }
-    
-    // ZodBoolean
-    else if (fieldSchema instanceof z.ZodBoolean) {
-      jsonSchema = {
-        type: "boolean",
-        description: `${fieldName} field`
-      };
-    }
-    
-    // ZodArray
-    else if (fieldSchema instanceof z.ZodArray) {
-      const itemSchema = this.convertZodFieldToJsonSchema(fieldSchema._def.type, 'item');
-      jsonSchema = {
-        type: "array",
-        items: itemSchema?.jsonSchema || { type: "object" },
-        description: `${fieldName} array field`
-      };
-    }
-    
-    // ZodEnum
-    else if (fieldSchema instanceof z.ZodEnum) {
-      jsonSchema = {
-        type: "string",
-        enum: fieldSchema._def.values,
-        description: `${fieldName} enum field`
-      };
-    }
-    
-    // ZodOptional
-    else if (fieldSchema instanceof z.ZodOptional) {
-      const innerSchema = this.convertZodFieldToJsonSchema(fieldSchema._def.innerType, fieldName);
-      if (innerSchema) {
-        // オプショナルフィールドはanyOfでnullを許容
-        jsonSchema = {
-          anyOf: [
-            innerSchema.jsonSchema,
-            { type: "null" }
-          ],
-          description: `${fieldName} optional field`
-        };
-        required = false; // オプショナルフィールドはrequiredに含めない
+  }
+
+  private convertObject(zodSchema: z.AnyZodObject, context: JsonSchemaConversionContext): JsonSchema {
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+
+    for (const [key, fieldSchema] of Object.entries(zodSchema.shape as Record<string, z.ZodTypeAny>)) {
+      properties[key] = this.convertZodSchema(fieldSchema, { ...context, path: `${context.path}.${key}` });
+      // OpenAI Strict Structured Outputs仕様: 全てのキーをrequiredに含める
+      if (context.strict || !fieldSchema.isOptional()) {
+        required.push(key);
       }
     }
-    
-    // ZodNullable
-    else if (fieldSchema instanceof z.ZodNullable) {
-      const innerSchema = this.convertZodFieldToJsonSchema(fieldSchema._def.innerType, fieldName);
-      if (innerSchema) {
-        jsonSchema = {
-          anyOf: [
-            innerSchema.jsonSchema,
-            { type: "null" }
-          ],
-          description: `${fieldName} nullable field`
-        };
+
+    return {
+      type: 'object',
+      properties,
+      required,
+      additionalProperties: context.strict ? false : this.options.additionalProperties!
+    };
+  }
+
+  private convertString(zodSchema: z.ZodString, context: JsonSchemaConversionContext): JsonSchema {
+    const jsonSchema: JsonSchema = { type: 'string' };
+
+    for (const check of zodSchema._def.checks) {
+      switch (check.kind) {
+        case 'min':
+          if (!context.strict) jsonSchema.minLength = check.value;
+          break;
+        case 'max':
+          if (!context.strict) jsonSchema.maxLength = check.value;
+          break;
+        case 'length':
+          if (!context.strict) jsonSchema.minLength = jsonSchema.maxLength = check.value;
+          break;
+        case 'regex':
+          jsonSchema.pattern = check.regex.source;
+          break;
+        case 'datetime':
+          jsonSchema.format = 'date-time';
+          break;
+        case 'date':
+        case 'time':
+        case 'email':
+        case 'uuid':
+          jsonSchema.format = check.kind;
+          break;
+        case 'url':
+          // OpenAI の strict モードは uri 形式に対応していない
+          if (!context.strict) jsonSchema.format = 'uri';
+          break;
       }
     }
-    
-    // ZodObject (ネストしたオブジェクト)
-    else if (fieldSchema instanceof z.ZodObject) {
-      jsonSchema = this.zodToJsonSchema(fieldSchema, {
-        name: fieldName,
-        strict: this.options.strict!,
-        additionalProperties: this.options.additionalProperties!
-      });
-      // additionalPropertiesを明示的に設定
-      if (this.options.additionalProperties === false) {
-        jsonSchema.additionalProperties = false;
+
+    return jsonSchema;
+  }
+
+  private convertNumber(zodSchema: z.ZodNumber): JsonSchema {
+    const jsonSchema: JsonSchema = { type: 'number' };
+
+    for (const check of zodSchema._def.checks) {
+      switch (check.kind) {
+        case 'int':
+          jsonSchema.type = 'integer';
+          break;
+        case 'min':
+          jsonSchema[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value;
+          break;
+        case 'max':
+          jsonSchema[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value;
+          break;
+        case 'multipleOf':
+          jsonSchema.multipleOf = check.value;
+          break;
       }
     }
-    
-    // ZodRecord (レコード型)
-    else if (fieldSchema instanceof z.ZodRecord) {
-      const keySchema = fieldSchema._def.keyType;
-      const valueSchema = fieldSchema._def.valueType;
-      
-      if (keySchema instanceof z.ZodString) {
-        // 値のスキーマを再帰的に処理
-        const valueJsonSchema = this.zodToJsonSchema(valueSchema, {
-          name: `${fieldName}_value`,
-          strict: this.options.strict!,
-          additionalProperties: this.options.additionalProperties!
-        });
-        
-        jsonSchema = {
-          type: 'object',
-          additionalProperties: valueJsonSchema,
-          description: `${fieldName} record field`
-        };
+
+    return jsonSchema;
+  }
+
+  /**
+   * null を許容するスキーマに変換（anyOf は入れ子にせず null を追加）
+   */
+  private toNullable(jsonSchema: JsonSchema): JsonSchema {
+    const { description, ...rest } = jsonSchema;
+    const options = isBareAnyOf(rest) ? rest.anyOf as JsonSchema[] : [rest];
+    const anyOf = options.some(option => option.type === 'null') ? options : [...options, { type: 'null' }];
+    return description === undefined ? { anyOf } : { anyOf, description };
+  }
+
+  private stripNulls(zodSchema: z.ZodTypeAny, data: unknown): unknown {
+    const def = zodSchema._def;
+
+    switch (def.typeName as z.ZodFirstPartyTypeKind) {
+      case z.ZodFirstPartyTypeKind.ZodOptional:
+        if (data === null) {
+          return def.innerType.safeParse(null).success ? null : undefined;
+        }
+        return this.stripNulls(def.innerType, data);
+
+      case z.ZodFirstPartyTypeKind.ZodNullable:
+        return data === null ? null : this.stripNulls(def.innerType, data);
+
+      case z.ZodFirstPartyTypeKind.ZodDefault:
+      case z.ZodFirstPartyTypeKind.ZodCatch:
+        return this.stripNulls(def.innerType, data);
+
+      case z.ZodFirstPartyTypeKind.ZodEffects:
+        return this.stripNulls(def.schema, data);
+
+      case z.ZodFirstPartyTypeKind.ZodArray:
+        return Array.isArray(data) ? data.map(item => this.stripNulls(def.type, item)) : data;
+
+      case z.ZodFirstPartyTypeKind.ZodObject: {
+        if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+          return data;
+        }
+        const result: Record<string, unknown> = { ...data };
+        for (const [key, fieldSchema] of Object.entries((zodSchema as z.AnyZodObject).shape as Record<string, z.ZodTypeAny>)) {
+          if (!(key in result)) continue;
+          const value = this.stripNulls(fieldSchema, result[key]);
+          if (value === undefined) {
+            delete result[key];
+          } else {
+            result[key] = value;
+          }
+        }
+        return result;
       }
-    }
-    
-    // ZodUnion
-    else if (fieldSchema instanceof z.ZodUnion) {
-      const options = fieldSchema._def.options.map((option: z.ZodSchema) => {
-        const converted = this.convertZodFieldToJsonSchema(option, fieldName);
-        return converted?.jsonSchema || { type: "object" };
-      });
-      
-      jsonSchema = {
-        anyOf: options,
-        description: `${fieldName} union field`
-      };
-    }
-    
-    // その他の場合は汎用的なオブジェクト
-    else {
-      jsonSchema = {
-        type: "object",
-        description: `${fieldName} object field`
-      };
-    }
 
-    return { jsonSchema, required };
+      case z.ZodFirstPartyTypeKind.ZodUnion:
+      case z.ZodFirstPartyTypeKind.ZodDiscriminatedUnion: {
+        // 取り除いた結果が検証できる選択肢を採用する
+        const options: z.ZodTypeAny[] = Array.isArray(def.options) ? def.options : Array.from(def.options.values());
+        for (const option of options) {
+          const stripped = this.stripNulls(option, data);
+          if (option.safeParse(stripped).success) {
+            return stripped;
+          }
+        }
+        return data;
+      }
+
+      default:
+        return data;
+    }
   }
 
   /**
@@ -313,6 +483,7 @@ export class SchemaRegistry {
    * スキーマを削除する
    */
   unregister(name: string): boolean {
+    this.migrations.delete(name);
     return this.schemas.delete(name);
   }
 
@@ -321,6 +492,7 @@ export class SchemaRegistry {
    */
   clear(): void {
     this.schemas.clear();
+    this.migrations.clear();
   }
 
   /**
@@ -49,4 +49,47 @@ export class Semaphore {
   get waitingCount(): number {
     return this.waitQueue.length;
   }
-} 
\ No newline at end of file
+} 
+
+/**
+ * ConcurrencyGate: エージェントごとの同時実行数の上限を守って実行を許可するクラス
+ * 実行中の全てのエージェントの上限（自身を含む同時実行数）を満たす場合のみ許可し、待機は到着順に処理します
+ */
+export class ConcurrencyGate {
+  private running: number[] = [];
+  private waitQueue: Array<{ limit: number; resolve: () => void }> = [];
+
+  /**
+   * 上限 limit で実行の許可を待機（1 の場合は単独で実行）
+   */
+  async acquire(limit: number = Infinity): Promise<void> {
+    return new Promise<void>((resolve) => {
+      this.waitQueue.push({ limit, resolve });
+      this.admit();
+    });
+  }
+
+  /**
+   * acquire と同じ上限を指定して許可を返却
+   */
+  release(limit: number = Infinity): void {
+    const index = this.running.indexOf(limit);
+    if (index !== -1) {
+      this.running.splice(index, 1);
+    }
+    this.admit();
+  }
+
+  private admit(): void {
+    while (this.waitQueue.length > 0) {
+      const next = this.waitQueue[0]!;
+      const count = this.running.length + 1;
+      if (count > next.limit || this.running.some(limit => count > limit)) {
+        return;
+      }
+      this.waitQueue.shift();
+      this.running.push(next.limit);
+      next.resolve();
+    }
+  }
+}
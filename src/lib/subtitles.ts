@@ -0,0 +1,164 @@
+import { ShotPlan } from '../schemas/index.js';
+import type { CaptionDraft } from '../agents/subtitle-agent.js';
+
+// 1行あたりの最大文字数（放送・配信の字幕ガイドラインで一般的な上限）
+export const MAX_CAPTION_LINE_LENGTH = 42;
+
+/**
+ * タイムライン上の字幕（時間は ShotPlan 先頭からのフレーム数）
+ */
+export interface SubtitleCue {
+  shotId: string;
+  start: number;
+  end: number;
+  text: string;
+  speaker?: string;
+}
+
+export interface CaptionIssue {
+  type: 'overlap' | 'line-length' | 'out-of-shot';
+  shotId: string;
+  message: string;
+}
+
+/**
+ * ShotPlan のショットごとの字幕を、ショットの開始フレームを足してタイムライン順に並べる
+ */
+export function collectSubtitleCues(plan: ShotPlan): SubtitleCue[] {
+  return plan.shots
+    .flatMap(shot => (shot.captions ?? []).map(caption => {
+      const cue: SubtitleCue = {
+        shotId: shot.id,
+        start: shot.start + caption.start,
+        end: shot.start + caption.start + caption.len,
+        text: caption.text
+      };
+      if (caption.speaker) cue.speaker = caption.speaker;
+      return cue;
+    }))
+    .sort((a, b) => a.start - b.start || a.end - b.end);
+}
+
+/**
+ * 字幕の重なり・1行の文字数超過・ショットからのはみ出しを検出
+ */
+export function checkCaptions(plan: ShotPlan, maxLineLength: number = MAX_CAPTION_LINE_LENGTH): CaptionIssue[] {
+  const issues: CaptionIssue[] = [];
+
+  for (const shot of plan.shots) {
+    for (const caption of shot.captions ?? []) {
+      if (caption.start + caption.len > shot.len) {
+        issues.push({
+          type: 'out-of-shot',
+          shotId: shot.id,
+          message: `ショット "${shot.id}" の字幕「${preview(caption.text)}」がショットの長さ（${shot.len}フレーム）を超えています`
+        });
+      }
+      for (const line of caption.text.split('\n')) {
+        const length = [...line].length;
+        if (length > maxLineLength) {
+          issues.push({
+            type: 'line-length',
+            shotId: shot.id,
+            message: `ショット "${shot.id}" の字幕「${preview(line)}」が1行${maxLineLength}文字を超えています（${length}文字）`
+          });
+        }
+      }
+    }
+  }
+
+  const cues = collectSubtitleCues(plan);
+  for (let i = 1; i < cues.length; i++) {
+    const previous = cues[i - 1]!;
+    const cue = cues[i]!;
+    if (cue.start < previous.end) {
+      issues.push({
+        type: 'overlap',
+        shotId: cue.shotId,
+        message: `字幕「${preview(previous.text)}」と「${preview(cue.text)}」が時間軸で重複しています（${cue.start}〜${previous.end}フレーム）`
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * 下書きの字幕を ShotPlan に反映（下書きに含まれるショットの字幕は置き換え）
+ */
+export function applyCaptionDraft(plan: ShotPlan, draft: CaptionDraft): { plan: ShotPlan; warnings: string[] } {
+  const warnings: string[] = [];
+  const captionsByShot = new Map(draft.shots.map(entry => [entry.shotId, entry.captions]));
+
+  for (const shotId of captionsByShot.keys()) {
+    if (!plan.shots.some(shot => shot.id === shotId)) {
+      warnings.push(`存在しないショット "${shotId}" の字幕を無視しました`);
+    }
+  }
+
+  return {
+    plan: {
+      ...plan,
+      shots: plan.shots.map(shot => {
+        const captions = captionsByShot.get(shot.id);
+        return captions ? { ...shot, captions } : shot;
+      })
+    },
+    warnings
+  };
+}
+
+/**
+ * SubRip（.srt）形式に変換（話者は表示しない）
+ */
+export function exportSrt(plan: ShotPlan, fps: number): string {
+  return collectSubtitleCues(plan)
+    .map((cue, index) => [
+      String(index + 1),
+      `${formatSubtitleTime(cue.start, fps, ',')} --> ${formatSubtitleTime(cue.end, fps, ',')}`,
+      cue.text,
+      ''
+    ].join('\n'))
+    .join('\n');
+}
+
+/**
+ * WebVTT（.vtt）形式に変換（話者は <v> タグ）
+ */
+export function exportVtt(plan: ShotPlan, fps: number): string {
+  const counters = new Map<string, number>();
+  const cues = collectSubtitleCues(plan).map(cue => {
+    const count = (counters.get(cue.shotId) ?? 0) + 1;
+    counters.set(cue.shotId, count);
+    const text = escapeVtt(cue.text);
+    return [
+      `${cue.shotId}-${count}`,
+      `${formatSubtitleTime(cue.start, fps, '.')} --> ${formatSubtitleTime(cue.end, fps, '.')}`,
+      cue.speaker ? `<v ${escapeVtt(cue.speaker)}>${text}` : text,
+      ''
+    ].join('\n');
+  });
+  return ['WEBVTT', '', ...cues].join('\n');
+}
+
+/**
+ * フレーム数を HH:MM:SS<区切り>mmm に変換
+ */
+export function formatSubtitleTime(frames: number, fps: number, separator: ',' | '.'): string {
+  const totalMs = Math.round(frames * 1000 / fps);
+  const ms = totalMs % 1000;
+  const totalSeconds = Math.floor(totalMs / 1000);
+  const hms = [Math.floor(totalSeconds / 3600), Math.floor(totalSeconds / 60) % 60, totalSeconds % 60]
+    .map(part => String(part).padStart(2, '0'))
+    .join(':');
+  return `${hms}${separator}${String(ms).padStart(3, '0')}`;
+}
+
+function escapeVtt(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function preview(text: string): string {
+  const chars = [...text.replace(/\n/g, ' ')];
+  return chars.length > 20 ? `${chars.slice(0, 20).join('')}…` : chars.join('');
+}
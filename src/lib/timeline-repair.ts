@@ -0,0 +1,167 @@
+import { Shot, ShotPlan } from '../schemas/index.js';
+
+export const TIMELINE_REPAIR_STRATEGIES = ['proportional', 'trim-last', 'ripple'] as const;
+export type TimelineRepairStrategy = typeof TIMELINE_REPAIR_STRATEGIES[number];
+
+export interface TimelineIssue {
+  type: 'gap' | 'overlap' | 'overrun' | 'underrun';
+  shotId?: string; // gap・overlap は後ろ側のショット
+  frames: number;
+  message: string;
+}
+
+export interface ShotChange {
+  shotId: string;
+  from: { start: number; len: number };
+  to: { start: number; len: number };
+}
+
+export interface TimelineRepairResult {
+  plan: ShotPlan;
+  strategy: TimelineRepairStrategy;
+  issues: TimelineIssue[]; // 修復前に検出した問題
+  changes: ShotChange[];
+  removed: string[]; // 総尺を超えたため削除したショット
+}
+
+/**
+ * ショットプランの隙間・重なり・総尺との差を検出
+ */
+export function detectTimelineIssues(plan: ShotPlan): TimelineIssue[] {
+  const issues: TimelineIssue[] = [];
+  const shots = sortByStart(plan.shots);
+  let end = 0;
+
+  for (const shot of shots) {
+    if (shot.start > end) {
+      const frames = shot.start - end;
+      issues.push({ type: 'gap', shotId: shot.id, frames, message: `ショット "${shot.id}" の前に ${frames} フレームの隙間があります` });
+    } else if (shot.start < end) {
+      const frames = end - shot.start;
+      issues.push({ type: 'overlap', shotId: shot.id, frames, message: `ショット "${shot.id}" が前のショットと ${frames} フレーム重なっています` });
+    }
+    end = Math.max(end, shot.start + shot.len);
+  }
+
+  if (end > plan.duration) {
+    issues.push({ type: 'overrun', frames: end - plan.duration, message: `ショットの終わり（${end}）が総尺 ${plan.duration} を ${end - plan.duration} フレーム超えています` });
+  } else if (end < plan.duration) {
+    issues.push({ type: 'underrun', frames: plan.duration - end, message: `ショットの終わり（${end}）が総尺 ${plan.duration} に ${plan.duration - end} フレーム足りません` });
+  }
+
+  return issues;
+}
+
+/**
+ * ショットの隙間・重なりを解消し、ショットが総尺（duration）ちょうどを隙間なく埋めるように修復
+ * - proportional: 開始位置の順に詰めて並べ、各ショットの長さを総尺に比例して伸縮
+ * - trim-last: 長さを保ったまま詰めて並べ、総尺との差は末尾のショットで調整（超えたショットは削除）
+ * - ripple: 重なりは前のショットの末尾を削り、隙間は後続のショットを前に詰める。総尺との差は trim-last と同じく末尾で調整
+ * ショット内の字幕・音のきっかけ・トランジションはショット先頭からの相対位置のため、修復後は validatePlan で範囲を確認してください
+ */
+export function repairTimeline(plan: ShotPlan, strategy: TimelineRepairStrategy = 'proportional'): TimelineRepairResult {
+  if (plan.shots.length === 0) {
+    throw new Error('ショットが無いため、タイムラインを修復できません');
+  }
+  if (plan.duration < plan.shots.length) {
+    throw new Error(`総尺 ${plan.duration} フレームに ${plan.shots.length} 個のショットを収められません`);
+  }
+
+  const issues = detectTimelineIssues(plan);
+  const sorted = sortByStart(plan.shots);
+  let shots: Shot[];
+  const removed: string[] = [];
+
+  switch (strategy) {
+    case 'proportional':
+      shots = scaleToDuration(sorted, plan.duration);
+      break;
+    case 'trim-last':
+      shots = fitEnd(placeSequentially(sorted, shot => shot.len), plan.duration, removed);
+      break;
+    case 'ripple':
+      shots = fitEnd(placeSequentially(sorted, (shot, next) => {
+        // 次のショットと重なる分を削る（1フレームは残す）
+        const overlap = next ? shot.start + shot.len - next.start : 0;
+        return overlap > 0 ? Math.max(1, shot.len - overlap) : shot.len;
+      }), plan.duration, removed);
+      break;
+    default:
+      throw new Error(`未対応の修復方法です: ${strategy}`);
+  }
+
+  // 削除されるのは末尾のショットのみのため、修復後の i 番目は並べ替えた i 番目に対応する
+  const changes: ShotChange[] = [];
+  for (const [index, shot] of shots.entries()) {
+    const before = sorted[index]!;
+    if (before.start !== shot.start || before.len !== shot.len) {
+      changes.push({ shotId: shot.id, from: { start: before.start, len: before.len }, to: { start: shot.start, len: shot.len } });
+    }
+  }
+
+  return { plan: { ...plan, shots }, strategy, issues, changes, removed };
+}
+
+/**
+ * 修復結果を表示用の行に整形
+ */
+export function formatTimelineRepairReport(result: TimelineRepairResult): string[] {
+  const lines = [`🔧 修復方法: ${result.strategy} / 検出した問題: ${result.issues.length}件 / 変更したショット: ${result.changes.length}件`];
+  for (const issue of result.issues) {
+    lines.push(`  ! ${issue.message}`);
+  }
+  for (const change of result.changes) {
+    lines.push(`  - ${change.shotId}: ${change.from.start}+${change.from.len} → ${change.to.start}+${change.to.len}`);
+  }
+  for (const shotId of result.removed) {
+    lines.push(`  × ${shotId}: 総尺を超えるため削除`);
+  }
+  return lines;
+}
+
+function sortByStart(shots: Shot[]): Shot[] {
+  // 開始位置が同じショットは元の順序を保つ
+  return [...shots].sort((a, b) => a.start - b.start);
+}
+
+function placeSequentially(shots: Shot[], lengthOf: (shot: Shot, next: Shot | undefined) => number): Shot[] {
+  let cursor = 0;
+  return shots.map((shot, index) => {
+    const len = lengthOf(shot, shots[index + 1]);
+    const placed = { ...shot, start: cursor, len };
+    cursor += len;
+    return placed;
+  });
+}
+
+function fitEnd(shots: Shot[], duration: number, removed: string[]): Shot[] {
+  const kept = shots.filter(shot => {
+    if (shot.start >= duration) {
+      removed.push(shot.id);
+      return false;
+    }
+    return true;
+  });
+
+  const last = kept[kept.length - 1]!;
+  last.len = duration - last.start;
+  return kept;
+}
+
+function scaleToDuration(shots: Shot[], duration: number): Shot[] {
+  const total = shots.reduce((sum, shot) => sum + shot.len, 0);
+  let cumulative = 0;
+  let previousEnd = 0;
+
+  return shots.map((shot, index) => {
+    cumulative += shot.len;
+    // 累積位置で丸めて端数を分散し、残りのショットに最低1フレームずつ残す
+    const end = Math.min(
+      Math.max(Math.round(cumulative * duration / total), previousEnd + 1),
+      duration - (shots.length - 1 - index)
+    );
+    const scaled = { ...shot, start: previousEnd, len: end - previousEnd };
+    previousEnd = end;
+    return scaled;
+  });
+}
@@ -1,12 +1,56 @@
 import { z } from 'zod';
+import { TransitionSchema } from './scene-graph.js';
 
 // === Core Data Structures ===
 
+// ナレーション・字幕（時間はショット先頭からのフレーム数）
+export const CaptionSchema = z.object({
+  text: z.string().min(1), // 改行で複数行
+  speaker: z.string().nullable().optional(), // 話者（ナレーター・登場人物）。画面上のテキストは省略
+  start: z.number().int().min(0),
+  len: z.number().int().positive()
+});
+
+// === Shot Direction（撮影・演出の指定。すべて任意） ===
+
+export const CameraMovementSchema = z.enum(['static', 'pan', 'tilt', 'dolly', 'truck', 'crane', 'zoom', 'handheld', 'tracking', 'orbit']);
+
+export const ShotSizeSchema = z.enum(['extreme-wide', 'wide', 'full', 'medium', 'medium-close-up', 'close-up', 'extreme-close-up']);
+
+export const CameraSchema = z.object({
+  movement: CameraMovementSchema.nullable().optional(),
+  shotSize: ShotSizeSchema.nullable().optional(),
+  lens: z.object({
+    focalLength: z.number().positive(), // mm（35mm判換算）
+    type: z.enum(['wide', 'standard', 'telephoto', 'macro', 'fisheye', 'anamorphic']).nullable().optional()
+  }).nullable().optional()
+});
+
+export const ShotTransitionsSchema = z.object({
+  in: TransitionSchema.nullable().optional(), // 直前のショットからの切り替え
+  out: TransitionSchema.nullable().optional()
+});
+
+// ショット内の音のきっかけ（時間はショット先頭からのフレーム数）
+export const AudioCueSchema = z.object({
+  type: z.enum(['sfx', 'music', 'ambience', 'voice']),
+  description: z.string().min(1),
+  start: z.number().int().min(0),
+  len: z.number().int().positive().nullable().optional() // 省略時はショットの終わりまで
+});
+
 export const ShotSchema = z.object({
   id: z.string().min(1),
   start: z.number().int().min(0),
   len: z.number().int().positive(),
-  desc: z.string().min(1)
+  desc: z.string().min(1),
+  camera: CameraSchema.nullable().optional(),
+  mood: z.string().min(1).nullable().optional(),
+  colorPalette: z.array(z.string().regex(/^#[0-9a-fA-F]{6}$/)).nullable().optional(), // #RRGGBB
+  transitions: ShotTransitionsSchema.nullable().optional(),
+  characters: z.array(z.string().min(1)).nullable().optional(), // 登場する人物・キャラクター名
+  audioCues: z.array(AudioCueSchema).nullable().optional(),
+  captions: z.array(CaptionSchema).nullable().optional()
 });
 
 export const ShotPlanSchema = z.object({
@@ -117,6 +161,9 @@ export const MotivaConfigSchema = z.object({
 
 // === Export Types ===
 
+export type Caption = z.infer<typeof CaptionSchema>;
+export type Camera = z.infer<typeof CameraSchema>;
+export type AudioCue = z.infer<typeof AudioCueSchema>;
 export type Shot = z.infer<typeof ShotSchema>;
 export type ShotPlan = z.infer<typeof ShotPlanSchema>;
 export type AssetItem = z.infer<typeof AssetItemSchema>;
@@ -134,20 +181,7 @@ export type MotivaConfig = z.infer<typeof MotivaConfigSchema>;
 export * from './pipeline.js';
 
 // === Scene Graph & Editing ===
-
-export const SceneGraphSchema = z.object({
-  "@context": z.string().url(),
-  "@id": z.string(),
-  type: z.enum(["Scene", "Comp", "Footage", "Effect"]),
-  fps: z.number().int().positive(),
-  duration: z.number().int().positive(),
-  size: z.object({
-    w: z.number().int().positive(),
-    h: z.number().int().positive()
-  }),
-  layers: z.array(z.any()),
-  effects: z.array(z.any()).optional()
-});
+export * from './scene-graph.js';
 
 export const JsonPatchOperationSchema = z.object({
   op: z.enum(["add", "remove", "replace", "move", "copy", "test"]),
@@ -160,6 +194,5 @@ export const JsonPatchSchema = z.array(JsonPatchOperationSchema);
 
 // === Export Additional Types ===
 
-export type SceneGraph = z.infer<typeof SceneGraphSchema>;
 export type JsonPatchOperation = z.infer<typeof JsonPatchOperationSchema>;
 export type JsonPatch = z.infer<typeof JsonPatchSchema>; 
\ No newline at end of file
@@ -4,19 +4,25 @@ import { z } from 'zod';
  * エージェント設定のスキーマ
  */
 export const AgentConfigSchema = z.object({
-  name: z.string(),
-  type: z.enum(['concept-planner', 'asset-synthesizer', 'director', 'editor', 'critic']),
+  name: z.string().regex(/^[\w-]+$/, 'エージェント名は英数字・_・- のみ使用できます'), // 実行ごとの出力ファイル名に使用
+  type: z.enum(['concept-planner', 'asset-synthesizer', 'director', 'editor', 'critic', 'beat-sync']),
   config: z.object({
     model: z.string().optional(),
+    provider: z.union([z.string(), z.array(z.string()).min(1)]).optional(), // "openai:gpt-4o" 形式、配列はフォールバックチェーン
     temperature: z.number().optional(),
     maxTokens: z.number().optional(),
     quality: z.enum(['draft', 'standard', 'high']).optional(),
+    beatSync: z.object({ // beat-sync（LLMを呼ばないShotPlanの拍合わせ）の設定
+      unit: z.enum(['beat', 'bar']).optional(),
+      beatsPerBar: z.number().int().positive().optional(),
+      tolerance: z.number().int().min(0).optional(), // フレーム
+    }).optional(),
   }).optional(),
   input: z.any().optional(), // エージェント固有の入力
   dependencies: z.array(z.string()).optional(), // 依存するエージェント名
-  parallel: z.boolean().default(false), // 並列実行フラグ
+  parallel: z.boolean().optional(), // false の場合は他のエージェントと同時に実行しない（未指定は同時実行可）
   parallelGroup: z.string().optional(), // 並列実行グループ
-  maxConcurrency: z.number().optional(), // 並列実行時の最大同時実行数
+  maxConcurrency: z.number().int().positive().optional(), // このエージェントの実行中に許容する同時実行数（自身を含む）
 });
 
 /**
@@ -70,6 +76,9 @@ export const PipelineResultSchema = z.object({
     duration: z.number(),
     tokensUsed: z.number().optional(),
     costUSD: z.number().optional(),
+    provider: z.string().optional(), // 実際に応答したプロバイダー
+    model: z.string().optional(),
+    cached: z.boolean().optional(), // キャッシュから返した場合
     error: z.string().optional(),
     output: z.any().optional(),
   })),
@@ -0,0 +1,167 @@
+import { z } from 'zod';
+
+// === Scene Graph ===
+// 時間はすべてフレーム単位（fps は SceneGraph.fps）。layers は配列の先頭が最背面
+
+export const SCENE_GRAPH_VERSION = '2.0';
+
+export const LayerTimingSchema = z.object({
+  start: z.number().int().min(0), // シーン先頭からの開始フレーム
+  duration: z.number().int().positive() // 表示フレーム数
+});
+
+export const Vector2Schema = z.object({
+  x: z.number(),
+  y: z.number()
+});
+
+export const TransformSchema = z.object({
+  position: Vector2Schema.optional(), // px（コンポジション左上が原点）
+  anchor: Vector2Schema.optional(), // 0-1（レイヤー内の相対位置、既定は中央）
+  scale: Vector2Schema.optional(), // 1 = 100%
+  rotation: z.number().optional(), // 度
+  opacity: z.number().min(0).max(1).optional()
+});
+
+export const EffectSchema = z.object({
+  type: z.string().min(1), // blur, color-grade, vignette など
+  params: z.record(z.string(), z.union([z.number(), z.string(), z.boolean()])).optional(),
+  timing: LayerTimingSchema.optional() // レイヤー先頭からの区間（省略時はレイヤー全体）
+});
+
+export const TransitionSchema = z.object({
+  type: z.enum(['cut', 'fade', 'crossfade', 'wipe', 'slide', 'zoom']),
+  duration: z.number().int().min(0), // フレーム
+  easing: z.enum(['linear', 'ease-in', 'ease-out', 'ease-in-out']).optional()
+});
+
+export const LayerTransitionsSchema = z.object({
+  in: TransitionSchema.optional(),
+  out: TransitionSchema.optional()
+});
+
+const LayerBaseSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().optional(),
+  timing: LayerTimingSchema,
+  effects: z.array(EffectSchema).optional(),
+  transitions: LayerTransitionsSchema.optional(),
+  metadata: z.record(z.string(), z.unknown()).optional()
+});
+
+const VisualLayerBaseSchema = LayerBaseSchema.extend({
+  transform: TransformSchema.optional()
+});
+
+export const FootageLayerSchema = VisualLayerBaseSchema.extend({
+  type: z.literal('footage'),
+  assetId: z.string().min(1), // AssetItem.id
+  sourceStart: z.number().int().min(0).optional(), // 素材内の開始フレーム
+  playbackRate: z.number().positive().optional(),
+  volume: z.number().min(0).max(1).optional()
+});
+
+export const ImageLayerSchema = VisualLayerBaseSchema.extend({
+  type: z.literal('image'),
+  assetId: z.string().min(1) // AssetItem.id
+});
+
+export const TextLayerSchema = VisualLayerBaseSchema.extend({
+  type: z.literal('text'),
+  text: z.string(),
+  style: z.object({
+    fontFamily: z.string().optional(),
+    fontSize: z.number().positive().optional(), // px
+    fontWeight: z.union([z.number(), z.string()]).optional(),
+    color: z.string().optional(),
+    align: z.enum(['left', 'center', 'right']).optional()
+  }).optional()
+});
+
+export const AudioLayerSchema = LayerBaseSchema.extend({
+  type: z.literal('audio'),
+  assetId: z.string().min(1), // AssetItem.id
+  role: z.enum(['bgm', 'sfx', 'narration']).optional(),
+  sourceStart: z.number().int().min(0).optional(), // 素材内の開始フレーム
+  volume: z.number().min(0).max(1).optional()
+});
+
+export const SolidLayerSchema = VisualLayerBaseSchema.extend({
+  type: z.literal('solid'),
+  color: z.string().min(1) // #RRGGBB など
+});
+
+// 配下（より背面）のレイヤー全体に effects を適用する
+export const AdjustmentLayerSchema = VisualLayerBaseSchema.extend({
+  type: z.literal('adjustment')
+});
+
+export const LayerSchema = z.discriminatedUnion('type', [
+  FootageLayerSchema,
+  ImageLayerSchema,
+  TextLayerSchema,
+  AudioLayerSchema,
+  SolidLayerSchema,
+  AdjustmentLayerSchema
+]);
+
+export const SceneGraphSchema = z.object({
+  "@context": z.string().url(),
+  "@id": z.string(),
+  version: z.literal(SCENE_GRAPH_VERSION).optional(),
+  type: z.enum(["Scene", "Comp", "Footage", "Effect"]),
+  fps: z.number().int().positive(),
+  duration: z.number().int().positive(), // フレーム
+  size: z.object({
+    w: z.number().int().positive(),
+    h: z.number().int().positive()
+  }),
+  layers: z.array(LayerSchema),
+  effects: z.array(EffectSchema).optional() // シーン全体に適用
+}).superRefine((graph, ctx) => {
+  const seen = new Set<string>();
+  graph.layers.forEach((layer, index) => {
+    if (seen.has(layer.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['layers', index, 'id'], message: `レイヤーIDが重複しています: ${layer.id}` });
+    }
+    seen.add(layer.id);
+
+    if (layer.timing.start + layer.timing.duration > graph.duration) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['layers', index, 'timing'],
+        message: `レイヤーがシーンの尺を超えています: ${layer.id} (${layer.timing.start + layer.timing.duration} > ${graph.duration})`
+      });
+    }
+  });
+});
+
+// 型付きレイヤー導入前の SceneGraph（layers/effects の中身は任意）。移行元の判定に使用
+export const LegacySceneGraphSchema = z.object({
+  "@context": z.string().url(),
+  "@id": z.string(),
+  type: z.enum(["Scene", "Comp", "Footage", "Effect"]),
+  fps: z.number().int().positive(),
+  duration: z.number().int().positive(),
+  size: z.object({
+    w: z.number().int().positive(),
+    h: z.number().int().positive()
+  }),
+  layers: z.array(z.any()),
+  effects: z.array(z.any()).optional()
+});
+
+export type LayerTiming = z.infer<typeof LayerTimingSchema>;
+export type Transform = z.infer<typeof TransformSchema>;
+export type Effect = z.infer<typeof EffectSchema>;
+export type Transition = z.infer<typeof TransitionSchema>;
+export type LayerTransitions = z.infer<typeof LayerTransitionsSchema>;
+export type FootageLayer = z.infer<typeof FootageLayerSchema>;
+export type ImageLayer = z.infer<typeof ImageLayerSchema>;
+export type TextLayer = z.infer<typeof TextLayerSchema>;
+export type AudioLayer = z.infer<typeof AudioLayerSchema>;
+export type SolidLayer = z.infer<typeof SolidLayerSchema>;
+export type AdjustmentLayer = z.infer<typeof AdjustmentLayerSchema>;
+export type Layer = z.infer<typeof LayerSchema>;
+export type SceneGraph = z.infer<typeof SceneGraphSchema>;
+export type LegacySceneGraph = z.infer<typeof LegacySceneGraphSchema>;
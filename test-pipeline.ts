@@ -4,6 +4,7 @@ import { DirectorAgent } from './src/agents/director-agent.js';
 import { EditorAgent } from './src/agents/editor-agent.js';
 import { CriticAgent } from './src/agents/critic-agent.js';
 import { DualBudgetManager } from './src/lib/dual-budget-manager.js';
+import { SceneGraphBuilder } from './src/lib/scene-graph-builder.js';
 import { EventDrivenOrchestrator } from './src/lib/event-driven-orchestrator.js';
 import chalk from 'chalk';
 
@@ -56,27 +57,16 @@ async function testPipeline() {
     console.log(chalk.green('✅ 動画構成決定完了'));
     console.log(chalk.gray(`タイムライン: ${directorOutput.composition.timeline.length}ショット`));
     
-    // 4. Editor Agent (SceneGraphが必要なので、簡易版)
+    // 4. Editor Agent (DirectorOutputからSceneGraphを生成)
     console.log(chalk.blue('\n🎬 Step 4: Editor Agent'));
-    const mockSceneGraph = {
-      "@context": "https://schema.motiva.dev/scene-graph/v2",
-      "@id": "test-scene",
-      "type": "Comp",
-      "fps": 30,
-      "duration": 900,
-      "size": { "w": 1920, "h": 1080 },
-      "layers": [
-        { "ref": "footage_1", "start": 0 },
-        { "ref": "footage_2", "start": 120 }
-      ]
-    };
-    const editorPatch = await editorAgent.run(mockSceneGraph);
+    const { sceneGraph } = await new SceneGraphBuilder().build(directorOutput, assetManifest.assets);
+    const editorPatch = await editorAgent.run(sceneGraph);
     console.log(chalk.green('✅ 編集提案生成完了'));
     console.log(chalk.gray(`編集提案数: ${editorPatch.length}`));
     
     // 5. Critic Agent
     console.log(chalk.blue('\n🎬 Step 5: Critic Agent'));
-    const criticReport = await criticAgent.run(mockSceneGraph);
+    const criticReport = await criticAgent.run(sceneGraph);
     console.log(chalk.green('✅ 品質評価完了'));
     console.log(chalk.yellow(`📊 総合スコア: ${criticReport.overallScore}/100`));
     